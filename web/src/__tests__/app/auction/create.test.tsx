@@ -70,7 +70,10 @@ jest.mock('@/lib/outcry-utils', () => ({
       { from_multiplier: 0, to_multiplier: 2, increment: 10 },
     ],
     timer_seconds: 15,
+    expiry_policy: 'AUTO_CLOSE',
   }),
+  getOutcryExpiryPolicy: (config: { expiry_policy?: string } | null) => config?.expiry_policy ?? 'SELL_ONLY',
+  EXPIRY_POLICY_LABELS: { AUTO_CLOSE: 'Auto close', SELL_ONLY: 'Sell only', MANUAL: 'Manual' },
 }))
 
 // Mock fetch
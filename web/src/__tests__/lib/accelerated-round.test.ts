@@ -0,0 +1,49 @@
+import { buildAcceleratedQueue, getReducedBasePrice, getReducedBasePrices } from '@/lib/accelerated-round'
+
+describe('buildAcceleratedQueue', () => {
+  it('keeps picked players in the order they went unsold', () => {
+    expect(buildAcceleratedQueue(['p1', 'p2', 'p3', 'p4'], ['p4', 'p2'])).toEqual(['p2', 'p4'])
+  })
+
+  it('lists a player picked by several teams once', () => {
+    expect(buildAcceleratedQueue(['p1', 'p2'], ['p1', 'p1', 'p2'])).toEqual(['p1', 'p2'])
+  })
+
+  it('ignores picks that are no longer unsold', () => {
+    expect(buildAcceleratedQueue(['p1'], ['p1', 'p9'])).toEqual(['p1'])
+    expect(buildAcceleratedQueue(['p1', 'p2'], [])).toEqual([])
+  })
+})
+
+describe('getReducedBasePrice', () => {
+  it('cuts the tier base price by the percentage', () => {
+    expect(getReducedBasePrice(100, 25)).toBe(75)
+    expect(getReducedBasePrice(90, 50)).toBe(45)
+    expect(getReducedBasePrice(30, 0)).toBe(30)
+  })
+
+  it('never goes below 1', () => {
+    expect(getReducedBasePrice(30, 100)).toBe(1)
+    expect(getReducedBasePrice(1, 50)).toBe(1)
+  })
+
+  it('clamps out-of-range percentages', () => {
+    expect(getReducedBasePrice(60, -20)).toBe(60)
+    expect(getReducedBasePrice(60, 150)).toBe(1)
+  })
+})
+
+describe('getReducedBasePrices', () => {
+  const players = [
+    { id: 'p1', tierBasePrice: 120 },
+    { id: 'p2', tierBasePrice: 1 },
+  ]
+
+  it('only includes players whose price drops', () => {
+    expect(getReducedBasePrices(players, 50)).toEqual({ p1: 60 })
+  })
+
+  it('is empty with no discount', () => {
+    expect(getReducedBasePrices(players, 0)).toEqual({})
+  })
+})
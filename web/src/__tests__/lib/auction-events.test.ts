@@ -0,0 +1,187 @@
+import {
+  buildAuctionTimeline,
+  parseAuctionEvent,
+  previewRevert,
+  type AuctionEvent,
+  type AuctionEventAction,
+} from '@/lib/auction-events'
+
+let seq = 0
+let version = 0
+
+function forward(
+  id: string,
+  action: Exclude<AuctionEventAction, 'UNDO'>,
+  playerName: string,
+  extra: Partial<AuctionEvent> = {}
+): AuctionEvent {
+  seq += 1
+  version += 1
+  return {
+    id,
+    seq,
+    action,
+    at: null,
+    beforeVersion: version - 1,
+    afterVersion: version,
+    playerId: `p-${playerName}`,
+    playerName,
+    teamName: action === 'SOLD' ? 'Team A' : null,
+    price: action === 'SOLD' ? 100 : 0,
+    redoOf: null,
+    reverted: [],
+    ...extra,
+  }
+}
+
+function undo(id: string, reverted: string[]): AuctionEvent {
+  seq += 1
+  version += 1
+  return {
+    id,
+    seq,
+    action: 'UNDO',
+    at: null,
+    beforeVersion: version - 1,
+    afterVersion: version,
+    playerId: null,
+    playerName: null,
+    teamName: null,
+    price: 0,
+    redoOf: null,
+    reverted,
+  }
+}
+
+describe('auction-events', () => {
+  beforeEach(() => {
+    seq = 0
+    version = 0
+  })
+
+  describe('parseAuctionEvent', () => {
+    it('should map an audit_logs row', () => {
+      const event = parseAuctionEvent({
+        id: 'e1',
+        action: 'SOLD',
+        timestamp: '2026-01-01T00:00:00Z',
+        details: { seq: 3, beforeVersion: 2, afterVersion: 3, playerName: 'Kohli', teamName: 'Team A', price: 120 },
+      })
+      expect(event).toMatchObject({ id: 'e1', seq: 3, action: 'SOLD', playerName: 'Kohli', price: 120, reverted: [] })
+    })
+
+    it('should ignore rows that are not auctioneer actions', () => {
+      expect(parseAuctionEvent({ id: 'x', action: 'SETTINGS_CHANGED', details: { seq: 1 } })).toBeNull()
+      expect(parseAuctionEvent({ id: 'x', action: 'SOLD', details: null })).toBeNull()
+    })
+  })
+
+  describe('buildAuctionTimeline', () => {
+    it('should put every forward action on the undo stack', () => {
+      const events = [forward('a', 'SOLD', 'A'), forward('b', 'UNSOLD', 'B')]
+      const timeline = buildAuctionTimeline(events, version)
+
+      expect(timeline.done).toEqual(['a', 'b'])
+      expect(timeline.redo).toEqual([])
+      expect(timeline.entries.map(e => e.id)).toEqual(['b', 'a'])
+      expect(timeline.entries.every(e => e.status === 'applied')).toBe(true)
+    })
+
+    it('should move undone events to the redo stack, next redo last', () => {
+      const events = [
+        forward('a', 'SOLD', 'A'),
+        forward('b', 'DEFER', 'B'),
+        forward('c', 'UNSOLD', 'C'),
+        undo('u1', ['c', 'b']),
+      ]
+      const timeline = buildAuctionTimeline(events, version)
+
+      expect(timeline.done).toEqual(['a'])
+      expect(timeline.redo).toEqual(['c', 'b'])
+      expect(timeline.entries.find(e => e.id === 'b')?.status).toBe('undone')
+    })
+
+    it('should replace a redone event with its replay', () => {
+      const events = [forward('a', 'SOLD', 'A'), undo('u1', ['a'])]
+      events.push(forward('a2', 'SOLD', 'A', { redoOf: 'a' }))
+      const timeline = buildAuctionTimeline(events, version)
+
+      expect(timeline.done).toEqual(['a2'])
+      expect(timeline.redo).toEqual([])
+    })
+
+    it('should discard the redo stack when a new action branches off', () => {
+      const events = [forward('a', 'SOLD', 'A'), undo('u1', ['a']), forward('b', 'UNSOLD', 'A')]
+      const timeline = buildAuctionTimeline(events, version)
+
+      expect(timeline.done).toEqual(['b'])
+      expect(timeline.redo).toEqual([])
+      expect(timeline.entries.find(e => e.id === 'a')?.status).toBe('discarded')
+    })
+
+    it('should reset when queue_state was replaced outside the log', () => {
+      const events = [forward('a', 'SOLD', 'A')]
+      version += 1 // auction restarted via /state
+      events.push(forward('b', 'SOLD', 'B'))
+      const timeline = buildAuctionTimeline(events, version)
+
+      expect(timeline.done).toEqual(['b'])
+      expect(timeline.entries.find(e => e.id === 'a')?.status).toBe('discarded')
+    })
+
+    it('should keep the stacks across a nomination and drop it for good on undo', () => {
+      const events = [forward('a', 'SOLD', 'A'), forward('n', 'NOMINATE', 'B')]
+      const nominated = buildAuctionTimeline(events, version)
+
+      expect(nominated.done).toEqual(['a', 'n'])
+
+      events.push(undo('u1', ['n', 'a']))
+      const timeline = buildAuctionTimeline(events, version)
+
+      expect(timeline.done).toEqual([])
+      expect(timeline.redo).toEqual(['a'])
+      expect(timeline.entries.find(e => e.id === 'n')?.status).toBe('discarded')
+      expect(timeline.entries.find(e => e.id === 'a')?.status).toBe('undone')
+    })
+
+    it('should expose nothing when the tip is behind the current version', () => {
+      const events = [forward('a', 'SOLD', 'A')]
+      const timeline = buildAuctionTimeline(events, version + 1)
+
+      expect(timeline.done).toEqual([])
+      expect(timeline.redo).toEqual([])
+    })
+  })
+
+  describe('previewRevert', () => {
+    it('should list every action back to the target, newest first', () => {
+      const events = [
+        forward('a', 'SOLD', 'A'),
+        forward('b', 'SOLD', 'B'),
+        forward('c', 'DEFER', 'C'),
+      ]
+      const preview = previewRevert(buildAuctionTimeline(events, version), 'a')
+
+      expect(preview?.effects).toEqual([
+        'Bring C back from deferred',
+        'Unsell B from Team A (refund 100)',
+        'Unsell A from Team A (refund 100)',
+      ])
+      expect(preview?.refund).toEqual([{ teamName: 'Team A', amount: 200 }])
+      expect(preview?.playerOnBlock).toBe('A')
+    })
+
+    it('should send a reverted nomination back to the pool, not the block', () => {
+      const events = [forward('n', 'NOMINATE', 'B', { teamName: 'Team B' })]
+      const preview = previewRevert(buildAuctionTimeline(events, version), 'n')
+
+      expect(preview?.effects).toEqual(['Withdraw the nomination of B (Team B nominates again)'])
+      expect(preview?.playerOnBlock).toBeNull()
+    })
+
+    it('should return null for events that are not applied', () => {
+      const events = [forward('a', 'SOLD', 'A'), undo('u1', ['a'])]
+      expect(previewRevert(buildAuctionTimeline(events, version), 'a')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import {
+  GAVEL_STALE_SECONDS, findGavelHolder, getGavelClaim, isGavelStale, toGavelView,
+  type AuctionGavel, type GavelPresence,
+} from '@/lib/auction-gavel'
+
+const now = new Date('2026-03-01T12:00:00Z').getTime()
+const secondsAgo = (s: number) => new Date(now - s * 1000).toISOString()
+
+function gavel(overrides: Partial<AuctionGavel> = {}): AuctionGavel {
+  return {
+    holderUserId: 'owner',
+    holderName: 'Olivia',
+    sessionId: 'session-a',
+    claimedAt: secondsAgo(120),
+    heartbeatAt: secondsAgo(5),
+    offeredToUserId: null,
+    offeredToName: null,
+    ...overrides,
+  }
+}
+
+describe('isGavelStale', () => {
+  it('is fresh while heartbeats keep coming', () => {
+    expect(isGavelStale({ heartbeatAt: secondsAgo(GAVEL_STALE_SECONDS) }, now)).toBe(false)
+  })
+
+  it('goes stale once the holder is quiet for too long', () => {
+    expect(isGavelStale({ heartbeatAt: secondsAgo(GAVEL_STALE_SECONDS + 1) }, now)).toBe(true)
+  })
+})
+
+describe('getGavelClaim', () => {
+  const mod = { userId: 'mod', sessionId: 'session-b', role: 'MODERATOR' as const }
+
+  it('is FREE when nobody holds the gavel', () => {
+    expect(getGavelClaim(null, mod, now)).toBe('FREE')
+  })
+
+  it('is HELD for the session that holds it', () => {
+    expect(getGavelClaim(gavel(), { userId: 'owner', sessionId: 'session-a', role: 'OWNER' }, now)).toBe('HELD')
+  })
+
+  it('is STALE when the holder stopped sending heartbeats', () => {
+    expect(getGavelClaim(gavel({ heartbeatAt: secondsAgo(GAVEL_STALE_SECONDS + 10) }), mod, now)).toBe('STALE')
+  })
+
+  it('is OFFERED to the user it was handed over to', () => {
+    expect(getGavelClaim(gavel({ offeredToUserId: 'mod' }), mod, now)).toBe('OFFERED')
+  })
+
+  it('blocks everyone else while the holder is active', () => {
+    expect(getGavelClaim(gavel(), mod, now)).toBe('BLOCKED')
+    expect(getGavelClaim(gavel({ offeredToUserId: 'someone-else' }), mod, now)).toBe('BLOCKED')
+  })
+
+  it('lets the owner take it back with force', () => {
+    const held = gavel({ holderUserId: 'mod', holderName: 'Max' })
+    const owner = { userId: 'owner', sessionId: 'session-c', role: 'OWNER' as const }
+    expect(getGavelClaim(held, owner, now)).toBe('BLOCKED')
+    expect(getGavelClaim(held, { ...owner, force: true }, now)).toBe('TAKEN_BACK')
+  })
+
+  it('lets a user move it from another of their own windows with force', () => {
+    const held = gavel({ holderUserId: 'mod', holderName: 'Max' })
+    expect(getGavelClaim(held, { ...mod, force: true }, now)).toBe('TAKEN_BACK')
+  })
+
+  it("doesn't let a moderator force it from someone else", () => {
+    expect(getGavelClaim(gavel(), { ...mod, force: true }, now)).toBe('BLOCKED')
+  })
+})
+
+describe('toGavelView', () => {
+  const you = { userId: 'mod', name: 'Max', role: 'MODERATOR' as const }
+
+  it('shows an empty gavel', () => {
+    expect(toGavelView(null, 'session-b', you, now)).toEqual({
+      holder: null, heldByYou: false, stale: false, offeredTo: null, you,
+    })
+  })
+
+  it('tells the holding session apart from the user\'s other windows', () => {
+    const held = gavel({ holderUserId: 'mod', holderName: 'Max', sessionId: 'session-b' })
+    expect(toGavelView(held, 'session-b', you, now).heldByYou).toBe(true)
+    expect(toGavelView(held, 'session-z', you, now).heldByYou).toBe(false)
+    expect(toGavelView(held, null, you, now).heldByYou).toBe(false)
+  })
+
+  it('includes the pending offer and staleness, but not the session', () => {
+    const view = toGavelView(
+      gavel({ offeredToUserId: 'mod', offeredToName: 'Max', heartbeatAt: secondsAgo(GAVEL_STALE_SECONDS + 1) }),
+      'session-b', you, now
+    )
+    expect(view).toEqual({
+      holder: { userId: 'owner', name: 'Olivia' },
+      heldByYou: false,
+      stale: true,
+      offeredTo: { userId: 'mod', name: 'Max' },
+      you,
+    })
+    expect(JSON.stringify(view)).not.toContain('session-a')
+  })
+})
+
+describe('findGavelHolder', () => {
+  const entry = (userId: string, holdsGavel: boolean): GavelPresence => ({
+    userId, name: userId.toUpperCase(), role: 'MODERATOR', holdsGavel,
+  })
+
+  it('finds the tab holding the gavel', () => {
+    expect(findGavelHolder({
+      a: [entry('owner', false)],
+      b: [entry('mod', false), entry('mod', true)],
+    })).toEqual(entry('mod', true))
+  })
+
+  it('is null when no auctioneer tab holds it', () => {
+    expect(findGavelHolder({})).toBeNull()
+    expect(findGavelHolder({ a: [entry('owner', false)] })).toBeNull()
+  })
+})
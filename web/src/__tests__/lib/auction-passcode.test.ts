@@ -0,0 +1,51 @@
+import {
+  GENERATED_PASSCODE_LENGTH,
+  PASSCODE_WINDOW_MINUTES,
+  generatePasscode,
+  getPasscodeErrorMessage,
+  normalizePasscode,
+  passcodeSchema,
+} from '@/lib/auction-passcode'
+
+describe('generatePasscode', () => {
+  it('uses only unambiguous characters', () => {
+    for (let i = 0; i < 50; i++) {
+      const passcode = generatePasscode()
+      expect(passcode).toHaveLength(GENERATED_PASSCODE_LENGTH)
+      expect(passcode).toMatch(/^[A-HJKMNP-Z2-9]+$/)
+    }
+  })
+
+  it('comes back already normalized', () => {
+    const passcode = generatePasscode(8)
+    expect(normalizePasscode(passcode)).toBe(passcode)
+  })
+})
+
+describe('normalizePasscode', () => {
+  it('trims and upper-cases', () => {
+    expect(normalizePasscode('  abc123 ')).toBe('ABC123')
+  })
+})
+
+describe('passcodeSchema', () => {
+  it('accepts 4 to 32 characters after trimming', () => {
+    expect(passcodeSchema.parse(' team ')).toBe('team')
+    expect(passcodeSchema.safeParse('abc').success).toBe(false)
+    expect(passcodeSchema.safeParse('x'.repeat(33)).success).toBe(false)
+  })
+})
+
+describe('getPasscodeErrorMessage', () => {
+  it('gives the wait when rate limited', () => {
+    expect(getPasscodeErrorMessage('RATE_LIMITED', 0, 61)).toBe('Too many wrong passcodes. Try again in 2 minutes.')
+    expect(getPasscodeErrorMessage('RATE_LIMITED', 0, 30)).toBe('Too many wrong passcodes. Try again in 1 minute.')
+  })
+
+  it('warns as the attempts run out', () => {
+    expect(getPasscodeErrorMessage('WRONG_PASSCODE', 4, null)).toBe('Incorrect passcode')
+    expect(getPasscodeErrorMessage('WRONG_PASSCODE', 1, null)).toBe('Incorrect passcode. 1 attempt left.')
+    expect(getPasscodeErrorMessage('WRONG_PASSCODE', 0, null))
+      .toBe(`Incorrect passcode. Try again in ${PASSCODE_WINDOW_MINUTES} minutes.`)
+  })
+})
@@ -0,0 +1,184 @@
+import {
+  canPerform, checkAuctionPermission, checkTeamPermission, getAuctionRole,
+  type AuctionOperation, type AuctionRole,
+} from '@/lib/auction-permissions'
+
+// Tables keyed by name; every filter narrows the rows, maybeSingle takes the first
+type Rows = Record<string, Array<Record<string, unknown>>>
+
+function fakeSupabase(tables: Rows) {
+  return {
+    from(table: string) {
+      let rows = tables[table] || []
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter(r => r[column] === value)
+          return query
+        },
+        limit: (n: number) => Promise.resolve({ data: rows.slice(0, n), error: null }),
+        maybeSingle: () => Promise.resolve({ data: rows[0] ?? null, error: null }),
+      }
+      return query
+    },
+  }
+}
+
+let mockTables: Rows = {}
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: async () => fakeSupabase(mockTables),
+}))
+
+const auction = { id: 'auction-1', owner_id: 'owner' }
+
+function tablesWith(participations: Array<{ user_id: string; role: AuctionRole }>, captains: string[] = []): Rows {
+  return {
+    auctions: [auction],
+    auction_participations: participations.map(p => ({ auction_id: auction.id, ...p })),
+    teams: captains.map((userId, i) => ({ id: `team-${i}`, auction_id: auction.id, captain_user_id: userId })),
+  }
+}
+
+const operations: AuctionOperation[] = [
+  'CONFIGURE', 'DELETE', 'RUN_ROUNDS', 'BID', 'MANAGE_TEAM_ADMINS', 'CHANGE_CAPTAIN',
+]
+const allowed = (role: AuctionRole | null) => operations.filter(op => canPerform(role, op))
+
+describe('canPerform', () => {
+  it('lets the owner do everything', () => {
+    expect(allowed('OWNER')).toEqual(operations)
+  })
+
+  it('lets a moderator run rounds and bid, but not change or delete the auction', () => {
+    expect(allowed('MODERATOR')).toEqual(['RUN_ROUNDS', 'BID'])
+  })
+
+  it('lets a captain bid and manage their team, but not run the auction', () => {
+    expect(allowed('CAPTAIN')).toEqual(['BID', 'MANAGE_TEAM_ADMINS', 'CHANGE_CAPTAIN'])
+  })
+
+  it('lets viewers and outsiders do nothing', () => {
+    expect(allowed('VIEWER')).toEqual([])
+    expect(allowed(null)).toEqual([])
+  })
+})
+
+describe('getAuctionRole', () => {
+  it('treats the auction owner as OWNER whatever their participation says', async () => {
+    const supabase = fakeSupabase(tablesWith([{ user_id: 'owner', role: 'VIEWER' }]))
+    expect(await getAuctionRole(supabase as never, auction, 'owner')).toBe('OWNER')
+  })
+
+  it('uses the participation role', async () => {
+    const supabase = fakeSupabase(tablesWith([
+      { user_id: 'mod', role: 'MODERATOR' },
+      { user_id: 'cap', role: 'CAPTAIN' },
+      { user_id: 'viewer', role: 'VIEWER' },
+    ]))
+    expect(await getAuctionRole(supabase as never, auction, 'mod')).toBe('MODERATOR')
+    expect(await getAuctionRole(supabase as never, auction, 'cap')).toBe('CAPTAIN')
+    expect(await getAuctionRole(supabase as never, auction, 'viewer')).toBe('VIEWER')
+  })
+
+  it('counts a team captain as CAPTAIN without a participation, or with a viewer one', async () => {
+    const supabase = fakeSupabase(tablesWith([{ user_id: 'late', role: 'VIEWER' }], ['assigned', 'late']))
+    expect(await getAuctionRole(supabase as never, auction, 'assigned')).toBe('CAPTAIN')
+    expect(await getAuctionRole(supabase as never, auction, 'late')).toBe('CAPTAIN')
+  })
+
+  it('is null for someone with no part in the auction', async () => {
+    const supabase = fakeSupabase(tablesWith([]))
+    expect(await getAuctionRole(supabase as never, auction, 'stranger')).toBeNull()
+  })
+})
+
+describe('checkAuctionPermission', () => {
+  beforeEach(() => {
+    mockTables = tablesWith([
+      { user_id: 'mod', role: 'MODERATOR' },
+      { user_id: 'cap', role: 'CAPTAIN' },
+      { user_id: 'viewer', role: 'VIEWER' },
+    ])
+  })
+
+  it('requires a signed-in user', async () => {
+    expect(await checkAuctionPermission(auction.id, null, 'BID')).toMatchObject({ success: false, statusCode: 401 })
+  })
+
+  it('answers 404 for an auction the user cannot see', async () => {
+    expect(await checkAuctionPermission('missing', 'owner', 'CONFIGURE')).toMatchObject({ success: false, statusCode: 404 })
+  })
+
+  describe('owner', () => {
+    it.each(operations)('may %s', async operation => {
+      expect(await checkAuctionPermission(auction.id, 'owner', operation)).toEqual({ success: true, role: 'OWNER' })
+    })
+  })
+
+  describe('moderator', () => {
+    it('may run rounds and bid', async () => {
+      expect(await checkAuctionPermission(auction.id, 'mod', 'RUN_ROUNDS')).toEqual({ success: true, role: 'MODERATOR' })
+      expect(await checkAuctionPermission(auction.id, 'mod', 'BID')).toEqual({ success: true, role: 'MODERATOR' })
+    })
+
+    it('may not change or delete the auction', async () => {
+      expect(await checkAuctionPermission(auction.id, 'mod', 'CONFIGURE')).toEqual({
+        success: false, role: 'MODERATOR', error: "You don't have permission to change this auction", statusCode: 403,
+      })
+      expect(await checkAuctionPermission(auction.id, 'mod', 'DELETE')).toMatchObject({ success: false, statusCode: 403 })
+    })
+
+    it.each(['MANAGE_TEAM_ADMINS', 'CHANGE_CAPTAIN'] as AuctionOperation[])('may not %s', async operation => {
+      expect(await checkAuctionPermission(auction.id, 'mod', operation)).toMatchObject({ success: false, statusCode: 403 })
+    })
+  })
+
+  describe('captain', () => {
+    it('may bid', async () => {
+      expect(await checkAuctionPermission(auction.id, 'cap', 'BID')).toEqual({ success: true, role: 'CAPTAIN' })
+    })
+
+    it.each(['CONFIGURE', 'DELETE', 'RUN_ROUNDS'] as AuctionOperation[])('may not %s', async operation => {
+      expect(await checkAuctionPermission(auction.id, 'cap', operation)).toMatchObject({ success: false, statusCode: 403 })
+    })
+  })
+
+  describe('viewer', () => {
+    it.each(operations)('may not %s', async operation => {
+      expect(await checkAuctionPermission(auction.id, 'viewer', operation)).toMatchObject({ success: false, statusCode: 403 })
+    })
+  })
+})
+
+describe('checkTeamPermission', () => {
+  beforeEach(() => {
+    mockTables = tablesWith([
+      { user_id: 'mod', role: 'MODERATOR' },
+      { user_id: 'viewer', role: 'VIEWER' },
+    ], ['cap', 'rival'])
+  })
+
+  it.each(['MANAGE_TEAM_ADMINS', 'CHANGE_CAPTAIN'] as AuctionOperation[])('lets the owner %s for any team', async operation => {
+    expect(await checkTeamPermission(auction.id, 'team-1', 'owner', operation)).toEqual({ success: true, role: 'OWNER' })
+  })
+
+  it("lets a captain manage their own team's admins and captaincy", async () => {
+    expect(await checkTeamPermission(auction.id, 'team-0', 'cap', 'MANAGE_TEAM_ADMINS')).toEqual({ success: true, role: 'CAPTAIN' })
+    expect(await checkTeamPermission(auction.id, 'team-0', 'cap', 'CHANGE_CAPTAIN')).toEqual({ success: true, role: 'CAPTAIN' })
+  })
+
+  it("refuses a captain another team's", async () => {
+    expect(await checkTeamPermission(auction.id, 'team-1', 'cap', 'CHANGE_CAPTAIN')).toEqual({
+      success: false, role: 'CAPTAIN', error: "Only this team's captain or the auctioneer can change team captains", statusCode: 403,
+    })
+  })
+
+  it('answers 404 to a captain for a team outside the auction', async () => {
+    expect(await checkTeamPermission(auction.id, 'missing', 'cap', 'MANAGE_TEAM_ADMINS')).toMatchObject({ success: false, statusCode: 404 })
+  })
+
+  it('refuses moderators and viewers', async () => {
+    expect(await checkTeamPermission(auction.id, 'team-0', 'mod', 'MANAGE_TEAM_ADMINS')).toMatchObject({ success: false, statusCode: 403 })
+    expect(await checkTeamPermission(auction.id, 'team-0', 'viewer', 'CHANGE_CAPTAIN')).toMatchObject({ success: false, statusCode: 403 })
+  })
+})
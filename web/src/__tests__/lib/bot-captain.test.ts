@@ -0,0 +1,75 @@
+import { canManageBots, getBotCandidates, getTierRating } from '@/lib/bot-captain'
+import { getBotValuation, needsRole } from '@/lib/bot-strategy'
+
+describe('canManageBots', () => {
+  it('allows changes during setup and while live', () => {
+    expect(canManageBots('DRAFT')).toBe(true)
+    expect(canManageBots('LOBBY')).toBe(true)
+    expect(canManageBots('LIVE')).toBe(true)
+  })
+
+  it('locks bots once the auction is over', () => {
+    expect(canManageBots('COMPLETED')).toBe(false)
+    expect(canManageBots('ARCHIVED')).toBe(false)
+  })
+})
+
+describe('getTierRating', () => {
+  it('gives the best tier the top band', () => {
+    expect(getTierRating(0, 4, 0)).toBe(0.75)
+    expect(getTierRating(0, 4, 1)).toBe(1)
+  })
+
+  it('gives the last tier the bottom band', () => {
+    expect(getTierRating(3, 4, 0)).toBe(0)
+    expect(getTierRating(3, 4, 0.5)).toBe(0.125)
+  })
+
+  it('puts untiered players in the lower half', () => {
+    expect(getTierRating(-1, 4, 1)).toBe(0.5)
+    expect(getTierRating(0, 0, 0.4)).toBe(0.2)
+  })
+})
+
+describe('getBotCandidates', () => {
+  const prices = [
+    { teamId: 'b', price: 300 },
+    { teamId: 'a', price: 500 },
+    { teamId: 'c', price: 500 },
+    { teamId: 'd', price: 150 },
+  ]
+
+  it('lists bots that would pay the next bid, keenest first', () => {
+    expect(getBotCandidates(prices, 200, null).map(c => c.teamId)).toEqual(['a', 'c', 'b'])
+  })
+
+  it('leaves out the team already leading', () => {
+    expect(getBotCandidates(prices, 400, 'a').map(c => c.teamId)).toEqual(['c'])
+  })
+
+  it('is empty once the price passes every bot', () => {
+    expect(getBotCandidates(prices, 501, null)).toEqual([])
+  })
+})
+
+describe('getBotValuation', () => {
+  const player = { basePrice: 100, playingRole: 'BOWLER' as const, rating: 0.5 }
+  const team = { maxBid: 1000, squadSize: 11, roleCounts: {} }
+  const random = () => 0.5
+
+  it('pays a fair price for value', () => {
+    expect(getBotValuation('VALUE', player, team, random)).toBe(150)
+  })
+
+  it('pays more for a role the squad needs and less once it is covered', () => {
+    expect(getBotValuation('ROLE_NEED', player, team, random)).toBe(225)
+    const covered = { ...team, roleCounts: { BOWLER: 4 } }
+    expect(needsRole(covered, 'BOWLER')).toBe(false)
+    expect(getBotValuation('ROLE_NEED', player, covered, random)).toBe(120)
+  })
+
+  it('never goes past the bid limit and passes below base price', () => {
+    expect(getBotValuation('AGGRESSIVE', player, { ...team, maxBid: 200 }, random)).toBe(200)
+    expect(getBotValuation('VALUE', player, { ...team, maxBid: 90 }, random)).toBe(0)
+  })
+})
@@ -0,0 +1,59 @@
+import { calculateBidLimit, formatBidLimitError, getRequiredSquadSize, type ReserveTier } from '@/lib/budget-utils'
+
+function tier(id: string, basePrice: number, minPerTeam = 0, acquired = 0): ReserveTier {
+  return { id, basePrice, minPerTeam, acquired }
+}
+
+describe('calculateBidLimit', () => {
+  const tiers = [tier('gold', 100, 2), tier('silver', 50, 1), tier('bronze', 20)]
+
+  it('reserves the cheapest base price for open slots once tier minimums are met', () => {
+    const result = calculateBidLimit({
+      remaining: 1000,
+      slotsToFill: 5,
+      tiers: [tier('gold', 100, 2, 2), tier('silver', 50, 1, 1), tier('bronze', 20)],
+    })
+
+    expect(result.reserve).toBe(4 * 20)
+    expect(result.maxBid).toBe(920)
+  })
+
+  it('reserves each unmet tier minimum at that tier’s base price', () => {
+    const result = calculateBidLimit({ remaining: 1000, slotsToFill: 5, tiers })
+
+    // 2 gold + 1 silver + 1 more at the cheapest price
+    expect(result.reserve).toBe(2 * 100 + 50 + 20)
+    expect(result.maxBid).toBe(730)
+  })
+
+  it('counts the player on the block towards their tier minimum', () => {
+    const result = calculateBidLimit({ remaining: 1000, slotsToFill: 5, tiers, forTierId: 'gold' })
+
+    expect(result.reserve).toBe(100 + 50 + 2 * 20)
+  })
+
+  it('reserves nothing for the last open slot', () => {
+    const result = calculateBidLimit({ remaining: 300, slotsToFill: 1, tiers, forTierId: 'bronze' })
+
+    expect(result).toEqual({ remaining: 300, reserve: 0, maxBid: 300 })
+  })
+
+  it('never goes below zero', () => {
+    expect(calculateBidLimit({ remaining: 100, slotsToFill: 5, tiers }).maxBid).toBe(0)
+  })
+})
+
+describe('getRequiredSquadSize', () => {
+  it('caps the squad size at each team’s share of the pool', () => {
+    expect(getRequiredSquadSize(11, 100, 4)).toBe(11)
+    expect(getRequiredSquadSize(11, 30, 4)).toBe(7)
+  })
+})
+
+describe('formatBidLimitError', () => {
+  it('explains the reserve when one is held back', () => {
+    expect(formatBidLimitError({ remaining: 500, reserve: 120, maxBid: 380 }))
+      .toBe('You can bid up to 380 — 120 is held back to complete your squad')
+    expect(formatBidLimitError({ remaining: 50, reserve: 0, maxBid: 50 })).toBe('Insufficient budget')
+  })
+})
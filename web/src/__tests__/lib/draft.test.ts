@@ -0,0 +1,95 @@
+import {
+  chooseAutoPick, getDraftPickError, getDraftTeam, getTierMinimumError,
+  type DraftPlayer, type DraftSquad,
+} from '@/lib/draft'
+
+const order = ['team-a', 'team-b', 'team-c']
+
+const tiers = [
+  { id: 'tier-0', name: 'Tier 0', minPerTeam: 1, maxPerTeam: 2 },
+  { id: 'tier-1', name: 'Tier 1', minPerTeam: 0, maxPerTeam: null },
+]
+
+function squad(overrides: Partial<DraftSquad> = {}): DraftSquad {
+  return { tiers, roleRules: null, tierCounts: {}, roleCounts: {}, openSlots: 5, ...overrides }
+}
+
+function player(id: string, tierId: string | null = 'tier-1', playingRole: DraftPlayer['playingRole'] = 'BATSMAN'): DraftPlayer {
+  return { id, name: id, playingRole, tierId, tierName: null }
+}
+
+describe('getDraftTeam', () => {
+  it('repeats the order in LINEAR mode', () => {
+    expect([0, 1, 2, 3].map(pick => getDraftTeam(order, 'LINEAR', pick, () => false)?.teamId))
+      .toEqual(['team-a', 'team-b', 'team-c', 'team-a'])
+  })
+
+  it('reverses every other round in SNAKE mode', () => {
+    expect([0, 1, 2, 3, 4, 5].map(pick => getDraftTeam(order, 'SNAKE', pick, () => false)?.teamId))
+      .toEqual(['team-a', 'team-b', 'team-c', 'team-c', 'team-b', 'team-a'])
+  })
+
+  it('skips teams with a full squad', () => {
+    expect(getDraftTeam(order, 'LINEAR', 0, id => id === 'team-a')).toEqual({ teamId: 'team-b', turn: 1 })
+  })
+
+  it('returns null once every squad is full', () => {
+    expect(getDraftTeam(order, 'SNAKE', 4, () => true)).toBeNull()
+  })
+})
+
+describe('getTierMinimumError', () => {
+  it('allows any pick while there are spare slots', () => {
+    expect(getTierMinimumError(squad({ openSlots: 2 }), 'tier-1')).toBeNull()
+  })
+
+  it('blocks a pick that would leave no room for a tier minimum', () => {
+    expect(getTierMinimumError(squad({ openSlots: 1 }), 'tier-1'))
+      .toBe('Your remaining picks have to meet the tier minimums: 1 more Tier 0')
+  })
+
+  it('allows the pick that meets the minimum', () => {
+    expect(getTierMinimumError(squad({ openSlots: 1 }), 'tier-0')).toBeNull()
+  })
+})
+
+describe('getDraftPickError', () => {
+  it('rejects any pick once the squad is full', () => {
+    expect(getDraftPickError(squad({ openSlots: 0 }), player('p1'))).toBe('Your squad is full')
+  })
+
+  it('rejects a pick over the tier maximum', () => {
+    expect(getDraftPickError(squad({ tierCounts: { 'tier-0': 2 } }), player('p1', 'tier-0')))
+      .toBe('Your team already has 2 Tier 0 players — the maximum for that tier')
+  })
+
+  it('rejects a pick over the role maximum', () => {
+    const rules = { WICKETKEEPER: { max: 1 } }
+    expect(getDraftPickError(squad({ roleRules: rules, roleCounts: { WICKETKEEPER: 1 } }), player('p1', 'tier-1', 'WICKETKEEPER')))
+      .toMatch(/the most a squad can have/)
+  })
+
+  it('allows a pick within the rules', () => {
+    expect(getDraftPickError(squad(), player('p1'))).toBeNull()
+  })
+})
+
+describe('chooseAutoPick', () => {
+  const available = [player('p1', 'tier-0'), player('p2'), player('p3')]
+
+  it('takes the highest-ranked player still available', () => {
+    expect(chooseAutoPick(['gone', 'p3', 'p2'], available, () => true)?.id).toBe('p3')
+  })
+
+  it('skips ranked players the squad rules rule out', () => {
+    expect(chooseAutoPick(['p3', 'p2'], available, p => p.id !== 'p3')?.id).toBe('p2')
+  })
+
+  it('falls back to the best available player without rankings', () => {
+    expect(chooseAutoPick([], available, () => true)?.id).toBe('p1')
+  })
+
+  it('returns null when nobody fits', () => {
+    expect(chooseAutoPick(['p1'], available, () => false)).toBeNull()
+  })
+})
@@ -0,0 +1,160 @@
+import {
+  getBalanceScore, getDryRunRecommendations, runDryRun, splitPool,
+  type DryRunConfig, type DryRunResult,
+} from '@/lib/dry-run'
+import { getBotValuation } from '@/lib/bot-strategy'
+
+const tiers = [
+  { name: 'Tier 0', basePrice: 120, minPerTeam: 0, maxPerTeam: 5 },
+  { name: 'Tier 1', basePrice: 90, minPerTeam: 0, maxPerTeam: 6 },
+  { name: 'Tier 2', basePrice: 60, minPerTeam: 0, maxPerTeam: 25 },
+  { name: 'Tier 3', basePrice: 30, minPerTeam: 0, maxPerTeam: 14 },
+]
+
+const config: DryRunConfig = {
+  teamCount: 4,
+  budgetPerTeam: 600,
+  squadSize: 11,
+  playerPoolSize: 50,
+  biddingType: 'OPEN_OUTCRY',
+  tiers,
+  runs: 50,
+  seed: 'dry-run-seed',
+}
+
+describe('splitPool', () => {
+  it('shares the pool out as a pyramid', () => {
+    expect(splitPool(50, tiers)).toEqual([5, 10, 15, 20])
+  })
+
+  it('gives rounding leftovers to the cheapest tiers', () => {
+    const counts = splitPool(53, tiers)
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(53)
+    expect(counts).toEqual([5, 10, 16, 22])
+  })
+
+  it('keeps fixed tier counts and shares out the rest', () => {
+    expect(splitPool(40, [{ ...tiers[0], playerCount: 4 }, tiers[1], tiers[2]])).toEqual([4, 14, 22])
+  })
+})
+
+describe('getBalanceScore', () => {
+  it('is 100 when every team is equally strong', () => {
+    expect(getBalanceScore([5, 5, 5])).toBe(100)
+  })
+
+  it('falls as the spread grows', () => {
+    expect(getBalanceScore([4, 5, 6])).toBeGreaterThan(getBalanceScore([2, 5, 8]))
+  })
+})
+
+describe('getBotValuation', () => {
+  const player = { basePrice: 100, playingRole: 'BOWLER' as const, rating: 0.5 }
+  const team = { maxBid: 1000, squadSize: 11, roleCounts: {} }
+  const random = () => 0.5
+
+  it('pays up to a fair price for VALUE', () => {
+    expect(getBotValuation('VALUE', player, team, random)).toBe(150)
+  })
+
+  it('pays more for a needed role and less otherwise for ROLE_NEED', () => {
+    expect(getBotValuation('ROLE_NEED', player, team, random)).toBe(225)
+    expect(getBotValuation('ROLE_NEED', player, { ...team, roleCounts: { BOWLER: 4 } }, random)).toBe(120)
+  })
+
+  it('caps the bid at the team limit and passes below base price', () => {
+    expect(getBotValuation('AGGRESSIVE', player, { ...team, maxBid: 160 }, random)).toBe(160)
+    expect(getBotValuation('VALUE', player, { ...team, maxBid: 99 }, random)).toBe(0)
+  })
+})
+
+describe('runDryRun', () => {
+  it('gives the same result for the same seed', () => {
+    expect(runDryRun(config)).toEqual(runDryRun(config))
+  })
+
+  it('reports on every run, tier and strategy', () => {
+    const result = runDryRun(config)
+    expect(result.runs).toBe(50)
+    expect(result.slotsPerTeam).toBe(11)
+    expect(result.poolShortfall).toBe(0)
+    expect(result.minimumBudget).toBe(330)
+    expect(result.tiers.map(t => t.players)).toEqual([5, 10, 15, 20])
+    expect(result.strategies.map(s => s.strategy)).toEqual(['VALUE', 'ROLE_NEED', 'AGGRESSIVE'])
+    expect(result.balanceScore).toBeGreaterThan(0)
+    expect(result.balanceScore).toBeLessThanOrEqual(100)
+  })
+
+  it('counts the players missing for every squad to fill', () => {
+    const result = runDryRun({ ...config, playerPoolSize: 40 })
+    expect(result.poolShortfall).toBe(4)
+    expect(result.slotsPerTeam).toBe(10)
+  })
+
+  it('leaves squads short when the budget cannot cover them', () => {
+    const result = runDryRun({ ...config, budgetPerTeam: 200, playerPoolSize: 60 })
+    expect(result.unfilledRunRate).toBe(1)
+    expect(result.avgUnfilledSlots).toBeGreaterThan(0)
+  })
+})
+
+describe('getDryRunRecommendations', () => {
+  const base: DryRunResult = {
+    runs: 100,
+    slotsPerTeam: 11,
+    poolShortfall: 0,
+    minimumBudget: 330,
+    avgBudgetLeftRate: 0.1,
+    ranOutRate: 0.2,
+    avgRanOutAt: 0.8,
+    unfilledRunRate: 0,
+    avgUnfilledSlots: 0,
+    unsoldRate: 0.1,
+    tiers: tiers.map(t => ({
+      name: t.name, basePrice: t.basePrice, players: 10, avgPrice: t.basePrice, unsoldRate: 0, minimumMissRate: 0,
+    })),
+    strategies: [],
+    balanceScore: 90,
+  }
+
+  it('has nothing to say about a healthy setup', () => {
+    expect(getDryRunRecommendations(config, base)).toEqual([])
+  })
+
+  it('asks for more players when squads cannot be filled', () => {
+    expect(getDryRunRecommendations(config, { ...base, poolShortfall: 6 })[0]).toMatchObject({ type: 'GROW_POOL', change: 6 })
+  })
+
+  it('raises the budget in proportion to the missing slots', () => {
+    const [rec] = getDryRunRecommendations(config, { ...base, unfilledRunRate: 0.6, avgUnfilledSlots: 2.5 })
+    expect(rec).toMatchObject({ type: 'RAISE_BUDGET', change: 25 })
+    expect(rec.message).toBe('Raise the budget by 25% — a squad was left short in 60% of runs')
+  })
+
+  it('raises the budget to at least what a squad costs at base prices', () => {
+    const [rec] = getDryRunRecommendations({ ...config, budgetPerTeam: 300 }, { ...base, unfilledRunRate: 1, avgUnfilledSlots: 11 })
+    expect(rec).toMatchObject({ type: 'RAISE_BUDGET', change: 10 })
+    expect(rec.message).toBe('Raise the budget by 10% — filling a squad at base prices alone costs 330')
+  })
+
+  it('raises the budget by at least 10%', () => {
+    expect(getDryRunRecommendations(config, { ...base, ranOutRate: 0.7 })[0]).toMatchObject({ type: 'RAISE_BUDGET', change: 10 })
+  })
+
+  it('lowers the budget when most of it goes unspent', () => {
+    expect(getDryRunRecommendations(config, { ...base, avgBudgetLeftRate: 0.45 })[0]).toMatchObject({ type: 'LOWER_BUDGET', change: 35 })
+  })
+
+  it('flags tier minimums that teams miss', () => {
+    const tiersWithMiss = base.tiers.map((t, i) => (i === 2 ? { ...t, minimumMissRate: 0.3 } : t))
+    expect(getDryRunRecommendations(config, { ...base, tiers: tiersWithMiss })).toEqual([
+      expect.objectContaining({ type: 'LOWER_TIER_MINIMUM', tier: 'Tier 2' }),
+    ])
+  })
+
+  it('suggests a top-tier minimum when the teams come out uneven', () => {
+    expect(getDryRunRecommendations(config, { ...base, balanceScore: 60 })).toEqual([
+      expect.objectContaining({ type: 'SET_TIER_MINIMUM', tier: 'Tier 0' }),
+    ])
+  })
+})
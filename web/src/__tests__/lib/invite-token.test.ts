@@ -0,0 +1,39 @@
+import { signInviteToken, verifyInviteToken } from '@/lib/invite-token'
+
+const secret = 'test-secret'
+const now = Date.UTC(2026, 1, 27, 12)
+const payload = {
+  inviteId: 'invite-1',
+  auctionId: 'auction-1',
+  teamId: 'team-1',
+  role: 'CAPTAIN' as const,
+  exp: now / 1000 + 3600,
+}
+
+describe('signInviteToken / verifyInviteToken', () => {
+  it('round-trips the payload', () => {
+    const token = signInviteToken(payload, secret)
+    expect(verifyInviteToken(token, secret, now)).toEqual({ valid: true, payload: { v: 1, ...payload } })
+  })
+
+  it('rejects a token signed with another secret', () => {
+    const token = signInviteToken(payload, 'other-secret')
+    expect(verifyInviteToken(token, secret, now)).toEqual({ valid: false, reason: 'BAD_SIGNATURE' })
+  })
+
+  it('rejects an edited payload', () => {
+    const [, signature] = signInviteToken(payload, secret).split('.')
+    const forged = Buffer.from(JSON.stringify({ v: 1, ...payload, teamId: 'team-2' })).toString('base64url')
+    expect(verifyInviteToken(`${forged}.${signature}`, secret, now)).toEqual({ valid: false, reason: 'BAD_SIGNATURE' })
+  })
+
+  it('rejects an expired token', () => {
+    const token = signInviteToken(payload, secret)
+    expect(verifyInviteToken(token, secret, now + 3600 * 1000)).toEqual({ valid: false, reason: 'EXPIRED' })
+  })
+
+  it('rejects garbage', () => {
+    expect(verifyInviteToken('not-a-token', secret, now)).toEqual({ valid: false, reason: 'MALFORMED' })
+    expect(verifyInviteToken('a.b.c', secret, now)).toEqual({ valid: false, reason: 'MALFORMED' })
+  })
+})
@@ -0,0 +1,53 @@
+import { getNominatingTeam, getNominationSecondsLeft, getTurnTeamId } from '@/lib/nomination'
+
+const order = ['team-a', 'team-b', 'team-c']
+
+describe('getTurnTeamId', () => {
+  it('repeats the order in FIXED mode', () => {
+    expect([0, 1, 2, 3, 4, 5].map(turn => getTurnTeamId(order, 'FIXED', turn)))
+      .toEqual(['team-a', 'team-b', 'team-c', 'team-a', 'team-b', 'team-c'])
+  })
+
+  it('reverses every other pass in SNAKE mode', () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(turn => getTurnTeamId(order, 'SNAKE', turn)))
+      .toEqual(['team-a', 'team-b', 'team-c', 'team-c', 'team-b', 'team-a', 'team-a'])
+  })
+
+  it('returns null with no teams', () => {
+    expect(getTurnTeamId([], 'SNAKE', 0)).toBeNull()
+  })
+})
+
+describe('getNominatingTeam', () => {
+  it('takes the team on the clock when its squad has room', () => {
+    expect(getNominatingTeam(order, 'SNAKE', 1, () => false)).toEqual({ teamId: 'team-b', turn: 1 })
+  })
+
+  it('skips teams with a full squad', () => {
+    const full = new Set(['team-c'])
+    expect(getNominatingTeam(order, 'SNAKE', 2, id => full.has(id))).toEqual({ teamId: 'team-b', turn: 4 })
+  })
+
+  it('returns null once every squad is full', () => {
+    expect(getNominatingTeam(order, 'FIXED', 0, () => true)).toBeNull()
+  })
+})
+
+describe('getNominationSecondsLeft', () => {
+  const startedAt = '2026-02-27T10:00:00.000Z'
+  const start = new Date(startedAt).getTime()
+
+  it('counts down from the timer', () => {
+    expect(getNominationSecondsLeft(startedAt, 30, start)).toBe(30)
+    expect(getNominationSecondsLeft(startedAt, 30, start + 12_500)).toBe(18)
+  })
+
+  it('stops at zero', () => {
+    expect(getNominationSecondsLeft(startedAt, 30, start + 45_000)).toBe(0)
+  })
+
+  it('is null without a timer or a running turn', () => {
+    expect(getNominationSecondsLeft(startedAt, null, start)).toBeNull()
+    expect(getNominationSecondsLeft(null, 30, start)).toBeNull()
+  })
+})
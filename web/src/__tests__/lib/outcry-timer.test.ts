@@ -0,0 +1,53 @@
+import { startOutcryTimerScheduler } from '@/lib/outcry-timer'
+
+describe('startOutcryTimerScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('runs the sweep on every interval until stopped', async () => {
+    const tick = jest.fn().mockResolvedValue([])
+    const stop = startOutcryTimerScheduler({ intervalMs: 1000, tick })
+
+    await jest.advanceTimersByTimeAsync(3000)
+    expect(tick).toHaveBeenCalledTimes(3)
+
+    stop()
+    await jest.advanceTimersByTimeAsync(3000)
+    expect(tick).toHaveBeenCalledTimes(3)
+  })
+
+  it('skips a beat while the previous sweep is still running', async () => {
+    let finish: () => void = () => {}
+    const tick = jest.fn(() => new Promise<void>(resolve => { finish = resolve }))
+    const stop = startOutcryTimerScheduler({ intervalMs: 1000, tick })
+
+    await jest.advanceTimersByTimeAsync(3000)
+    expect(tick).toHaveBeenCalledTimes(1)
+
+    finish()
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(tick).toHaveBeenCalledTimes(2)
+
+    stop()
+  })
+
+  it('keeps running after a failed sweep', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const tick = jest.fn()
+      .mockRejectedValueOnce(new Error('db down'))
+      .mockResolvedValue([])
+    const stop = startOutcryTimerScheduler({ intervalMs: 1000, tick })
+
+    await jest.advanceTimersByTimeAsync(2000)
+    expect(tick).toHaveBeenCalledTimes(2)
+    expect(error).toHaveBeenCalled()
+
+    stop()
+    error.mockRestore()
+  })
+})
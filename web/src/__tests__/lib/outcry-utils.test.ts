@@ -0,0 +1,134 @@
+import {
+  calculateIncrement,
+  calculateNextBid,
+  findOutcryStep,
+  getDefaultOutcryConfig,
+  getJumpBidError,
+  getOutcryExpiryAction,
+  getOutcryExpiryPolicy,
+  getOutcryRules,
+  getRoundNextBid,
+  roundToOutcryStep,
+  type OutcryConfig,
+} from '@/lib/outcry-utils'
+
+const flat = (increment: number) => [{ from_multiplier: 0, to_multiplier: 9999, increment }]
+
+describe('outcry-utils', () => {
+  describe('calculateNextBid', () => {
+    it('walks the multiplier brackets', () => {
+      const config = getDefaultOutcryConfig()
+      expect(calculateNextBid(50, 50, config)).toBe(60)
+      expect(calculateNextBid(100, 50, config)).toBe(125)
+      expect(calculateNextBid(600, 50, config)).toBe(700)
+    })
+  })
+
+  describe('getRoundNextBid', () => {
+    it('opens at the base price', () => {
+      expect(getRoundNextBid({ basePrice: 50, currentBid: 50, bidCount: 0 }, getDefaultOutcryConfig())).toBe(50)
+    })
+
+    it('steps up from the current bid once there is one', () => {
+      expect(getRoundNextBid({ basePrice: 50, currentBid: 100, bidCount: 3 }, getDefaultOutcryConfig())).toBe(125)
+    })
+
+    it('falls back to base price increments without a config', () => {
+      expect(getRoundNextBid({ basePrice: 50, currentBid: 100, bidCount: 2 }, null)).toBe(150)
+      expect(getRoundNextBid({ basePrice: 50, currentBid: null, bidCount: 1 }, null)).toBe(100)
+    })
+  })
+
+  describe('getOutcryRules', () => {
+    const config: OutcryConfig = {
+      rules: flat(10),
+      tier_rules: { 'tier-marquee': flat(50) },
+      timer_seconds: 15,
+    }
+
+    it('uses the auction rules when there is no override', () => {
+      expect(getOutcryRules(config)).toEqual(flat(10))
+      expect(getOutcryRules(config, { tierId: 'tier-dev' })).toEqual(flat(10))
+    })
+
+    it('prefers the tier override, then the round override', () => {
+      expect(getOutcryRules(config, { tierId: 'tier-marquee' })).toEqual(flat(50))
+      expect(getOutcryRules(config, { tierId: 'tier-marquee', roundRules: flat(5) })).toEqual(flat(5))
+    })
+
+    it('ignores empty overrides', () => {
+      expect(getOutcryRules({ ...config, tier_rules: { 'tier-marquee': [] } }, { tierId: 'tier-marquee', roundRules: [] }))
+        .toEqual(flat(10))
+    })
+
+    it('feeds the scoped rules into the increment', () => {
+      expect(calculateIncrement(200, 100, config, { tierId: 'tier-marquee' })).toBe(50)
+      expect(calculateNextBid(200, 100, config, { tierId: 'tier-marquee' })).toBe(250)
+    })
+  })
+
+  describe('getOutcryExpiryPolicy', () => {
+    it('defaults new configs to AUTO_CLOSE', () => {
+      expect(getOutcryExpiryPolicy(getDefaultOutcryConfig())).toBe('AUTO_CLOSE')
+    })
+
+    it('treats configs without a policy as SELL_ONLY', () => {
+      expect(getOutcryExpiryPolicy({ rules: [], timer_seconds: 15 })).toBe('SELL_ONLY')
+      expect(getOutcryExpiryPolicy(null)).toBe('SELL_ONLY')
+    })
+  })
+
+  describe('getOutcryExpiryAction', () => {
+    it('sells to the leader whenever there are bids', () => {
+      expect(getOutcryExpiryAction(3, 'AUTO_CLOSE')).toBe('SOLD')
+      expect(getOutcryExpiryAction(1, 'SELL_ONLY')).toBe('SOLD')
+    })
+
+    it('only marks unbid players unsold under AUTO_CLOSE', () => {
+      expect(getOutcryExpiryAction(0, 'AUTO_CLOSE')).toBe('UNSOLD')
+      expect(getOutcryExpiryAction(0, 'SELL_ONLY')).toBeNull()
+    })
+
+    it('never acts under MANUAL', () => {
+      expect(getOutcryExpiryAction(0, 'MANUAL')).toBeNull()
+      expect(getOutcryExpiryAction(5, 'MANUAL')).toBeNull()
+    })
+  })
+
+  describe('jump bids', () => {
+    // Base 50 with the default IPL rules: 60, 70, 80, 90, 100, then +25 from 2x
+    const config = getDefaultOutcryConfig()
+
+    it('accepts the next bid and any step above it', () => {
+      expect(getJumpBidError(60, 60, 50, config)).toBeNull()
+      expect(getJumpBidError(90, 60, 50, config)).toBeNull()
+      expect(getJumpBidError(125, 60, 50, config)).toBeNull()
+    })
+
+    it('rejects off-step amounts with the nearest valid steps', () => {
+      expect(getJumpBidError(110, 60, 50, config)).toBe('110 is not a valid bid step — try 100 or 125')
+      expect(findOutcryStep(110, 60, 50, config)).toEqual({ below: 100, above: 125 })
+    })
+
+    it('rejects amounts below the next bid', () => {
+      expect(getJumpBidError(55, 60, 50, config)).toBe('Bid must be at least 60')
+    })
+
+    it('enforces the jump cap above the next bid', () => {
+      const capped = { ...config, max_jump: 40 }
+      expect(getJumpBidError(100, 60, 50, capped)).toBeNull()
+      expect(getJumpBidError(125, 60, 50, capped)).toBe('Jump bids are capped at 40 above the next bid (max 100)')
+    })
+
+    it('rounds typed amounts to the nearest step', () => {
+      expect(roundToOutcryStep(104, 60, 50, config)).toBe(100)
+      expect(roundToOutcryStep(113, 60, 50, config)).toBe(125)
+      expect(roundToOutcryStep(20, 60, 50, config)).toBe(60)
+    })
+
+    it('walks tier overrides when checking steps', () => {
+      const scoped = { ...config, tier_rules: { marquee: [{ from_multiplier: 0, to_multiplier: 9999, increment: 25 }] } }
+      expect(getJumpBidError(110, 60, 50, scoped, { tierId: 'marquee' })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import {
+  buildInvitationEmail, normalizeEmail, summarizeImport, type ImportRowResult,
+} from '@/lib/participant-invitations'
+import { createFileTransport, getMailTransport } from '@/lib/mailer'
+
+jest.mock('nodemailer', () => ({
+  __esModule: true,
+  default: { createTransport: jest.fn(() => ({ sendMail: jest.fn() })) },
+}))
+
+describe('normalizeEmail', () => {
+  it('trims and lower-cases', () => {
+    expect(normalizeEmail('  Jane.Doe@Example.COM ')).toBe('jane.doe@example.com')
+  })
+})
+
+describe('buildInvitationEmail', () => {
+  const email = buildInvitationEmail({
+    to: 'jane@example.com',
+    name: 'Jane',
+    auctionName: 'Summer League',
+    inviterName: 'Sam',
+    role: 'CAPTAIN',
+    signupUrl: 'https://example.com/auth/signup',
+  })
+
+  it('addresses the invitee and names the auction', () => {
+    expect(email.to).toBe('jane@example.com')
+    expect(email.subject).toBe("You're invited to Summer League")
+    expect(email.text).toContain('Sam has invited you to join "Summer League" on TossUp as a captain.')
+  })
+
+  it('tells them to sign up with the invited address', () => {
+    expect(email.text).toContain('(jane@example.com)')
+    expect(email.text).toContain('https://example.com/auth/signup')
+  })
+})
+
+describe('summarizeImport', () => {
+  const row = (outcome: ImportRowResult['outcome']): ImportRowResult => ({ name: 'x', email: 'x@x.com', outcome, status: '' })
+
+  it('counts each outcome and leaves out empty ones', () => {
+    expect(summarizeImport([row('ADDED'), row('UPDATED'), row('INVITED'), row('ERROR')]))
+      .toBe('Added 2, invited 1, failed 1')
+  })
+
+  it('always says how many were added', () => {
+    expect(summarizeImport([row('SKIPPED')])).toBe('Added 0, skipped 1')
+  })
+})
+
+describe('getMailTransport', () => {
+  it('defaults to the console', () => {
+    expect(getMailTransport({}).name).toBe('console')
+  })
+
+  it('picks smtp and file from MAIL_TRANSPORT', () => {
+    expect(getMailTransport({ MAIL_TRANSPORT: 'smtp', SMTP_HOST: 'localhost' }).name).toBe('smtp')
+    expect(getMailTransport({ MAIL_TRANSPORT: 'file' }).name).toBe('file')
+  })
+
+  it('refuses smtp without a host', () => {
+    expect(() => getMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST')
+  })
+})
+
+describe('createFileTransport', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'mail-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('writes each message to its own file', async () => {
+    const transport = createFileTransport(dir, 'from@example.com')
+    await transport.send({ to: 'a@example.com', subject: 'One', text: 'Hello' })
+    await transport.send({ to: 'b@example.com', subject: 'Two', text: 'Hello' })
+
+    const files = await readdir(dir)
+    expect(files).toHaveLength(2)
+    const first = JSON.parse(await readFile(path.join(dir, files.sort()[0]), 'utf8'))
+    expect(first).toMatchObject({ from: 'from@example.com', text: 'Hello' })
+  })
+})
@@ -0,0 +1,23 @@
+import { getProxyCandidates, type ProxyCandidate } from '@/lib/proxy-bidder'
+
+const entries: ProxyCandidate[] = [
+  { teamId: 'team-a', maxPrice: 120, createdAt: '2026-02-27T10:00:00Z' },
+  { teamId: 'team-b', maxPrice: 200, createdAt: '2026-02-27T10:05:00Z' },
+  { teamId: 'team-c', maxPrice: 120, createdAt: '2026-02-27T09:00:00Z' },
+]
+
+describe('getProxyCandidates', () => {
+  it('puts the highest max first, then the earliest entry', () => {
+    expect(getProxyCandidates(entries, 100, null).map(c => c.teamId)).toEqual(['team-b', 'team-c', 'team-a'])
+  })
+
+  it('skips the team already holding the bid', () => {
+    expect(getProxyCandidates(entries, 100, 'team-b').map(c => c.teamId)).toEqual(['team-c', 'team-a'])
+  })
+
+  it('drops teams whose max is below the next step', () => {
+    expect(getProxyCandidates(entries, 150, null).map(c => c.teamId)).toEqual(['team-b'])
+    expect(getProxyCandidates(entries, 120, 'team-b').map(c => c.teamId)).toEqual(['team-c', 'team-a'])
+    expect(getProxyCandidates(entries, 250, null)).toEqual([])
+  })
+})
@@ -0,0 +1,98 @@
+import { getShuffleBuckets, shuffleQueue, verifyQueueShuffle, type QueueShuffle } from '@/lib/queue-shuffle'
+
+const players = [
+  { id: 'p6', tierId: 'gold' },
+  { id: 'p1', tierId: 'silver' },
+  { id: 'p4', tierId: null },
+  { id: 'p3', tierId: 'gold' },
+  { id: 'p2', tierId: 'bronze' },
+  { id: 'p5', tierId: 'silver' },
+]
+
+describe('getShuffleBuckets', () => {
+  it('puts everyone in one sorted bucket for random', () => {
+    expect(getShuffleBuckets(players, 'random')).toEqual([['p1', 'p2', 'p3', 'p4', 'p5', 'p6']])
+  })
+
+  it('gives each tier group a bucket in order, with untiered players last', () => {
+    expect(getShuffleBuckets(players, 'tier-ordered', [['gold'], ['silver'], ['bronze']]))
+      .toEqual([['p3', 'p6'], ['p1', 'p5'], ['p2'], ['p4']])
+  })
+
+  it('mixes the tiers in a custom group and drops empty groups', () => {
+    expect(getShuffleBuckets(players, 'custom-mix', [['gold', 'bronze'], ['platinum'], ['silver']]))
+      .toEqual([['p2', 'p3', 'p6'], ['p1', 'p5'], ['p4']])
+  })
+
+  it("doesn't depend on the order the pool was loaded in", () => {
+    const groups = [['gold'], ['silver'], ['bronze']]
+    expect(getShuffleBuckets([...players].reverse(), 'tier-ordered', groups))
+      .toEqual(getShuffleBuckets(players, 'tier-ordered', groups))
+  })
+})
+
+describe('shuffleQueue', () => {
+  const buckets = [['p3', 'p6', 'p7', 'p8'], ['p1', 'p5'], ['p2', 'p4']]
+
+  it('gives the same queue for the same seed', () => {
+    expect(shuffleQueue(buckets, 'seed-1')).toEqual(shuffleQueue(buckets, 'seed-1'))
+  })
+
+  it('gives a different queue for a different seed', () => {
+    const big = [Array.from({ length: 30 }, (_, i) => `p${i}`)]
+    expect(shuffleQueue(big, 'seed-1')).not.toEqual(shuffleQueue(big, 'seed-2'))
+  })
+
+  it('keeps the buckets in order', () => {
+    const queue = shuffleQueue(buckets, 'seed-1')
+    expect(queue.slice(0, 4).sort()).toEqual(['p3', 'p6', 'p7', 'p8'])
+    expect(queue.slice(4, 6).sort()).toEqual(['p1', 'p5'])
+    expect(queue.slice(6).sort()).toEqual(['p2', 'p4'])
+  })
+
+  it('rejects versions it does not know', () => {
+    expect(() => shuffleQueue(buckets, 'seed-1', 2)).toThrow('Unsupported queue shuffle version 2')
+  })
+})
+
+describe('verifyQueueShuffle', () => {
+  const buckets = [['p1', 'p2', 'p3', 'p4', 'p5']]
+  const queue = shuffleQueue(buckets, 'seed-1')
+  const shuffle: QueueShuffle = {
+    version: 1,
+    seed: 'seed-1',
+    mode: 'random',
+    buckets,
+    queue,
+    createdAt: '2026-02-27T17:00:00.000Z',
+  }
+
+  it('matches an untouched record and live queue', () => {
+    expect(verifyQueueShuffle(shuffle, queue)).toEqual({
+      rebuiltQueue: queue,
+      matchesRecord: true,
+      matchesLiveQueue: true,
+    })
+  })
+
+  it('flags a record that the seed does not produce', () => {
+    const tampered = { ...shuffle, queue: [...queue].reverse() }
+    expect(verifyQueueShuffle(tampered, queue).matchesRecord).toBe(false)
+  })
+
+  it('flags a live queue that was reordered', () => {
+    const live = [queue[1], queue[0], ...queue.slice(2)]
+    expect(verifyQueueShuffle(shuffle, live).matchesLiveQueue).toBe(false)
+  })
+
+  it('ignores deferred players and players added later', () => {
+    const [first, ...rest] = queue
+    const live = [...rest, 'p9', first]
+    expect(verifyQueueShuffle(shuffle, live).matchesLiveQueue).toBe(false)
+    expect(verifyQueueShuffle(shuffle, live, new Set([first])).matchesLiveQueue).toBe(true)
+  })
+
+  it("doesn't match a live queue that hasn't been saved yet", () => {
+    expect(verifyQueueShuffle(shuffle, null).matchesLiveQueue).toBe(false)
+  })
+})
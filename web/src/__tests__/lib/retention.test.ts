@@ -0,0 +1,66 @@
+import { getRetentionError, getTeamRetentionSummary, isRetentionPhase, type RetentionLimits } from '@/lib/retention'
+
+const limits: RetentionLimits = { maxPerTeam: 2, maxSpend: 300 }
+
+const retained = [
+  { teamId: 'team-a', price: 120 },
+  { teamId: 'team-b', price: 80 },
+  { teamId: 'team-b', price: 150 },
+]
+
+describe('isRetentionPhase', () => {
+  it('allows retentions only before the auction starts', () => {
+    expect(isRetentionPhase('DRAFT')).toBe(true)
+    expect(isRetentionPhase('LOBBY')).toBe(true)
+    expect(isRetentionPhase('LIVE')).toBe(false)
+    expect(isRetentionPhase(undefined)).toBe(false)
+  })
+})
+
+describe('getTeamRetentionSummary', () => {
+  it('counts a team\'s retentions and what it has left', () => {
+    expect(getTeamRetentionSummary(limits, retained, 'team-a')).toEqual({
+      teamId: 'team-a',
+      count: 1,
+      spend: 120,
+      slotsLeft: 1,
+      spendLeft: 180,
+    })
+    expect(getTeamRetentionSummary(limits, retained, 'team-b')).toMatchObject({ count: 2, slotsLeft: 0, spendLeft: 70 })
+  })
+
+  it('leaves spend uncapped without a retention budget', () => {
+    const summary = getTeamRetentionSummary({ maxPerTeam: 3, maxSpend: null }, retained, 'team-b')
+    expect(summary.spendLeft).toBeNull()
+    expect(summary.slotsLeft).toBe(1)
+  })
+})
+
+describe('getRetentionError', () => {
+  const summaryA = getTeamRetentionSummary(limits, retained, 'team-a')
+
+  it('allows a retention within the limits', () => {
+    expect(getRetentionError(limits, summaryA, 180, 50)).toBeNull()
+  })
+
+  it('rejects retentions when the phase is off', () => {
+    const off = { maxPerTeam: 0, maxSpend: null }
+    expect(getRetentionError(off, getTeamRetentionSummary(off, [], 'team-a'), 100)).toBe(
+      'Retentions are not enabled for this auction'
+    )
+  })
+
+  it('rejects a price below the tier base price', () => {
+    expect(getRetentionError(limits, summaryA, 40, 50)).toBe('Retention price must be at least 50 (the tier base price)')
+  })
+
+  it('rejects a team at its retention limit', () => {
+    expect(getRetentionError(limits, getTeamRetentionSummary(limits, retained, 'team-b'), 60)).toBe(
+      'Team already has 2 retained players — the retention limit'
+    )
+  })
+
+  it('rejects a retention over the retention budget', () => {
+    expect(getRetentionError(limits, summaryA, 200)).toBe('Retentions would cost 320 — the retention budget is 300')
+  })
+})
@@ -0,0 +1,90 @@
+import { applyRtmClaim, getRtmCardsLeft, getRtmSecondsLeft, isRtmOfferOpen, toRtmOffer, type RtmOffer } from '@/lib/rtm'
+import type { AuctionState } from '@/lib/auction-realtime'
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime()
+
+function offer(overrides: Partial<RtmOffer> = {}): RtmOffer {
+  return {
+    id: 'offer-1',
+    playerId: 'p1',
+    playerName: 'Virat',
+    teamId: 'team-b',
+    teamName: 'Team B',
+    winningTeamId: 'team-a',
+    winningTeamName: 'Team A',
+    price: 200,
+    status: 'OPEN',
+    expiresAt: new Date(NOW + 12_500).toISOString(),
+    ...overrides,
+  }
+}
+
+describe('RTM window', () => {
+  it('counts the seconds left, rounding up', () => {
+    expect(getRtmSecondsLeft(offer(), NOW)).toBe(13)
+    expect(getRtmSecondsLeft(offer(), NOW + 60_000)).toBe(0)
+  })
+
+  it('is open only while OPEN and before it expires', () => {
+    expect(isRtmOfferOpen(offer(), NOW)).toBe(true)
+    expect(isRtmOfferOpen(offer(), NOW + 13_000)).toBe(false)
+    expect(isRtmOfferOpen(offer({ status: 'DECLINED' }), NOW)).toBe(false)
+  })
+})
+
+describe('getRtmCardsLeft', () => {
+  it('subtracts claimed offers and never goes below zero', () => {
+    expect(getRtmCardsLeft(2, 1)).toBe(1)
+    expect(getRtmCardsLeft(1, 3)).toBe(0)
+  })
+})
+
+describe('toRtmOffer', () => {
+  it('maps a joined rtm_offers row', () => {
+    expect(toRtmOffer({
+      id: 'offer-1',
+      player_id: 'p1',
+      team_id: 'team-b',
+      winning_team_id: 'team-a',
+      price: 200,
+      status: 'CLAIMED',
+      expires_at: '2026-03-01T12:00:30Z',
+      player: { name: 'Virat', tier_id: 't0' },
+      team: { name: 'Team B' },
+      winning_team: null,
+    })).toEqual({
+      id: 'offer-1',
+      playerId: 'p1',
+      playerName: 'Virat',
+      teamId: 'team-b',
+      teamName: 'Team B',
+      winningTeamId: 'team-a',
+      winningTeamName: 'Unknown',
+      price: 200,
+      status: 'CLAIMED',
+      expiresAt: '2026-03-01T12:00:30Z',
+    })
+  })
+})
+
+describe('applyRtmClaim', () => {
+  const state = {
+    teams: [
+      { id: 'team-a', name: 'Team A', coins: 800, originalCoins: 1000, players: [{ id: 'p1', name: 'Virat', price: 200 }] },
+      { id: 'team-b', name: 'Team B', coins: 1000, originalCoins: 1000, players: [] },
+    ],
+    soldPlayers: [{ playerId: 'p1', playerName: 'Virat', teamId: 'team-a', teamName: 'Team A', price: 200 }],
+  } as unknown as AuctionState
+
+  it('moves the player and the price to the RTM team', () => {
+    const next = applyRtmClaim(state, offer({ status: 'CLAIMED' }))
+
+    expect(next.teams[0]).toMatchObject({ coins: 1000, players: [] })
+    expect(next.teams[1]).toMatchObject({ coins: 800, players: [{ id: 'p1', name: 'Virat', price: 200 }] })
+    expect(next.soldPlayers[0]).toMatchObject({ teamId: 'team-b', teamName: 'Team B' })
+  })
+
+  it('leaves the state alone if the winning team no longer has the player', () => {
+    expect(applyRtmClaim(state, offer({ playerId: 'p2' }))).toBe(state)
+  })
+})
@@ -0,0 +1,114 @@
+import { calculateSecondPrice, resolveSealedBids, type SealedBid } from '@/lib/sealed-utils'
+
+function bid(teamId: string, amount: number, second: number): SealedBid {
+  return {
+    bidId: `bid-${teamId}`,
+    teamId,
+    teamName: `Team ${teamId.toUpperCase()}`,
+    amount,
+    submittedAt: new Date(Date.UTC(2026, 1, 27, 12, 0, second)).toISOString(),
+  }
+}
+
+describe('resolveSealedBids', () => {
+  it('returns null when there are no bids', () => {
+    expect(resolveSealedBids([], { tie_break: 'EARLIEST_BID' })).toBeNull()
+  })
+
+  it('picks the highest bid without invoking a tie-break', () => {
+    const result = resolveSealedBids(
+      [bid('a', 100, 1), bid('b', 150, 2), bid('c', 120, 3)],
+      { tie_break: 'RANDOM' }
+    )!
+
+    expect(result.winner.teamId).toBe('b')
+    expect(result.bids.map(b => b.teamId)).toEqual(['b', 'c', 'a'])
+    expect(result.tiedTeamIds).toEqual(['b'])
+    expect(result.tieBreak).toBeNull()
+    expect(result.seed).toBeNull()
+  })
+
+  it('breaks ties on the earliest submission', () => {
+    const result = resolveSealedBids(
+      [bid('a', 200, 5), bid('b', 200, 2), bid('c', 150, 1)],
+      { tie_break: 'EARLIEST_BID' }
+    )!
+
+    expect(result.winner.teamId).toBe('b')
+    expect(result.tiedTeamIds.sort()).toEqual(['a', 'b'])
+    expect(result.tieBreak).toBe('EARLIEST_BID')
+  })
+
+  it('breaks ties on the smallest squad, then the earliest submission', () => {
+    const bids = [bid('a', 200, 1), bid('b', 200, 2), bid('c', 200, 3)]
+
+    const bySquad = resolveSealedBids(bids, { tie_break: 'FEWEST_PLAYERS' }, {
+      squadCounts: { a: 4, b: 3, c: 3 },
+    })!
+    expect(bySquad.winner.teamId).toBe('b')
+    expect(bySquad.tieBreak).toBe('FEWEST_PLAYERS')
+
+    const level = resolveSealedBids(bids, { tie_break: 'FEWEST_PLAYERS' }, {
+      squadCounts: { a: 2, b: 2, c: 2 },
+    })!
+    expect(level.winner.teamId).toBe('a')
+  })
+
+  it('reproduces a random draw from the same seed regardless of bid order', () => {
+    const bids = [bid('a', 300, 1), bid('b', 300, 2), bid('c', 300, 3), bid('d', 100, 4)]
+
+    const first = resolveSealedBids(bids, { tie_break: 'RANDOM' }, { seed: 'seed-123' })!
+    const replay = resolveSealedBids([...bids].reverse(), { tie_break: 'RANDOM' }, { seed: 'seed-123' })!
+
+    expect(first.seed).toBe('seed-123')
+    expect(['a', 'b', 'c']).toContain(first.winner.teamId)
+    expect(replay.winner.teamId).toBe(first.winner.teamId)
+  })
+
+  it('requires a seed for a random tie-break', () => {
+    expect(() =>
+      resolveSealedBids([bid('a', 100, 1), bid('b', 100, 2)], { tie_break: 'RANDOM' })
+    ).toThrow('seed')
+  })
+})
+
+describe('second-price resolution', () => {
+  const config = { tie_break: 'EARLIEST_BID' as const, increment: 10 }
+
+  it('charges the runner-up bid plus one increment', () => {
+    const result = resolveSealedBids(
+      [bid('a', 300, 1), bid('b', 180, 2), bid('c', 120, 3)],
+      config,
+      { secondPrice: { basePrice: 50 } }
+    )!
+
+    expect(result.winner.teamId).toBe('a')
+    expect(result.winner.amount).toBe(300)
+    expect(result.price).toBe(190)
+  })
+
+  it('charges the base price when only one team bid', () => {
+    const result = resolveSealedBids([bid('a', 300, 1)], config, { secondPrice: { basePrice: 50 } })!
+    expect(result.price).toBe(50)
+  })
+
+  it('never charges more than the winning bid', () => {
+    expect(calculateSecondPrice(bid('a', 200, 1), [bid('a', 200, 1), bid('b', 195, 2)], 50, 10)).toBe(200)
+  })
+
+  it('charges the full amount when the top bids tie', () => {
+    const result = resolveSealedBids(
+      [bid('a', 200, 5), bid('b', 200, 2)],
+      config,
+      { secondPrice: { basePrice: 50 } }
+    )!
+
+    expect(result.winner.teamId).toBe('b')
+    expect(result.price).toBe(200)
+  })
+
+  it('charges the winning bid in first-price mode', () => {
+    const result = resolveSealedBids([bid('a', 300, 1), bid('b', 180, 2)], config)!
+    expect(result.price).toBe(300)
+  })
+})
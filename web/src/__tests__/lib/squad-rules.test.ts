@@ -0,0 +1,69 @@
+import {
+  findIncompleteSquads, formatIncompleteSquads, getRoleMaxError, getRoleRequirements, getTierMaxError,
+  type TierLimit,
+} from '@/lib/squad-rules'
+
+const gold: TierLimit = { id: 'gold', name: 'Gold', minPerTeam: 2, maxPerTeam: 3 }
+const silver: TierLimit = { id: 'silver', name: 'Silver', minPerTeam: 1, maxPerTeam: null }
+
+describe('getTierMaxError', () => {
+  it('allows buying until the tier maximum is reached', () => {
+    expect(getTierMaxError(gold, 2)).toBeNull()
+    expect(getTierMaxError(gold, 3)).toBe('Your team already has 3 Gold players — the maximum for that tier')
+  })
+
+  it('never blocks a tier without a maximum', () => {
+    expect(getTierMaxError(silver, 10)).toBeNull()
+  })
+})
+
+describe('findIncompleteSquads', () => {
+  const teams = [{ id: 'a', name: 'Team A' }, { id: 'b', name: 'Team B' }]
+
+  it('lists each team’s unmet tier minimums', () => {
+    const incomplete = findIncompleteSquads(teams, [gold, silver], {
+      a: { gold: 2, silver: 1 },
+      b: { gold: 1 },
+    })
+
+    expect(incomplete).toEqual([{
+      teamId: 'b',
+      teamName: 'Team B',
+      unmet: [
+        { tierId: 'gold', tierName: 'Gold', required: 2, acquired: 1 },
+        { tierId: 'silver', tierName: 'Silver', required: 1, acquired: 0 },
+      ],
+      unmetRoles: [],
+    }])
+    expect(formatIncompleteSquads(incomplete)).toEqual(['Team B: 1/2 Gold, 0/1 Silver'])
+  })
+
+  it('is empty when every squad is complete', () => {
+    expect(findIncompleteSquads(teams, [gold], { a: { gold: 2 }, b: { gold: 3 } })).toEqual([])
+  })
+})
+
+describe('role rules', () => {
+  const rules = { WICKETKEEPER: { min: 1 }, BOWLER: { max: 5 } }
+
+  it('blocks a role once its maximum is reached', () => {
+    expect(getRoleMaxError('BOWLER', rules, 4)).toBeNull()
+    expect(getRoleMaxError('BOWLER', rules, 5)).toBe('Your team already has 5 bowlers — the most a squad can have')
+    expect(getRoleMaxError('BATSMAN', rules, 10)).toBeNull()
+    expect(getRoleMaxError('BOWLER', null, 10)).toBeNull()
+  })
+
+  it('reports how many of each ruled role a team still needs', () => {
+    expect(getRoleRequirements(rules, { BOWLER: 2 })).toEqual([
+      { role: 'BOWLER', label: 'bowlers', min: 0, max: 5, acquired: 2, needed: 0 },
+      { role: 'WICKETKEEPER', label: 'wicketkeepers', min: 1, max: null, acquired: 0, needed: 1 },
+    ])
+  })
+
+  it('treats a missing role minimum as an incomplete squad', () => {
+    const incomplete = findIncompleteSquads([{ id: 'a', name: 'Team A' }], [], {}, rules, { a: { BOWLER: 3 } })
+
+    expect(incomplete).toHaveLength(1)
+    expect(formatIncompleteSquads(incomplete)).toEqual(['Team A: 0/1 wicketkeepers'])
+  })
+})
@@ -2,6 +2,7 @@ import {
   basicInfoSchema,
   organizationSelectSchema,
   auctionConfigSchema,
+  outcryConfigSchema,
   teamSchema,
   teamsSchema,
   tierSchema,
@@ -107,6 +108,53 @@ describe('Auction Validation Schemas', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should accept playing-role rules for some roles', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        roleRules: { WICKETKEEPER: { min: 1 }, BOWLER: { max: 5 } },
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a role maximum below its minimum', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        roleRules: { BOWLER: { min: 4, max: 2 } },
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['roleRules', 'BOWLER', 'max'])
+        expect(result.error.issues[0].message).toBe('Maximum must be greater than minimum')
+      }
+    })
+
+    it('should reject rules for unknown roles', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        roleRules: { CAPTAIN: { min: 1 } },
+      })
+      expect(result.success).toBe(false)
+    })
+
+    it('should accept RTM cards up to 5 per team', () => {
+      expect(auctionConfigSchema.safeParse({ ...validConfig, rtmCardsPerTeam: 2 }).success).toBe(true)
+      const result = auctionConfigSchema.safeParse({ ...validConfig, rtmCardsPerTeam: 6 })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Maximum 5 RTM cards per team')
+      }
+    })
+
+    it('should accept retention limits with an optional retention budget', () => {
+      expect(auctionConfigSchema.safeParse({ ...validConfig, maxRetentionsPerTeam: 3, maxRetentionSpend: 250 }).success).toBe(true)
+      expect(auctionConfigSchema.safeParse({ ...validConfig, maxRetentionsPerTeam: 2, maxRetentionSpend: null }).success).toBe(true)
+      const result = auctionConfigSchema.safeParse({ ...validConfig, maxRetentionsPerTeam: 7 })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Maximum 6 retentions per team')
+      }
+    })
+
     it('should reject budget below minimum', () => {
       const result = auctionConfigSchema.safeParse({
         ...validConfig,
@@ -158,6 +206,98 @@ describe('Auction Validation Schemas', () => {
         expect(result.data.biddingType).toBe('SEALED_TENDER')
       }
     })
+
+    it('should accept second-price bidding with an increment', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        biddingType: 'SEALED_SECOND_PRICE',
+        sealedConfig: { tie_break: 'EARLIEST_BID', increment: 10 },
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a second-price increment below 1', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        biddingType: 'SEALED_SECOND_PRICE',
+        sealedConfig: { tie_break: 'EARLIEST_BID', increment: 0 },
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Increment must be at least 1')
+      }
+    })
+
+    it('should accept a draft with a pick timer', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        biddingType: 'DRAFT',
+        draftConfig: { order_type: 'SNAKE', pick_seconds: 45 },
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should accept a draft without a pick timer', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        biddingType: 'DRAFT',
+        draftConfig: { order_type: 'LINEAR', pick_seconds: null },
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a draft pick timer under 10 seconds', () => {
+      const result = auctionConfigSchema.safeParse({
+        ...validConfig,
+        biddingType: 'DRAFT',
+        draftConfig: { order_type: 'SNAKE', pick_seconds: 5 },
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Pick timer must be at least 10 seconds')
+      }
+    })
+  })
+
+  describe('outcryConfigSchema', () => {
+    const rules = [{ from_multiplier: 0, to_multiplier: 9999, increment: 10 }]
+
+    it('should accept tier overrides keyed by tier ID', () => {
+      const result = outcryConfigSchema.safeParse({
+        rules,
+        tier_rules: { '6f1c2d3e-4a5b-4c6d-8e7f-901234567890': [{ ...rules[0], increment: 50 }] },
+        timer_seconds: 15,
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject tier overrides not keyed by tier ID', () => {
+      const result = outcryConfigSchema.safeParse({
+        rules,
+        tier_rules: { 'Tier 0': rules },
+        timer_seconds: 15,
+      })
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject an empty tier override', () => {
+      const result = outcryConfigSchema.safeParse({
+        rules,
+        tier_rules: { '6f1c2d3e-4a5b-4c6d-8e7f-901234567890': [] },
+        timer_seconds: 15,
+      })
+      expect(result.success).toBe(false)
+    })
+
+    it('should accept an optional jump cap', () => {
+      expect(outcryConfigSchema.safeParse({ rules, timer_seconds: 15, max_jump: 100 }).success).toBe(true)
+      expect(outcryConfigSchema.safeParse({ rules, timer_seconds: 15, max_jump: null }).success).toBe(true)
+    })
+
+    it('should reject a negative jump cap', () => {
+      const result = outcryConfigSchema.safeParse({ rules, timer_seconds: 15, max_jump: -10 })
+      expect(result.success).toBe(false)
+    })
   })
 
   describe('teamSchema', () => {
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthenticatedUser } from '@/lib/auth'
-import { basicInfoSchema, auctionConfigSchema } from '@/lib/validations/auction'
+import {
+  basicInfoSchema, auctionConfigSchema, outcryConfigSchema, outcryRuleSchema, sealedConfigSchema, draftConfigSchema,
+} from '@/lib/validations/auction'
+import { isSealedBiddingType } from '@/lib/sealed-utils'
+import { getDefaultDraftConfig } from '@/lib/draft'
 import { z } from 'zod'
 
 // Full auction creation schema
@@ -9,15 +13,10 @@ const createAuctionSchema = z.object({
   basicInfo: basicInfoSchema,
   leagueId: z.string().min(1, 'League is required'),
   config: auctionConfigSchema,
-  biddingType: z.enum(['SEALED_TENDER', 'OPEN_OUTCRY']).default('SEALED_TENDER'),
-  outcryConfig: z.object({
-    rules: z.array(z.object({
-      from_multiplier: z.number(),
-      to_multiplier: z.number(),
-      increment: z.number().min(1),
-    })),
-    timer_seconds: z.number().nullable(),
-  }).optional(),
+  biddingType: z.enum(['SEALED_TENDER', 'SEALED_SECOND_PRICE', 'OPEN_OUTCRY', 'DRAFT']).default('SEALED_TENDER'),
+  outcryConfig: outcryConfigSchema.optional(),
+  sealedConfig: sealedConfigSchema.optional(),
+  draftConfig: draftConfigSchema.optional(),
   teams: z.array(z.object({
     name: z.string().min(1, 'Team name is required'),
   })).optional().default([]),
@@ -29,6 +28,8 @@ const createAuctionSchema = z.object({
     minPerTeam: z.number().min(0).default(0),
     maxPerTeam: z.number().optional(),
     sortOrder: z.number().min(0),
+    // Open outcry only: replaces outcryConfig.rules for this tier (stored under tier_rules[tier.id])
+    outcryRules: z.array(outcryRuleSchema).min(1).optional(),
   })).optional(),
 })
 
@@ -71,8 +72,14 @@ export async function POST(request: NextRequest) {
         currency_name: validatedData.config.currencyName,
         currency_icon: validatedData.config.currencyIcon,
         squad_size: validatedData.config.squadSize,
+        role_rules: validatedData.config.roleRules ?? null,
+        rtm_cards_per_team: validatedData.config.rtmCardsPerTeam ?? 0,
+        max_retentions_per_team: validatedData.config.maxRetentionsPerTeam ?? 0,
+        max_retention_spend: validatedData.config.maxRetentionSpend ?? null,
         bidding_type: validatedData.biddingType,
         outcry_config: validatedData.biddingType === 'OPEN_OUTCRY' ? validatedData.outcryConfig : null,
+        sealed_config: isSealedBiddingType(validatedData.biddingType) ? (validatedData.sealedConfig ?? null) : null,
+        draft_config: validatedData.biddingType === 'DRAFT' ? (validatedData.draftConfig ?? getDefaultDraftConfig()) : null,
         status: 'DRAFT',
       })
       .select()
@@ -118,6 +125,26 @@ export async function POST(request: NextRequest) {
 
       if (tiersError) throw tiersError
       tiers = createdTiers || []
+
+      // Tier IDs only exist now, so key the increment overrides by them after the fact
+      if (validatedData.biddingType === 'OPEN_OUTCRY' && validatedData.outcryConfig) {
+        const tierRules: Record<string, z.infer<typeof outcryRuleSchema>[]> = {}
+        for (const tier of validatedData.tiers) {
+          const created = tiers.find(t => t.sort_order === tier.sortOrder && t.name === tier.name)
+          if (created && tier.outcryRules) tierRules[created.id] = tier.outcryRules
+        }
+
+        if (Object.keys(tierRules).length > 0) {
+          const outcryConfig = { ...validatedData.outcryConfig, tier_rules: tierRules }
+          const { error: configError } = await supabase
+            .from('auctions')
+            .update({ outcry_config: outcryConfig })
+            .eq('id', auction.id)
+
+          if (configError) throw configError
+          auction.outcry_config = outcryConfig
+        }
+      }
     }
 
     return NextResponse.json({
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { buildAuctionState, type QueueState } from '@/lib/auction-state'
+import { loadAcceleratedRound } from '@/lib/accelerated-round'
+import { triggerProxyBidder } from '@/lib/proxy-bidder'
+import { triggerBotCaptains } from '@/lib/bot-captain'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const acceleratedActionSchema = z.object({
+  action: z.enum(['OPEN', 'START', 'CLOSE']),
+  basePrices: z.record(z.string(), z.number().int().min(1, 'Reduced base price must be at least 1')).optional(),
+  expectedVersion: z.number().int().optional(),
+})
+
+// GET - The current accelerated round, with every team's picks
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const round = await loadAcceleratedRound(supabase, auctionId)
+    return NextResponse.json({ round })
+
+  } catch (error) {
+    console.error('Failed to fetch accelerated round:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch accelerated round',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Move the accelerated round along: OPEN for picks, START the picked queue, CLOSE it
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
+    const body = await request.json()
+    const { action, basePrices, expectedVersion } = acceleratedActionSchema.parse(body)
+
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select('id, name, status, budget_per_team, queue_version')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (auctionError || !auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.status !== 'LIVE') {
+      return NextResponse.json({ error: 'Auction is not live' }, { status: 400 })
+    }
+
+    if (action === 'START') {
+      const { data: rpcResult, error: rpcError } = await supabase
+        .rpc('start_accelerated_round', {
+          p_auction_id: auctionId,
+          p_user_id: userId,
+          p_base_prices: basePrices ?? {},
+          p_expected_version: expectedVersion ?? null,
+        })
+
+      if (rpcError) {
+        console.error('[accelerated/START] RPC error:', rpcError)
+        const status = rpcError.code === '40001' ? 409 : rpcError.code === 'P0002' ? 404 : 400
+        return NextResponse.json(
+          { error: rpcError.message || 'Failed to start accelerated round', queueVersion: auction.queue_version },
+          { status }
+        )
+      }
+
+      const result = rpcResult?.[0] || rpcResult
+      if (result?.opened_round_id) {
+        await triggerProxyBidder(auctionId)
+        await triggerBotCaptains(auctionId)
+      }
+
+      const state = await buildAuctionState({
+        supabase,
+        auction,
+        queueState: (result?.new_queue_state || null) as QueueState | null,
+        queueVersion: result?.new_version ?? auction.queue_version,
+        openRoundId: result?.opened_round_id ?? null,
+      })
+
+      return NextResponse.json({ state, round: await loadAcceleratedRound(supabase, auctionId) })
+    }
+
+    const { error: rpcError } = await supabase
+      .rpc(action === 'OPEN' ? 'open_accelerated_round' : 'close_accelerated_round', {
+        p_auction_id: auctionId,
+      })
+
+    if (rpcError) {
+      console.error(`[accelerated/${action}] RPC error:`, rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to update accelerated round' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({ round: await loadAcceleratedRound(supabase, auctionId) })
+
+  } catch (error) {
+    console.error('[accelerated/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid accelerated round data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,48 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { buildAuctionState, type QueueState } from '@/lib/auction-state'
+import { runPostSaleHooks } from '@/lib/post-sale'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
-type ActionType = 'SOLD' | 'UNSOLD' | 'DEFER' | 'UNDO'
-
-interface QueueState {
-  auctionQueue: string[]
-  auctionIndex: number
-  auctionStarted: boolean
-  unsoldPlayers: string[]
-  deferredPlayers: string[]
-  auctionHistory: Array<{
-    player: string
-    team: string
-    price: number
-    action: string
-  }>
-}
+type ActionType = 'SOLD' | 'UNSOLD' | 'DEFER' | 'UNDO' | 'REDO'
 
 export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
-    const supabase = await createClient()
+    const { userId } = getAuthenticatedUser(request)
     const { id: auctionId } = await params
+
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
     const body = await request.json()
-    const { action, teamId, amount } = body as {
+    const { action, teamId, amount, expectedVersion, targetEventId } = body as {
       action: ActionType
       teamId?: string
       amount?: number
+      expectedVersion?: number
+      targetEventId?: string // UNDO: revert back to and including this event
     }
 
-    if (!['SOLD', 'UNSOLD', 'DEFER', 'UNDO'].includes(action)) {
+    if (!['SOLD', 'UNSOLD', 'DEFER', 'UNDO', 'REDO'].includes(action)) {
       return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
     }
 
-    // 1. Read current state
+    // 1. Check the auction exists (the RPC re-checks status under a row lock)
     const { data: auction, error: auctionError } = await supabase
       .from('auctions')
-      .select('id, name, status, budget_per_team, queue_state, bidding_type')
+      .select('id, name, status, budget_per_team, queue_version')
       .eq('id', auctionId)
       .maybeSingle()
 
@@ -53,331 +51,49 @@ export async function POST(
       return NextResponse.json({ error: 'Auction is not live' }, { status: 400 })
     }
 
-    const qs = (auction.queue_state || {}) as QueueState
-    const auctionQueue = [...(qs.auctionQueue || [])]
-    let auctionIndex = qs.auctionIndex ?? 0
-    const auctionStarted = qs.auctionStarted ?? false
-    let unsoldPlayers = [...(qs.unsoldPlayers || [])]
-    let deferredPlayers = [...(qs.deferredPlayers || [])]
-    let auctionHistory = [...(qs.auctionHistory || [])]
-
-    const currentPlayerName = auctionQueue[auctionIndex]
-
-    // Look up all players for this auction (needed for ID lookups)
-    const { data: allPlayers } = await supabase
-      .from('players')
-      .select('id, name, tier_id')
-      .eq('auction_id', auctionId)
-
-    const playerByName = new Map((allPlayers || []).map(p => [p.name, p]))
-
-    const isOutcry = auction.bidding_type === 'OPEN_OUTCRY'
-
-    // 2. Apply action
-    if (action === 'SOLD') {
-      // For OPEN_OUTCRY, auto-read winner from round state
-      let soldTeamId = teamId
-      let soldAmount = amount
-
-      if (isOutcry) {
-        const { data: openRound } = await supabase
-          .from('rounds')
-          .select('current_bid_team_id, current_bid_amount')
-          .eq('auction_id', auctionId)
-          .eq('status', 'OPEN')
-          .order('opened_at', { ascending: false })
-          .limit(1)
-          .maybeSingle()
-
-        if (!openRound?.current_bid_team_id || !openRound?.current_bid_amount) {
-          return NextResponse.json(
-            { error: 'No bids placed in this round yet' },
-            { status: 400 }
-          )
-        }
-        soldTeamId = openRound.current_bid_team_id
-        soldAmount = openRound.current_bid_amount
-      }
-
-      if (!soldTeamId || !soldAmount) {
-        return NextResponse.json(
-          { error: 'teamId and amount required for SOLD' },
-          { status: 400 }
-        )
-      }
-      if (!currentPlayerName) {
-        return NextResponse.json(
-          { error: 'No current player in queue' },
-          { status: 400 }
-        )
-      }
-
-      const player = playerByName.get(currentPlayerName)
-      if (!player) {
-        return NextResponse.json(
-          { error: `Player "${currentPlayerName}" not found in database` },
-          { status: 400 }
-        )
-      }
-
-      // Create auction_result
-      const { error: resultError } = await supabase
-        .from('auction_results')
-        .upsert(
-          {
-            auction_id: auctionId,
-            player_id: player.id,
-            team_id: soldTeamId,
-            winning_bid_amount: soldAmount,
-            assigned_at: new Date().toISOString(),
-          },
-          { onConflict: 'auction_id, player_id' }
-        )
-
-      if (resultError) {
-        console.error('[action/SOLD] Failed to create auction_result:', resultError)
-        return NextResponse.json(
-          { error: 'Failed to record sale', details: resultError.message },
-          { status: 500 }
-        )
-      }
-
-      // Mark winning bid on the open round
-      const { data: soldRound } = await supabase
-        .from('rounds')
-        .select('id')
-        .eq('auction_id', auctionId)
-        .eq('player_id', player.id)
-        .eq('status', 'OPEN')
-        .maybeSingle()
-
-      if (soldRound) {
-        await supabase
-          .from('bids')
-          .update({ is_winning_bid: true })
-          .eq('round_id', soldRound.id)
-          .eq('team_id', soldTeamId)
-      }
-
-      // Get team name for history
-      const { data: team } = await supabase
-        .from('teams')
-        .select('name')
-        .eq('id', soldTeamId)
-        .maybeSingle()
-
-      auctionHistory = [...auctionHistory, {
-        player: currentPlayerName,
-        team: team?.name || '',
-        price: soldAmount,
-        action: 'SOLD',
-      }]
-      auctionIndex++
-
-    } else if (action === 'UNSOLD') {
-      if (!currentPlayerName) {
-        return NextResponse.json(
-          { error: 'No current player in queue' },
-          { status: 400 }
-        )
-      }
-
-      unsoldPlayers = [...unsoldPlayers, currentPlayerName]
-      auctionHistory = [...auctionHistory, {
-        player: currentPlayerName,
-        team: '',
-        price: 0,
-        action: 'UNSOLD',
-      }]
-      auctionIndex++
-
-    } else if (action === 'DEFER') {
-      if (!currentPlayerName) {
-        return NextResponse.json(
-          { error: 'No current player in queue' },
-          { status: 400 }
-        )
-      }
-
-      // Remove from queue at current index (don't advance — array shifted)
-      auctionQueue.splice(auctionIndex, 1)
-      deferredPlayers = [...deferredPlayers, currentPlayerName]
-      auctionHistory = [...auctionHistory, {
-        player: currentPlayerName,
-        team: '',
-        price: 0,
-        action: 'DEFERRED',
-      }]
-
-    } else if (action === 'UNDO') {
-      if (auctionHistory.length === 0) {
-        return NextResponse.json({ error: 'Nothing to undo' }, { status: 400 })
-      }
-
-      const lastAction = auctionHistory[auctionHistory.length - 1]
-      auctionHistory = auctionHistory.slice(0, -1)
-
-      if (lastAction.action === 'SOLD') {
-        const player = playerByName.get(lastAction.player)
-        if (player) {
-          await supabase
-            .from('auction_results')
-            .delete()
-            .eq('auction_id', auctionId)
-            .eq('player_id', player.id)
-        }
-        auctionIndex--
-
-      } else if (lastAction.action === 'UNSOLD') {
-        unsoldPlayers = unsoldPlayers.filter(p => p !== lastAction.player)
-        auctionIndex--
-
-      } else if (lastAction.action === 'DEFERRED') {
-        // Remove player from wherever it might be in the queue (could have been auto-returned)
-        const existingIdx = auctionQueue.lastIndexOf(lastAction.player)
-        if (existingIdx !== -1) {
-          auctionQueue.splice(existingIdx, 1)
-        }
-        // Re-insert at current position
-        auctionQueue.splice(auctionIndex, 0, lastAction.player)
-        // Remove from deferred list (might already be empty if auto-return happened)
-        deferredPlayers = deferredPlayers.filter(p => p !== lastAction.player)
-      }
-    }
-
-    // 3. Handle deferred auto-return: if we've reached the end and there are deferred players
-    if (auctionIndex >= auctionQueue.length && deferredPlayers.length > 0) {
-      auctionQueue.push(...deferredPlayers)
-      deferredPlayers = []
-    }
-
-    // 4. Close all OPEN rounds for this auction
-    await supabase
-      .from('rounds')
-      .update({ status: 'CLOSED', closed_at: new Date().toISOString() })
-      .eq('auction_id', auctionId)
-      .eq('status', 'OPEN')
-
-    // 5. If next player exists in queue, open a new round
-    let currentRound = null
-    if (auctionIndex < auctionQueue.length) {
-      const nextPlayerName = auctionQueue[auctionIndex]
-      const nextPlayer = playerByName.get(nextPlayerName)
-      if (nextPlayer) {
-        const { data: round } = await supabase
-          .from('rounds')
-          .insert({
-            auction_id: auctionId,
-            player_id: nextPlayer.id,
-            tier_id: nextPlayer.tier_id || null,
-            status: 'OPEN',
-            opened_at: new Date().toISOString(),
-          })
-          .select('id, player_id, status, opened_at')
-          .single()
+    // 2. Apply the action atomically (state machine lives in apply_auction_action,
+    //    which also appends it to the audit_logs event stream)
+    const { data: rpcResult, error: rpcError } = await supabase
+      .rpc('apply_auction_action', {
+        p_auction_id: auctionId,
+        p_action: action,
+        p_user_id: userId,
+        p_team_id: teamId ?? null,
+        p_amount: amount ?? null,
+        p_expected_version: expectedVersion ?? null,
+        p_target_event_id: targetEventId ?? null,
+      })
 
-        if (round) {
-          currentRound = {
-            id: round.id,
-            playerId: round.player_id,
-            playerName: nextPlayerName,
-            tierId: nextPlayer.tier_id || '',
-            status: round.status,
-            openedAt: round.opened_at,
-            closedAt: null,
-          }
-        }
-      }
+    if (rpcError) {
+      console.error(`[action/${action}] RPC error:`, rpcError)
+      // 40001 = stale queue_version, P0002 = auction vanished mid-request
+      const status = rpcError.code === '40001' ? 409 : rpcError.code === 'P0002' ? 404 : 400
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to apply action', queueVersion: auction.queue_version },
+        { status }
+      )
     }
 
-    // 6. Write updated queue_state to DB
-    const updatedQueueState: QueueState = {
-      auctionQueue,
-      auctionIndex,
-      auctionStarted,
-      unsoldPlayers,
-      deferredPlayers,
-      auctionHistory,
-    }
+    const result = rpcResult?.[0] || rpcResult
+    const queueState = (result?.new_queue_state || null) as QueueState | null
 
-    await supabase
-      .from('auctions')
-      .update({ queue_state: updatedQueueState })
-      .eq('id', auctionId)
-
-    // 7. Query canonical state: teams + budgets + results
-    const { data: teams } = await supabase
-      .from('teams')
-      .select('id, name')
-      .eq('auction_id', auctionId)
-      .order('name')
-
-    const { data: teamBudgets } = await supabase
-      .from('team_budgets')
-      .select('team_id, total_budget, spent, budget_remaining')
-      .eq('auction_id', auctionId)
-
-    const budgetMap = new Map(
-      (teamBudgets || []).map(b => [b.team_id, b])
-    )
-
-    const { data: results } = await supabase
-      .from('auction_results')
-      .select('player_id, team_id, winning_bid_amount, player:players(name), team:teams(name)')
-      .eq('auction_id', auctionId)
-
-    const teamPlayersMap = new Map<string, Array<{ id: string; name: string; price: number }>>()
-    const soldPlayers: Array<{
-      playerId: string
-      playerName: string
-      teamId: string
-      teamName: string
-      price: number
-    }> = []
-
-    for (const r of results || []) {
-      const teamPlayers = teamPlayersMap.get(r.team_id) || []
-      const playerName = (r.player as any)?.name || 'Unknown'
-      teamPlayers.push({ id: r.player_id, name: playerName, price: r.winning_bid_amount })
-      teamPlayersMap.set(r.team_id, teamPlayers)
-
-      soldPlayers.push({
-        playerId: r.player_id,
-        playerName,
-        teamId: r.team_id,
-        teamName: (r.team as any)?.name || 'Unknown',
-        price: r.winning_bid_amount,
-      })
-    }
-
-    const teamStates = (teams || []).map(t => {
-      const budget = budgetMap.get(t.id)
-      return {
-        id: t.id,
-        name: t.name,
-        coins: budget?.budget_remaining ?? auction.budget_per_team,
-        originalCoins: budget?.total_budget ?? auction.budget_per_team,
-        players: teamPlayersMap.get(t.id) || [],
-      }
+    // 3. RTM window for a sale; proxy and bot bidders for the next player
+    await runPostSaleHooks(supabase, auctionId, {
+      soldPlayerId: action === 'SOLD' ? queueState?.auctionHistory?.at(-1)?.playerId ?? null : null,
+      openedRoundId: result?.opened_round_id ?? null,
     })
 
-    // 8. Return canonical response
-    return NextResponse.json({
-      id: auction.id,
-      name: auction.name,
-      status: auction.status,
-      teams: teamStates,
-      soldPlayers,
-      unsoldPlayers,
-      deferredPlayers,
-      auctionHistory,
-      auctionQueue,
-      auctionIndex,
-      auctionStarted,
-      currentRound,
-      lastUpdated: new Date().toISOString(),
+    // 4. Return canonical state (queue from the RPC, the rest from the database)
+    const state = await buildAuctionState({
+      supabase,
+      auction,
+      queueState,
+      queueVersion: result?.new_version ?? auction.queue_version,
+      openRoundId: result?.opened_round_id ?? null,
     })
 
+    return NextResponse.json(state)
+
   } catch (error) {
     console.error('[action/POST] Unexpected error:', error)
     return NextResponse.json(
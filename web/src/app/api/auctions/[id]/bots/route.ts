@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import { canManageBots, loadBotCaptains, triggerBotCaptains } from '@/lib/bot-captain'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const botSchema = z.object({
+  teamId: z.string(),
+  // null hands the team back to its people
+  strategy: z.enum(['VALUE', 'ROLE_NEED', 'AGGRESSIVE']).nullable(),
+})
+
+// GET - Every team, with the strategy of its bot captain if it has one
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('id, status')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+
+    const [bots, teamsResult] = await Promise.all([
+      loadBotCaptains(supabase, auctionId),
+      supabase.from('teams').select('id, name').eq('auction_id', auctionId).order('name'),
+    ])
+    const strategies = new Map(bots.map(b => [b.teamId, b.strategy]))
+
+    return NextResponse.json({
+      editable: canManageBots(auction.status),
+      teams: (teamsResult.data || []).map(t => ({
+        id: t.id,
+        name: t.name,
+        strategy: strategies.get(t.id) ?? null,
+      })),
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch bot captains:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch bot captains',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Put a bot in charge of a team (or change its strategy), or take it off with strategy: null
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    const supabase = await createClient()
+    const body = await request.json()
+    const { teamId, strategy } = botSchema.parse(body)
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('id, status')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (!canManageBots(auction.status)) {
+      return NextResponse.json({ error: 'Bot captains can only be changed before or during the auction' }, { status: 400 })
+    }
+
+    const { data: team } = await supabase
+      .from('teams')
+      .select('id')
+      .eq('id', teamId)
+      .eq('auction_id', auctionId)
+      .maybeSingle()
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found in this auction' }, { status: 404 })
+    }
+
+    // RLS limits writes to the auction's owner
+    const { data: rows, error } = strategy
+      ? await supabase
+          .from('bot_captains')
+          .upsert({ team_id: teamId, auction_id: auctionId, strategy }, { onConflict: 'team_id' })
+          .select('team_id')
+      : await supabase
+          .from('bot_captains')
+          .delete()
+          .eq('team_id', teamId)
+          .select('team_id')
+
+    if (error) throw error
+    if (strategy && (rows || []).length === 0) {
+      return NextResponse.json({ error: 'Only the auction owner can add bot captains' }, { status: 403 })
+    }
+
+    // A bot added mid-round joins in straight away
+    if (strategy && auction.status === 'LIVE') await triggerBotCaptains(auctionId)
+
+    return NextResponse.json({ teamId, strategy })
+
+  } catch (error) {
+    console.error('[bots/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid bot captain data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
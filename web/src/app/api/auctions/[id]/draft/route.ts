@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { getAuthenticatedUser, verifyTeamAdminAccess } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { buildAuctionState, type QueueState } from '@/lib/auction-state'
+import {
+  broadcastDraft, chooseAutoPick, getDraftPickError, loadDraft, loadDraftSquad,
+} from '@/lib/draft'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const draftActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('START'),
+    // Pick order; defaults to the order the teams were created in
+    teamIds: z.array(z.string()).min(1).optional(),
+  }),
+  z.object({
+    action: z.literal('PICK'),
+    teamId: z.string(),
+    playerId: z.string(),
+  }),
+  z.object({
+    // Pick for the team on the clock from its ranked list (timer ran out, or the auctioneer)
+    action: z.literal('AUTO'),
+  }),
+])
+
+// GET - Pick order, whose pick it is, who's left and the picks so far
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const draft = await loadDraft(supabase, auctionId)
+    return NextResponse.json({ draft })
+
+  } catch (error) {
+    console.error('Failed to fetch draft:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch draft',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - START the draft (auctioneer), PICK a player (team on the clock), or AUTO-pick once the clock runs out
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId, userEmail } = getAuthenticatedUser(request)
+    if (!userId || !userEmail) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { id: auctionId } = await params
+    const body = await request.json()
+    const input = draftActionSchema.parse(body)
+
+    // Teams pick for themselves (checked below); starting and auto-picking are the auctioneer's
+    let supabase = await createClient()
+    if (input.action !== 'PICK') {
+      const access = await checkRoundControl(request, auctionId, userId)
+      if (!access.success) {
+        return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+      }
+      supabase = await getRoundClient(access.role)
+    }
+
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select('id, name, status, bidding_type, budget_per_team, queue_version')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (auctionError || !auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.status !== 'LIVE') {
+      return NextResponse.json({ error: 'Auction is not live' }, { status: 400 })
+    }
+    if (auction.bidding_type !== 'DRAFT') {
+      return NextResponse.json({ error: 'This auction is not a draft' }, { status: 400 })
+    }
+
+    if (input.action === 'START') {
+      let teamIds = input.teamIds
+      if (!teamIds) {
+        const { data: teams } = await supabase
+          .from('teams')
+          .select('id')
+          .eq('auction_id', auctionId)
+          .order('created_at', { ascending: true })
+        teamIds = (teams || []).map(t => t.id)
+      }
+
+      const { error: rpcError } = await supabase
+        .rpc('start_draft', { p_auction_id: auctionId, p_team_order: teamIds })
+
+      if (rpcError) {
+        console.error('[draft/START] RPC error:', rpcError)
+        return NextResponse.json(
+          { error: rpcError.message || 'Failed to start draft' },
+          { status: 400 }
+        )
+      }
+
+      await broadcastDraft(supabase, auctionId, { type: 'STARTED' })
+      return NextResponse.json({ draft: await loadDraft(supabase, auctionId) })
+    }
+
+    let teamId: string
+    let playerId: string
+
+    if (input.action === 'PICK') {
+      const authResult = await verifyTeamAdminAccess(userId, userEmail, input.teamId, auctionId)
+      if (!authResult.success) {
+        return NextResponse.json(
+          { error: authResult.error, details: authResult.details },
+          { status: authResult.statusCode || 403 }
+        )
+      }
+
+      const { data: player } = await supabase
+        .from('players')
+        .select('id, tier_id, playing_role')
+        .eq('id', input.playerId)
+        .eq('auction_id', auctionId)
+        .maybeSingle()
+
+      if (!player) {
+        return NextResponse.json({ error: 'Player not found in this auction' }, { status: 404 })
+      }
+
+      const squad = await loadDraftSquad(supabase, auctionId, input.teamId)
+      const pickError = getDraftPickError(squad, { tierId: player.tier_id, playingRole: player.playing_role })
+      if (pickError) {
+        return NextResponse.json({ error: pickError }, { status: 400 })
+      }
+
+      teamId = input.teamId
+      playerId = player.id
+    } else {
+      const draft = await loadDraft(supabase, auctionId)
+      if (!draft?.currentTeamId) {
+        return NextResponse.json({ error: 'Nobody is on the clock' }, { status: 400 })
+      }
+      teamId = draft.currentTeamId
+
+      // Rankings are private to each team, so read them with the service role
+      const { data: rankings } = await createAdminClient()
+        .from('draft_rankings')
+        .select('player_id')
+        .eq('team_id', teamId)
+        .order('rank')
+
+      const squad = await loadDraftSquad(supabase, auctionId, teamId)
+      const player = chooseAutoPick(
+        (rankings || []).map(r => r.player_id),
+        draft.available,
+        p => getDraftPickError(squad, p) === null
+      )
+
+      if (!player) {
+        const teamName = draft.teams.find(t => t.id === teamId)?.name || 'this team'
+        return NextResponse.json({ error: `No player left fits the squad rules for ${teamName}` }, { status: 400 })
+      }
+      playerId = player.id
+    }
+
+    // make_draft_pick is service-role only; the team check (PICK) or round control (AUTO) above
+    // is the caller check. It checks tier minimums again under the auction lock.
+    const { data: rpcResult, error: rpcError } = await createAdminClient()
+      .rpc('make_draft_pick', {
+        p_auction_id: auctionId,
+        p_team_id: teamId,
+        p_player_id: playerId,
+        p_user_id: userId,
+        p_auto: input.action === 'AUTO',
+      })
+
+    if (rpcError) {
+      console.error(`[draft/${input.action}] RPC error:`, rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to make pick' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    const result = rpcResult?.[0] || rpcResult
+
+    const state = await buildAuctionState({
+      supabase,
+      auction,
+      queueState: (result?.new_queue_state || null) as QueueState | null,
+      queueVersion: result?.new_version ?? auction.queue_version,
+      openRoundId: null,
+    })
+
+    const channel = supabase.channel(`auction-${auctionId}`)
+    await channel.send({
+      type: 'broadcast',
+      event: 'auction-state',
+      payload: state,
+    })
+    await supabase.removeChannel(channel)
+
+    await broadcastDraft(supabase, auctionId, {
+      type: 'PICKED',
+      teamId: result?.picking_team_id ?? teamId,
+      playerId,
+      auto: input.action === 'AUTO',
+      state,
+    })
+
+    return NextResponse.json({ state, draft: await loadDraft(supabase, auctionId) })
+
+  } catch (error) {
+    console.error('[draft/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid draft data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
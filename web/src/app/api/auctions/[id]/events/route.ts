@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  AUCTION_EVENT_ACTIONS,
+  buildAuctionTimeline,
+  parseAuctionEvent,
+  type AuctionEvent,
+} from '@/lib/auction-events'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// GET - Auctioneer event timeline (undo/redo stacks derived from audit_logs)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = await createClient()
+    const { id: auctionId } = await params
+
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select('id, queue_version')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (auctionError) throw auctionError
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+
+    // RLS limits audit_logs to the auction owner; everyone else gets an empty timeline
+    const { data: rows, error } = await supabase
+      .from('audit_logs')
+      .select('id, action, timestamp, details')
+      .eq('auction_id', auctionId)
+      .in('action', AUCTION_EVENT_ACTIONS)
+
+    if (error) throw error
+
+    const events = (rows || [])
+      .map(parseAuctionEvent)
+      .filter((e): e is AuctionEvent => e !== null)
+
+    return NextResponse.json({
+      queueVersion: auction.queue_version ?? 0,
+      ...buildAuctionTimeline(events, auction.queue_version ?? 0),
+    })
+  } catch (error) {
+    console.error('Failed to load auction events:', error)
+    return NextResponse.json({ error: 'Failed to load auction events' }, { status: 500 })
+  }
+}
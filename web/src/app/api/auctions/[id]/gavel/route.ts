@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import {
+  canPerform, checkAuctionPermission, getAuctionRole, type AuctionRole,
+} from '@/lib/auction-permissions'
+import {
+  GAVEL_HELD_CODE, GAVEL_SESSION_HEADER, broadcastGavel, getGavelClaim, heartbeatGavel, loadGavel, takeGavel, toGavelView,
+} from '@/lib/auction-gavel'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const gavelActionSchema = z.discriminatedUnion('action', [
+  // Take a free or abandoned gavel, accept a handover, or (owners, with force) take it back
+  z.object({ action: z.literal('CLAIM'), force: z.boolean().optional() }),
+  z.object({ action: z.literal('HEARTBEAT') }),
+  z.object({ action: z.literal('RELEASE') }),
+  // Offer the gavel to another owner or moderator; null withdraws the offer
+  z.object({ action: z.literal('HANDOVER'), toUserId: z.string().nullable() }),
+])
+
+async function loadView(admin: SupabaseClient, auctionId: string, sessionId: string | null, userId: string, role: AuctionRole) {
+  const [gavel, { data: user }] = await Promise.all([
+    loadGavel(admin, auctionId),
+    admin.from('users').select('name').eq('id', userId).maybeSingle(),
+  ])
+  return toGavelView(gavel, sessionId, { userId, name: user?.name || 'You', role })
+}
+
+// GET - Who holds the gavel, as seen from this browser session (owners and moderators)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'RUN_ROUNDS')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    const sessionId = request.headers.get(GAVEL_SESSION_HEADER)
+    return NextResponse.json({ gavel: await loadView(createAdminClient(), auctionId, sessionId, userId!, access.role!) })
+
+  } catch (error) {
+    console.error('Failed to fetch gavel:', error)
+    return NextResponse.json({ error: 'Failed to fetch gavel' }, { status: 500 })
+  }
+}
+
+// POST - Claim, keep, release or hand over the gavel
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'RUN_ROUNDS')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+    const role = access.role!
+
+    const sessionId = request.headers.get(GAVEL_SESSION_HEADER)
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing gavel session' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = gavelActionSchema.parse(body)
+
+    // auction_gavels has no policies: only the service role reads or writes it
+    const admin = createAdminClient()
+    const gavel = await loadGavel(admin, auctionId)
+    const heldByYou = gavel?.sessionId === sessionId
+
+    if (input.action === 'CLAIM') {
+      const claim = getGavelClaim(gavel, { userId: userId!, sessionId, role, force: input.force })
+      if (claim === 'BLOCKED') {
+        return NextResponse.json(
+          { error: `${gavel?.holderName || 'Someone else'} has the gavel — ask them to hand it over`, code: GAVEL_HELD_CODE },
+          { status: 423 }
+        )
+      }
+      if (claim === 'HELD') {
+        await heartbeatGavel(admin, auctionId, sessionId)
+      } else {
+        if (!await takeGavel(admin, auctionId, userId!, sessionId, gavel)) {
+          return NextResponse.json({ error: 'Someone else took the gavel first', code: GAVEL_HELD_CODE }, { status: 423 })
+        }
+        await broadcastGavel(admin, auctionId)
+      }
+    } else if (!heldByYou) {
+      // Heartbeats, releases and handovers only come from the holder
+      return NextResponse.json({ error: 'This window no longer holds the gavel', code: GAVEL_HELD_CODE }, { status: 423 })
+    } else if (input.action === 'HEARTBEAT') {
+      await heartbeatGavel(admin, auctionId, sessionId)
+    } else if (input.action === 'RELEASE') {
+      const { error } = await admin
+        .from('auction_gavels')
+        .delete()
+        .eq('auction_id', auctionId)
+        .eq('session_id', sessionId)
+      if (error) throw error
+      await broadcastGavel(admin, auctionId)
+    } else {
+      if (input.toUserId) {
+        if (input.toUserId === userId) {
+          return NextResponse.json({ error: 'You already hold the gavel' }, { status: 400 })
+        }
+        const { data: auction } = await admin
+          .from('auctions')
+          .select('id, owner_id')
+          .eq('id', auctionId)
+          .maybeSingle()
+        const toRole = auction ? await getAuctionRole(admin, auction, input.toUserId) : null
+        if (!canPerform(toRole, 'RUN_ROUNDS')) {
+          return NextResponse.json({ error: 'The gavel can only go to an owner or moderator' }, { status: 400 })
+        }
+      }
+
+      const { error } = await admin
+        .from('auction_gavels')
+        .update({
+          offered_to_user_id: input.toUserId,
+          offered_at: input.toUserId ? new Date().toISOString() : null,
+          heartbeat_at: new Date().toISOString(),
+        })
+        .eq('auction_id', auctionId)
+        .eq('session_id', sessionId)
+      if (error) throw error
+      await broadcastGavel(admin, auctionId)
+    }
+
+    return NextResponse.json({ gavel: await loadView(admin, auctionId, sessionId, userId!, role) })
+
+  } catch (error) {
+    console.error('[gavel/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid gavel action', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
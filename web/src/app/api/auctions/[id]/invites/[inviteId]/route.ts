@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+
+interface RouteParams {
+  params: Promise<{ id: string; inviteId: string }>
+}
+
+// DELETE - Revoke an invite. Its link stops working; people who already joined stay.
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId, inviteId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    const supabase = await createClient()
+
+    // RLS limits this to the auction's owner
+    const { data: revoked, error } = await supabase
+      .from('auction_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', inviteId)
+      .eq('auction_id', auctionId)
+      .is('revoked_at', null)
+      .select('id')
+
+    if (error) throw error
+    if (!revoked || revoked.length === 0) {
+      return NextResponse.json({ error: 'Invite not found or already revoked' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to revoke invite:', error)
+    return NextResponse.json({ error: 'Failed to revoke invite' }, { status: 500 })
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import {
+  DEFAULT_INVITE_TTL_HOURS, MAX_INVITE_TTL_HOURS,
+  getInviteSecret, signInviteToken, type InviteRole,
+} from '@/lib/invite-token'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const createInviteSchema = z.object({
+  teamId: z.string(),
+  role: z.enum(['CAPTAIN', 'VIEWER']).default('CAPTAIN'),
+  expiresInHours: z.number().int().min(1).max(MAX_INVITE_TTL_HOURS).default(DEFAULT_INVITE_TTL_HOURS),
+})
+
+interface InviteRow {
+  id: string
+  auction_id: string
+  team_id: string
+  role: InviteRole
+  expires_at: string
+  created_at: string
+  revoked_at: string | null
+  redemption_count: number
+  last_redeemed_at: string | null
+}
+
+// Tokens aren't stored; the same payload always signs to the same token, so
+// the owner can copy a live invite's link again later
+function transformInvite(invite: InviteRow, secret: string) {
+  const active = !invite.revoked_at && new Date(invite.expires_at).getTime() > Date.now()
+  return {
+    id: invite.id,
+    teamId: invite.team_id,
+    role: invite.role,
+    expiresAt: invite.expires_at,
+    createdAt: invite.created_at,
+    revokedAt: invite.revoked_at,
+    redemptionCount: invite.redemption_count,
+    lastRedeemedAt: invite.last_redeemed_at,
+    active,
+    token: active
+      ? signInviteToken({
+          inviteId: invite.id,
+          auctionId: invite.auction_id,
+          teamId: invite.team_id,
+          role: invite.role,
+          exp: Math.floor(new Date(invite.expires_at).getTime() / 1000),
+        }, secret)
+      : null,
+  }
+}
+
+// GET - The auction's invites, newest first (owner only; ?teamId= narrows to one team)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { id: auctionId } = await params
+    const teamId = request.nextUrl.searchParams.get('teamId')
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('owner_id')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.owner_id !== userId) {
+      return NextResponse.json({ error: 'Only the auction owner can view invites' }, { status: 403 })
+    }
+
+    let query = supabase
+      .from('auction_invites')
+      .select('*')
+      .eq('auction_id', auctionId)
+      .order('created_at', { ascending: false })
+    if (teamId) query = query.eq('team_id', teamId)
+
+    const { data: invites, error } = await query
+    if (error) throw error
+
+    const secret = getInviteSecret()
+    return NextResponse.json({
+      invites: (invites || []).map(invite => transformInvite(invite as InviteRow, secret)),
+    })
+  } catch (error) {
+    console.error('Failed to fetch invites:', error)
+    return NextResponse.json({ error: 'Failed to fetch invites' }, { status: 500 })
+  }
+}
+
+// POST - Mint an invite for one team (owner only)
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    const body = await request.json()
+    const { teamId, role, expiresInHours } = createInviteSchema.parse(body)
+
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('status')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.status === 'COMPLETED' || auction.status === 'ARCHIVED') {
+      return NextResponse.json({ error: 'This auction has finished' }, { status: 400 })
+    }
+
+    const { data: team } = await supabase
+      .from('teams')
+      .select('id')
+      .eq('id', teamId)
+      .eq('auction_id', auctionId)
+      .maybeSingle()
+
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found in this auction' }, { status: 404 })
+    }
+
+    const secret = getInviteSecret()
+    const { data: invite, error } = await supabase
+      .from('auction_invites')
+      .insert({
+        auction_id: auctionId,
+        team_id: teamId,
+        role,
+        expires_at: new Date(Date.now() + expiresInHours * 3600 * 1000).toISOString(),
+        created_by: userId,
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ invite: transformInvite(invite as InviteRow, secret) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid invite data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to create invite:', error)
+    return NextResponse.json({ error: 'Failed to create invite' }, { status: 500 })
+  }
+}
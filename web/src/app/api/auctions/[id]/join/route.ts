@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
 import { getUserFromRequest, getUserAuctionPermissions, joinAuction } from '@/lib/auth'
+import { getPasscodeErrorMessage, type PasscodeJoinStatus } from '@/lib/auction-passcode'
 
 interface RouteParams {
   params: Promise<{
@@ -8,9 +10,10 @@ interface RouteParams {
   }>
 }
 
+// Joining makes you a viewer. Captains get their team through a team invite
+// (/api/invites) or from the auctioneer, never by asking for it here.
 const joinAuctionSchema = z.object({
-  role: z.enum(['CAPTAIN', 'VIEWER']).default('VIEWER'),
-  teamId: z.string().optional(),
+  passcode: z.string().max(64).optional(),
 })
 
 export async function POST(
@@ -34,6 +37,66 @@ export async function POST(
     // Check current permissions (now checks league membership)
     const permissions = await getUserAuctionPermissions(user.id, auctionId)
 
+    // Newcomers to a private auction with a passcode need the passcode,
+    // league members included. Owners and existing participants don't.
+    if (!permissions.role) {
+      const supabase = await createClient()
+      const { data: passcodeRequired } = await supabase
+        .rpc('auction_passcode_required', { p_auction_id: auctionId })
+
+      if (passcodeRequired) {
+        if (!validatedData.passcode) {
+          return NextResponse.json(
+            { error: 'This auction needs a passcode to join', passcodeRequired: true },
+            { status: 403 }
+          )
+        }
+
+        const { data: rpcResult, error: rpcError } = await supabase
+          .rpc('join_auction_with_passcode', {
+            p_auction_id: auctionId,
+            p_passcode: validatedData.passcode,
+          })
+
+        if (rpcError) {
+          throw rpcError
+        }
+
+        const result = rpcResult?.[0] || rpcResult
+        const status = result?.status as PasscodeJoinStatus
+
+        if (status === 'RATE_LIMITED') {
+          return NextResponse.json(
+            {
+              error: getPasscodeErrorMessage(status, 0, result.retry_after_seconds),
+              passcodeRequired: true,
+              retryAfter: result.retry_after_seconds,
+            },
+            { status: 429, headers: { 'Retry-After': String(result.retry_after_seconds) } }
+          )
+        }
+
+        if (status === 'WRONG_PASSCODE') {
+          return NextResponse.json(
+            {
+              error: getPasscodeErrorMessage(status, result.attempts_left, null),
+              passcodeRequired: true,
+              attemptsLeft: result.attempts_left,
+            },
+            { status: 403 }
+          )
+        }
+
+        if (status === 'JOINED') {
+          return NextResponse.json({
+            success: true,
+            permissions: await getUserAuctionPermissions(user.id, auctionId),
+            message: 'Successfully joined auction'
+          })
+        }
+      }
+    }
+
     if (!permissions.canJoin) {
       return NextResponse.json(
         { error: 'Access denied. You must be a member of the league to join this auction.' },
@@ -42,12 +105,7 @@ export async function POST(
     }
 
     // Join the auction
-    const success = await joinAuction(
-      user.id,
-      auctionId,
-      validatedData.role,
-      validatedData.teamId
-    )
+    const success = await joinAuction(user.id, auctionId, 'VIEWER')
 
     if (!success) {
       return NextResponse.json(
@@ -95,8 +153,17 @@ export async function GET(
       auctionId
     )
 
+    // Lets the lobby ask for the passcode instead of showing a dead end
+    let passcodeRequired = false
+    if (!permissions.role) {
+      const supabase = await createClient()
+      const { data } = await supabase.rpc('auction_passcode_required', { p_auction_id: auctionId })
+      passcodeRequired = !!data
+    }
+
     return NextResponse.json({
       permissions,
+      passcodeRequired,
       user: user ? {
         id: user.id,
         name: user.name,
@@ -0,0 +1,304 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { getAuthenticatedUser, verifyTeamAdminAccess } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { buildAuctionState, type QueueState } from '@/lib/auction-state'
+import { validateAndSubmitBid } from '@/lib/bid-utils'
+import { loadBidLimit, formatBidLimitError } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
+import { getJumpBidError, type OutcryConfig } from '@/lib/outcry-utils'
+import { broadcastNomination, loadNomination } from '@/lib/nomination'
+import { triggerProxyBidder } from '@/lib/proxy-bidder'
+import { triggerBotCaptains } from '@/lib/bot-captain'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const nominationActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('START'),
+    orderType: z.enum(['SNAKE', 'FIXED']),
+    // Nomination order; defaults to the order the teams were created in
+    teamIds: z.array(z.string()).min(1).optional(),
+    // Omit for no nomination timer
+    timerSeconds: z.number().int().min(5, 'Nomination timer must be at least 5 seconds').nullable().optional(),
+  }),
+  z.object({
+    action: z.literal('NOMINATE'),
+    teamId: z.string(),
+    playerId: z.string(),
+    openingBid: z.number().int().min(1, 'Opening bid must be at least 1'),
+  }),
+  z.object({
+    // Timer fallback (or the auctioneer skipping a turn): a random player for the team on the clock
+    action: z.literal('RANDOM'),
+  }),
+])
+
+type Auction = {
+  id: string
+  name: string
+  status: string
+  bidding_type: string | null
+  outcry_config: unknown
+  budget_per_team: number
+  queue_version: number
+}
+
+// GET - Nomination order, whose turn it is, and the players left to nominate
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const nomination = await loadNomination(supabase, auctionId)
+    return NextResponse.json({ nomination })
+
+  } catch (error) {
+    console.error('Failed to fetch nomination:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch nomination',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - START nomination mode (auctioneer), NOMINATE a player with an opening bid (team on the clock),
+// or make a RANDOM pick once the nomination timer runs out
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId, userEmail } = getAuthenticatedUser(request)
+    if (!userId || !userEmail) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { id: auctionId } = await params
+    const body = await request.json()
+    const input = nominationActionSchema.parse(body)
+
+    // Teams nominate for themselves (checked below); starting and forcing a random pick are the auctioneer's
+    let supabase = await createClient()
+    if (input.action !== 'NOMINATE') {
+      const access = await checkRoundControl(request, auctionId, userId)
+      if (!access.success) {
+        return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+      }
+      supabase = await getRoundClient(access.role)
+    }
+
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select('id, name, status, bidding_type, outcry_config, budget_per_team, queue_version')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (auctionError || !auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.status !== 'LIVE') {
+      return NextResponse.json({ error: 'Auction is not live' }, { status: 400 })
+    }
+
+    if (input.action === 'START') {
+      let teamIds = input.teamIds
+      if (!teamIds) {
+        const { data: teams } = await supabase
+          .from('teams')
+          .select('id')
+          .eq('auction_id', auctionId)
+          .order('created_at', { ascending: true })
+        teamIds = (teams || []).map(t => t.id)
+      }
+
+      const { error: rpcError } = await supabase
+        .rpc('start_nomination', {
+          p_auction_id: auctionId,
+          p_order_type: input.orderType,
+          p_team_order: teamIds,
+          p_timer_seconds: input.timerSeconds ?? null,
+        })
+
+      if (rpcError) {
+        console.error('[nomination/START] RPC error:', rpcError)
+        return NextResponse.json(
+          { error: rpcError.message || 'Failed to start nomination' },
+          { status: 400 }
+        )
+      }
+
+      await broadcastNomination(supabase, auctionId, { type: 'STARTED' })
+      return NextResponse.json({ nomination: await loadNomination(supabase, auctionId) })
+    }
+
+    if (input.action === 'NOMINATE') {
+      const authResult = await verifyTeamAdminAccess(userId, userEmail, input.teamId, auctionId)
+      if (!authResult.success) {
+        return NextResponse.json(
+          { error: authResult.error, details: authResult.details },
+          { status: authResult.statusCode || 403 }
+        )
+      }
+
+      // Check the opening bid before the player goes up, so a bad bid doesn't leave an empty round
+      const openingBidError = await getOpeningBidError(supabase, auction, input.teamId, input.playerId, input.openingBid)
+      if (openingBidError) {
+        return NextResponse.json({ error: openingBidError }, { status: 400 })
+      }
+    }
+
+    // nominate_player is service-role only; the team check (NOMINATE) or round control (RANDOM)
+    // above is the caller check
+    const { data: rpcResult, error: rpcError } = await createAdminClient()
+      .rpc('nominate_player', {
+        p_auction_id: auctionId,
+        p_team_id: input.action === 'NOMINATE' ? input.teamId : null,
+        p_player_id: input.action === 'NOMINATE' ? input.playerId : null,
+        p_user_id: userId,
+        p_random: input.action === 'RANDOM',
+      })
+
+    if (rpcError) {
+      console.error(`[nomination/${input.action}] RPC error:`, rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to nominate player' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    const result = rpcResult?.[0] || rpcResult
+    const roundId: string | null = result?.opened_round_id ?? null
+
+    // The nominating team opens the bidding. The player is already up, so a failure here is
+    // reported but doesn't undo the nomination — the team can still bid normally.
+    let openingBidError: string | null = null
+    if (input.action === 'NOMINATE' && roundId) {
+      openingBidError = await placeOpeningBid(supabase, auction, roundId, input.teamId, input.playerId, input.openingBid)
+      if (openingBidError) console.error('[nomination/NOMINATE] Opening bid failed:', openingBidError)
+    }
+
+    if (roundId) {
+      await triggerProxyBidder(auctionId)
+      await triggerBotCaptains(auctionId)
+    }
+
+    const state = await buildAuctionState({
+      supabase,
+      auction,
+      queueState: (result?.new_queue_state || null) as QueueState | null,
+      queueVersion: result?.new_version ?? auction.queue_version,
+      openRoundId: roundId,
+    })
+
+    const channel = supabase.channel(`auction-${auctionId}`)
+    await channel.send({
+      type: 'broadcast',
+      event: 'auction-state',
+      payload: state,
+    })
+    await supabase.removeChannel(channel)
+
+    await broadcastNomination(supabase, auctionId, {
+      type: 'NOMINATED',
+      teamId: result?.nominating_team_id,
+      playerId: result?.nominated_player_id,
+      roundId: roundId ?? undefined,
+      random: input.action === 'RANDOM',
+    })
+
+    return NextResponse.json({
+      state,
+      openingBidError,
+      nomination: await loadNomination(supabase, auctionId),
+    })
+
+  } catch (error) {
+    console.error('[nomination/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid nomination data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Same checks a first bid on the player would get: base price, outcry step, squad limits, budget
+async function getOpeningBidError(
+  supabase: SupabaseClient,
+  auction: Auction,
+  teamId: string,
+  playerId: string,
+  openingBid: number
+): Promise<string | null> {
+  const { data: player } = await supabase
+    .from('players')
+    .select('id, tier_id, tier:tiers!tier_id(base_price)')
+    .eq('id', playerId)
+    .eq('auction_id', auction.id)
+    .maybeSingle()
+
+  if (!player) return 'Player not found in this auction'
+
+  const basePrice = (player.tier as unknown as { base_price: number } | null)?.base_price ?? 0
+  if (openingBid < basePrice) return `Opening bid must be at least ${basePrice}`
+
+  const outcryConfig = auction.outcry_config as OutcryConfig | null
+  if (auction.bidding_type === 'OPEN_OUTCRY' && outcryConfig && openingBid !== basePrice) {
+    const jumpError = getJumpBidError(openingBid, basePrice, basePrice, outcryConfig, { tierId: player.tier_id })
+    if (jumpError) return jumpError
+  }
+
+  const squadLimitError = await checkSquadLimits({ supabase, auctionId: auction.id, teamId, playerId })
+  if (squadLimitError) return squadLimitError
+
+  const bidLimit = await loadBidLimit({ supabase, auctionId: auction.id, teamId, forTierId: player.tier_id })
+  if (openingBid > bidLimit.maxBid) return formatBidLimitError(bidLimit)
+
+  return null
+}
+
+// Outcry: the first paddle raise; sealed modes: the team's sealed bid
+async function placeOpeningBid(
+  supabase: SupabaseClient,
+  auction: Auction,
+  roundId: string,
+  teamId: string,
+  playerId: string,
+  openingBid: number
+): Promise<string | null> {
+  if (auction.bidding_type === 'OPEN_OUTCRY') {
+    const outcryConfig = auction.outcry_config as OutcryConfig | null
+    const { error } = await supabase
+      .rpc('raise_paddle', {
+        p_round_id: roundId,
+        p_team_id: teamId,
+        p_player_id: playerId,
+        p_auction_id: auction.id,
+        p_timer_seconds: outcryConfig?.timer_seconds ?? null,
+        p_amount: openingBid,
+      })
+    return error ? error.message || 'Failed to place opening bid' : null
+  }
+
+  const bidResult = await validateAndSubmitBid({ supabase, auctionId: auction.id, teamId, roundId, playerId, amount: openingBid })
+  return bidResult.success ? null : bidResult.error || 'Failed to place opening bid'
+}
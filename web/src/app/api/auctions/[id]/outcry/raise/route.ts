@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthenticatedUser, verifyTeamAdminAccess } from '@/lib/auth'
-import { calculateNextBid, type OutcryConfig } from '@/lib/outcry-utils'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import { loadBidLimit, formatBidLimitError } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
+import { triggerProxyBidder } from '@/lib/proxy-bidder'
+import { triggerBotCaptains } from '@/lib/bot-captain'
+import {
+  calculateNextBid, getJumpBidError, getRoundNextBid,
+  type OutcryConfig, type OutcryRule, type OutcryRuleScope,
+} from '@/lib/outcry-utils'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -15,11 +23,15 @@ export async function POST(
     const supabase = await createClient()
     const { id: auctionId } = await params
     const body = await request.json()
-    const { teamId } = body as { teamId: string }
+    // amount is optional: omit it to bid the next step, or pass a higher step for a jump bid
+    const { teamId, amount } = body as { teamId: string; amount?: number }
 
     if (!teamId) {
       return NextResponse.json({ error: 'teamId is required' }, { status: 400 })
     }
+    if (amount != null && typeof amount !== 'number') {
+      return NextResponse.json({ error: 'amount must be a number' }, { status: 400 })
+    }
 
     // Auth check
     const { userId, userEmail } = getAuthenticatedUser(request)
@@ -27,6 +39,12 @@ export async function POST(
       return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
     }
 
+    const access = await checkAuctionPermission(auctionId, userId, 'BID')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    // Captains bid only for their own team; owners and moderators for any
     const authResult = await verifyTeamAdminAccess(userId, userEmail, teamId, auctionId)
     if (!authResult.success) {
       return NextResponse.json(
@@ -55,7 +73,7 @@ export async function POST(
     // Get current open round
     const { data: round } = await supabase
       .from('rounds')
-      .select('id, player_id, base_price, current_bid_amount, current_bid_team_id, bid_count, status')
+      .select('id, player_id, tier_id, outcry_rules, base_price, current_bid_amount, current_bid_team_id, bid_count, status')
       .eq('auction_id', auctionId)
       .eq('status', 'OPEN')
       .order('opened_at', { ascending: false })
@@ -70,24 +88,40 @@ export async function POST(
       return NextResponse.json({ error: 'Your team already holds the highest bid' }, { status: 400 })
     }
 
-    // Budget check
+    // Team can't go over the player's tier maxPerTeam or role max
+    const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId, playerId: round.player_id })
+    if (squadLimitError) {
+      return NextResponse.json({ error: squadLimitError }, { status: 400 })
+    }
+
+    // Budget check (same rule lookup as raise_paddle: round, then tier, then auction)
     const outcryConfig = auction.outcry_config as OutcryConfig | null
+    const ruleScope: OutcryRuleScope = {
+      tierId: round.tier_id,
+      roundRules: round.outcry_rules as OutcryRule[] | null,
+    }
     const basePrice = round.base_price || 0
-    const currentBid = round.current_bid_amount || basePrice
-    const nextBid = round.bid_count === 0
-      ? basePrice
-      : (outcryConfig ? calculateNextBid(currentBid, basePrice, outcryConfig) : currentBid + basePrice)
-
-    const { data: teamBudget } = await supabase
-      .from('team_budgets')
-      .select('budget_remaining')
-      .eq('team_id', teamId)
-      .maybeSingle()
+    const nextBid = getRoundNextBid(
+      { basePrice, currentBid: round.current_bid_amount, bidCount: round.bid_count },
+      outcryConfig,
+      ruleScope
+    )
 
-    const remaining = teamBudget?.budget_remaining ?? auction.budget_per_team
-    if (nextBid > remaining) {
+    // Jump bid: must land on a step, within the auction's jump cap (raise_paddle re-checks)
+    if (amount != null && amount !== nextBid && outcryConfig) {
+      const jumpError = getJumpBidError(amount, nextBid, basePrice, outcryConfig, ruleScope)
+      if (jumpError) {
+        return NextResponse.json({ error: jumpError, nextBid }, { status: 400 })
+      }
+    }
+    const bidAmount = amount ?? nextBid
+
+    // Hold back enough to fill the rest of the squad at base price. This is for the
+    // friendlier error; raise_paddle enforces the same limit under the round lock
+    const bidLimit = await loadBidLimit({ supabase, auctionId, teamId, forTierId: round.tier_id })
+    if (bidAmount > bidLimit.maxBid) {
       return NextResponse.json(
-        { error: 'Insufficient budget for this bid', nextBid, remaining },
+        { error: formatBidLimitError(bidLimit), nextBid: bidAmount, remaining: bidLimit.remaining, maxBid: bidLimit.maxBid },
         { status: 400 }
       )
     }
@@ -101,6 +135,7 @@ export async function POST(
         p_player_id: round.player_id,
         p_auction_id: auctionId,
         p_timer_seconds: timerSeconds,
+        p_amount: amount ?? null,
       })
 
     if (rpcError) {
@@ -115,6 +150,7 @@ export async function POST(
     const newAmount = result?.new_amount
     const newSequence = result?.new_sequence
     const bidId = result?.bid_id
+    const isJump = result?.is_jump ?? false
 
     // Get team name for broadcast
     const { data: team } = await supabase
@@ -130,7 +166,7 @@ export async function POST(
 
     // Calculate next bid amount after this one
     const nextBidAfter = outcryConfig
-      ? calculateNextBid(newAmount, basePrice, outcryConfig)
+      ? calculateNextBid(newAmount, basePrice, outcryConfig, ruleScope)
       : newAmount + basePrice
 
     // Broadcast outcry-bid event
@@ -143,6 +179,7 @@ export async function POST(
         bidId,
         amount: newAmount,
         sequence: newSequence,
+        jump: isJump,
         teamId,
         teamName: team?.name || 'Unknown',
         timerExpiresAt,
@@ -153,11 +190,16 @@ export async function POST(
     })
     await supabase.removeChannel(channel)
 
+    // Wishlisted teams and bot captains may answer this raise
+    await triggerProxyBidder(auctionId)
+    await triggerBotCaptains(auctionId)
+
     return NextResponse.json({
       success: true,
       amount: newAmount,
       sequence: newSequence,
       bidId,
+      jump: isJump,
       timerExpiresAt,
       nextBidAmount: nextBidAfter,
     })
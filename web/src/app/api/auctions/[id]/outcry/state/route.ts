@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { calculateNextBid, calculateIncrement, type OutcryConfig } from '@/lib/outcry-utils'
+import {
+  calculateNextBid, calculateIncrement, getOutcryRules,
+  type OutcryConfig, type OutcryRule, type OutcryRuleScope,
+} from '@/lib/outcry-utils'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -23,7 +26,7 @@ export async function GET(
         .maybeSingle(),
       supabase
         .from('rounds')
-        .select('id, player_id, base_price, current_bid_amount, current_bid_team_id, bid_count, status, closed_at')
+        .select('id, player_id, tier_id, outcry_rules, base_price, current_bid_amount, current_bid_team_id, bid_count, status, closed_at')
         .eq('auction_id', auctionId)
         .eq('status', 'OPEN')
         .order('opened_at', { ascending: false })
@@ -45,8 +48,9 @@ export async function GET(
     const config = auction.outcry_config as OutcryConfig | null
     const basePrice = round.base_price || 0
     const currentBid = round.current_bid_amount || basePrice
-    const increment = config ? calculateIncrement(currentBid, basePrice, config) : basePrice
-    const nextBidAmount = config ? calculateNextBid(currentBid, basePrice, config) : currentBid + basePrice
+    const scope: OutcryRuleScope = { tierId: round.tier_id, roundRules: round.outcry_rules as OutcryRule[] | null }
+    const increment = config ? calculateIncrement(currentBid, basePrice, config, scope) : basePrice
+    const nextBidAmount = config ? calculateNextBid(currentBid, basePrice, config, scope) : currentBid + basePrice
 
     // Get current bid team name
     let currentBidTeamName: string | null = null
@@ -62,7 +66,7 @@ export async function GET(
     // Get recent bids (last 10)
     const { data: recentBids } = await supabase
       .from('bids')
-      .select('id, amount, team_id, sequence_number, submitted_at, team:teams!team_id(name)')
+      .select('id, amount, is_jump, is_proxy, team_id, sequence_number, submitted_at, team:teams!team_id(name)')
       .eq('round_id', round.id)
       .not('sequence_number', 'is', null)
       .order('sequence_number', { ascending: false })
@@ -74,6 +78,8 @@ export async function GET(
       teamId: b.team_id,
       teamName: (b.team as unknown as { name: string })?.name || 'Unknown',
       sequence: b.sequence_number,
+      jump: b.is_jump,
+      proxy: b.is_proxy,
       at: b.submitted_at,
     }))
 
@@ -86,6 +92,7 @@ export async function GET(
       currentBidTeamName,
       nextBidAmount,
       increment,
+      rules: config ? getOutcryRules(config, scope) : null,
       bidCount: round.bid_count || 0,
       timerExpiresAt: round.closed_at,
       recentBids: formattedBids,
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import { queueEmail, triggerEmailDelivery } from '@/lib/email-outbox'
+import {
+  buildInvitationEmail, normalizeEmail, summarizeImport, type ImportRowResult,
+} from '@/lib/participant-invitations'
 
 interface RouteParams {
   params: Promise<{
@@ -76,13 +83,21 @@ export async function GET(
   }
 }
 
-// POST - Add participants (from CSV upload or manual add)
+// POST - Add participants (from CSV upload or manual add). Emails without an
+// account get a pending invitation and an invitation email instead.
 export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
   try {
     const { id: auctionId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const body = await request.json()
     const { participants, skipExisting } = addParticipantsSchema.parse(body)
     const supabase = await createClient()
@@ -90,7 +105,7 @@ export async function POST(
     // Verify auction exists
     const { data: auction, error: auctionError } = await supabase
       .from('auctions')
-      .select('id')
+      .select('id, name, owner:users!owner_id(name)')
       .eq('id', auctionId)
       .maybeSingle()
 
@@ -105,18 +120,18 @@ export async function POST(
       )
     }
 
-    const results = {
-      added: 0,
-      skipped: 0,
-      created: 0,
-      errors: [] as string[],
-      details: [] as { name: string; email: string; status: string }[],
-    }
+    const owner = auction.owner as unknown as { name: string } | null
+    const signupUrl = `${process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin}/auth/signup`
+    // The outbox is service-role only
+    const admin = createAdminClient()
+    const rows: ImportRowResult[] = []
+    let emailsQueued = 0
 
     for (const participant of participants) {
+      const row = { name: participant.name, email: participant.email }
       try {
         // Find user by email
-        const { data: existingUser, error: findError } = await supabase
+        const { data: user, error: findError } = await supabase
           .from('users')
           .select('id, name, email')
           .eq('email', participant.email)
@@ -126,25 +141,49 @@ export async function POST(
           throw findError
         }
 
-        let user = existingUser
-
         if (!user) {
-          // Create new user
-          const { data: newUser, error: createError } = await supabase
-            .from('users')
-            .insert({
+          const email = normalizeEmail(participant.email)
+          const { data: pending } = await supabase
+            .from('participant_invitations')
+            .select('id')
+            .eq('auction_id', auctionId)
+            .eq('email', email)
+            .eq('status', 'PENDING')
+            .maybeSingle()
+
+          const { error: inviteError } = await supabase
+            .from('participant_invitations')
+            .upsert({
+              auction_id: auctionId,
+              email,
               name: participant.name,
-              email: participant.email,
-            })
-            .select('id, name, email')
-            .single()
+              role: participant.role,
+              team_id: participant.teamId || null,
+              status: 'PENDING',
+              invited_by: userId,
+            }, { onConflict: 'auction_id,email' })
 
-          if (createError) {
-            throw createError
+          if (inviteError) {
+            throw inviteError
           }
 
-          user = newUser
-          results.created++
+          // One email per invitation; re-importing only updates the role
+          if (pending) {
+            rows.push({ ...row, outcome: 'ALREADY_INVITED', status: `Invitation pending, now as ${participant.role}` })
+            continue
+          }
+
+          await queueEmail(admin, 'PARTICIPANT_INVITATION', buildInvitationEmail({
+            to: participant.email,
+            name: participant.name,
+            auctionName: auction.name,
+            inviterName: owner?.name ?? null,
+            role: participant.role,
+            signupUrl,
+          }))
+          emailsQueued++
+          rows.push({ ...row, outcome: 'INVITED', status: `Invited as ${participant.role} (email queued)` })
+          continue
         }
 
         // Check if already a participant
@@ -161,12 +200,7 @@ export async function POST(
 
         if (existing) {
           if (skipExisting) {
-            results.skipped++
-            results.details.push({
-              name: participant.name,
-              email: participant.email,
-              status: `Skipped (already ${existing.role})`
-            })
+            rows.push({ ...row, outcome: 'SKIPPED', status: `Skipped (already ${existing.role})` })
             continue
           }
           const { error: updateError } = await supabase
@@ -181,12 +215,7 @@ export async function POST(
             throw updateError
           }
 
-          results.added++
-          results.details.push({
-            name: participant.name,
-            email: participant.email,
-            status: `Updated to ${participant.role}`
-          })
+          rows.push({ ...row, outcome: 'UPDATED', status: `Updated to ${participant.role}` })
           continue
         }
 
@@ -204,28 +233,25 @@ export async function POST(
           throw insertError
         }
 
-        results.added++
-        results.details.push({
-          name: participant.name,
-          email: participant.email,
-          status: `Added as ${participant.role}`
-        })
+        rows.push({ ...row, outcome: 'ADDED', status: `Added as ${participant.role}` })
 
       } catch (err) {
-        const msg = `Failed to add ${participant.name} (${participant.email}): ${err instanceof Error ? err.message : 'Unknown error'}`
-        results.errors.push(msg)
-        results.details.push({
-          name: participant.name,
-          email: participant.email,
-          status: 'Error'
-        })
+        rows.push({ ...row, outcome: 'ERROR', status: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` })
       }
     }
 
+    if (emailsQueued > 0) await triggerEmailDelivery()
+
     return NextResponse.json({
       success: true,
-      message: `Added ${results.added} participant(s)${results.skipped > 0 ? `, skipped ${results.skipped} existing` : ''}${results.created > 0 ? `, created ${results.created} new user(s)` : ''}`,
-      results,
+      message: summarizeImport(rows),
+      results: {
+        added: rows.filter(r => r.outcome === 'ADDED' || r.outcome === 'UPDATED').length,
+        invited: rows.filter(r => r.outcome === 'INVITED').length,
+        skipped: rows.filter(r => r.outcome === 'SKIPPED' || r.outcome === 'ALREADY_INVITED').length,
+        failed: rows.filter(r => r.outcome === 'ERROR').length,
+        details: rows,
+      },
     })
 
   } catch (error) {
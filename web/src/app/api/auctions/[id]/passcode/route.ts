@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import { generatePasscode, normalizePasscode, passcodeSchema } from '@/lib/auction-passcode'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Leave passcode out to rotate to a generated one; null removes it
+const setPasscodeSchema = z.object({
+  passcode: passcodeSchema.nullable().optional(),
+})
+
+// GET - The auction's passcode (owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('owner_id, visibility, passcode')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.owner_id !== userId) {
+      return NextResponse.json({ error: 'Only the auction owner can view the passcode' }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      visibility: auction.visibility,
+      passcode: auction.passcode || null,
+    })
+  } catch (error) {
+    console.error('Failed to fetch passcode:', error)
+    return NextResponse.json({ error: 'Failed to fetch passcode' }, { status: 500 })
+  }
+}
+
+// POST - Set, rotate or remove the passcode (owner only)
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { passcode } = setPasscodeSchema.parse(body)
+
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('visibility')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.visibility !== 'PRIVATE' && passcode !== null) {
+      return NextResponse.json({ error: 'Only private auctions use a passcode' }, { status: 400 })
+    }
+
+    const newPasscode = passcode === null
+      ? null
+      : normalizePasscode(passcode ?? generatePasscode())
+
+    const { error } = await supabase
+      .from('auctions')
+      .update({ passcode: newPasscode })
+      .eq('id', auctionId)
+
+    if (error) throw error
+
+    return NextResponse.json({ passcode: newPasscode })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid passcode', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Failed to update passcode:', error)
+    return NextResponse.json({ error: 'Failed to update passcode' }, { status: 500 })
+  }
+}
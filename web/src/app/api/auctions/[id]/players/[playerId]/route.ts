@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
 
 interface RouteParams {
   params: Promise<{
@@ -34,22 +35,15 @@ export async function PUT(
     // Get authenticated user
     const { userId } = getAuthenticatedUser(request)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
     }
 
-    // Check if auction exists and user has permission
     const { data: auction, error: auctionError } = await supabase
       .from('auctions')
-      .select(`
-        *,
-        participations:auction_participations!auction_id(role)
-      `)
+      .select('*')
       .eq('id', auctionId)
-      .eq('auction_participations.user_id', userId)
       .maybeSingle()
 
     if (auctionError) {
@@ -63,18 +57,6 @@ export async function PUT(
       )
     }
 
-    // Check if user has permission (auction owner or participant with appropriate role)
-    const userParticipant = auction.participations?.[0]
-    const canManage = auction.owner_id === userId ||
-                     (userParticipant && ['OWNER', 'MODERATOR', 'CAPTAIN'].includes(userParticipant.role))
-
-    if (!canManage) {
-      return NextResponse.json(
-        { error: 'Permission denied - insufficient privileges to edit players' },
-        { status: 403 }
-      )
-    }
-
     // Only allow editing in DRAFT status
     if (auction.status !== 'DRAFT') {
       return NextResponse.json(
@@ -276,22 +258,15 @@ export async function DELETE(
     // Get authenticated user
     const { userId } = getAuthenticatedUser(request)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
     }
 
-    // Check if auction exists and user has permission
     const { data: auction, error: auctionError } = await supabase
       .from('auctions')
-      .select(`
-        *,
-        participations:auction_participations!auction_id(role)
-      `)
+      .select('*')
       .eq('id', auctionId)
-      .eq('auction_participations.user_id', userId)
       .maybeSingle()
 
     if (auctionError) {
@@ -305,18 +280,6 @@ export async function DELETE(
       )
     }
 
-    // Check permission
-    const userParticipant = auction.participations?.[0]
-    const canManage = auction.owner_id === userId ||
-                     (userParticipant && ['OWNER', 'MODERATOR', 'CAPTAIN'].includes(userParticipant.role))
-
-    if (!canManage) {
-      return NextResponse.json(
-        { error: 'Permission denied - insufficient privileges to delete players' },
-        { status: 403 }
-      )
-    }
-
     // Only allow deletion in DRAFT status
     if (auction.status !== 'DRAFT') {
       return NextResponse.json(
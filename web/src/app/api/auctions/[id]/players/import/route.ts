@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
 
 interface RouteParams {
   params: Promise<{
@@ -16,6 +18,7 @@ const playerSchema = z.object({
   bowlingStyle: z.string().optional(),
   customTags: z.string().optional(),
   tierId: z.string().min(1, 'Tier is required'),
+  previousTeam: z.string().optional(), // team name, matched case-insensitively
 })
 
 const importPlayersSchema = z.object({
@@ -31,6 +34,13 @@ export async function POST(
     const supabase = await createClient()
 
     const { id: auctionId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const body = await request.json()
     const validatedData = importPlayersSchema.parse(body)
 
@@ -39,7 +49,8 @@ export async function POST(
       .from('auctions')
       .select(`
         *,
-        tiers:tiers!auction_id(id, name)
+        tiers:tiers!auction_id(id, name),
+        teams:teams!auction_id(id, name)
       `)
       .eq('id', auctionId)
       .maybeSingle()
@@ -78,6 +89,24 @@ export async function POST(
       )
     }
 
+    // Resolve previous team names (right-to-match) to this auction's teams
+    const teamIdsByName = new Map<string, string>(
+      (auction.teams || []).map((t: { id: string; name: string }) => [t.name.toLowerCase(), t.id])
+    )
+    const unknownTeams = validatedData.players
+      .map(p => p.previousTeam)
+      .filter((name): name is string => !!name && !teamIdsByName.has(name.toLowerCase()))
+
+    if (unknownTeams.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Unknown previous teams found',
+          details: { unknownTeams: Array.from(new Set(unknownTeams)) }
+        },
+        { status: 400 }
+      )
+    }
+
     // If overwrite is true, delete existing players
     if (validatedData.overwrite) {
       const { error: deleteError } = await supabase
@@ -105,6 +134,7 @@ export async function POST(
       if (playerData.battingStyle) insertData.batting_style = playerData.battingStyle
       if (playerData.bowlingStyle) insertData.bowling_style = playerData.bowlingStyle
       if (playerData.customTags) insertData.custom_tags = playerData.customTags
+      if (playerData.previousTeam) insertData.previous_team_id = teamIdsByName.get(playerData.previousTeam.toLowerCase())
 
       const { data: player, error: createError } = await supabase
         .from('players')
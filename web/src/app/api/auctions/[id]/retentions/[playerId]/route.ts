@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+    playerId: string
+  }>
+}
+
+// DELETE - Release a retained player back into the auction pool
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId, playerId } = await params
+
+    const { userId, userEmail } = getAuthenticatedUser(request)
+
+    if (!userId || !userEmail) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const { data: retention } = await supabase
+      .from('auction_results')
+      .select('team_id')
+      .eq('auction_id', auctionId)
+      .eq('player_id', playerId)
+      .eq('source', 'RETAINED')
+      .maybeSingle()
+
+    if (!retention) {
+      return NextResponse.json({ error: 'Player is not retained' }, { status: 404 })
+    }
+
+    const authResult = await verifyTeamAdminAccess(userId, userEmail, retention.team_id, auctionId)
+
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error, details: authResult.details },
+        { status: authResult.statusCode || 403 }
+      )
+    }
+
+    // release_retention is service-role only; the team check above is the caller check
+    const { error: rpcError } = await createAdminClient()
+      .rpc('release_retention', {
+        p_auction_id: auctionId,
+        p_player_id: playerId,
+      })
+
+    if (rpcError) {
+      console.error('[retentions/DELETE] RPC error:', rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to release player' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Failed to release retained player:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to release retained player',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
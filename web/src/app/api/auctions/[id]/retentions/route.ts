@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+import { loadBidLimit } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
+import { getRetentionError, getTeamRetentionSummary, isRetentionPhase, loadRetentions } from '@/lib/retention'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const retainSchema = z.object({
+  teamId: z.string(),
+  playerId: z.string(),
+  price: z.number().int().min(1, 'Retention price must be at least 1'),
+})
+
+// GET - Retention limits, who each team has retained, and the players still available to retain
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('id, status')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+
+    const [{ limits, retained }, teamsResult, playersResult, resultsResult, budgetsResult] = await Promise.all([
+      loadRetentions(supabase, auctionId),
+      supabase.from('teams').select('id, name, captain_player_id').eq('auction_id', auctionId).order('name'),
+      supabase
+        .from('players')
+        .select('id, name, playing_role, tier:tiers!tier_id(id, name, base_price)')
+        .eq('auction_id', auctionId)
+        .order('name'),
+      supabase.from('auction_results').select('player_id').eq('auction_id', auctionId),
+      supabase.from('team_budgets').select('team_id, budget_remaining').eq('auction_id', auctionId),
+    ])
+
+    const teams = teamsResult.data || []
+    const captainPlayerIds = new Set(teams.map(t => t.captain_player_id).filter(Boolean))
+    const takenPlayerIds = new Set((resultsResult.data || []).map(r => r.player_id))
+    const budgetMap = new Map((budgetsResult.data || []).map(b => [b.team_id, b.budget_remaining]))
+
+    const available = (playersResult.data || [])
+      .filter(p => !captainPlayerIds.has(p.id) && !takenPlayerIds.has(p.id))
+      .map(p => {
+        const tier = p.tier as unknown as { id: string; name: string; base_price: number } | null
+        return {
+          id: p.id,
+          name: p.name,
+          playingRole: p.playing_role,
+          tierName: tier?.name || null,
+          basePrice: tier?.base_price ?? 1,
+        }
+      })
+
+    return NextResponse.json({
+      status: auction.status,
+      open: isRetentionPhase(auction.status) && limits.maxPerTeam > 0,
+      limits,
+      retained,
+      available,
+      teams: teams.map(t => ({
+        id: t.id,
+        name: t.name,
+        budgetRemaining: budgetMap.get(t.id) ?? null,
+        ...getTeamRetentionSummary(limits, retained, t.id),
+      })),
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch retentions:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch retentions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Retain a player for a team (owner, moderator or that team's captain)
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const body = await request.json()
+    const { teamId, playerId, price } = retainSchema.parse(body)
+
+    const { userId, userEmail } = getAuthenticatedUser(request)
+
+    if (!userId || !userEmail) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await verifyTeamAdminAccess(userId, userEmail, teamId, auctionId)
+
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error, details: authResult.details },
+        { status: authResult.statusCode || 403 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    const [{ data: auction }, { data: player }, { limits, retained }] = await Promise.all([
+      supabase.from('auctions').select('status').eq('id', auctionId).maybeSingle(),
+      supabase
+        .from('players')
+        .select('id, tier_id, tier:tiers!tier_id(base_price)')
+        .eq('id', playerId)
+        .eq('auction_id', auctionId)
+        .maybeSingle(),
+      loadRetentions(supabase, auctionId),
+    ])
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+
+    if (!isRetentionPhase(auction.status)) {
+      return NextResponse.json(
+        { error: 'Players can only be retained before the auction starts' },
+        { status: 400 }
+      )
+    }
+
+    if (!player) {
+      return NextResponse.json({ error: 'Player not found in this auction' }, { status: 404 })
+    }
+
+    // Friendlier messages first; retain_player and the auction_results triggers re-check
+    const basePrice = (player.tier as unknown as { base_price: number } | null)?.base_price ?? 1
+    const retentionError = getRetentionError(limits, getTeamRetentionSummary(limits, retained, teamId), price, basePrice)
+    if (retentionError) {
+      return NextResponse.json({ error: retentionError }, { status: 400 })
+    }
+
+    const limit = await loadBidLimit({ supabase, auctionId, teamId, forTierId: player.tier_id })
+    if (price > limit.maxBid) {
+      return NextResponse.json(
+        {
+          error: limit.reserve > 0
+            ? `Retention price can be at most ${limit.maxBid} — ${limit.reserve} is held back to complete the squad`
+            : 'Insufficient budget',
+          maxBid: limit.maxBid,
+        },
+        { status: 400 }
+      )
+    }
+
+    const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId, playerId })
+    if (squadLimitError) {
+      return NextResponse.json({ error: squadLimitError }, { status: 400 })
+    }
+
+    // retain_player is service-role only; the team check above is the caller check
+    const { data: rpcResult, error: rpcError } = await createAdminClient()
+      .rpc('retain_player', {
+        p_auction_id: auctionId,
+        p_team_id: teamId,
+        p_player_id: playerId,
+        p_price: price,
+      })
+
+    if (rpcError) {
+      console.error('[retentions/POST] RPC error:', rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to retain player' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    const result = rpcResult?.[0] || rpcResult
+
+    return NextResponse.json({
+      success: true,
+      retention: {
+        playerId: result.player_id,
+        teamId: result.team_id,
+        price: result.winning_bid_amount,
+      },
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Failed to retain player:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid retention data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to retain player',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
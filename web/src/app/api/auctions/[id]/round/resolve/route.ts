@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { buildAuctionState, type QueueState } from '@/lib/auction-state'
+import { generateSeed } from '@/lib/seeded-random'
+import { runPostSaleHooks } from '@/lib/post-sale'
+import {
+  getDefaultSealedConfig,
+  isSealedBiddingType,
+  resolveSealedBids,
+  type SealedBid,
+  type SealedConfig,
+  type SealedRevealEvent,
+} from '@/lib/sealed-utils'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST — Close the open sealed round: reveal bids, pick the winner, price it, record the sale
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
+    const body = await request.json().catch(() => ({}))
+    const { expectedVersion } = body as { expectedVersion?: number }
+
+    // 1. Auction must be live and sealed (first or second price)
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select('id, name, status, budget_per_team, bidding_type, sealed_config, queue_state, queue_version')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (auctionError || !auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.status !== 'LIVE') {
+      return NextResponse.json({ error: 'Auction is not live' }, { status: 400 })
+    }
+    const biddingType = auction.bidding_type || 'SEALED_TENDER'
+    if (!isSealedBiddingType(biddingType)) {
+      return NextResponse.json({ error: 'Only sealed-bid rounds can be resolved' }, { status: 400 })
+    }
+
+    // 2. The open round must be for the player on the block
+    const { data: round } = await supabase
+      .from('rounds')
+      .select('id, player_id, base_price, closed_at, player:players!player_id(name), tier:tiers!tier_id(base_price)')
+      .eq('auction_id', auctionId)
+      .eq('status', 'OPEN')
+      .order('opened_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!round) {
+      return NextResponse.json({ error: 'No open round to resolve' }, { status: 400 })
+    }
+
+    const queueState = auction.queue_state as Partial<QueueState> | null
+    const currentPlayerId = queueState?.auctionQueue?.[queueState.auctionIndex ?? 0]
+    if (currentPlayerId !== round.player_id) {
+      return NextResponse.json(
+        { error: 'Open round does not match the player on the block — refresh and try again' },
+        { status: 409 }
+      )
+    }
+
+    // 3. Stop bidding before reading the bids: a bid past closed_at is refused, and the
+    // update waits for any bid still being written (bids_reject_late_sealed)
+    const { data: locked, error: lockError } = await supabase
+      .from('rounds')
+      .update({ closed_at: new Date().toISOString() })
+      .eq('id', round.id)
+      .eq('status', 'OPEN')
+      .select('id')
+
+    if (lockError) throw lockError
+    if (!locked || locked.length === 0) {
+      return NextResponse.json({ error: 'Round is already closed — refresh and try again' }, { status: 409 })
+    }
+
+    // Puts the round's own deadline back if it doesn't get sold after all
+    const reopenBidding = async () => {
+      const { error } = await supabase
+        .from('rounds')
+        .update({ closed_at: round.closed_at })
+        .eq('id', round.id)
+        .eq('status', 'OPEN')
+      if (error) console.error('[round/resolve] Failed to reopen bidding:', error)
+    }
+
+    // 4. Reveal: sealed bids have no sequence_number
+    const { data: bidRows, error: bidsError } = await supabase
+      .from('bids')
+      .select('id, team_id, amount, submitted_at, team:teams!team_id(name)')
+      .eq('round_id', round.id)
+      .is('sequence_number', null)
+
+    if (bidsError) {
+      await reopenBidding()
+      throw bidsError
+    }
+
+    const bids: SealedBid[] = (bidRows || []).map(b => ({
+      bidId: b.id,
+      teamId: b.team_id,
+      teamName: (b.team as unknown as { name: string } | null)?.name || 'Unknown',
+      amount: b.amount,
+      submittedAt: b.submitted_at,
+    }))
+
+    if (bids.length === 0) {
+      await reopenBidding()
+      return NextResponse.json(
+        { error: 'No bids to resolve — mark the player unsold instead' },
+        { status: 400 }
+      )
+    }
+
+    // 5. Pick the winner and what they pay
+    const config: SealedConfig = (auction.sealed_config as SealedConfig | null) || getDefaultSealedConfig(biddingType)
+    const roundTier = round.tier as unknown as { base_price: number } | null
+
+    let squadCounts: Record<string, number> | undefined
+    if (config.tie_break === 'FEWEST_PLAYERS') {
+      const [{ data: results }, { data: teams }] = await Promise.all([
+        supabase.from('auction_results').select('team_id').eq('auction_id', auctionId),
+        supabase.from('teams').select('id, captain_player_id').eq('auction_id', auctionId),
+      ])
+      squadCounts = {}
+      for (const t of teams || []) squadCounts[t.id] = t.captain_player_id ? 1 : 0
+      for (const r of results || []) squadCounts[r.team_id] = (squadCounts[r.team_id] ?? 0) + 1
+    }
+
+    const resolution = resolveSealedBids(bids, config, {
+      squadCounts,
+      seed: config.tie_break === 'RANDOM' ? generateSeed() : undefined,
+      secondPrice: biddingType === 'SEALED_SECOND_PRICE'
+        ? { basePrice: round.base_price ?? roundTier?.base_price ?? 0 }
+        : undefined,
+    })!
+
+    // 6. Record the sale through the same atomic path as a manual SOLD
+    const { data: rpcResult, error: rpcError } = await supabase
+      .rpc('apply_auction_action', {
+        p_auction_id: auctionId,
+        p_action: 'SOLD',
+        p_user_id: userId,
+        p_team_id: resolution.winner.teamId,
+        p_amount: resolution.price,
+        p_expected_version: expectedVersion ?? null,
+      })
+
+    if (rpcError) {
+      console.error('[round/resolve] RPC error:', rpcError)
+      await reopenBidding()
+      const status = rpcError.code === '40001' ? 409 : rpcError.code === 'P0002' ? 404 : 400
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to resolve round', queueVersion: auction.queue_version },
+        { status }
+      )
+    }
+
+    const result = rpcResult?.[0] || rpcResult
+    const playerName = (round.player as unknown as { name: string } | null)?.name || 'Unknown'
+
+    const reveal: SealedRevealEvent = {
+      roundId: round.id,
+      playerId: round.player_id,
+      playerName,
+      winner: {
+        teamId: resolution.winner.teamId,
+        teamName: resolution.winner.teamName,
+        amount: resolution.winner.amount,
+        price: resolution.price,
+      },
+      bids: resolution.bids.map(b => ({ teamId: b.teamId, teamName: b.teamName, amount: b.amount, submittedAt: b.submittedAt })),
+      tieBreak: resolution.tieBreak,
+      seed: resolution.seed,
+    }
+
+    // 7. Keep the full resolution (incl. seed) next to the SOLD event
+    const { error: logError } = await supabase
+      .from('audit_logs')
+      .insert({
+        auction_id: auctionId,
+        user_id: userId,
+        action: 'SEALED_RESOLVED',
+        details: { ...reveal, tiedTeamIds: resolution.tiedTeamIds },
+      })
+
+    if (logError) {
+      console.error('[round/resolve] Failed to log resolution:', logError)
+    }
+
+    // 8. Broadcast the reveal to captain and live views
+    const channel = supabase.channel(`auction-${auctionId}`)
+    await channel.send({
+      type: 'broadcast',
+      event: 'sealed-reveal',
+      payload: reveal,
+    })
+    await supabase.removeChannel(channel)
+
+    await runPostSaleHooks(supabase, auctionId, {
+      soldPlayerId: round.player_id,
+      openedRoundId: result?.opened_round_id ?? null,
+    })
+
+    const state = await buildAuctionState({
+      supabase,
+      auction,
+      queueState: (result?.new_queue_state || null) as QueueState | null,
+      queueVersion: result?.new_version ?? auction.queue_version,
+      openRoundId: result?.opened_round_id ?? null,
+    })
+
+    return NextResponse.json({ state, reveal })
+  } catch (error) {
+    console.error('[round/resolve] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { outcryRuleSchema } from '@/lib/validations/auction'
+import { z } from 'zod'
+import { triggerProxyBidder } from '@/lib/proxy-bidder'
+import { triggerBotCaptains } from '@/lib/bot-captain'
+
+// Per-round increment override for open outcry (null clears it)
+const roundRulesSchema = z.array(outcryRuleSchema).min(1, 'At least 1 increment rule required').nullable()
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -11,11 +19,26 @@ export async function POST(
   { params }: RouteParams
 ) {
   try {
-    const supabase = await createClient()
+    const { userId } = getAuthenticatedUser(request)
     const { id: auctionId } = await params
+
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
     const body = await request.json()
     const { playerId, tierId } = body
 
+    const parsedRules = roundRulesSchema.optional().safeParse(body.outcryRules)
+    if (!parsedRules.success) {
+      return NextResponse.json(
+        { error: parsedRules.error.issues[0]?.message || 'Invalid outcryRules' },
+        { status: 400 }
+      )
+    }
+
     console.log('[round/POST] Creating round:', { auctionId, playerId, tierId })
 
     if (!playerId) {
@@ -74,9 +97,10 @@ export async function POST(
           current_bid_amount: basePrice,
           bid_count: 0,
           current_bid_team_id: null,
+          outcry_rules: parsedRules.data ?? null,
         } : {}),
       })
-      .select('id, status, player_id, tier_id, opened_at, closed_at, base_price, current_bid_amount, bid_count')
+      .select('id, status, player_id, tier_id, opened_at, closed_at, base_price, current_bid_amount, bid_count, outcry_rules')
       .single()
 
     if (error) {
@@ -88,6 +112,8 @@ export async function POST(
     }
 
     console.log('[round/POST] Round created:', round?.id)
+    if (isOutcry) await triggerProxyBidder(auctionId)
+    await triggerBotCaptains(auctionId)
     return NextResponse.json({ round })
   } catch (error) {
     console.error('[round/POST] Unexpected error:', error)
@@ -104,9 +130,16 @@ export async function DELETE(
   { params }: RouteParams
 ) {
   try {
-    const supabase = await createClient()
+    const { userId } = getAuthenticatedUser(request)
     const { id: auctionId } = await params
 
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
+
     const { data, error } = await supabase
       .from('rounds')
       .update({ status: 'CLOSED', closed_at: new Date().toISOString() })
@@ -133,3 +166,58 @@ export async function DELETE(
     )
   }
 }
+
+// PATCH — Override (or clear) the increment rules for the current OPEN round
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
+    const body = await request.json()
+
+    const parsedRules = roundRulesSchema.safeParse(body.outcryRules ?? null)
+    if (!parsedRules.success) {
+      return NextResponse.json(
+        { error: parsedRules.error.issues[0]?.message || 'Invalid outcryRules' },
+        { status: 400 }
+      )
+    }
+
+    const { data: round, error } = await supabase
+      .from('rounds')
+      .update({ outcry_rules: parsedRules.data })
+      .eq('auction_id', auctionId)
+      .eq('status', 'OPEN')
+      .select('id, outcry_rules')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[round/PATCH] Failed:', error)
+      return NextResponse.json(
+        { error: 'Failed to update round', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!round) {
+      return NextResponse.json({ error: 'No open round' }, { status: 404 })
+    }
+
+    return NextResponse.json({ round })
+  } catch (error) {
+    console.error('[round/PATCH] Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import { loadIncompleteSquads, formatIncompleteSquads } from '@/lib/squad-rules'
 
 interface RouteParams {
   params: Promise<{
@@ -25,7 +28,7 @@ export async function GET(
           *,
           captain:users!captain_user_id(id, name, email, image),
           captain_player:players!teams_captain_player_id_fkey(id, name, playing_role),
-          auction_results(winning_bid_amount, player:players(id, name, playing_role))
+          auction_results(winning_bid_amount, source, player:players(id, name, playing_role))
         ),
         tiers(
           *,
@@ -36,7 +39,7 @@ export async function GET(
           tier:tiers!tier_id(id, name, base_price, color),
           auction_results(team:teams(id, name))
         ),
-        auction_results(player_id),
+        auction_results(player_id, source),
         auction_participations(
           *,
           user:users!user_id(id, name, email, image),
@@ -76,6 +79,11 @@ export async function GET(
     const soldPlayerIds = new Set(
       (auction.auction_results || []).map((r: any) => r.player_id)
     )
+    const retainedPlayerIds = new Set(
+      (auction.auction_results as { player_id: string; source: string }[] || [])
+        .filter(r => r.source === 'RETAINED')
+        .map(r => r.player_id)
+    )
 
     // Sort players by name asc
     const sortedPlayers = [...(auction.players || [])].sort((a: any, b: any) =>
@@ -97,6 +105,7 @@ export async function GET(
     const playerStats = {
       total: sortedPlayers.length,
       sold: sortedPlayers.filter((p: any) => soldPlayerIds.has(p.id)).length,
+      retained: retainedPlayerIds.size,
       available: sortedPlayers.filter((p: any) => !soldPlayerIds.has(p.id)).length,
     }
 
@@ -122,6 +131,7 @@ export async function GET(
           name: ar.player.name,
           playingRole: ar.player.playing_role,
           price: ar.winning_bid_amount || 0,
+          retained: ar.source === 'RETAINED',
         })),
       }
     })
@@ -149,6 +159,7 @@ export async function GET(
         battingStyle: p.batting_style,
         bowlingStyle: p.bowling_style,
         status: soldPlayerIds.has(p.id) ? 'SOLD' : 'AVAILABLE',
+        retained: retainedPlayerIds.has(p.id),
         auctionId: p.auction_id,
         tierId: p.tier_id,
         customTags: p.custom_tags,
@@ -240,7 +251,14 @@ export async function GET(
       leagueId: auction.league_id,
       biddingType: auction.bidding_type || 'SEALED_TENDER',
       outcryConfig: auction.outcry_config || null,
+      sealedConfig: auction.sealed_config || null,
+      draftConfig: auction.draft_config || null,
+      queueShuffle: auction.queue_shuffle || null,
+      rtmCardsPerTeam: auction.rtm_cards_per_team ?? 0,
+      maxRetentionsPerTeam: auction.max_retentions_per_team ?? 0,
+      maxRetentionSpend: auction.max_retention_spend ?? null,
       queueState: auction.queue_state,
+      queueVersion: auction.queue_version ?? 0,
       createdAt: auction.created_at,
       updatedAt: auction.updated_at,
       owner: auction.owner,
@@ -279,6 +297,13 @@ export async function PATCH(
 ) {
   try {
     const { id: auctionId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const updates = await request.json()
     const supabase = await createClient()
 
@@ -293,6 +318,12 @@ export async function PATCH(
       queueState: 'queue_state',
       isActive: 'is_active',
       maxMembers: 'max_members',
+      sealedConfig: 'sealed_config',
+      draftConfig: 'draft_config',
+      roleRules: 'role_rules',
+      rtmCardsPerTeam: 'rtm_cards_per_team',
+      maxRetentionsPerTeam: 'max_retentions_per_team',
+      maxRetentionSpend: 'max_retention_spend',
     }
 
     const snakeCaseUpdates: Record<string, any> = {}
@@ -301,6 +332,21 @@ export async function PATCH(
       snakeCaseUpdates[snakeKey] = value
     }
 
+    // Every team must meet each tier's minPerTeam and role minimum before the auction can finish
+    if (snakeCaseUpdates.status === 'COMPLETED') {
+      const incompleteSquads = await loadIncompleteSquads(supabase, auctionId)
+      if (incompleteSquads.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Some squads are missing required players',
+            details: formatIncompleteSquads(incompleteSquads),
+            incompleteSquads,
+          },
+          { status: 400 }
+        )
+      }
+    }
+
     // Update the auction
     const { data: auction, error: updateError } = await supabase
       .from('auctions')
@@ -383,6 +429,13 @@ export async function DELETE(
 ) {
   try {
     const { id: auctionId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'DELETE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const supabase = await createClient()
 
     // Fetch auction with counts for the response
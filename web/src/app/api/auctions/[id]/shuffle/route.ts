@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
+import { generateSeed } from '@/lib/seeded-random'
+import { QUEUE_SHUFFLE_VERSION, getShuffleBuckets, shuffleQueue, type QueueShuffle } from '@/lib/queue-shuffle'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const shuffleSchema = z.object({
+  mode: z.enum(['random', 'tier-ordered', 'custom-mix']),
+  // Tier IDs per bucket, in queue order (one tier each for tier-ordered)
+  tierGroups: z.array(z.array(z.string())).optional(),
+})
+
+// POST - Draw the player queue from a fresh seed and record it on the auction.
+// The first draw stands; there is no redrawing until the order suits.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    const { id: auctionId } = await params
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
+    const supabase = await createClient()
+    const body = await request.json()
+    const { mode, tierGroups } = shuffleSchema.parse(body)
+
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select('id, status, queue_shuffle')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (auctionError || !auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (auction.status === 'LIVE' || auction.status === 'COMPLETED') {
+      return NextResponse.json({ error: 'The queue is drawn before the auction starts' }, { status: 400 })
+    }
+    if (auction.queue_shuffle) {
+      return NextResponse.json(
+        { error: 'The player queue has already been drawn', shuffle: auction.queue_shuffle },
+        { status: 409 }
+      )
+    }
+
+    // Captains and retained players are already on a team
+    const [playersResult, teamsResult, resultsResult] = await Promise.all([
+      supabase.from('players').select('id, tier_id').eq('auction_id', auctionId),
+      supabase.from('teams').select('captain_player_id').eq('auction_id', auctionId),
+      supabase.from('auction_results').select('player_id').eq('auction_id', auctionId),
+    ])
+
+    const onTeam = new Set<string>([
+      ...(teamsResult.data || []).map(t => t.captain_player_id).filter(Boolean),
+      ...(resultsResult.data || []).map(r => r.player_id),
+    ])
+    const pool = (playersResult.data || [])
+      .filter(p => !onTeam.has(p.id))
+      .map(p => ({ id: p.id, tierId: p.tier_id as string | null }))
+
+    if (pool.length === 0) {
+      return NextResponse.json({ error: 'No players left to queue' }, { status: 400 })
+    }
+
+    const buckets = getShuffleBuckets(pool, mode, tierGroups)
+    const seed = generateSeed()
+    const shuffle: QueueShuffle = {
+      version: QUEUE_SHUFFLE_VERSION,
+      seed,
+      mode,
+      buckets,
+      queue: shuffleQueue(buckets, seed),
+      createdAt: new Date().toISOString(),
+    }
+
+    // RLS limits the update to the auction's owner; the null check loses a race to a
+    // concurrent draw instead of overwriting it (lock_queue_shuffle refuses that too)
+    const { data: updated, error: updateError } = await supabase
+      .from('auctions')
+      .update({ queue_shuffle: shuffle })
+      .eq('id', auctionId)
+      .is('queue_shuffle', null)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) throw updateError
+    if (!updated) {
+      return NextResponse.json({ error: 'Only the auctioneer can draw the queue' }, { status: 403 })
+    }
+
+    return NextResponse.json({ queue: shuffle.queue, shuffle })
+
+  } catch (error) {
+    console.error('[shuffle/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid shuffle data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
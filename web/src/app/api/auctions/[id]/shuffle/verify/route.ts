@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import type { QueueState } from '@/lib/auction-state'
+import { verifyQueueShuffle, type QueueShuffle } from '@/lib/queue-shuffle'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - Rebuild the player queue from the recorded seed and check it against the record and the live queue
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id: auctionId } = await params
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('id, queue_shuffle, queue_state')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+    }
+    if (!auction.queue_shuffle) {
+      return NextResponse.json({ error: 'No queue shuffle recorded for this auction' }, { status: 404 })
+    }
+
+    const shuffle = auction.queue_shuffle as QueueShuffle
+    const queueState = auction.queue_state as Partial<QueueState> | null
+
+    // Deferred players go to the back of the queue, so they can't be checked by position
+    const moved = new Set<string>([
+      ...(queueState?.deferredPlayers || []),
+      ...(queueState?.auctionHistory || []).filter(h => h.action === 'DEFERRED').map(h => h.playerId),
+    ])
+
+    const { rebuiltQueue, matchesRecord, matchesLiveQueue } = verifyQueueShuffle(
+      shuffle,
+      queueState?.auctionQueue ?? null,
+      moved
+    )
+
+    return NextResponse.json({
+      version: shuffle.version,
+      seed: shuffle.seed,
+      mode: shuffle.mode,
+      createdAt: shuffle.createdAt,
+      buckets: shuffle.buckets,
+      recordedQueue: shuffle.queue,
+      rebuiltQueue,
+      matchesRecord,
+      matchesLiveQueue,
+      deferredPlayerIds: [...moved],
+    })
+
+  } catch (error) {
+    console.error('Failed to verify queue shuffle:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to verify queue shuffle',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
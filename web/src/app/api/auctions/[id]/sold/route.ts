@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import { checkSquadLimits } from '@/lib/squad-rules'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -11,8 +13,15 @@ export async function POST(
   { params }: RouteParams
 ) {
   try {
-    const supabase = await createClient()
+    const { userId } = getAuthenticatedUser(request)
     const { id: auctionId } = await params
+
+    const access = await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
     const { playerId, teamId, amount } = await request.json()
 
     if (!playerId || !teamId || !amount) {
@@ -36,6 +45,11 @@ export async function POST(
       )
     }
 
+    const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId, playerId })
+    if (squadLimitError) {
+      return NextResponse.json({ error: squadLimitError }, { status: 400 })
+    }
+
     // Create auction_result (upsert on auction_id + player_id)
     const { error: resultError } = await supabase
       .from('auction_results')
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission, checkRoundControl, getRoundClient } from '@/lib/auction-permissions'
+import type { QueueShuffle } from '@/lib/queue-shuffle'
 
 interface RouteParams {
   params: Promise<{
@@ -18,7 +21,7 @@ export async function GET(
 
     const { data: auction, error } = await supabase
       .from('auctions')
-      .select('id, status, queue_state')
+      .select('id, status, queue_state, queue_version')
       .eq('id', auctionId)
       .maybeSingle()
 
@@ -31,6 +34,7 @@ export async function GET(
     return NextResponse.json({
       status: auction.status,
       queueState: auction.queue_state,
+      queueVersion: auction.queue_version ?? 0,
     })
   } catch (error) {
     console.error('Failed to load auction state:', error)
@@ -44,11 +48,45 @@ export async function PUT(
   { params }: RouteParams
 ) {
   try {
-    const supabase = await createClient()
+    const { userId } = getAuthenticatedUser(request)
     const { id: auctionId } = await params
     const body = await request.json()
 
-    const { queueState, status } = body
+    const { status } = body
+    let { queueState } = body
+
+    // Starting or ending the auction is the owner's call; moderators only move the queue along
+    const access = status
+      ? await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+      : await checkRoundControl(request, auctionId, userId)
+    if (!access.success) {
+      return NextResponse.json({ error: access.error, code: access.code }, { status: access.statusCode })
+    }
+
+    const supabase = await getRoundClient(access.role)
+
+    // Going LIVE with a queue starts from the recorded draw, not the page's copy of it.
+    // Drafts and nomination auctions start with an empty queue and have no draw.
+    if (status === 'LIVE' && queueState?.auctionQueue?.length > 0) {
+      const { data: current, error: currentError } = await supabase
+        .from('auctions')
+        .select('status, queue_shuffle')
+        .eq('id', auctionId)
+        .maybeSingle()
+
+      if (currentError) throw currentError
+      if (!current) {
+        return NextResponse.json({ error: 'Auction not found' }, { status: 404 })
+      }
+
+      if (current.status !== 'LIVE') {
+        const shuffle = current.queue_shuffle as QueueShuffle | null
+        if (!shuffle) {
+          return NextResponse.json({ error: 'Draw the player queue before starting' }, { status: 400 })
+        }
+        queueState = { ...queueState, auctionQueue: shuffle.queue, auctionIndex: 0 }
+      }
+    }
 
     const updateData: Record<string, any> = {}
     if (queueState !== undefined) updateData.queue_state = queueState
@@ -58,7 +96,7 @@ export async function PUT(
       .from('auctions')
       .update(updateData)
       .eq('id', auctionId)
-      .select('id, status, queue_state')
+      .select('id, status, queue_state, queue_version')
       .single()
 
     if (error) throw error
@@ -67,6 +105,7 @@ export async function PUT(
       success: true,
       status: auction.status,
       queueState: auction.queue_state,
+      queueVersion: auction.queue_version ?? 0,
     })
   } catch (error) {
     console.error('Failed to save auction state:', error)
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthenticatedUser } from '@/lib/auth'
+import { checkTeamPermission } from '@/lib/auction-permissions'
 import { z } from 'zod'
 
 interface RouteParams {
@@ -27,31 +28,14 @@ export async function GET(
     // Get authenticated user
     const { userId } = getAuthenticatedUser(request)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    // The auctioneer, or this team's captain
+    const access = await checkTeamPermission(auctionId, teamId, userId, 'MANAGE_TEAM_ADMINS')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
     }
 
     const supabase = await createClient()
 
-    // Verify auction exists
-    const { data: auction, error: auctionError } = await supabase
-      .from('auctions')
-      .select('id, owner_id')
-      .eq('id', auctionId)
-      .maybeSingle()
-
-    if (auctionError) throw auctionError
-
-    if (!auction) {
-      return NextResponse.json(
-        { error: 'Auction not found' },
-        { status: 404 }
-      )
-    }
-
     // Fetch team with captain
     const { data: team, error: teamError } = await supabase
       .from('teams')
@@ -71,16 +55,6 @@ export async function GET(
 
     const captain = team.captain as unknown as { id: string; name: string; email: string; image: string | null } | null
 
-    // Check if user has permission (auction owner or team captain)
-    const canManage = auction.owner_id === userId || captain?.id === userId
-
-    if (!canManage) {
-      return NextResponse.json(
-        { error: 'Permission denied - only auction owners and team captains can manage admins' },
-        { status: 403 }
-      )
-    }
-
     // Fetch auction participations for this team
     const { data: participations, error: participationsError } = await supabase
       .from('auction_participations')
@@ -134,7 +108,7 @@ export async function GET(
       teamId,
       teamName: team.name,
       admins,
-      canManage
+      canManage: true
     })
 
   } catch (error) {
@@ -164,35 +138,18 @@ export async function POST(
     // Get authenticated user
     const { userId } = getAuthenticatedUser(request)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    // The auctioneer, or this team's captain
+    const access = await checkTeamPermission(auctionId, teamId, userId, 'MANAGE_TEAM_ADMINS')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
     }
 
     const supabase = await createClient()
 
-    // Verify auction exists
-    const { data: auction, error: auctionError } = await supabase
-      .from('auctions')
-      .select('id, owner_id')
-      .eq('id', auctionId)
-      .maybeSingle()
-
-    if (auctionError) throw auctionError
-
-    if (!auction) {
-      return NextResponse.json(
-        { error: 'Auction not found' },
-        { status: 404 }
-      )
-    }
-
-    // Fetch team with captain
+    // Verify the team is in this auction
     const { data: team, error: teamError } = await supabase
       .from('teams')
-      .select('id, name, captain_user_id, captain:users!captain_user_id(id, name, email)')
+      .select('id')
       .eq('id', teamId)
       .eq('auction_id', auctionId)
       .maybeSingle()
@@ -206,18 +163,6 @@ export async function POST(
       )
     }
 
-    const captain = team.captain as unknown as { id: string; name: string; email: string } | null
-
-    // Check permission
-    const canManage = auction.owner_id === userId || captain?.id === userId
-
-    if (!canManage) {
-      return NextResponse.json(
-        { error: 'Permission denied - only auction owners and team captains can add admins' },
-        { status: 403 }
-      )
-    }
-
     // Find user to add
     const { data: userToAdd, error: userError } = await supabase
       .from('users')
@@ -309,31 +254,14 @@ export async function DELETE(
     // Get authenticated user
     const { userId } = getAuthenticatedUser(request)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    // The auctioneer, or this team's captain
+    const access = await checkTeamPermission(auctionId, teamId, userId, 'MANAGE_TEAM_ADMINS')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
     }
 
     const supabase = await createClient()
 
-    // Verify auction exists
-    const { data: auction, error: auctionError } = await supabase
-      .from('auctions')
-      .select('id, owner_id')
-      .eq('id', auctionId)
-      .maybeSingle()
-
-    if (auctionError) throw auctionError
-
-    if (!auction) {
-      return NextResponse.json(
-        { error: 'Auction not found' },
-        { status: 404 }
-      )
-    }
-
     // Fetch team with captain
     const { data: team, error: teamError } = await supabase
       .from('teams')
@@ -353,16 +281,6 @@ export async function DELETE(
 
     const captain = team.captain as unknown as { id: string; name: string; email: string } | null
 
-    // Check permission
-    const canManage = auction.owner_id === userId || captain?.id === userId
-
-    if (!canManage) {
-      return NextResponse.json(
-        { error: 'Permission denied - only auction owners and team captains can remove admins' },
-        { status: 403 }
-      )
-    }
-
     // Cannot remove the main team captain
     if (captain?.id === userIdToRemove) {
       return NextResponse.json(
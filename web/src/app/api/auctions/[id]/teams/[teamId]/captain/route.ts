@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthenticatedUser } from '@/lib/auth'
+import { checkTeamPermission } from '@/lib/auction-permissions'
 import { z } from 'zod'
 
 interface RouteParams {
@@ -26,35 +27,18 @@ export async function PUT(
     // Get authenticated user
     const { userId } = getAuthenticatedUser(request)
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
+    // The auctioneer, or this team's captain
+    const access = await checkTeamPermission(auctionId, teamId, userId, 'CHANGE_CAPTAIN')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
     }
 
     const supabase = await createClient()
 
-    // Verify auction exists
-    const { data: auction, error: auctionError } = await supabase
-      .from('auctions')
-      .select('id, owner_id')
-      .eq('id', auctionId)
-      .maybeSingle()
-
-    if (auctionError) throw auctionError
-
-    if (!auction) {
-      return NextResponse.json(
-        { error: 'Auction not found' },
-        { status: 404 }
-      )
-    }
-
-    // Fetch the team with its captain
+    // Verify the team is in this auction
     const { data: team, error: teamError } = await supabase
       .from('teams')
-      .select('id, name, captain_user_id, captain:users!captain_user_id(id, name, email)')
+      .select('id')
       .eq('id', teamId)
       .eq('auction_id', auctionId)
       .maybeSingle()
@@ -68,17 +52,6 @@ export async function PUT(
       )
     }
 
-    // Check permission (auction owner or current team captain)
-    const captain = team.captain as unknown as { id: string; name: string; email: string } | null
-    const canManage = auction.owner_id === userId || captain?.id === userId
-
-    if (!canManage) {
-      return NextResponse.json(
-        { error: 'Permission denied - only auction owners and team captains can change captains' },
-        { status: 403 }
-      )
-    }
-
     // Verify new captain has an auction participation
     const { data: newCaptainParticipation, error: participationError } = await supabase
       .from('auction_participations')
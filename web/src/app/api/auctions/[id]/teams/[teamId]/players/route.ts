@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
 import { z } from 'zod'
 
 interface RouteParams {
@@ -21,6 +23,13 @@ export async function POST(
 ) {
   try {
     const { id: auctionId, teamId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const body = await request.json()
     const { playerIds } = assignPlayersSchema.parse(body)
 
@@ -181,6 +190,13 @@ export async function DELETE(
 ) {
   try {
     const { id: auctionId, teamId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const body = await request.json()
     const { playerIds } = removePlayersSchema.parse(body)
 
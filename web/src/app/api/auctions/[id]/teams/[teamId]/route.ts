@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { checkAuctionPermission } from '@/lib/auction-permissions'
 import { z } from 'zod'
 
 interface RouteParams {
@@ -25,6 +27,13 @@ export async function PATCH(
   try {
     const supabase = await createClient()
     const { id: auctionId, teamId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
+
     const body = await request.json()
     const data = updateTeamSchema.parse(body)
 
@@ -149,6 +158,12 @@ export async function DELETE(
   try {
     const supabase = await createClient()
     const { id: auctionId, teamId } = await params
+    const { userId } = getAuthenticatedUser(request)
+
+    const access = await checkAuctionPermission(auctionId, userId, 'CONFIGURE')
+    if (!access.success) {
+      return NextResponse.json({ error: access.error }, { status: access.statusCode })
+    }
 
     // Verify auction exists and is editable
     const { data: auction } = await supabase
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getAuthenticatedUser, verifyTeamAdminAccess } from '@/lib/auth'
+import { calculateBidLimit, getRequiredSquadSize } from '@/lib/budget-utils'
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>
@@ -217,12 +218,12 @@ export async function GET(
           battingStyle: currentPlayer.batting_style,
           bowlingStyle: currentPlayer.bowling_style,
           customTags: currentPlayer.custom_tags,
-          tier: tier ? { id: tier.id, name: tier.name, basePrice: tier.base_price, color: tier.color } : null,
+          tier: tier ? { id: tier.id, name: tier.name, basePrice: currentRound.base_price ?? tier.base_price, color: tier.color } : null,
         } : null,
         tier: tier ? {
           id: tier.id,
           name: tier.name,
-          basePrice: tier.base_price,
+          basePrice: currentRound.base_price ?? tier.base_price,
           color: tier.color,
         } : null,
         myBid,
@@ -269,15 +270,19 @@ export async function GET(
     const maxAuctionSlots = Math.ceil(auctionableCount / numTeams)
     const squadSize = Math.max(auction.squad_size || 0, maxAuctionSlots)
     const slotsRemaining = Math.max(0, squadSize - squad.length)
-    // For budget reserve, use min guaranteed slots (floor) so maxAllowableBid isn't too conservative
-    const minAuctionSlots = Math.floor(auctionableCount / numTeams)
-    const minSlotsToFill = Math.max(0, minAuctionSlots - squad.length)
 
-    const minBasePrice = tiers && tiers.length > 0
-      ? Math.min(...tiers.map(t => t.base_price))
-      : 0
-    const mandatoryReserve = Math.max(0, (minSlotsToFill - 1)) * minBasePrice
-    const maxAllowableBid = Math.max(0, remaining - mandatoryReserve)
+    // Reserve = base price of every slot still to fill after the player on the block
+    const { maxBid: maxAllowableBid } = calculateBidLimit({
+      remaining,
+      slotsToFill: Math.max(0, getRequiredSquadSize(auction.squad_size || 0, auctionableCount, numTeams) - squad.length),
+      tiers: (tiers || []).map(t => ({
+        id: t.id,
+        basePrice: t.base_price,
+        minPerTeam: t.min_per_team || 0,
+        acquired: squad.filter(p => p.tier?.id === t.id).length,
+      })),
+      forTierId: currentRound?.tier_id,
+    })
 
     const budgetSummary = {
       totalBudget,
@@ -350,17 +355,17 @@ export async function GET(
 
     const auctionQueue = queueState?.auctionQueue || []
     const auctionIndex = queueState?.auctionIndex ?? 0
-    const playerByName = new Map(
-      (allPlayers || []).map(p => [p.name, p])
+    const playerById = new Map(
+      (allPlayers || []).map(p => [p.id, p])
     )
 
     // Slice from current index + 1 (skip the player being auctioned now)
-    const upcomingNames = auctionQueue.slice(auctionIndex + 1)
-    const upcomingPlayers = upcomingNames.map(name => {
-      const p = playerByName.get(name)
+    const upcomingIds = auctionQueue.slice(auctionIndex + 1)
+    const upcomingPlayers = upcomingIds.map(playerId => {
+      const p = playerById.get(playerId)
       const tier = p ? tiers?.find(t => t.id === p.tier_id) : null
       return {
-        name,
+        name: p?.name || 'Unknown',
         tierName: tier?.name || null,
         tierColor: tier?.color || null,
       }
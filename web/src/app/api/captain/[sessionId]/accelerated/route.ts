@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+import { broadcastAcceleratedRound, loadAcceleratedRound } from '@/lib/accelerated-round'
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>
+}
+
+const picksSchema = z.object({
+  playerIds: z.array(z.string()),
+})
+
+// Pick which unsold players this team wants back in the accelerated round (replaces earlier picks)
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = await createClient()
+    const { sessionId } = await params
+    const body = await request.json()
+
+    const { playerIds } = picksSchema.parse(body)
+
+    // Parse session ID — "auctionId_teamId" (underscore delimiter)
+    const parts = sessionId.split('_')
+    const auctionId = parts[0]
+    const teamId = parts[1]
+
+    if (!auctionId || !teamId) {
+      return NextResponse.json(
+        { error: 'Invalid session ID format. Picks require auctionId_teamId format.' },
+        { status: 400 }
+      )
+    }
+
+    const { userId, userEmail } = getAuthenticatedUser(request)
+
+    if (!userId || !userEmail) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await verifyTeamAdminAccess(userId, userEmail, teamId, auctionId)
+
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error, details: authResult.details },
+        { status: authResult.statusCode || 403 }
+      )
+    }
+
+    // set_accelerated_picks is service-role only; the team check above is the caller check
+    const { error: rpcError } = await createAdminClient()
+      .rpc('set_accelerated_picks', {
+        p_auction_id: auctionId,
+        p_team_id: teamId,
+        p_player_ids: playerIds,
+      })
+
+    if (rpcError) {
+      console.error('[captain/accelerated] RPC error:', rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to save picks' },
+        { status: 400 }
+      )
+    }
+
+    const round = await loadAcceleratedRound(supabase, auctionId, teamId)
+    if (round) {
+      await broadcastAcceleratedRound(supabase, auctionId, { type: 'PICKS_UPDATED', roundId: round.id, teamId })
+    }
+
+    return NextResponse.json({ success: true, round })
+
+  } catch (error) {
+    console.error('Failed to save accelerated round picks:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid picks', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save picks',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
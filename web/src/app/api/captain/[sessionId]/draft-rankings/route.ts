@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>
+}
+
+const rankingsSchema = z.object({
+  // Best first; an empty list clears the rankings
+  playerIds: z.array(z.string()),
+})
+
+// Parse "auctionId_teamId" and check the caller can manage that team
+async function authorize(request: NextRequest, sessionId: string) {
+  const [auctionId, teamId] = sessionId.split('_')
+
+  if (!auctionId || !teamId) {
+    return { error: NextResponse.json(
+      { error: 'Invalid session ID format. Draft rankings require auctionId_teamId format.' },
+      { status: 400 }
+    ) }
+  }
+
+  const { userId, userEmail } = getAuthenticatedUser(request)
+
+  if (!userId || !userEmail) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const authResult = await verifyTeamAdminAccess(userId, userEmail, teamId, auctionId)
+
+  if (!authResult.success) {
+    return { error: NextResponse.json(
+      { error: authResult.error, details: authResult.details },
+      { status: authResult.statusCode || 403 }
+    ) }
+  }
+
+  return { auctionId, teamId }
+}
+
+async function loadRankings(auctionId: string, teamId: string) {
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from('draft_rankings')
+    .select('player_id')
+    .eq('auction_id', auctionId)
+    .eq('team_id', teamId)
+    .order('rank')
+  return (data || []).map(r => r.player_id)
+}
+
+// GET - This team's ranked list for auto-picks
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { sessionId } = await params
+    const auth = await authorize(request, sessionId)
+    if ('error' in auth) return auth.error
+
+    return NextResponse.json({ rankings: await loadRankings(auth.auctionId, auth.teamId) })
+
+  } catch (error) {
+    console.error('Failed to fetch draft rankings:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch draft rankings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Replace the ranked list the draft auto-picks from when this team's clock runs out
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { sessionId } = await params
+    const body = await request.json()
+    const { playerIds } = rankingsSchema.parse(body)
+
+    const auth = await authorize(request, sessionId)
+    if ('error' in auth) return auth.error
+    const { auctionId, teamId } = auth
+
+    // set_draft_rankings is service-role only; authorize() above is the caller check
+    const { error: rpcError } = await createAdminClient()
+      .rpc('set_draft_rankings', {
+        p_auction_id: auctionId,
+        p_team_id: teamId,
+        p_player_ids: playerIds,
+      })
+
+    if (rpcError) {
+      console.error('[captain/draft-rankings] RPC error:', rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to save rankings' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, rankings: await loadRankings(auctionId, teamId) })
+
+  } catch (error) {
+    console.error('Failed to save draft rankings:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid draft rankings', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save draft rankings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+import { calculateBidLimit, getRequiredSquadSize } from '@/lib/budget-utils'
+import { getRoleRequirements } from '@/lib/squad-rules'
+import { loadRtmStatus } from '@/lib/rtm'
+import { loadAcceleratedRound } from '@/lib/accelerated-round'
+import { loadNomination } from '@/lib/nomination'
+import { loadDraft } from '@/lib/draft'
+import type { PlayingRole, RoleRules } from '@/lib/types'
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>
@@ -140,7 +147,7 @@ export async function GET(
     // ── Fetch auction details ──────────────────────────────────
     const { data: auction, error: auctionError } = await supabase
       .from('auctions')
-      .select('id, name, status, currency_name, currency_icon, budget_per_team, squad_size, queue_state, bidding_type, outcry_config')
+      .select('id, name, status, currency_name, currency_icon, budget_per_team, squad_size, queue_state, bidding_type, outcry_config, role_rules')
       .eq('id', auctionId)
       .maybeSingle()
 
@@ -294,12 +301,13 @@ export async function GET(
           battingStyle: currentPlayer.batting_style,
           bowlingStyle: currentPlayer.bowling_style,
           customTags: currentPlayer.custom_tags,
-          tier: tier ? { id: tier.id, name: tier.name, basePrice: tier.base_price, color: tier.color } : null,
+          tier: tier ? { id: tier.id, name: tier.name, basePrice: currentRound.base_price ?? tier.base_price, color: tier.color } : null,
         } : null,
+        // A round's own base_price wins over the tier's (e.g. a reduced accelerated-round price)
         tier: tier ? {
           id: tier.id,
           name: tier.name,
-          basePrice: tier.base_price,
+          basePrice: currentRound.base_price ?? tier.base_price,
           color: tier.color,
         } : null,
         myBid: captainBid ? {
@@ -381,16 +389,22 @@ export async function GET(
     const maxAuctionSlots = Math.ceil(auctionableCount / numTeams)
     const squadSize = Math.max(auction.squad_size || 0, maxAuctionSlots)
     const slotsRemaining = Math.max(0, squadSize - squad.length)
-    // For budget reserve, use min guaranteed slots (floor) so maxAllowableBid isn't too conservative
-    const minAuctionSlots = Math.floor(auctionableCount / numTeams)
-    const minSlotsToFill = Math.max(0, minAuctionSlots - squad.length)
 
-    // Reserve = minimum needed for remaining mandatory slots
+    // Reserve = base price of every slot still to fill after the player on the block
     const minBasePrice = tiers && tiers.length > 0
       ? Math.min(...tiers.map(t => t.base_price))
       : 0
-    const mandatoryReserve = Math.max(0, (minSlotsToFill - 1)) * minBasePrice
-    const maxAllowableBid = Math.max(0, remaining - mandatoryReserve)
+    const { reserve: mandatoryReserve, maxBid: maxAllowableBid } = calculateBidLimit({
+      remaining,
+      slotsToFill: Math.max(0, getRequiredSquadSize(auction.squad_size || 0, auctionableCount, numTeams) - squad.length),
+      tiers: tierRequirements.map(t => ({
+        id: t.id,
+        basePrice: t.basePrice,
+        minPerTeam: t.minPerTeam,
+        acquired: t.acquiredCount,
+      })),
+      forTierId: currentRound?.tier_id,
+    })
     const avgSpendPerPlayer = squad.length > 0 ? Math.round(spent / squad.length) : 0
     const avgRemainingPerSlot = slotsRemaining > 0 ? Math.round(remaining / slotsRemaining) : remaining
 
@@ -430,6 +444,26 @@ export async function GET(
       targetSize: squadSize,
     }
 
+    // ── Role requirements (auction role_rules) ─────────────────
+    const roleCounts: Partial<Record<PlayingRole, number>> = {}
+    for (const p of squad) {
+      const role = p.playingRole as PlayingRole
+      roleCounts[role] = (roleCounts[role] || 0) + 1
+    }
+    const roleRequirements = getRoleRequirements(auction.role_rules as RoleRules | null, roleCounts)
+
+    // ── Right-to-match cards and any open offer ───────────────
+    const rtm = await loadRtmStatus(supabase, auctionId, teamId)
+
+    // ── Accelerated round for unsold players (this team's picks only) ──
+    const accelerated = await loadAcceleratedRound(supabase, auctionId, teamId)
+
+    // ── Nomination mode: whose turn it is and who's left ───────
+    const nomination = await loadNomination(supabase, auctionId)
+
+    // ── Draft mode: pick order, who's left and this team's ranked list ──
+    const draft = await loadDraft(supabase, auctionId, teamId)
+
     // ── Auction progress ───────────────────────────────────────
     const totalPlayerCount = allPlayers?.length || 0
     const soldCount = allSoldPlayerIds.size
@@ -500,6 +534,11 @@ export async function GET(
       squad,
       bidHistory: formattedBidHistory,
       tierRequirements,
+      roleRequirements,
+      rtm,
+      accelerated,
+      nomination,
+      draft,
       budgetAnalytics,
       squadComposition,
       auctionProgress,
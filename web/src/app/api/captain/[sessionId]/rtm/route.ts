@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+import { formatBidLimitError, loadBidLimit } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
+import { broadcastRtmOffer, isRtmOfferOpen, RTM_OFFER_SELECT, toRtmOffer } from '@/lib/rtm'
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>
+}
+
+const rtmSchema = z.object({
+  offerId: z.string(),
+  action: z.enum(['CLAIM', 'DECLINE']),
+})
+
+// Answer a right-to-match offer: take the player at the hammer price, or let the sale stand
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const supabase = await createClient()
+    const { sessionId } = await params
+    const body = await request.json()
+
+    const { offerId, action } = rtmSchema.parse(body)
+
+    // Parse session ID — "auctionId_teamId" (underscore delimiter)
+    const parts = sessionId.split('_')
+    const auctionId = parts[0]
+    const teamId = parts[1]
+
+    if (!auctionId || !teamId) {
+      return NextResponse.json(
+        { error: 'Invalid session ID format. RTM requires auctionId_teamId format.' },
+        { status: 400 }
+      )
+    }
+
+    const { userId, userEmail } = getAuthenticatedUser(request)
+
+    if (!userId || !userEmail) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await verifyTeamAdminAccess(userId, userEmail, teamId, auctionId)
+
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error, details: authResult.details },
+        { status: authResult.statusCode || 403 }
+      )
+    }
+
+    const { data: row } = await supabase
+      .from('rtm_offers')
+      .select(RTM_OFFER_SELECT)
+      .eq('id', offerId)
+      .eq('auction_id', auctionId)
+      .maybeSingle()
+
+    if (!row) {
+      return NextResponse.json({ error: 'RTM offer not found' }, { status: 404 })
+    }
+
+    const offer = toRtmOffer(row)
+    if (offer.teamId !== teamId) {
+      return NextResponse.json({ error: 'This RTM offer belongs to another team' }, { status: 403 })
+    }
+
+    // Friendlier messages first; claim_rtm and the auction_results triggers re-check
+    if (action === 'CLAIM' && isRtmOfferOpen(offer)) {
+      const tierId = (row.player as unknown as { tier_id: string | null } | null)?.tier_id
+      const limit = await loadBidLimit({ supabase, auctionId, teamId, forTierId: tierId })
+      if (offer.price > limit.maxBid) {
+        return NextResponse.json({ error: formatBidLimitError(limit), maxBid: limit.maxBid }, { status: 400 })
+      }
+
+      const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId, playerId: offer.playerId })
+      if (squadLimitError) {
+        return NextResponse.json({ error: squadLimitError }, { status: 400 })
+      }
+    }
+
+    // claim_rtm is service-role only; the team check above and the session user stand in for RLS
+    const { data: status, error: rpcError } = await createAdminClient()
+      .rpc('claim_rtm', {
+        p_offer_id: offerId,
+        p_team_id: teamId,
+        p_claim: action === 'CLAIM',
+        p_user_id: userId,
+      })
+
+    if (rpcError) {
+      console.error('[captain/rtm] RPC error:', rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to answer RTM offer' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    const resolved = { ...offer, status }
+    await broadcastRtmOffer(supabase, auctionId, resolved)
+
+    if (status === 'EXPIRED') {
+      return NextResponse.json({ error: 'The RTM window has closed', offer: resolved }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, offer: resolved })
+
+  } catch (error) {
+    console.error('Failed to answer RTM offer:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid RTM data', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to answer RTM offer',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { z } from 'zod'
+import { verifyTeamAdminAccess, getAuthenticatedUser } from '@/lib/auth'
+import { loadWishlist, triggerProxyBidder } from '@/lib/proxy-bidder'
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>
+}
+
+const wishlistEntrySchema = z.object({
+  playerId: z.string(),
+  // null takes the player off the wishlist
+  maxPrice: z.number().int().min(1, 'Max price must be at least 1').nullable(),
+})
+
+// Parse "auctionId_teamId" and check the caller can manage that team
+async function authorize(request: NextRequest, sessionId: string) {
+  const [auctionId, teamId] = sessionId.split('_')
+
+  if (!auctionId || !teamId) {
+    return { error: NextResponse.json(
+      { error: 'Invalid session ID format. Wishlists require auctionId_teamId format.' },
+      { status: 400 }
+    ) }
+  }
+
+  const { userId, userEmail } = getAuthenticatedUser(request)
+
+  if (!userId || !userEmail) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const authResult = await verifyTeamAdminAccess(userId, userEmail, teamId, auctionId)
+
+  if (!authResult.success) {
+    return { error: NextResponse.json(
+      { error: authResult.error, details: authResult.details },
+      { status: authResult.statusCode || 403 }
+    ) }
+  }
+
+  return { auctionId, teamId }
+}
+
+// GET - This team's wishlist and the players still available to add
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { sessionId } = await params
+    const auth = await authorize(request, sessionId)
+    if ('error' in auth) return auth.error
+    const { auctionId, teamId } = auth
+
+    const supabase = await createClient()
+    const [wishlist, playersResult, resultsResult, captainsResult] = await Promise.all([
+      loadWishlist(supabase, auctionId, teamId),
+      supabase
+        .from('players')
+        .select('id, name, playing_role, tier:tiers!tier_id(name, base_price)')
+        .eq('auction_id', auctionId)
+        .order('name'),
+      supabase.from('auction_results').select('player_id').eq('auction_id', auctionId),
+      supabase.from('teams').select('captain_player_id').eq('auction_id', auctionId),
+    ])
+
+    const taken = new Set([
+      ...(resultsResult.data || []).map(r => r.player_id),
+      ...(captainsResult.data || []).map(t => t.captain_player_id).filter(Boolean),
+    ])
+
+    const players = (playersResult.data || [])
+      .filter(p => !taken.has(p.id))
+      .map(p => {
+        const tier = p.tier as unknown as { name: string; base_price: number } | null
+        return {
+          id: p.id,
+          name: p.name,
+          playingRole: p.playing_role,
+          tierName: tier?.name || null,
+          basePrice: tier?.base_price ?? 1,
+        }
+      })
+
+    return NextResponse.json({ wishlist, players })
+
+  } catch (error) {
+    console.error('Failed to fetch wishlist:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch wishlist',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Set (or clear) the max price the proxy may bid for a player
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { sessionId } = await params
+    const body = await request.json()
+    const { playerId, maxPrice } = wishlistEntrySchema.parse(body)
+
+    const auth = await authorize(request, sessionId)
+    if ('error' in auth) return auth.error
+    const { auctionId, teamId } = auth
+
+    // set_wishlist_entry is service-role only; authorize() above is the caller check
+    const supabase = await createClient()
+    const { error: rpcError } = await createAdminClient()
+      .rpc('set_wishlist_entry', {
+        p_auction_id: auctionId,
+        p_team_id: teamId,
+        p_player_id: playerId,
+        p_max_price: maxPrice,
+      })
+
+    if (rpcError) {
+      console.error('[captain/wishlist] RPC error:', rpcError)
+      return NextResponse.json(
+        { error: rpcError.message || 'Failed to update wishlist' },
+        { status: rpcError.code === 'P0002' ? 404 : 400 }
+      )
+    }
+
+    // A raised max may let the proxy answer the player already on the block
+    if (maxPrice != null) await triggerProxyBidder(auctionId)
+
+    return NextResponse.json({ success: true, wishlist: await loadWishlist(supabase, auctionId, teamId) })
+
+  } catch (error) {
+    console.error('Failed to update wishlist:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid wishlist entry', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update wishlist',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { deliverQueuedEmails } from '@/lib/email-outbox'
+import { getMailTransport } from '@/lib/mailer'
+
+// GET — Send queued email, including retries of earlier failures.
+// Called by Vercel Cron (which sends `Authorization: Bearer $CRON_SECRET`)
+// or any external scheduler holding the same secret. Middleware lets /api/cron/
+// through without a session, so the secret check below is the only gate.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await deliverQueuedEmails(createAdminClient(), getMailTransport())
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[cron/email-outbox] Delivery failed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { sweepOutcryRounds } from '@/lib/outcry-timer'
+
+// GET — Finish pending proxy and bot raises, then close open outcry rounds whose
+// timer has expired.
+// Called by Vercel Cron (which sends `Authorization: Bearer $CRON_SECRET`)
+// or any external scheduler holding the same secret. Vercel runs it once a
+// minute, so a round can outlive its timer by up to that long; bids are
+// already refused by then, and OUTCRY_TIMER_SCHEDULER=local closes rounds
+// within a second on servers that stay up. A proxy exchange longer than a
+// request's share waits for this sweep too, so keep the outcry timer above
+// the cron interval when proxies or bots are in use.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { raises, closed } = await sweepOutcryRounds(createAdminClient())
+    return NextResponse.json({ raises, closed })
+  } catch (error) {
+    console.error('[cron/outcry-timers] Sweep failed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAuthenticatedUser } from '@/lib/auth'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - A saved dry run (RLS limits it to the user who ran it)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: dryRun, error } = await supabase
+      .from('dry_runs')
+      .select('id, config_snapshot, result_snapshot, balance_score, recommendations, created_at')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!dryRun) {
+      return NextResponse.json({ error: 'Dry run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      id: dryRun.id,
+      createdAt: dryRun.created_at,
+      config: dryRun.config_snapshot,
+      result: dryRun.result_snapshot,
+      balanceScore: dryRun.balance_score,
+      recommendations: dryRun.recommendations || [],
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch dry run:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch dry run',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { generateSeed } from '@/lib/seeded-random'
+import { getDryRunRecommendations, runDryRun, type DryRunConfig } from '@/lib/dry-run'
+
+const dryRunSchema = z.object({
+  teamCount: z.number().int().min(2, 'At least 2 teams are needed').max(20),
+  budgetPerTeam: z.number().int().min(1, 'Budget must be positive'),
+  squadSize: z.number().int().min(1).max(30),
+  playerPoolSize: z.number().int().min(1).max(500),
+  biddingType: z.enum(['SEALED_TENDER', 'SEALED_SECOND_PRICE', 'OPEN_OUTCRY']),
+  tiers: z.array(z.object({
+    name: z.string().min(1, 'Tier name is required'),
+    basePrice: z.number().int().min(1, 'Base price must be positive'),
+    minPerTeam: z.number().int().min(0).default(0),
+    maxPerTeam: z.number().int().min(0).nullable().optional(),
+    playerCount: z.number().int().min(0).optional(),
+  })).min(1, 'At least 1 tier required').max(10),
+  runs: z.number().int().min(1).max(500).default(200),
+  // Replays an earlier run; a fresh seed is drawn otherwise
+  seed: z.string().min(1).optional(),
+})
+
+// POST - Simulate the setup with bot captains and save the result to dry_runs
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input = dryRunSchema.parse(body)
+
+    const config: DryRunConfig = {
+      ...input,
+      tiers: input.tiers.map(tier => ({ ...tier, maxPerTeam: tier.maxPerTeam ?? null })),
+      seed: input.seed ?? generateSeed(),
+    }
+
+    const result = runDryRun(config)
+    const recommendations = getDryRunRecommendations(config, result)
+
+    const supabase = await createClient()
+    const { data: dryRun, error } = await supabase
+      .from('dry_runs')
+      .insert({
+        owner_id: userId,
+        config_snapshot: config,
+        result_snapshot: result,
+        balance_score: result.balanceScore,
+        recommendations,
+      })
+      .select('id, created_at')
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({
+      id: dryRun.id,
+      createdAt: dryRun.created_at,
+      config,
+      result,
+      recommendations,
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[dry-runs/POST] Unexpected error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid dry run setup', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getAuthenticatedUser } from '@/lib/auth'
+import { getInviteSecret } from '@/lib/invite-token'
+import { getInviteDestination, loadInvite, redeemInvite } from '@/lib/invite-redemption'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+// GET - What the invite is for (public: the token is the credential)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { token } = await params
+    const lookup = await loadInvite(createAdminClient(), token, getInviteSecret())
+
+    if (!lookup.ok) {
+      return NextResponse.json({ error: lookup.error }, { status: lookup.status })
+    }
+
+    const { invite } = lookup
+    return NextResponse.json({
+      auctionName: invite.auctionName,
+      teamName: invite.teamName,
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+    })
+  } catch (error) {
+    console.error('Failed to load invite:', error)
+    return NextResponse.json({ error: 'Failed to load invite' }, { status: 500 })
+  }
+}
+
+// POST - Redeem the invite for the signed-in user. Newcomers sign up on the invite page first;
+// confirming their email brings them back to the link.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { userId } = getAuthenticatedUser(request)
+    if (!userId) {
+      return NextResponse.json({ error: 'Sign in to accept the invite' }, { status: 401 })
+    }
+
+    const { token } = await params
+    const supabase = createAdminClient()
+    const lookup = await loadInvite(supabase, token, getInviteSecret())
+
+    if (!lookup.ok) {
+      return NextResponse.json({ error: lookup.error }, { status: lookup.status })
+    }
+
+    const { invite } = lookup
+    await redeemInvite(supabase, invite, userId)
+
+    return NextResponse.json({
+      success: true,
+      auctionId: invite.auctionId,
+      teamId: invite.teamId,
+      role: invite.role,
+      redirectTo: getInviteDestination(invite),
+    })
+  } catch (error) {
+    console.error('Failed to redeem invite:', error)
+    return NextResponse.json({ error: 'Failed to redeem invite' }, { status: 500 })
+  }
+}
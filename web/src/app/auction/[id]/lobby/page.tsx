@@ -13,7 +13,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
   Users, Settings, Play, Clock, Crown, Shield,
   UserPlus, RefreshCw, AlertCircle, CheckCircle,
-  Zap, Copy, Share2
+  Zap, Copy, Share2, KeyRound
 } from 'lucide-react'
 import { useAuction } from '@/hooks/useAuction'
 import { useAuctionAccess } from '@/hooks/useAuctionAccess'
@@ -42,7 +42,7 @@ export default function AuctionLobbyPage() {
   const auctionId = params.id as string
 
   const { auction, loading: auctionLoading, error: auctionError, refetch } = useAuction(auctionId)
-  const { permissions, user } = useAuctionAccess(auctionId)
+  const { permissions, user, passcodeRequired, joinAuction, error: accessError } = useAuctionAccess(auctionId)
 
   const [lobbyData, setLobbyData] = useState<{
     teams: LobbyTeam[]
@@ -54,6 +54,8 @@ export default function AuctionLobbyPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isStarting, setIsStarting] = useState(false)
+  const [passcode, setPasscode] = useState('')
+  const [isJoining, setIsJoining] = useState(false)
 
   // Real-time updates simulation (in real implementation, this would use WebSocket)
   useEffect(() => {
@@ -130,6 +132,17 @@ export default function AuctionLobbyPage() {
     console.log('Assign captain:', { teamId, userId })
   }
 
+  const handleJoinWithPasscode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsJoining(true)
+    const joined = await joinAuction(passcode)
+    setIsJoining(false)
+    if (joined) {
+      setPasscode('')
+      refetch()
+    }
+  }
+
   const handleInviteParticipant = () => {
     // TODO: Implement participant invitation
     const shareUrl = `${window.location.origin}/auction/${auctionId}`
@@ -158,6 +171,44 @@ export default function AuctionLobbyPage() {
     )
   }
 
+  if (passcodeRequired) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Card className="p-8 max-w-md mx-auto">
+          <form onSubmit={handleJoinWithPasscode} className="space-y-4">
+            <div className="text-center">
+              <KeyRound className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+              <h2 className="text-xl font-semibold">Private Auction</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                {user ? 'Enter the passcode from the organiser to join the lobby.' : 'Sign in, then enter the passcode from the organiser to join.'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auction-passcode">Passcode</Label>
+              <Input
+                id="auction-passcode"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                autoComplete="off"
+                autoFocus
+                className="font-mono tracking-widest uppercase"
+              />
+            </div>
+            {accessError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{accessError}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="submit" className="w-full" disabled={!user || isJoining || !passcode.trim()}>
+              {isJoining ? 'Joining...' : 'Join Lobby'}
+            </Button>
+          </form>
+        </Card>
+      </div>
+    )
+  }
+
   if (auctionError || error) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -28,7 +28,8 @@ import {
   CheckCircle2,
   Layers,
   Merge,
-  Ungroup
+  Ungroup,
+  Hand
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { auctionRealtimeManager, type AuctionState, type FormalBid } from '@/lib/auction-realtime'
@@ -37,13 +38,31 @@ import { PlayerImport } from '@/components/auction/PlayerImport'
 
 // Extracted subcomponents
 import { NowAuctioningCard } from '@/components/auction/NowAuctioningCard'
+import { applyRtmClaim, type RtmOffer } from '@/lib/rtm'
 import { AuctionControls } from '@/components/auction/AuctionControls'
 import { OpenOutcryAuctioneerPanel } from '@/components/auction/OpenOutcryAuctioneerPanel'
 import type { OutcryConfig } from '@/lib/outcry-utils'
+import type { AuctionTimeline as EventTimeline } from '@/lib/auction-events'
+import { TIE_BREAK_LABELS, type SealedConfig } from '@/lib/sealed-utils'
 import { TeamBudgetsSidebar } from '@/components/auction/TeamBudgetsSidebar'
 import { AuctionProgressPanel } from '@/components/auction/AuctionProgressPanel'
 import { UpNextQueue } from '@/components/auction/UpNextQueue'
+import { QueueShuffleNote } from '@/components/auction/QueueShuffleNote'
 import { ShareLinksPanel } from '@/components/auction/ShareLinksPanel'
+import { RetentionPanel } from '@/components/auction/RetentionPanel'
+import { BotCaptainsPanel } from '@/components/auction/BotCaptainsPanel'
+import { AuctionPasscodeSettings } from '@/components/auction/AuctionPasscodeSettings'
+import { AcceleratedRoundPanel } from '@/components/auction/AcceleratedRoundPanel'
+import type { AcceleratedRound } from '@/lib/accelerated-round'
+import { NominationPanel } from '@/components/auction/NominationPanel'
+import type { NominationOrderType, NominationState } from '@/lib/nomination'
+import { DraftBoardPanel } from '@/components/auction/DraftBoardPanel'
+import type { DraftState } from '@/lib/draft'
+import type { QueueShuffle } from '@/lib/queue-shuffle'
+import { AuctionTimeline } from '@/components/auction/AuctionTimeline'
+import { GavelPanel } from '@/components/auction/GavelPanel'
+import { useAuctionGavel } from '@/hooks/useAuctionGavel'
+import { GAVEL_HELD_CODE } from '@/lib/auction-gavel'
 
 interface Player {
   name: string
@@ -175,6 +194,7 @@ function SetupSection({
 export default function AuctionPage() {
   const params = useParams()
   const auctionId = params.id as string
+  const { gavel, auctioneers, gavelHeaders, error: gavelError, onGavelHeld, claim, release, handOver } = useAuctionGavel(auctionId)
 
   const [auction, setAuction] = useState<AuctionState | null>(null)
   const [players, setPlayers] = useState<Player[]>([])
@@ -197,14 +217,18 @@ export default function AuctionPage() {
   const [error, setError] = useState<string | null>(null)
   const [playerPoolExpanded, setPlayerPoolExpanded] = useState(true)
   const [teamsExpanded, setTeamsExpanded] = useState(true)
+  const [retentionsExpanded, setRetentionsExpanded] = useState(true)
   const [settingsExpanded, setSettingsExpanded] = useState(true)
+  const [botsExpanded, setBotsExpanded] = useState(false)
   const [budgetPerTeam, setBudgetPerTeam] = useState<number>(1000)
   const [sellPrice, setSellPrice] = useState<number>(0)
   const [sellTeam, setSellTeam] = useState<string>('')
   const [apiTiers, setApiTiers] = useState<{ id: string; name: string; basePrice: number; color: string; sortOrder?: number }[]>([])
   const [apiPlayers, setApiPlayers] = useState<any[]>([])
   const [apiPlayerStats, setApiPlayerStats] = useState<any>(null)
-  const [shuffleMode, setShuffleMode] = useState<'random' | 'tier-ordered' | 'custom-mix'>('random')
+  const [shuffleMode, setShuffleMode] = useState<'random' | 'tier-ordered' | 'custom-mix' | 'nomination'>('random')
+  const [nominationOrderType, setNominationOrderType] = useState<NominationOrderType>('SNAKE')
+  const [nominationTimer, setNominationTimer] = useState<number>(60)
   const [tierOrder, setTierOrder] = useState<{ tierId: string; tierName: string; basePrice: number; position: number }[]>([])
   // Custom mix: array of groups, each group is an array of tier IDs that get shuffled together
   const [customMixGroups, setCustomMixGroups] = useState<{ tierIds: string[] }[]>([])
@@ -220,9 +244,24 @@ export default function AuctionPage() {
   const [selectedRoles, setSelectedRoles] = useState<string[]>(['BATSMAN'])
   const [playerSearchTerm, setPlayerSearchTerm] = useState('')
   const [showSquads, setShowSquads] = useState(false)
-  const [biddingType, setBiddingType] = useState<'SEALED_TENDER' | 'OPEN_OUTCRY'>('SEALED_TENDER')
+  const [biddingType, setBiddingType] = useState<'SEALED_TENDER' | 'SEALED_SECOND_PRICE' | 'OPEN_OUTCRY' | 'DRAFT'>('SEALED_TENDER')
   const [outcryConfig, setOutcryConfig] = useState<OutcryConfig | null>(null)
+  const [sealedConfig, setSealedConfig] = useState<SealedConfig | null>(null)
+  const [resolving, setResolving] = useState(false)
   const [currentRoundId, setCurrentRoundId] = useState<string | null>(null)
+  const [eventTimeline, setEventTimeline] = useState<EventTimeline | null>(null)
+  const [rtmOffer, setRtmOffer] = useState<RtmOffer | null>(null)
+  const [acceleratedRound, setAcceleratedRound] = useState<AcceleratedRound | null>(null)
+  const [acceleratedBusy, setAcceleratedBusy] = useState(false)
+  const [acceleratedError, setAcceleratedError] = useState<string | null>(null)
+  const [nomination, setNomination] = useState<NominationState | null>(null)
+  const [nominationBusy, setNominationBusy] = useState(false)
+  const [nominationError, setNominationError] = useState<string | null>(null)
+  const [draft, setDraft] = useState<DraftState | null>(null)
+  const [draftBusy, setDraftBusy] = useState(false)
+  const [draftError, setDraftError] = useState<string | null>(null)
+  const [queueShuffle, setQueueShuffle] = useState<QueueShuffle | null>(null)
+  const [shuffleError, setShuffleError] = useState<string | null>(null)
 
   // Sync tab with browser back/forward
   useEffect(() => {
@@ -330,29 +369,30 @@ export default function AuctionPage() {
     setTierOrder(updated)
   }
 
-  const fisherYatesShuffle = <T,>(arr: T[]): T[] => {
-    const shuffled = [...arr]
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
-    }
-    return shuffled
+  // Another window has the gavel: say so on the gavel panel rather than resyncing the queue
+  const isGavelHeld = (res: Response, data: { code?: string; error?: string }) => {
+    if (res.status !== 423 || data.code !== GAVEL_HELD_CODE) return false
+    onGavelHeld(data.error || 'Another window is running this auction')
+    return true
   }
 
-  // Execute an auction action (SOLD/UNSOLD/DEFER/UNDO) atomically on the server
+  // Execute an auction action (SOLD/UNSOLD/DEFER/UNDO/REDO) atomically on the server
   const executeAction = async (
-    action: 'SOLD' | 'UNSOLD' | 'DEFER' | 'UNDO',
-    extra?: { teamId?: string; amount?: number }
+    action: 'SOLD' | 'UNSOLD' | 'DEFER' | 'UNDO' | 'REDO',
+    extra?: { teamId?: string; amount?: number; targetEventId?: string }
   ): Promise<AuctionState | null> => {
     try {
       const res = await fetch(`/api/auctions/${auctionId}/action`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action, ...extra }),
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+        body: JSON.stringify({ action, expectedVersion: auction?.queueVersion, ...extra }),
       })
       if (!res.ok) {
         const errData = await res.json().catch(() => ({}))
         console.error(`Action ${action} failed:`, errData.error)
+        if (isGavelHeld(res, errData)) return null
+        // Another client moved the queue first — pull the latest state instead of overwriting it
+        if (res.status === 409) await syncQueueState()
         return null
       }
       return (await res.json()) as AuctionState
@@ -362,6 +402,96 @@ export default function AuctionPage() {
     }
   }
 
+  // Reload queue_state (and its version) from the server after a stale-write rejection
+  const syncQueueState = async () => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/state`)
+      if (!res.ok) return
+      const data = await res.json()
+      const qs = data.queueState || {}
+      setAuction(prev => prev ? {
+        ...prev,
+        status: data.status ?? prev.status,
+        unsoldPlayers: qs.unsoldPlayers || [],
+        deferredPlayers: qs.deferredPlayers || [],
+        auctionHistory: qs.auctionHistory || [],
+        auctionQueue: qs.auctionQueue || [],
+        auctionIndex: qs.auctionIndex ?? 0,
+        auctionStarted: qs.auctionStarted ?? false,
+        queueVersion: data.queueVersion,
+        lastUpdated: new Date().toISOString(),
+      } : prev)
+      setRoundBids([])
+      setCurrentRoundId(null)
+    } catch (e) {
+      console.error('Failed to sync queue state:', e)
+    }
+  }
+
+  // Auctioneer event timeline (undo/redo stacks). Every action bumps
+  // queueVersion, so refetch whenever it moves.
+  useEffect(() => {
+    if (!auction?.auctionStarted) return
+    fetch(`/api/auctions/${auctionId}/events`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (data) setEventTimeline(data) })
+      .catch(e => console.error('Failed to fetch event timeline:', e))
+  }, [auctionId, auction?.auctionStarted, auction?.queueVersion])
+
+  // Accelerated round for unsold players: captains' picks arrive over realtime
+  const fetchAcceleratedRound = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/accelerated`)
+      if (res.ok) {
+        const data = await res.json()
+        setAcceleratedRound(data.round ?? null)
+      }
+    } catch (e) {
+      console.error('Failed to fetch accelerated round:', e)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    if (!auction?.auctionStarted) return
+    fetchAcceleratedRound()
+  }, [auction?.auctionStarted, auction?.queueVersion, fetchAcceleratedRound])
+
+  // Nomination mode: whose turn it is moves with every round, so refetch with the queue
+  const fetchNomination = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/nomination`)
+      if (res.ok) {
+        const data = await res.json()
+        setNomination(data.nomination ?? null)
+      }
+    } catch (e) {
+      console.error('Failed to fetch nomination:', e)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    if (!auction?.auctionStarted) return
+    fetchNomination()
+  }, [auction?.auctionStarted, auction?.queueVersion, fetchNomination])
+
+  // Draft mode: who's on the clock moves with every pick
+  const fetchDraft = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/draft`)
+      if (res.ok) {
+        const data = await res.json()
+        setDraft(data.draft ?? null)
+      }
+    } catch (e) {
+      console.error('Failed to fetch draft:', e)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    if (!auction?.auctionStarted || biddingType !== 'DRAFT') return
+    fetchDraft()
+  }, [auction?.auctionStarted, auction?.queueVersion, biddingType, fetchDraft])
+
   // Fetch bids for the current open round
   const fetchRoundBids = useCallback(async () => {
     try {
@@ -388,16 +518,16 @@ export default function AuctionPage() {
   }, [auction?.auctionStarted, activeTab, fetchRoundBids])
 
   // Round lifecycle helpers (awaited before broadcast so bidders find the round in DB)
-  const openRound = async (playerName: string) => {
-    const player = apiPlayers.find((p: any) => p.name === playerName)
+  const openRound = async (playerId: string) => {
+    const player = apiPlayers.find((p: any) => p.id === playerId)
     if (!player) {
-      console.warn('[openRound] Player not found in apiPlayers:', playerName)
+      console.warn('[openRound] Player not found in apiPlayers:', playerId)
       return
     }
     try {
       const res = await fetch(`/api/auctions/${auctionId}/round`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
         body: JSON.stringify({
           playerId: player.id,
           tierId: player.tier?.id || null,
@@ -406,6 +536,7 @@ export default function AuctionPage() {
       if (!res.ok) {
         const errBody = await res.json().catch(() => ({}))
         console.error('[openRound] Failed:', res.status, errBody)
+        isGavelHeld(res, errBody)
       } else {
         const roundData = await res.json().catch(() => null)
         if (roundData?.round?.id) {
@@ -421,6 +552,7 @@ export default function AuctionPage() {
     try {
       await fetch(`/api/auctions/${auctionId}/round`, {
         method: 'DELETE',
+        headers: gavelHeaders,
       })
     } catch (e) {
       console.error('Failed to close round:', e)
@@ -492,6 +624,7 @@ export default function AuctionPage() {
             auctionQueue: queueState.auctionQueue || [],
             auctionIndex: queueState.auctionIndex ?? 0,
             auctionStarted: queueState.auctionStarted ?? false,
+            queueVersion: auctionData.queueVersion ?? 0,
             lastUpdated: new Date().toISOString(),
           }
 
@@ -502,12 +635,12 @@ export default function AuctionPage() {
             const idx = finalAuction.auctionIndex
             const queue = finalAuction.auctionQueue
             if (idx < queue.length && auctionData.players) {
-              const currentName = queue[idx]
-              const currentApiPlayer = auctionData.players.find((p: any) => p.name === currentName)
+              const currentId = queue[idx]
+              const currentApiPlayer = auctionData.players.find((p: any) => p.id === currentId)
               if (currentApiPlayer) {
                 fetch(`/api/auctions/${auctionId}/round`, {
                   method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
+                  headers: { 'Content-Type': 'application/json', ...gavelHeaders },
                   body: JSON.stringify({
                     playerId: currentApiPlayer.id,
                     tierId: currentApiPlayer.tier?.id || null,
@@ -538,6 +671,8 @@ export default function AuctionPage() {
           if (auctionData.budgetPerTeam) setBudgetPerTeam(auctionData.budgetPerTeam)
           if (auctionData.biddingType) setBiddingType(auctionData.biddingType)
           if (auctionData.outcryConfig) setOutcryConfig(auctionData.outcryConfig)
+          if (auctionData.sealedConfig) setSealedConfig(auctionData.sealedConfig)
+          if (auctionData.queueShuffle) setQueueShuffle(auctionData.queueShuffle)
           setLoading(false)
         } else {
           if (response.status === 404) {
@@ -571,11 +706,37 @@ export default function AuctionPage() {
       // Fetch latest bids from database
       fetchRoundBids()
     })
+    // A claimed RTM moves the player between teams without a queue action
+    auctionRealtimeManager.onRtmOffer((offer) => {
+      setRtmOffer(offer)
+      if (offer.status === 'CLAIMED') {
+        setAuction(prev => prev ? applyRtmClaim(prev, offer) : prev)
+      }
+    })
+    auctionRealtimeManager.onAcceleratedRound(() => {
+      fetchAcceleratedRound()
+    })
+    // A captain put a player up: pick up the appended queue and the round it opened
+    auctionRealtimeManager.onNomination(async (event) => {
+      if (event.type === 'NOMINATED') {
+        await syncQueueState()
+        setCurrentRoundId(event.roundId ?? null)
+        fetchRoundBids()
+      }
+      fetchNomination()
+    })
+    // A captain made a pick: take the squads and queue the route built
+    auctionRealtimeManager.onDraft((event) => {
+      if (event.type === 'PICKED' && event.state) {
+        setAuction(event.state)
+      }
+      fetchDraft()
+    })
 
     return () => {
       auctionRealtimeManager.unsubscribe()
     }
-  }, [auctionId])
+  }, [auctionId, gavelHeaders])
 
   const broadcastState = async (state: AuctionState) => {
     try {
@@ -585,58 +746,123 @@ export default function AuctionPage() {
     }
   }
 
-  const handleStartAuction = async () => {
+  // Reload teams and their players (captains, retentions) into the auction state
+  const reloadTeams = async () => {
     if (!auction) return
-
-    let auctionQueue: string[]
-
-    if (shuffleMode === 'tier-ordered' && apiPlayers.length > 0 && tierOrder.length > 0) {
-      const playersByTier = new Map<string, string[]>()
-      for (const player of apiPlayers) {
-        const tierId = player.tier?.id
-        if (!tierId) continue
-        if (!playersByTier.has(tierId)) playersByTier.set(tierId, [])
-        playersByTier.get(tierId)!.push(player.name)
+    try {
+      const response = await fetch(`/api/auctions/${auctionId}`)
+      const data = await response.json()
+
+      // Build soldPlayers from team auction results
+      const soldPlayers: AuctionState['soldPlayers'] = []
+      for (const team of data.teams || []) {
+        for (const player of team.players || []) {
+          soldPlayers.push({
+            playerId: player.id,
+            playerName: player.name,
+            teamId: team.id,
+            teamName: team.name,
+            price: player.price || 0,
+          })
+        }
       }
-      const playersWithoutTier = apiPlayers.filter((p: any) => !p.tier?.id).map((p: any) => p.name)
 
-      auctionQueue = []
-      for (const tier of tierOrder) {
-        const tierPlayers = playersByTier.get(tier.tierId) || []
-        auctionQueue.push(...fisherYatesShuffle(tierPlayers))
-      }
-      if (playersWithoutTier.length > 0) {
-        auctionQueue.push(...fisherYatesShuffle(playersWithoutTier))
+      const transformedAuction: AuctionState = {
+        id: data.id,
+        name: data.name,
+        status: data.status,
+        teams: (data.teams || []).map((team: any) => ({
+          id: team.id,
+          name: team.name,
+          coins: team.budgetRemaining ?? data.budgetPerTeam,
+          originalCoins: data.budgetPerTeam,
+          players: (team.players || []).map((p: any) => ({
+            id: p.id,
+            name: p.name,
+            price: p.price || 0,
+          })),
+        })),
+        currentRound: null,
+        auctionQueue: auction.auctionQueue || [],
+        auctionIndex: auction.auctionIndex || 0,
+        auctionStarted: auction.auctionStarted,
+        soldPlayers,
+        unsoldPlayers: auction.unsoldPlayers || [],
+        deferredPlayers: auction.deferredPlayers || [],
+        auctionHistory: auction.auctionHistory || [],
+        queueVersion: auction.queueVersion,
+        lastUpdated: new Date().toISOString(),
       }
-    } else if (shuffleMode === 'custom-mix' && apiPlayers.length > 0 && customMixGroups.length > 0) {
-      // Group players by tier
-      const playersByTier = new Map<string, string[]>()
-      for (const player of apiPlayers) {
-        const tierId = player.tier?.id
-        if (!tierId) continue
-        if (!playersByTier.has(tierId)) playersByTier.set(tierId, [])
-        playersByTier.get(tierId)!.push(player.name)
+      setAuction(transformedAuction)
+      if (data.budgetPerTeam) setBudgetPerTeam(data.budgetPerTeam)
+      broadcastState(transformedAuction)
+
+      // Re-filter apiPlayers to exclude newly assigned captains
+      const newCaptainIds = new Set(
+        (data.teams || []).map((t: any) => t.captainPlayerId).filter(Boolean)
+      )
+      if (newCaptainIds.size > 0) {
+        setApiPlayers(prev => {
+          const filtered = prev.filter(p => !newCaptainIds.has(p.id))
+          const removed = prev.length - filtered.length
+          if (removed > 0) {
+            setApiPlayerStats((prevStats: any) => prevStats ? {
+              ...prevStats,
+              total: prevStats.total - removed,
+              available: prevStats.available - removed,
+            } : null)
+          }
+          return filtered
+        })
       }
-      const playersWithoutTier = apiPlayers.filter((p: any) => !p.tier?.id).map((p: any) => p.name)
+    } catch (error) {
+      console.error('Failed to reload auction data:', error)
+    }
+  }
 
+  const handleStartAuction = async () => {
+    if (!auction) return
+
+    let auctionQueue: string[]
+
+    if (biddingType === 'DRAFT' || shuffleMode === 'nomination') {
+      // Teams pick (or put up) players one at a time, so the queue starts empty
       auctionQueue = []
-      for (const group of customMixGroups) {
-        // Collect all players from all tiers in this group
-        const groupPlayers: string[] = []
-        for (const tierId of group.tierIds) {
-          groupPlayers.push(...(playersByTier.get(tierId) || []))
+    } else if (apiPlayers.length > 0) {
+      // The server draws the queue from a recorded seed so anyone can verify it.
+      // The first draw stands, so starting again after a failed start reuses it.
+      let shuffle = queueShuffle
+      if (!shuffle) {
+        const tierGroups = shuffleMode === 'tier-ordered'
+          ? tierOrder.map(tier => [tier.tierId])
+          : shuffleMode === 'custom-mix'
+            ? customMixGroups.map(group => group.tierIds)
+            : undefined
+        try {
+          const res = await fetch(`/api/auctions/${auctionId}/shuffle`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ mode: shuffleMode, tierGroups }),
+          })
+          const data = await res.json().catch(() => ({}))
+          // A 409 still carries the record when another window drew it first
+          if (!data.shuffle) {
+            setShuffleError(data.error || 'Failed to draw the player queue')
+            return
+          }
+          shuffle = data.shuffle as QueueShuffle
+          setQueueShuffle(shuffle)
+          setShuffleError(null)
+        } catch (e) {
+          console.error('Failed to draw the player queue:', e)
+          setShuffleError('Failed to draw the player queue')
+          return
         }
-        // Shuffle all players in this group together
-        auctionQueue.push(...fisherYatesShuffle(groupPlayers))
-      }
-      if (playersWithoutTier.length > 0) {
-        auctionQueue.push(...fisherYatesShuffle(playersWithoutTier))
       }
+      auctionQueue = shuffle.queue
     } else {
-      const playerNames = apiPlayers.length > 0
-        ? apiPlayers.map((p: any) => p.name)
-        : players.map(p => p.name)
-      auctionQueue = fisherYatesShuffle(playerNames)
+      setShuffleError('Import players to the player pool before starting')
+      return
     }
 
     const updatedAuction = {
@@ -657,9 +883,9 @@ export default function AuctionPage() {
 
     // Save queue state + set status to LIVE
     try {
-      await fetch(`/api/auctions/${auctionId}/state`, {
+      const res = await fetch(`/api/auctions/${auctionId}/state`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
         body: JSON.stringify({
           queueState: {
             auctionQueue: updatedAuction.auctionQueue,
@@ -672,16 +898,46 @@ export default function AuctionPage() {
           status: 'LIVE',
         })
       })
+      if (res.ok) {
+        const saved = await res.json()
+        setAuction(prev => prev ? { ...prev, queueVersion: saved.queueVersion } : prev)
+      }
     } catch (e) {
       console.error('Failed to save auction state:', e)
     }
 
     broadcastState(updatedAuction)
+
+    if (biddingType === 'DRAFT') {
+      try {
+        const res = await fetch(`/api/auctions/${auctionId}/draft`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+          body: JSON.stringify({ action: 'START' }),
+        })
+        const data = await res.json().catch(() => ({}))
+        if (res.ok) setDraft(data.draft ?? null)
+        else setDraftError(data.error || 'Failed to start the draft')
+      } catch (e) {
+        console.error('Failed to start the draft:', e)
+      }
+    } else if (shuffleMode === 'nomination') {
+      try {
+        const res = await fetch(`/api/auctions/${auctionId}/nomination`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+          body: JSON.stringify({ action: 'START', orderType: nominationOrderType, timerSeconds: nominationTimer > 0 ? Math.max(5, nominationTimer) : null }),
+        })
+        const data = await res.json().catch(() => ({}))
+        if (res.ok) setNomination(data.nomination ?? null)
+        else setNominationError(data.error || 'Failed to start nominations')
+      } catch (e) {
+        console.error('Failed to start nominations:', e)
+      }
+    }
   }
 
   // --- Auction action handlers ---
-  const currentPlayerName = auction?.auctionQueue?.[auction?.auctionIndex ?? 0] ?? ''
-
   const handleSold = async () => {
     if (!auction) return
 
@@ -698,8 +954,8 @@ export default function AuctionPage() {
 
     // Sealed tender: require sellTeam
     if (!sellTeam) return
-    const playerName = auction.auctionQueue[auction.auctionIndex]
-    const price = sellPrice || getPlayerInfo(playerName).basePrice
+    const playerId = auction.auctionQueue[auction.auctionIndex]
+    const price = sellPrice || getPlayerInfo(playerId).basePrice
 
     // Resolve team ID from bids or from auction state
     const matchingBid = roundBids.find(b => b.teamName === sellTeam)
@@ -719,6 +975,37 @@ export default function AuctionPage() {
     }
   }
 
+  // Sealed tender: server reveals the bids, applies the tie-break and records the sale
+  const handleResolve = async () => {
+    if (!auction) return
+    setResolving(true)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/round/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+        body: JSON.stringify({ expectedVersion: auction.queueVersion }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        console.error('Resolve failed:', data.error)
+        if (isGavelHeld(res, data)) return
+        if (res.status === 409) await syncQueueState()
+        return
+      }
+      const newState = data.state as AuctionState
+      setAuction(newState)
+      setSellTeam('')
+      setSellPrice(0)
+      setRoundBids([])
+      setCurrentRoundId(newState.currentRound?.id ?? null)
+      broadcastState(newState)
+    } catch (e) {
+      console.error('Failed to resolve round:', e)
+    } finally {
+      setResolving(false)
+    }
+  }
+
   const handleUnsold = async () => {
     if (!auction) return
     const newState = await executeAction('UNSOLD')
@@ -741,25 +1028,134 @@ export default function AuctionPage() {
     }
   }
 
-  const handleUndoLast = async () => {
-    if (!auction || auction.auctionHistory.length === 0) return
-    const newState = await executeAction('UNDO')
+  // Undo/redo restore the round that was open at that point, bids included
+  const applyTimelineAction = async (action: 'UNDO' | 'REDO', targetEventId?: string) => {
+    if (!auction) return
+    const newState = await executeAction(action, targetEventId ? { targetEventId } : undefined)
     if (newState) {
       setAuction(newState)
       setRoundBids([])
+      setCurrentRoundId(newState.currentRound?.id ?? null)
       broadcastState(newState)
     }
   }
 
-  // Helper to look up player info by name
-  const getPlayerInfo = (name: string) => {
+  // Open picks, start the picked queue (optionally at reduced base prices), or close the round
+  const handleAcceleratedAction = async (
+    action: 'OPEN' | 'START' | 'CLOSE',
+    basePrices?: Record<string, number>
+  ) => {
+    if (!auction) return
+    setAcceleratedBusy(true)
+    setAcceleratedError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/accelerated`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+        body: JSON.stringify({ action, basePrices, expectedVersion: auction.queueVersion }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setAcceleratedError(data.error || 'Failed to update accelerated round')
+        if (isGavelHeld(res, data)) return
+        if (res.status === 409) await syncQueueState()
+        return
+      }
+
+      const round = (data.round ?? null) as AcceleratedRound | null
+      setAcceleratedRound(round)
+      if (action === 'START' && data.state) {
+        const newState = data.state as AuctionState
+        setAuction(newState)
+        setRoundBids([])
+        setCurrentRoundId(newState.currentRound?.id ?? null)
+        broadcastState(newState)
+      }
+      if (round) {
+        const type = action === 'OPEN' ? 'OPENED' : action === 'START' ? 'STARTED' : 'CLOSED'
+        auctionRealtimeManager.broadcastAcceleratedRound({ type, roundId: round.id })
+          .catch(e => console.error('Failed to broadcast accelerated round:', e))
+      }
+    } catch (e) {
+      console.error(`Failed to ${action.toLowerCase()} accelerated round:`, e)
+      setAcceleratedError('Failed to update accelerated round')
+    } finally {
+      setAcceleratedBusy(false)
+    }
+  }
+
+  // Nomination mode: random player for the team on the clock (also the timer fallback)
+  const handleRandomNomination = useCallback(async () => {
+    setNominationBusy(true)
+    setNominationError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/nomination`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+        body: JSON.stringify({ action: 'RANDOM' }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setNominationError(data.error || 'Failed to pick a player')
+        return
+      }
+      // The route broadcasts the new state itself
+      const newState = data.state as AuctionState
+      setAuction(newState)
+      setRoundBids([])
+      setCurrentRoundId(newState.currentRound?.id ?? null)
+      setNomination(data.nomination ?? null)
+    } catch (e) {
+      console.error('Failed to pick a random nomination:', e)
+      setNominationError('Failed to pick a player')
+    } finally {
+      setNominationBusy(false)
+    }
+  }, [auctionId, gavelHeaders])
+
+  // Draft mode: pick for the team on the clock from its ranked list
+  const handleDraftAutoPick = useCallback(async () => {
+    setDraftBusy(true)
+    setDraftError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/draft`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+        body: JSON.stringify({ action: 'AUTO' }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setDraftError(data.error || 'Failed to auto-pick')
+        return
+      }
+      // The route broadcasts the new state itself
+      setAuction(data.state as AuctionState)
+      setDraft(data.draft ?? null)
+    } catch (e) {
+      console.error('Failed to auto-pick:', e)
+      setDraftError('Failed to auto-pick')
+    } finally {
+      setDraftBusy(false)
+    }
+  }, [auctionId, gavelHeaders])
+
+  const handleUndoLast = () => applyTimelineAction('UNDO')
+  const handleRevertTo = (eventId: string) => applyTimelineAction('UNDO', eventId)
+  const handleRedo = () => applyTimelineAction('REDO')
+
+  // Helper to look up a queued player by ID (demo players are queued by name)
+  const getPlayerInfo = (key: string) => {
     if (apiPlayers.length > 0) {
-      const p = apiPlayers.find((ap: any) => ap.name === name)
-      if (p) return { tier: p.tier?.name || '?', basePrice: p.tier?.basePrice || 0 }
+      const p = apiPlayers.find((ap: any) => ap.id === key)
+      // A running accelerated round may have cut the base price
+      const reduced = acceleratedRound?.status === 'RUNNING'
+        ? acceleratedRound.players.find(ap => ap.id === key)?.basePrice
+        : null
+      if (p) return { name: p.name as string, tier: p.tier?.name || '?', basePrice: reduced ?? (p.tier?.basePrice || 0) }
     }
-    const p = players.find(fp => fp.name === name)
-    if (p) return { tier: `Tier ${p.tier}`, basePrice: p.basePrice }
-    return { tier: '?', basePrice: 0 }
+    const p = players.find(fp => fp.name === key)
+    if (p) return { name: p.name, tier: `Tier ${p.tier}`, basePrice: p.basePrice }
+    return { name: key, tier: '?', basePrice: 0 }
   }
 
   const getTierStats = () => {
@@ -932,12 +1328,16 @@ export default function AuctionPage() {
   const auctionSoldPlayers = auction.soldPlayers || []
   const auctionQueue = auction.auctionQueue || []
   const auctionHistory = auction.auctionHistory || []
+  const canUndo = (eventTimeline?.done.length ?? 0) > 0
   const auctionDeferredPlayers = auction.deferredPlayers || []
   const auctionIndex = auction.auctionIndex ?? 0
+  // Nomination mode between rounds: a team is choosing who goes up next
+  const awaitingNomination = auctionIndex >= auctionQueue.length
+    && !!nomination?.currentTeamId && nomination.pool.length > 0
 
   // Filter apiPlayers for display: exclude sold players (captains already removed from apiPlayers)
-  const soldPlayerNames = new Set(auctionSoldPlayers.map(s => s.playerName))
-  const poolPlayers = apiPlayers.filter(p => !soldPlayerNames.has(p.name))
+  const soldPlayerIds = new Set(auctionSoldPlayers.map(s => s.playerId))
+  const poolPlayers = apiPlayers.filter(p => !soldPlayerIds.has(p.id))
 
   return (
     <div className="min-h-screen bg-muted">
@@ -1053,211 +1453,224 @@ export default function AuctionPage() {
                   email: p.user.email,
                   image: p.user.image
                 })) || []}
-                onTeamChange={async () => {
-                  try {
-                    const response = await fetch(`/api/auctions/${auctionId}`)
-                    const data = await response.json()
-
-                    // Build soldPlayers from team auction results
-                    const soldPlayers: AuctionState['soldPlayers'] = []
-                    for (const team of data.teams || []) {
-                      for (const player of team.players || []) {
-                        soldPlayers.push({
-                          playerId: player.id,
-                          playerName: player.name,
-                          teamId: team.id,
-                          teamName: team.name,
-                          price: player.price || 0,
-                        })
-                      }
-                    }
-
-                    const transformedAuction: AuctionState = {
-                      id: data.id,
-                      name: data.name,
-                      status: data.status,
-                      teams: (data.teams || []).map((team: any) => ({
-                        id: team.id,
-                        name: team.name,
-                        coins: team.budgetRemaining ?? data.budgetPerTeam,
-                        originalCoins: data.budgetPerTeam,
-                        players: (team.players || []).map((p: any) => ({
-                          id: p.id,
-                          name: p.name,
-                          price: p.price || 0,
-                        })),
-                      })),
-                      currentRound: null,
-                      auctionQueue: auction.auctionQueue || [],
-                      auctionIndex: auction.auctionIndex || 0,
-                      auctionStarted: auction.auctionStarted,
-                      soldPlayers,
-                      unsoldPlayers: auction.unsoldPlayers || [],
-                      deferredPlayers: auction.deferredPlayers || [],
-                      auctionHistory: auction.auctionHistory || [],
-                      lastUpdated: new Date().toISOString(),
-                    }
-                    setAuction(transformedAuction)
-                    if (data.budgetPerTeam) setBudgetPerTeam(data.budgetPerTeam)
-                    broadcastState(transformedAuction)
-
-                    // Re-filter apiPlayers to exclude newly assigned captains
-                    const newCaptainIds = new Set(
-                      (data.teams || []).map((t: any) => t.captainPlayerId).filter(Boolean)
-                    )
-                    if (newCaptainIds.size > 0) {
-                      setApiPlayers(prev => {
-                        const filtered = prev.filter(p => !newCaptainIds.has(p.id))
-                        const removed = prev.length - filtered.length
-                        if (removed > 0) {
-                          setApiPlayerStats((prevStats: any) => prevStats ? {
-                            ...prevStats,
-                            total: prevStats.total - removed,
-                            available: prevStats.available - removed,
-                          } : null)
-                        }
-                        return filtered
-                      })
-                    }
-                  } catch (error) {
-                    console.error('Failed to reload auction data:', error)
-                  }
-                }}
+                onTeamChange={reloadTeams}
               />
             </SetupSection>
 
-            {/* Section 3: Auction Settings */}
+            {/* Section 3: Retentions */}
             <SetupSection
               number={3}
+              title="Retentions"
+              expanded={retentionsExpanded}
+              onToggle={() => setRetentionsExpanded(!retentionsExpanded)}
+            >
+              <RetentionPanel
+                auctionId={auctionId}
+                onChange={reloadTeams}
+              />
+            </SetupSection>
+
+            {/* Section 4: Auction Settings */}
+            <SetupSection
+              number={4}
               title="Auction Settings"
               expanded={settingsExpanded}
               onToggle={() => setSettingsExpanded(!settingsExpanded)}
             >
-              <div className="space-y-4">
-                <div className="space-y-3">
-                  <h3 className="text-sm font-medium">Player Order</h3>
-                  <div className="space-y-2">
-                    <label className="flex items-center space-x-3 cursor-pointer">
-                      <input type="radio" name="shuffleMode" value="random" checked={shuffleMode === 'random'}
-                        onChange={() => setShuffleMode('random')} className="h-4 w-4 text-primary" />
-                      <div className="flex items-center space-x-2">
-                        <Shuffle className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm">Fully Random</span>
-                      </div>
-                    </label>
-                    <label className="flex items-center space-x-3 cursor-pointer">
-                      <input type="radio" name="shuffleMode" value="tier-ordered" checked={shuffleMode === 'tier-ordered'}
-                        onChange={() => setShuffleMode('tier-ordered')} disabled={apiTiers.length === 0} className="h-4 w-4 text-primary" />
-                      <div className="flex items-center space-x-2">
-                        <ArrowDown className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm">By Tier Order</span>
-                      </div>
-                    </label>
-                    <label className="flex items-center space-x-3 cursor-pointer">
-                      <input type="radio" name="shuffleMode" value="custom-mix" checked={shuffleMode === 'custom-mix'}
-                        onChange={() => setShuffleMode('custom-mix')} disabled={apiTiers.length === 0} className="h-4 w-4 text-primary" />
-                      <div className="flex items-center space-x-2">
-                        <Layers className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm">Custom Mix</span>
-                      </div>
-                    </label>
+              <AuctionPasscodeSettings auctionId={auctionId} />
+              {biddingType === 'DRAFT' ? (
+                <p className="text-sm text-muted-foreground">
+                  This auction is a draft. Teams pick players in turn, in the order they were added, so there is no player order to set.
+                  Captains can rank players for auto-picks from their dashboard.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="space-y-3">
+                    <h3 className="text-sm font-medium">Player Order</h3>
+                    {queueShuffle && (
+                      <p className="text-xs text-muted-foreground">
+                        The queue has been drawn ({queueShuffle.mode}) and can&apos;t be redrawn; the auction starts from it.
+                      </p>
+                    )}
+                    <div className="space-y-2">
+                      <label className="flex items-center space-x-3 cursor-pointer">
+                        <input type="radio" name="shuffleMode" value="random" checked={shuffleMode === 'random'}
+                          onChange={() => setShuffleMode('random')} className="h-4 w-4 text-primary" />
+                        <div className="flex items-center space-x-2">
+                          <Shuffle className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm">Fully Random</span>
+                        </div>
+                      </label>
+                      <label className="flex items-center space-x-3 cursor-pointer">
+                        <input type="radio" name="shuffleMode" value="tier-ordered" checked={shuffleMode === 'tier-ordered'}
+                          onChange={() => setShuffleMode('tier-ordered')} disabled={apiTiers.length === 0} className="h-4 w-4 text-primary" />
+                        <div className="flex items-center space-x-2">
+                          <ArrowDown className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm">By Tier Order</span>
+                        </div>
+                      </label>
+                      <label className="flex items-center space-x-3 cursor-pointer">
+                        <input type="radio" name="shuffleMode" value="custom-mix" checked={shuffleMode === 'custom-mix'}
+                          onChange={() => setShuffleMode('custom-mix')} disabled={apiTiers.length === 0} className="h-4 w-4 text-primary" />
+                        <div className="flex items-center space-x-2">
+                          <Layers className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm">Custom Mix</span>
+                        </div>
+                      </label>
+                      <label className="flex items-center space-x-3 cursor-pointer">
+                        <input type="radio" name="shuffleMode" value="nomination" checked={shuffleMode === 'nomination'}
+                          onChange={() => setShuffleMode('nomination')} className="h-4 w-4 text-primary" />
+                        <div className="flex items-center space-x-2">
+                          <Hand className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm">Team Nominations</span>
+                        </div>
+                      </label>
+                    </div>
                   </div>
-                </div>
 
-                {shuffleMode === 'tier-ordered' && tierOrder.length > 0 && (
-                  <div className="space-y-2">
-                    <h3 className="text-sm font-medium">Tier Order</h3>
-                    <div className="border rounded-lg divide-y">
-                      {tierOrder.map((tier, index) => {
-                        const playerCount = apiPlayers.filter((p: any) => p.tier?.id === tier.tierId).length
-                        return (
-                          <div key={tier.tierId} className="flex items-center justify-between px-3 py-2">
-                            <div className="flex items-center space-x-3">
-                              <span className="text-xs font-mono text-muted-foreground w-5">{index + 1}.</span>
-                              <span className="text-sm font-medium">{tier.tierName}</span>
-                              <Badge variant="secondary" className="text-xs tabular-nums">{tier.basePrice}</Badge>
-                              <Badge variant="outline" className="text-xs">{playerCount} players</Badge>
-                            </div>
-                            <div className="flex items-center space-x-1">
-                              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0}
-                                onClick={() => moveTierOrder(index, 'up')}>
-                                <ArrowUp className="h-3.5 w-3.5" />
-                              </Button>
-                              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === tierOrder.length - 1}
-                                onClick={() => moveTierOrder(index, 'down')}>
-                                <ArrowDown className="h-3.5 w-3.5" />
-                              </Button>
-                            </div>
-                          </div>
-                        )
-                      })}
+                  {shuffleMode === 'nomination' && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium">Nominations</h3>
+                      <div className="flex flex-wrap items-end gap-4">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Turn order</Label>
+                          <Select value={nominationOrderType} onValueChange={(value) => setNominationOrderType(value as NominationOrderType)}>
+                            <SelectTrigger className="w-40 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="SNAKE">Snake (A→C, C→A)</SelectItem>
+                              <SelectItem value="FIXED">Fixed (A→C, A→C)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="nomination-timer" className="text-xs">Timer (seconds, 0 = none)</Label>
+                          <Input
+                            id="nomination-timer"
+                            type="number"
+                            min={0}
+                            step={5}
+                            value={nominationTimer}
+                            onChange={(e) => setNominationTimer(Math.max(0, parseInt(e.target.value) || 0))}
+                            className="w-24 h-8"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Teams take turns putting the next player up with an opening bid, in the order they were added.
+                        When the timer runs out, a player is picked at random for them.
+                      </p>
                     </div>
-                    <p className="text-xs text-muted-foreground">Players within each tier are shuffled randomly</p>
-                  </div>
-                )}
+                  )}
 
-                {shuffleMode === 'custom-mix' && customMixGroups.length > 0 && (
-                  <div className="space-y-2">
-                    <h3 className="text-sm font-medium">Mix & Match Tiers</h3>
-                    <p className="text-xs text-muted-foreground">Merge tiers to shuffle them together. Groups are auctioned in order, top to bottom.</p>
+                  {shuffleMode === 'tier-ordered' && tierOrder.length > 0 && (
                     <div className="space-y-2">
-                      {customMixGroups.map((group, groupIndex) => {
-                        const groupPlayerCount = group.tierIds.reduce((sum, tierId) =>
-                          sum + apiPlayers.filter((p: any) => p.tier?.id === tierId).length, 0)
-                        return (
-                          <div key={groupIndex} className="border rounded-lg overflow-hidden">
-                            <div className="flex items-center justify-between px-3 py-2 bg-muted/30">
+                      <h3 className="text-sm font-medium">Tier Order</h3>
+                      <div className="border rounded-lg divide-y">
+                        {tierOrder.map((tier, index) => {
+                          const playerCount = apiPlayers.filter((p: any) => p.tier?.id === tier.tierId).length
+                          return (
+                            <div key={tier.tierId} className="flex items-center justify-between px-3 py-2">
                               <div className="flex items-center space-x-3">
-                                <span className="text-xs font-mono text-muted-foreground w-5">{groupIndex + 1}.</span>
-                                <div className="flex items-center gap-1.5 flex-wrap">
-                                  {group.tierIds.map(tierId => (
-                                    <Badge
-                                      key={tierId}
-                                      className="text-xs"
-                                      style={{ backgroundColor: getTierColor(tierId) + '20', color: getTierColor(tierId), borderColor: getTierColor(tierId) + '40' }}
-                                    >
-                                      {getTierName(tierId)}
-                                    </Badge>
-                                  ))}
-                                </div>
-                                <Badge variant="outline" className="text-xs">{groupPlayerCount} players</Badge>
-                                {group.tierIds.length > 1 && (
-                                  <span className="text-xs text-muted-foreground italic">shuffled together</span>
-                                )}
+                                <span className="text-xs font-mono text-muted-foreground w-5">{index + 1}.</span>
+                                <span className="text-sm font-medium">{tier.tierName}</span>
+                                <Badge variant="secondary" className="text-xs tabular-nums">{tier.basePrice}</Badge>
+                                <Badge variant="outline" className="text-xs">{playerCount} players</Badge>
                               </div>
                               <div className="flex items-center space-x-1">
-                                {groupIndex > 0 && (
-                                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1" title="Merge with group above"
-                                    onClick={() => mergeTierWithAbove(groupIndex)}>
-                                    <Merge className="h-3 w-3" />
-                                  </Button>
-                                )}
-                                {group.tierIds.length > 1 && (
-                                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1" title="Split into separate groups"
-                                    onClick={() => splitGroup(groupIndex)}>
-                                    <Ungroup className="h-3 w-3" />
-                                  </Button>
-                                )}
-                                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={groupIndex === 0}
-                                  onClick={() => moveGroup(groupIndex, 'up')}>
+                                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === 0}
+                                  onClick={() => moveTierOrder(index, 'up')}>
                                   <ArrowUp className="h-3.5 w-3.5" />
                                 </Button>
-                                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={groupIndex === customMixGroups.length - 1}
-                                  onClick={() => moveGroup(groupIndex, 'down')}>
+                                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={index === tierOrder.length - 1}
+                                  onClick={() => moveTierOrder(index, 'down')}>
                                   <ArrowDown className="h-3.5 w-3.5" />
                                 </Button>
                               </div>
                             </div>
-                          </div>
-                        )
-                      })}
+                          )
+                        })}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Players within each tier are shuffled randomly</p>
                     </div>
-                    <p className="text-xs text-muted-foreground">Use <Merge className="h-3 w-3 inline" /> to merge a group with the one above it. Use <Ungroup className="h-3 w-3 inline" /> to split merged groups apart. Deferred players go to the end.</p>
-                  </div>
-                )}
-              </div>
+                  )}
+
+                  {shuffleMode === 'custom-mix' && customMixGroups.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium">Mix & Match Tiers</h3>
+                      <p className="text-xs text-muted-foreground">Merge tiers to shuffle them together. Groups are auctioned in order, top to bottom.</p>
+                      <div className="space-y-2">
+                        {customMixGroups.map((group, groupIndex) => {
+                          const groupPlayerCount = group.tierIds.reduce((sum, tierId) =>
+                            sum + apiPlayers.filter((p: any) => p.tier?.id === tierId).length, 0)
+                          return (
+                            <div key={groupIndex} className="border rounded-lg overflow-hidden">
+                              <div className="flex items-center justify-between px-3 py-2 bg-muted/30">
+                                <div className="flex items-center space-x-3">
+                                  <span className="text-xs font-mono text-muted-foreground w-5">{groupIndex + 1}.</span>
+                                  <div className="flex items-center gap-1.5 flex-wrap">
+                                    {group.tierIds.map(tierId => (
+                                      <Badge
+                                        key={tierId}
+                                        className="text-xs"
+                                        style={{ backgroundColor: getTierColor(tierId) + '20', color: getTierColor(tierId), borderColor: getTierColor(tierId) + '40' }}
+                                      >
+                                        {getTierName(tierId)}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                  <Badge variant="outline" className="text-xs">{groupPlayerCount} players</Badge>
+                                  {group.tierIds.length > 1 && (
+                                    <span className="text-xs text-muted-foreground italic">shuffled together</span>
+                                  )}
+                                </div>
+                                <div className="flex items-center space-x-1">
+                                  {groupIndex > 0 && (
+                                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1" title="Merge with group above"
+                                      onClick={() => mergeTierWithAbove(groupIndex)}>
+                                      <Merge className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                  {group.tierIds.length > 1 && (
+                                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs gap-1" title="Split into separate groups"
+                                      onClick={() => splitGroup(groupIndex)}>
+                                      <Ungroup className="h-3 w-3" />
+                                    </Button>
+                                  )}
+                                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={groupIndex === 0}
+                                    onClick={() => moveGroup(groupIndex, 'up')}>
+                                    <ArrowUp className="h-3.5 w-3.5" />
+                                  </Button>
+                                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={groupIndex === customMixGroups.length - 1}
+                                    onClick={() => moveGroup(groupIndex, 'down')}>
+                                    <ArrowDown className="h-3.5 w-3.5" />
+                                  </Button>
+                                </div>
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Use <Merge className="h-3 w-3 inline" /> to merge a group with the one above it. Use <Ungroup className="h-3 w-3 inline" /> to split merged groups apart. Deferred players go to the end.</p>
+                    </div>
+                  )}
+                </div>
+              )}
             </SetupSection>
 
+            {/* Section 5: Practice Bots */}
+            {biddingType !== 'DRAFT' && (
+              <SetupSection
+                number={5}
+                title="Practice Bots"
+                expanded={botsExpanded}
+                onToggle={() => setBotsExpanded(!botsExpanded)}
+              >
+                <BotCaptainsPanel auctionId={auctionId} refreshKey={auctionTeams.length} />
+              </SetupSection>
+            )}
+
             {/* Start Auction Banner */}
             {!auction.auctionStarted && (
               <Card className="border-green-500/20 bg-gradient-to-r from-green-500/5 to-transparent">
@@ -1269,7 +1682,7 @@ export default function AuctionPage() {
                         Start Auction
                       </h3>
                       <p className="text-sm text-muted-foreground mt-1">
-                        {auctionTeams.length} team{auctionTeams.length !== 1 ? 's' : ''} · {poolPlayers.length > 0 ? poolPlayers.length : players.length} players · Budget: {budgetPerTeam}/team
+                        {auctionTeams.length} team{auctionTeams.length !== 1 ? 's' : ''} · {poolPlayers.length > 0 ? poolPlayers.length : players.length} players{biddingType !== 'DRAFT' && ` · Budget: ${budgetPerTeam}/team`}
                       </p>
                     </div>
                     <Button
@@ -1294,6 +1707,12 @@ export default function AuctionPage() {
                       Import players to the player pool before starting
                     </p>
                   )}
+                  {shuffleError && (
+                    <p className="text-xs text-destructive mt-3 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      {shuffleError}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -1526,57 +1945,103 @@ export default function AuctionPage() {
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                   {/* Main Auction Controls */}
                   <div className="lg:col-span-2 space-y-6">
-                    <NowAuctioningCard
-                      playerName={auctionIndex < auctionQueue.length ? auctionQueue[auctionIndex] : null}
-                      tierLabel={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).tier : ''}
-                      basePrice={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).basePrice : 0}
-                      auctionIndex={auctionIndex}
-                      isComplete={auctionIndex >= auctionQueue.length}
-                      onFinishAuction={() => { }}
-                    >
-                      {biddingType === 'OPEN_OUTCRY' && outcryConfig ? (
-                        <OpenOutcryAuctioneerPanel
-                          auctionId={auctionId}
-                          roundId={currentRoundId}
-                          basePrice={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).basePrice : 0}
-                          outcryConfig={outcryConfig}
-                          onSold={handleSold}
-                          onDefer={handleDefer}
-                          onUnsold={handleUnsold}
-                          onUndoLast={handleUndoLast}
-                          canUndo={auctionHistory.length > 0}
-                        />
-                      ) : (
-                        <AuctionControls
-                          teams={auctionTeams}
-                          sellPrice={sellPrice}
-                          onSellPriceChange={setSellPrice}
-                          sellTeam={sellTeam}
-                          onSellTeamChange={setSellTeam}
-                          basePrice={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).basePrice : 0}
-                          onSold={handleSold}
-                          onDefer={handleDefer}
-                          onUnsold={handleUnsold}
-                          onUndoLast={handleUndoLast}
-                          canUndo={auctionHistory.length > 0}
-                          roundBids={roundBids}
-                          onSelectBid={(bid) => {
-                            setSellTeam(bid.teamName)
-                            setSellPrice(bid.amount)
-                          }}
+                    {biddingType === 'DRAFT' ? (
+                      draft ? (
+                        <DraftBoardPanel
+                          draft={draft}
+                          busy={draftBusy}
+                          error={draftError}
+                          onAutoPick={handleDraftAutoPick}
                         />
-                      )}
-                    </NowAuctioningCard>
+                      ) : draftError ? (
+                        <p className="text-sm text-destructive">{draftError}</p>
+                      ) : null
+                    ) : awaitingNomination && nomination ? (
+                      <NominationPanel
+                        nomination={nomination}
+                        busy={nominationBusy}
+                        error={nominationError}
+                        onRandomPick={handleRandomNomination}
+                      />
+                    ) : (
+                      <NowAuctioningCard
+                        playerName={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).name : null}
+                        tierLabel={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).tier : ''}
+                        basePrice={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).basePrice : 0}
+                        auctionIndex={auctionIndex}
+                        isComplete={auctionIndex >= auctionQueue.length}
+                        onFinishAuction={() => { }}
+                        rtmOffer={rtmOffer}
+                      >
+                        {biddingType === 'OPEN_OUTCRY' && outcryConfig ? (
+                          <OpenOutcryAuctioneerPanel
+                            auctionId={auctionId}
+                            roundId={currentRoundId}
+                            basePrice={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).basePrice : 0}
+                            outcryConfig={outcryConfig}
+                            onSold={handleSold}
+                            onDefer={handleDefer}
+                            onUnsold={handleUnsold}
+                            onUndoLast={handleUndoLast}
+                            canUndo={canUndo}
+                          />
+                        ) : (
+                          <AuctionControls
+                            teams={auctionTeams}
+                            sellPrice={sellPrice}
+                            onSellPriceChange={setSellPrice}
+                            sellTeam={sellTeam}
+                            onSellTeamChange={setSellTeam}
+                            basePrice={auctionIndex < auctionQueue.length ? getPlayerInfo(auctionQueue[auctionIndex]).basePrice : 0}
+                            onSold={handleSold}
+                            onDefer={handleDefer}
+                            onUnsold={handleUnsold}
+                            onUndoLast={handleUndoLast}
+                            canUndo={canUndo}
+                            roundBids={roundBids}
+                            onSelectBid={(bid) => {
+                              setSellTeam(bid.teamName)
+                              setSellPrice(bid.amount)
+                            }}
+                            onResolve={handleResolve}
+                            resolving={resolving}
+                            tieBreakLabel={TIE_BREAK_LABELS[sealedConfig?.tie_break ?? 'EARLIEST_BID']}
+                          />
+                        )}
+                      </NowAuctioningCard>
+                    )}
+
+                    {auctionIndex >= auctionQueue.length && !awaitingNomination && biddingType !== 'DRAFT' && (
+                      <AcceleratedRoundPanel
+                        round={acceleratedRound}
+                        unsoldCount={(auction.unsoldPlayers || []).length}
+                        busy={acceleratedBusy}
+                        error={acceleratedError}
+                        onOpen={() => handleAcceleratedAction('OPEN')}
+                        onStart={(basePrices) => handleAcceleratedAction('START', basePrices)}
+                        onClose={() => handleAcceleratedAction('CLOSE')}
+                      />
+                    )}
 
                     <UpNextQueue
                       queue={auctionQueue}
                       startIndex={auctionIndex}
                       getPlayerInfo={getPlayerInfo}
                     />
+
+                    {queueShuffle && <QueueShuffleNote auctionId={auctionId} shuffle={queueShuffle} />}
                   </div>
 
                   {/* Sidebar */}
                   <div className="space-y-6">
+                    <GavelPanel
+                      gavel={gavel}
+                      auctioneers={auctioneers}
+                      error={gavelError}
+                      onClaim={claim}
+                      onRelease={release}
+                      onHandOver={handOver}
+                    />
                     <TeamBudgetsSidebar teams={auctionTeams} />
                     <Button
                       variant={showSquads ? 'default' : 'outline'}
@@ -1593,6 +2058,11 @@ export default function AuctionPage() {
                       progressPercent={auctionQueue.length > 0 ? (auctionIndex / auctionQueue.length) * 100 : 0}
                       recentSales={auctionHistory}
                     />
+                    <AuctionTimeline
+                      timeline={eventTimeline}
+                      onRevert={handleRevertTo}
+                      onRedo={handleRedo}
+                    />
                     <ShareLinksPanel auctionId={auctionId} auctionName={auction.name} />
                   </div>
                 </div>
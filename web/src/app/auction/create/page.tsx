@@ -5,12 +5,22 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Slider } from '@/components/ui/slider'
-import { Users, Target, Coins, Sparkles, Gavel, FileText } from 'lucide-react'
-import { getDefaultOutcryConfig, type OutcryConfig } from '@/lib/outcry-utils'
+import { Users, Target, Coins, Sparkles, Gavel, FileText, Scale, ListOrdered } from 'lucide-react'
+import {
+  EXPIRY_POLICY_LABELS, getDefaultOutcryConfig, getOutcryExpiryPolicy,
+  type OutcryConfig, type OutcryExpiryPolicy, type OutcryRule,
+} from '@/lib/outcry-utils'
+import {
+  getDefaultSealedConfig, isSealedBiddingType, TIE_BREAK_LABELS,
+  type SealedConfig, type SealedTieBreak,
+} from '@/lib/sealed-utils'
+import { DRAFT_ORDER_LABELS, getDefaultDraftConfig, type DraftConfig, type DraftOrderType } from '@/lib/draft'
 import { motion, AnimatePresence } from 'framer-motion'
 import { PageTransition } from '@/components/PageTransition'
+import { DryRunPanel } from '@/components/auction/DryRunPanel'
+import type { DryRunRecommendation } from '@/lib/dry-run'
 
-type BiddingType = 'SEALED_TENDER' | 'OPEN_OUTCRY'
+type BiddingType = 'SEALED_TENDER' | 'SEALED_SECOND_PRICE' | 'OPEN_OUTCRY' | 'DRAFT'
 
 interface AuctionSetup {
   playerPoolSize: number
@@ -19,13 +29,28 @@ interface AuctionSetup {
   auctionName: string
   biddingType: BiddingType
   outcryConfig: OutcryConfig | null
+  outcryTierRules: Record<number, OutcryRule[]> // tier sortOrder → override; keyed by tiers.id once created
+  sealedConfig: SealedConfig | null
+  draftConfig: DraftConfig | null
+  rtmCardsPerTeam: number
+  maxRetentionsPerTeam: number
   teams: Array<{ name: string; coins: number }>
 }
 
+const DEFAULT_TIERS = [
+  { name: 'Tier 0', basePrice: 120, color: '#EF4444', sortOrder: 0, minPerTeam: 0, maxPerTeam: 5 },
+  { name: 'Tier 1', basePrice: 90, color: '#F97316', sortOrder: 1, minPerTeam: 0, maxPerTeam: 6 },
+  { name: 'Tier 2', basePrice: 60, color: '#3B82F6', sortOrder: 2, minPerTeam: 0, maxPerTeam: 25 },
+  { name: 'Tier 3', basePrice: 30, color: '#10B981', sortOrder: 3, minPerTeam: 0, maxPerTeam: 14 },
+]
+
 const POOL_PRESETS = [20, 50, 100, 150, 200]
 const BUDGET_PRESETS = [300, 600, 1000, 2000, 5000]
+const RTM_CARD_PRESETS = [0, 1, 2, 3]
+const RETENTION_PRESETS = [0, 1, 2, 3, 4]
 const TEAM_MIN = 2
 const TEAM_MAX = 12
+const SQUAD_SIZE = 11
 
 export default function CreateAuctionPage() {
   return (
@@ -52,6 +77,84 @@ function AnimatedNumber({ value }: { value: number }) {
   )
 }
 
+function bracketLabel(rule: OutcryRule) {
+  return rule.to_multiplier >= 9999
+    ? `${rule.from_multiplier}x+`
+    : `${rule.from_multiplier}–${rule.to_multiplier}x`
+}
+
+function IncrementRulesEditor({
+  rules,
+  tierRules,
+  onRulesChange,
+  onTierRulesChange,
+}: {
+  rules: OutcryRule[]
+  tierRules: Record<number, OutcryRule[]>
+  onRulesChange: (rules: OutcryRule[]) => void
+  onTierRulesChange: (sortOrder: number, rules: OutcryRule[] | null) => void
+}) {
+  const withIncrement = (source: OutcryRule[], index: number, value: number) =>
+    source.map((rule, i) => (i === index ? { ...rule, increment: Math.max(1, value || 1) } : rule))
+
+  return (
+    <div className="mt-4 space-y-1.5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-muted-foreground">Bid Increments</span>
+        <span className="text-[10px] text-muted-foreground">multiple of base price</span>
+      </div>
+      <div className="grid gap-1.5 text-xs" style={{ gridTemplateColumns: `6rem repeat(${rules.length}, 1fr) 4.5rem` }}>
+        <span />
+        {rules.map(rule => (
+          <span key={bracketLabel(rule)} className="text-center text-muted-foreground">{bracketLabel(rule)}</span>
+        ))}
+        <span />
+
+        <span className="self-center font-medium">All tiers</span>
+        {rules.map((rule, i) => (
+          <Input
+            key={i}
+            type="number"
+            min={1}
+            value={rule.increment}
+            onChange={(e) => onRulesChange(withIncrement(rules, i, Number(e.target.value)))}
+            className="h-7 px-1.5 text-xs text-center tabular-nums"
+          />
+        ))}
+        <span />
+
+        {DEFAULT_TIERS.map(tier => {
+          const override = tierRules[tier.sortOrder]
+          return [
+            <span key={`${tier.sortOrder}-name`} className="self-center flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tier.color }} />
+              {tier.name}
+            </span>,
+            ...(override || rules).map((rule, i) => (
+              <Input
+                key={`${tier.sortOrder}-${i}`}
+                type="number"
+                min={1}
+                disabled={!override}
+                value={rule.increment}
+                onChange={(e) => onTierRulesChange(tier.sortOrder, withIncrement(override || rules, i, Number(e.target.value)))}
+                className="h-7 px-1.5 text-xs text-center tabular-nums"
+              />
+            )),
+            <button
+              key={`${tier.sortOrder}-toggle`}
+              onClick={() => onTierRulesChange(tier.sortOrder, override ? null : rules.map(rule => ({ ...rule })))}
+              className="px-2 py-1 rounded-lg text-[10px] font-medium bg-muted/50 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {override ? 'Reset' : 'Customize'}
+            </button>,
+          ]
+        })}
+      </div>
+    </div>
+  )
+}
+
 function CreateAuctionContent() {
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -64,6 +167,11 @@ function CreateAuctionContent() {
     auctionName: '',
     biddingType: 'SEALED_TENDER',
     outcryConfig: null,
+    outcryTierRules: {},
+    sealedConfig: getDefaultSealedConfig(),
+    draftConfig: null,
+    rtmCardsPerTeam: 0,
+    maxRetentionsPerTeam: 0,
     teams: []
   })
 
@@ -99,22 +207,26 @@ function CreateAuctionContent() {
           budgetPerTeam: setup.teamBudget,
           currencyName: 'Coins',
           currencyIcon: '\u{1FA99}',
-          squadSize: 11,
+          squadSize: SQUAD_SIZE,
           numTeams: setup.teamCount,
           biddingType: setup.biddingType,
           outcryConfig: setup.biddingType === 'OPEN_OUTCRY' ? (setup.outcryConfig || undefined) : undefined,
+          sealedConfig: isSealedBiddingType(setup.biddingType) ? (setup.sealedConfig || undefined) : undefined,
+          draftConfig: setup.biddingType === 'DRAFT' ? (setup.draftConfig || undefined) : undefined,
+          rtmCardsPerTeam: setup.rtmCardsPerTeam,
+          maxRetentionsPerTeam: setup.maxRetentionsPerTeam,
         },
         biddingType: setup.biddingType,
         outcryConfig: setup.biddingType === 'OPEN_OUTCRY' ? (setup.outcryConfig || undefined) : undefined,
+        sealedConfig: isSealedBiddingType(setup.biddingType) ? (setup.sealedConfig || undefined) : undefined,
+        draftConfig: setup.biddingType === 'DRAFT' ? (setup.draftConfig || undefined) : undefined,
         teams: setup.teams.map(team => ({
           name: team.name,
         })),
-        tiers: [
-          { name: 'Tier 0', basePrice: 120, color: '#EF4444', sortOrder: 0, minPerTeam: 0, maxPerTeam: 5 },
-          { name: 'Tier 1', basePrice: 90, color: '#F97316', sortOrder: 1, minPerTeam: 0, maxPerTeam: 6 },
-          { name: 'Tier 2', basePrice: 60, color: '#3B82F6', sortOrder: 2, minPerTeam: 0, maxPerTeam: 25 },
-          { name: 'Tier 3', basePrice: 30, color: '#10B981', sortOrder: 3, minPerTeam: 0, maxPerTeam: 14 }
-        ],
+        tiers: DEFAULT_TIERS.map(tier => ({
+          ...tier,
+          outcryRules: setup.biddingType === 'OPEN_OUTCRY' ? setup.outcryTierRules[tier.sortOrder] : undefined,
+        })),
       }
 
       const response = await fetch('/api/auction/create', {
@@ -137,6 +249,25 @@ function CreateAuctionContent() {
     }
   }
 
+  const handleApplyRecommendation = (rec: DryRunRecommendation) => {
+    if (rec.change === undefined) return
+    const change = rec.change
+    setSetup(prev => {
+      switch (rec.type) {
+        case 'RAISE_BUDGET':
+        case 'LOWER_BUDGET': {
+          const factor = 1 + (rec.type === 'RAISE_BUDGET' ? change : -change) / 100
+          const budget = Math.round((prev.teamBudget * factor) / 50) * 50
+          return { ...prev, teamBudget: Math.min(10000, Math.max(100, budget)) }
+        }
+        case 'GROW_POOL':
+          return { ...prev, playerPoolSize: Math.min(200, prev.playerPoolSize + change) }
+        default:
+          return prev
+      }
+    })
+  }
+
   const sectionVariants = {
     hidden: { opacity: 0, y: 20 },
     visible: (i: number) => ({
@@ -224,9 +355,9 @@ function CreateAuctionContent() {
                   Bidding Format
                 </label>
               </div>
-              <div className="grid grid-cols-2 gap-3">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                 <button
-                  onClick={() => setSetup(prev => ({ ...prev, biddingType: 'SEALED_TENDER', outcryConfig: null }))}
+                  onClick={() => setSetup(prev => ({ ...prev, biddingType: 'SEALED_TENDER', outcryConfig: null, sealedConfig: getDefaultSealedConfig(), draftConfig: null }))}
                   className={`relative flex flex-col items-start gap-2 p-4 rounded-xl border-2 transition-all text-left ${
                     setup.biddingType === 'SEALED_TENDER'
                       ? 'border-primary bg-primary/5'
@@ -242,7 +373,23 @@ function CreateAuctionContent() {
                   </div>
                 </button>
                 <button
-                  onClick={() => setSetup(prev => ({ ...prev, biddingType: 'OPEN_OUTCRY', outcryConfig: getDefaultOutcryConfig() }))}
+                  onClick={() => setSetup(prev => ({ ...prev, biddingType: 'SEALED_SECOND_PRICE', outcryConfig: null, sealedConfig: getDefaultSealedConfig('SEALED_SECOND_PRICE'), draftConfig: null }))}
+                  className={`relative flex flex-col items-start gap-2 p-4 rounded-xl border-2 transition-all text-left ${
+                    setup.biddingType === 'SEALED_SECOND_PRICE'
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border/50 hover:border-border'
+                  }`}
+                >
+                  <Scale className="w-5 h-5 text-emerald-400" />
+                  <div>
+                    <div className="font-semibold text-sm">Second Price</div>
+                    <div className="text-xs text-muted-foreground mt-0.5">
+                      Hidden bids. Highest bid wins but pays the runner-up&apos;s bid plus one increment.
+                    </div>
+                  </div>
+                </button>
+                <button
+                  onClick={() => setSetup(prev => ({ ...prev, biddingType: 'OPEN_OUTCRY', outcryConfig: getDefaultOutcryConfig(), outcryTierRules: {}, sealedConfig: null, draftConfig: null }))}
                   className={`relative flex flex-col items-start gap-2 p-4 rounded-xl border-2 transition-all text-left ${
                     setup.biddingType === 'OPEN_OUTCRY'
                       ? 'border-primary bg-primary/5'
@@ -257,8 +404,80 @@ function CreateAuctionContent() {
                     </div>
                   </div>
                 </button>
+                <button
+                  onClick={() => setSetup(prev => ({ ...prev, biddingType: 'DRAFT', outcryConfig: null, sealedConfig: null, draftConfig: getDefaultDraftConfig(), rtmCardsPerTeam: 0 }))}
+                  className={`relative flex flex-col items-start gap-2 p-4 rounded-xl border-2 transition-all text-left ${
+                    setup.biddingType === 'DRAFT'
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border/50 hover:border-border'
+                  }`}
+                >
+                  <ListOrdered className="w-5 h-5 text-amber-400" />
+                  <div>
+                    <div className="font-semibold text-sm">Draft</div>
+                    <div className="text-xs text-muted-foreground mt-0.5">
+                      No bidding. Captains take turns picking players against a clock.
+                    </div>
+                  </div>
+                </button>
               </div>
 
+              {/* Tie-break (and second-price increment) config for sealed bidding */}
+              {isSealedBiddingType(setup.biddingType) && setup.sealedConfig && (
+                <div className="mt-4 pt-4 border-t border-border/30">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-muted-foreground">Tie-break</span>
+                    <div className="flex items-center gap-1">
+                      {(Object.keys(TIE_BREAK_LABELS) as SealedTieBreak[]).map(rule => (
+                        <button
+                          key={rule}
+                          onClick={() => setSetup(prev => ({
+                            ...prev,
+                            sealedConfig: prev.sealedConfig ? { ...prev.sealedConfig, tie_break: rule } : null
+                          }))}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                            setup.sealedConfig?.tie_break === rule
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted/50 text-muted-foreground'
+                          }`}
+                        >
+                          {TIE_BREAK_LABELS[rule]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {setup.sealedConfig.tie_break === 'EARLIEST_BID'
+                      ? 'Equal top bids go to the team that bid first.'
+                      : setup.sealedConfig.tie_break === 'FEWEST_PLAYERS'
+                        ? 'Equal top bids go to the team with the fewest players so far.'
+                        : 'Equal top bids are settled by a random draw. The seed is published with the result.'}
+                  </p>
+                  {setup.biddingType === 'SEALED_SECOND_PRICE' && setup.sealedConfig.increment !== undefined && (
+                    <>
+                      <div className="flex items-center justify-between mt-4 mb-2">
+                        <span className="text-sm text-muted-foreground">Price Increment</span>
+                        <span className="text-xs font-medium tabular-nums">+{setup.sealedConfig.increment}</span>
+                      </div>
+                      <Slider
+                        value={[setup.sealedConfig.increment]}
+                        onValueChange={([v]) => setSetup(prev => ({
+                          ...prev,
+                          sealedConfig: prev.sealedConfig ? { ...prev.sealedConfig, increment: v } : null
+                        }))}
+                        min={1}
+                        max={100}
+                        step={1}
+                        className="mt-2"
+                      />
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {`Winner pays the second-highest bid + ${setup.sealedConfig.increment}, or the tier base price if nobody else bid.`}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Timer config for Open Outcry */}
               {setup.biddingType === 'OPEN_OUTCRY' && setup.outcryConfig && (
                 <div className="mt-4 pt-4 border-t border-border/30">
@@ -300,8 +519,216 @@ function CreateAuctionContent() {
                       ? `Each bid resets a ${setup.outcryConfig.timer_seconds}s timer. Round closes when timer expires.`
                       : 'Auctioneer manually closes each round (hammer down).'}
                   </p>
+                  {setup.outcryConfig.timer_seconds !== null && (
+                    <>
+                      <div className="flex items-center justify-between mt-4 mb-2">
+                        <span className="text-sm text-muted-foreground">When Time Runs Out</span>
+                        <div className="flex items-center gap-1">
+                          {(Object.keys(EXPIRY_POLICY_LABELS) as OutcryExpiryPolicy[]).map(policy => (
+                            <button
+                              key={policy}
+                              onClick={() => setSetup(prev => ({
+                                ...prev,
+                                outcryConfig: prev.outcryConfig ? { ...prev.outcryConfig, expiry_policy: policy } : null
+                              }))}
+                              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                                getOutcryExpiryPolicy(setup.outcryConfig) === policy
+                                  ? 'bg-primary text-primary-foreground'
+                                  : 'bg-muted/50 text-muted-foreground'
+                              }`}
+                            >
+                              {EXPIRY_POLICY_LABELS[policy]}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {getOutcryExpiryPolicy(setup.outcryConfig) === 'AUTO_CLOSE'
+                          ? 'Timer starts when the player comes up. Sold to the highest bidder, or unsold if nobody bids.'
+                          : getOutcryExpiryPolicy(setup.outcryConfig) === 'SELL_ONLY'
+                            ? 'Timer starts on the first bid. Sold to the highest bidder when it runs out.'
+                            : 'The timer is only a guide. The auctioneer always brings the hammer down.'}
+                      </p>
+                    </>
+                  )}
+                  <IncrementRulesEditor
+                    rules={setup.outcryConfig.rules}
+                    tierRules={setup.outcryTierRules}
+                    onRulesChange={(rules) => setSetup(prev => ({
+                      ...prev,
+                      outcryConfig: prev.outcryConfig ? { ...prev.outcryConfig, rules } : null
+                    }))}
+                    onTierRulesChange={(sortOrder, rules) => setSetup(prev => {
+                      const outcryTierRules = { ...prev.outcryTierRules }
+                      if (rules) outcryTierRules[sortOrder] = rules
+                      else delete outcryTierRules[sortOrder]
+                      return { ...prev, outcryTierRules }
+                    })}
+                  />
+                  <div className="flex items-center justify-between mt-4 mb-2">
+                    <span className="text-sm text-muted-foreground">Jump Bid Cap</span>
+                    <button
+                      onClick={() => setSetup(prev => ({
+                        ...prev,
+                        outcryConfig: prev.outcryConfig
+                          ? { ...prev.outcryConfig, max_jump: prev.outcryConfig.max_jump != null ? null : 100 }
+                          : null
+                      }))}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        setup.outcryConfig.max_jump != null
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted/50 text-muted-foreground'
+                      }`}
+                    >
+                      {setup.outcryConfig.max_jump != null ? `+${setup.outcryConfig.max_jump}` : 'No cap'}
+                    </button>
+                  </div>
+                  {setup.outcryConfig.max_jump != null && (
+                    <Slider
+                      value={[setup.outcryConfig.max_jump]}
+                      onValueChange={([v]) => setSetup(prev => ({
+                        ...prev,
+                        outcryConfig: prev.outcryConfig ? { ...prev.outcryConfig, max_jump: v } : null
+                      }))}
+                      min={0}
+                      max={500}
+                      step={10}
+                      className="mt-2"
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {setup.outcryConfig.max_jump == null
+                      ? 'Captains can jump to any valid step above the next bid.'
+                      : setup.outcryConfig.max_jump === 0
+                        ? 'Jump bids are off. Every raise is one increment.'
+                        : `Captains can jump at most ${setup.outcryConfig.max_jump} above the next bid.`}
+                  </p>
+                </div>
+              )}
+
+              {/* Pick order and pick timer for Draft */}
+              {setup.biddingType === 'DRAFT' && setup.draftConfig && (
+                <div className="mt-4 pt-4 border-t border-border/30">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-muted-foreground">Pick Order</span>
+                    <div className="flex items-center gap-1">
+                      {(Object.keys(DRAFT_ORDER_LABELS) as DraftOrderType[]).map(order => (
+                        <button
+                          key={order}
+                          onClick={() => setSetup(prev => ({
+                            ...prev,
+                            draftConfig: prev.draftConfig ? { ...prev.draftConfig, order_type: order } : null
+                          }))}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                            setup.draftConfig?.order_type === order
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted/50 text-muted-foreground'
+                          }`}
+                        >
+                          {DRAFT_ORDER_LABELS[order]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {setup.draftConfig.order_type === 'SNAKE'
+                      ? 'The order reverses every round: the team that picks last in one round picks first in the next.'
+                      : 'Every round picks in the same order.'}
+                  </p>
+                  <div className="flex items-center justify-between mt-4 mb-2">
+                    <span className="text-sm text-muted-foreground">Pick Timer</span>
+                    <button
+                      onClick={() => setSetup(prev => ({
+                        ...prev,
+                        draftConfig: prev.draftConfig
+                          ? { ...prev.draftConfig, pick_seconds: prev.draftConfig.pick_seconds ? null : 60 }
+                          : null
+                      }))}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        setup.draftConfig.pick_seconds
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted/50 text-muted-foreground'
+                      }`}
+                    >
+                      {setup.draftConfig.pick_seconds ? `${setup.draftConfig.pick_seconds}s` : 'No limit'}
+                    </button>
+                  </div>
+                  {setup.draftConfig.pick_seconds !== null && (
+                    <Slider
+                      value={[setup.draftConfig.pick_seconds]}
+                      onValueChange={([v]) => setSetup(prev => ({
+                        ...prev,
+                        draftConfig: prev.draftConfig ? { ...prev.draftConfig, pick_seconds: v } : null
+                      }))}
+                      min={10}
+                      max={180}
+                      step={5}
+                      className="mt-2"
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {setup.draftConfig.pick_seconds
+                      ? `Each team has ${setup.draftConfig.pick_seconds}s to pick. When time runs out, the pick comes from the captain's ranked list.`
+                      : 'Teams take as long as they need. The auctioneer can auto-pick from the captain\'s ranked list.'}
+                  </p>
                 </div>
               )}
+
+              {/* Right-to-match cards apply to every bidding format */}
+              {setup.biddingType !== 'DRAFT' && (
+                <div className="mt-4 pt-4 border-t border-border/30">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm text-muted-foreground">Right-to-Match Cards</span>
+                    <div className="flex items-center gap-1">
+                      {RTM_CARD_PRESETS.map(cards => (
+                        <button
+                          key={cards}
+                          onClick={() => setSetup(prev => ({ ...prev, rtmCardsPerTeam: cards }))}
+                          className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors tabular-nums ${
+                            setup.rtmCardsPerTeam === cards
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted/50 text-muted-foreground'
+                          }`}
+                        >
+                          {cards === 0 ? 'Off' : `${cards} card${cards === 1 ? '' : 's'}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {setup.rtmCardsPerTeam === 0
+                      ? 'No RTM cards. Every sale is final.'
+                      : `Each team can match the winning bid for up to ${setup.rtmCardsPerTeam} player${setup.rtmCardsPerTeam === 1 ? '' : 's'} it owned before. Set previous teams in the player import.`}
+                  </p>
+                </div>
+              )}
+
+              {/* Retentions happen before any format's bidding starts */}
+              <div className="mt-4 pt-4 border-t border-border/30">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm text-muted-foreground">Retentions</span>
+                  <div className="flex items-center gap-1">
+                    {RETENTION_PRESETS.map(count => (
+                      <button
+                        key={count}
+                        onClick={() => setSetup(prev => ({ ...prev, maxRetentionsPerTeam: count }))}
+                        className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors tabular-nums ${
+                          setup.maxRetentionsPerTeam === count
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-muted/50 text-muted-foreground'
+                        }`}
+                      >
+                        {count === 0 ? 'None' : `Keep ${count}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {setup.maxRetentionsPerTeam === 0
+                    ? 'No retentions. Every player goes into the auction.'
+                    : `Each team can keep up to ${setup.maxRetentionsPerTeam} player${setup.maxRetentionsPerTeam === 1 ? '' : 's'} at a fixed price before bidding starts.`}
+                </p>
+              </div>
             </div>
           </motion.div>
 
@@ -434,6 +861,34 @@ function CreateAuctionContent() {
               </div>
             </motion.div>
           </div>
+
+          {/* Dry run — drafts have no money to simulate */}
+          {setup.biddingType !== 'DRAFT' && (
+            <motion.div
+              custom={5}
+              variants={sectionVariants}
+              initial="hidden"
+              animate="visible"
+              className="mt-4"
+            >
+              <DryRunPanel
+                setup={{
+                  teamCount: setup.teamCount,
+                  budgetPerTeam: setup.teamBudget,
+                  squadSize: SQUAD_SIZE,
+                  playerPoolSize: setup.playerPoolSize,
+                  biddingType: setup.biddingType,
+                  tiers: DEFAULT_TIERS.map(tier => ({
+                    name: tier.name,
+                    basePrice: tier.basePrice,
+                    minPerTeam: tier.minPerTeam,
+                    maxPerTeam: tier.maxPerTeam,
+                  })),
+                }}
+                onApply={handleApplyRecommendation}
+              />
+            </motion.div>
+          )}
         </div>
 
         {/* Floating bottom bar */}
@@ -450,9 +905,17 @@ function CreateAuctionContent() {
               {' \u00B7 '}
               <span className="tabular-nums">{setup.playerPoolSize}</span> players
               {' \u00B7 '}
-              <span className="tabular-nums">{setup.teamBudget.toLocaleString()}</span> coins each
-              {' \u00B7 '}
-              {setup.biddingType === 'OPEN_OUTCRY' ? 'Open Outcry' : 'Sealed Tender'}
+              {setup.biddingType === 'DRAFT' ? (
+                <>{setup.draftConfig ? DRAFT_ORDER_LABELS[setup.draftConfig.order_type] : ''} Draft</>
+              ) : (
+                <>
+                  <span className="tabular-nums">{setup.teamBudget.toLocaleString()}</span> coins each
+                  {' \u00B7 '}
+                  {setup.biddingType === 'OPEN_OUTCRY'
+                    ? 'Open Outcry'
+                    : setup.biddingType === 'SEALED_SECOND_PRICE' ? 'Second Price' : 'Sealed Tender'}
+                </>
+              )}
             </p>
             <Button
               onClick={handleCreateAuction}
@@ -5,6 +5,9 @@ import { NextRequest, NextResponse } from 'next/server'
 export async function GET(request: NextRequest) {
   const requestUrl = new URL(request.url)
   const code = requestUrl.searchParams.get('code')
+  // Where to land after sign-in (e.g. back on an invite link); same-site paths only
+  const next = requestUrl.searchParams.get('next')
+  const destination = next?.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/dashboard'
 
   if (code) {
     const cookieStore = await cookies()
@@ -35,7 +38,7 @@ export async function GET(request: NextRequest) {
         )
       }
 
-      return NextResponse.redirect(`${requestUrl.origin}/dashboard`)
+      return NextResponse.redirect(`${requestUrl.origin}${destination}`)
     } catch (error) {
       console.error('Callback processing error:', error)
       return NextResponse.redirect(
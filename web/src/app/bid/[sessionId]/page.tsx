@@ -687,6 +687,7 @@ export default function BidderPage() {
                                 bidCount={(currentRound as any).bidCount ?? 0}
                                 outcryConfig={(auction as any).outcryConfig as OutcryConfig}
                                 budgetRemaining={budgetSummary.remaining}
+                                maxBid={budgetSummary.maxAllowableBid}
                                 currencyIcon={currencyIcon}
                               />
                             ) : isSkipped ? (
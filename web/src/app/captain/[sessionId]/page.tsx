@@ -17,7 +17,7 @@ import {
   Timer, Crown, Zap, TrendingUp, Minus, Plus, DollarSign,
   Shield, ChevronRight, Gauge, BarChart3, History,
   CircleDot, Swords, Eye, Wallet, PieChart, ArrowUpRight,
-  ArrowDownRight, AlertTriangle, Sparkles, Radio, UserCheck
+  ArrowDownRight, AlertTriangle, Sparkles, Radio, UserCheck, Bot, ListOrdered
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
@@ -27,7 +27,17 @@ import type {
   BidHistoryEntry, BudgetAnalytics, TeamSelectionOption, SwitchableTeam
 } from '@/hooks/useCaptainSession'
 import { OpenOutcryBidPanel } from '@/components/auction/OpenOutcryBidPanel'
+import { RtmOfferBanner } from '@/components/auction/RtmOfferBanner'
+import { RetentionPanel } from '@/components/auction/RetentionPanel'
+import { AcceleratedPicksCard } from '@/components/auction/AcceleratedPicksCard'
+import { WishlistPanel } from '@/components/auction/WishlistPanel'
+import { NominatePlayerCard } from '@/components/auction/NominatePlayerCard'
+import { DraftPickCard } from '@/components/auction/DraftPickCard'
+import { DraftRankingsPanel } from '@/components/auction/DraftRankingsPanel'
+import { isRetentionPhase } from '@/lib/retention'
 import type { OutcryConfig } from '@/lib/outcry-utils'
+import { TIE_BREAK_LABELS, type SealedRevealEvent } from '@/lib/sealed-utils'
+import type { RoleRequirement } from '@/lib/squad-rules'
 
 // ── Utility Functions ──────────────────────────────────────────
 
@@ -221,6 +231,56 @@ function BidHistoryRow({ entry, currencyIcon }: { entry: BidHistoryEntry; curren
   )
 }
 
+function SealedRevealCard({ reveal, myTeamId, currencyIcon }: {
+  reveal: SealedRevealEvent
+  myTeamId: string
+  currencyIcon: string
+}) {
+  const won = reveal.winner.teamId === myTeamId
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-[10px] text-white/40 uppercase tracking-wider">Bids revealed</p>
+          <p className="text-sm font-semibold text-white">{reveal.playerName}</p>
+        </div>
+        <Badge variant="secondary" className={cn('text-[10px]', won ? 'text-emerald-400 bg-emerald-400/10' : 'text-white/60 bg-white/[0.06]')}>
+          {won ? 'You won' : `Won by ${reveal.winner.teamName}`}
+        </Badge>
+      </div>
+      <div className="space-y-1">
+        {reveal.bids.map((b, i) => (
+          <div key={`${b.teamId}-${i}`} className="flex items-center justify-between text-xs">
+            <span className={cn(
+              b.teamId === reveal.winner.teamId ? 'text-emerald-400 font-medium' : 'text-white/60',
+              b.teamId === myTeamId && 'underline underline-offset-2'
+            )}>
+              {b.teamName}
+            </span>
+            <span className="tabular-nums text-white/70">{formatCurrency(b.amount, currencyIcon)}</span>
+          </div>
+        ))}
+      </div>
+      {reveal.winner.price < reveal.winner.amount && (
+        <p className="text-[10px] text-white/40 mt-3">
+          {reveal.winner.teamName} pays {formatCurrency(reveal.winner.price, currencyIcon)} (second price)
+        </p>
+      )}
+      {reveal.tieBreak && (
+        <p className="text-[10px] text-white/40 mt-3">
+          Tie decided by {TIE_BREAK_LABELS[reveal.tieBreak].toLowerCase()}
+          {reveal.seed && <> · seed <span className="font-mono break-all">{reveal.seed}</span></>}
+        </p>
+      )}
+    </motion.div>
+  )
+}
+
 function CompositionDonut({ composition }: { composition: CaptainSessionData['squadComposition'] }) {
   const segments = [
     { label: 'Batsmen', count: composition.batsmen, color: '#3b82f6', icon: '🏏' },
@@ -288,6 +348,30 @@ function CompositionDonut({ composition }: { composition: CaptainSessionData['sq
   )
 }
 
+function RoleNeeds({ requirements }: { requirements: RoleRequirement[] }) {
+  return (
+    <div className="mt-4 pt-3 border-t border-white/[0.06] space-y-1.5">
+      {requirements.map(req => (
+        <div key={req.role} className="flex items-center justify-between text-xs">
+          <span className="capitalize text-white/60">{req.label}</span>
+          <span className={cn(
+            'tabular-nums',
+            req.needed > 0 ? 'text-amber-400' : req.max !== null && req.acquired >= req.max ? 'text-white/40' : 'text-emerald-400'
+          )}>
+            {req.needed > 0
+              ? `need ${req.needed} more`
+              : req.max !== null && req.acquired >= req.max
+                ? `full (max ${req.max})`
+                : req.max !== null
+                  ? `${req.acquired}/${req.max} max`
+                  : 'done'}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 // ── Loading State ──────────────────────────────────────────────
 
 function CaptainDashboardSkeleton() {
@@ -394,10 +478,16 @@ export default function CaptainDashboardPage() {
     timeLeft,
     submitBid,
     isSubmitting,
+    respondToRtm,
+    saveAcceleratedPicks,
+    nominatePlayer,
+    draftPlayer,
+    saveDraftRankings,
     refresh,
     needsTeamSelection,
     teamOptions,
     auctionIdForSelection,
+    lastReveal,
   } = useCaptainSession(sessionId)
 
   const [bidAmount, setBidAmount] = useState('')
@@ -440,6 +530,60 @@ export default function CaptainDashboardPage() {
     }
   }
 
+  // Right-to-match: take the player back at the hammer price, or let the sale stand
+  const handleRtm = async (claim: boolean) => {
+    const offer = session?.rtm.offer
+    if (!offer) return
+
+    try {
+      await respondToRtm(claim)
+      if (claim) toast.success(`${offer.playerName} is back with ${offer.teamName}`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to answer RTM offer')
+    }
+  }
+
+  // Accelerated round: replace this team's picks of unsold players
+  const handleSaveAcceleratedPicks = async (playerIds: string[]) => {
+    try {
+      await saveAcceleratedPicks(playerIds)
+      toast.success(playerIds.length > 0 ? `Picked ${playerIds.length} player${playerIds.length !== 1 ? 's' : ''}` : 'Picks cleared')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save picks')
+    }
+  }
+
+  // Nomination mode: put the next player up with our opening bid
+  const handleNominate = async (playerId: string, openingBid: number) => {
+    try {
+      const openingBidError = await nominatePlayer(playerId, openingBid)
+      if (openingBidError) toast.error(`Player is up, but the opening bid failed: ${openingBidError}`)
+      else toast.success('Player nominated')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to nominate player')
+    }
+  }
+
+  // Draft mode: take a player with our pick
+  const handleDraftPick = async (playerId: string) => {
+    try {
+      await draftPlayer(playerId)
+      toast.success('Player drafted')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to make pick')
+    }
+  }
+
+  // Draft mode: save the ranked list auto-picks come from
+  const handleSaveDraftRankings = async (playerIds: string[]) => {
+    try {
+      await saveDraftRankings(playerIds)
+      toast.success(playerIds.length > 0 ? `Ranked ${playerIds.length} player${playerIds.length !== 1 ? 's' : ''}` : 'Rankings cleared')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rankings')
+    }
+  }
+
   // ── Error state ──────────────────────────────────────────────
   if (error && !session) {
     return (
@@ -471,6 +615,9 @@ export default function CaptainDashboardPage() {
 
   const { auction, team, currentRound, budgetAnalytics, squadComposition } = session
   const isLive = auction.status === 'LIVE'
+  const isOutcry = auction.biddingType === 'OPEN_OUTCRY'
+  // Drafts have no money, so budgets stay hidden
+  const isDraft = auction.biddingType === 'DRAFT'
   const isCompleted = auction.status === 'COMPLETED'
   const roundIsOpen = currentRound?.status === 'OPEN'
   const timerUrgent = timeLeft > 0 && timeLeft <= 15
@@ -549,12 +696,22 @@ export default function CaptainDashboardPage() {
 
           {/* Right: Team badge + budget + switcher */}
           <div className="flex items-center gap-3">
-            <div className="text-right hidden sm:block">
-              <p className="text-xs text-white/40">Budget</p>
-              <p className="text-sm font-bold tabular-nums text-white">
-                {budgetAnalytics.remaining.toLocaleString()} {auction.currencyIcon}
-              </p>
-            </div>
+            {session.rtm.cardsTotal > 0 && (
+              <div className="text-right hidden sm:block">
+                <p className="text-xs text-white/40">RTM cards</p>
+                <p className="text-sm font-bold tabular-nums text-white">
+                  {session.rtm.cardsLeft}/{session.rtm.cardsTotal}
+                </p>
+              </div>
+            )}
+            {!isDraft && (
+              <div className="text-right hidden sm:block">
+                <p className="text-xs text-white/40">Budget</p>
+                <p className="text-sm font-bold tabular-nums text-white">
+                  {budgetAnalytics.remaining.toLocaleString()} {auction.currencyIcon}
+                </p>
+              </div>
+            )}
 
             {/* Team switcher for admins */}
             {session.switchableTeams && session.switchableTeams.length > 1 ? (
@@ -621,6 +778,71 @@ export default function CaptainDashboardPage() {
           {/* ── Left Column (8 cols) ────────────────────────────── */}
           <div className="lg:col-span-8 space-y-5">
 
+            {/* Last sealed-tender result */}
+            {lastReveal && isLive && lastReveal.roundId !== currentRound?.id && (
+              <SealedRevealCard reveal={lastReveal} myTeamId={team.id} currencyIcon={auction.currencyIcon} />
+            )}
+
+            {/* Right-to-match offer for a player this team owned before */}
+            {session.rtm.offer && isLive && (
+              <RtmOfferBanner
+                offer={session.rtm.offer}
+                currencyIcon={auction.currencyIcon}
+                onClaim={() => handleRtm(true)}
+                onDecline={() => handleRtm(false)}
+                busy={isSubmitting}
+              />
+            )}
+
+            {/* Accelerated round: pick unsold players to bring back */}
+            {session.accelerated?.status === 'PICKING' && isLive && (
+              <AcceleratedPicksCard
+                key={session.accelerated.id}
+                round={session.accelerated}
+                currencyIcon={auction.currencyIcon}
+                busy={isSubmitting}
+                onSave={handleSaveAcceleratedPicks}
+              />
+            )}
+
+            {/* Nomination mode: between rounds, the team on the clock puts the next player up */}
+            {session.nomination && isLive && !roundIsOpen && session.nomination.pool.length > 0 && (
+              <NominatePlayerCard
+                key={session.nomination.turn}
+                nomination={session.nomination}
+                teamId={team.id}
+                currencyIcon={auction.currencyIcon}
+                busy={isSubmitting}
+                onNominate={handleNominate}
+              />
+            )}
+
+            {/* Draft mode: the team on the clock picks a player outright */}
+            {session.draft && isLive && (
+              <DraftPickCard
+                key={session.draft.pick}
+                draft={session.draft}
+                teamId={team.id}
+                busy={isSubmitting}
+                onPick={handleDraftPick}
+              />
+            )}
+
+            {/* Pre-auction retentions for this team */}
+            {isRetentionPhase(auction.status) && (
+              <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5 text-white">
+                <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider mb-3">
+                  Retentions
+                </h3>
+                <RetentionPanel
+                  auctionId={auction.id}
+                  currencyIcon={auction.currencyIcon}
+                  teamIds={[team.id]}
+                  onChange={refresh}
+                />
+              </div>
+            )}
+
             {/* Active Bidding Panel (only when round is open) */}
             <AnimatePresence mode="wait">
               {currentRound && isLive ? (
@@ -737,6 +959,7 @@ export default function CaptainDashboardPage() {
                             bidCount={(currentRound as any).bidCount ?? 0}
                             outcryConfig={(auction as any).outcryConfig as OutcryConfig}
                             budgetRemaining={budgetAnalytics.remaining}
+                            maxBid={budgetAnalytics.maxAllowableBid}
                             currencyIcon={auction.currencyIcon}
                             currencyName={auction.currencyName}
                           />
@@ -744,7 +967,7 @@ export default function CaptainDashboardPage() {
                         <div className="space-y-3">
                           {/* Max bid indicator */}
                           <div className="flex items-center justify-between text-[10px] text-white/30">
-                            <span>Max bid</span>
+                            <span>You can bid up to</span>
                             <span className="tabular-nums font-medium">{budgetAnalytics.maxAllowableBid.toLocaleString()} {auction.currencyIcon}</span>
                           </div>
 
@@ -835,7 +1058,7 @@ export default function CaptainDashboardPage() {
                     </div>
                   </div>
                 </motion.div>
-              ) : isLive ? (
+              ) : isLive && !isDraft ? (
                 <motion.div
                   key="waiting"
                   initial={{ opacity: 0 }}
@@ -874,6 +1097,18 @@ export default function CaptainDashboardPage() {
                     </span>
                   )}
                 </TabsTrigger>
+                {isOutcry && (
+                  <TabsTrigger value="wishlist" className="text-xs gap-1.5">
+                    <Bot className="h-3.5 w-3.5" />
+                    Wishlist
+                  </TabsTrigger>
+                )}
+                {session.draft && (
+                  <TabsTrigger value="rankings" className="text-xs gap-1.5">
+                    <ListOrdered className="h-3.5 w-3.5" />
+                    Rankings
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               {/* ── Overview Tab ──────────────────────────────────── */}
@@ -886,21 +1121,23 @@ export default function CaptainDashboardPage() {
                       value: `${squadComposition.total}/${squadComposition.targetSize}`,
                       icon: Users, color: 'text-blue-400', bg: 'bg-blue-400/10',
                     },
-                    {
-                      label: 'Spent',
-                      value: `${budgetAnalytics.spent.toLocaleString()}`,
-                      icon: Wallet, color: 'text-purple-400', bg: 'bg-purple-400/10',
-                    },
-                    {
-                      label: 'Avg/Player',
-                      value: budgetAnalytics.avgSpendPerPlayer > 0 ? budgetAnalytics.avgSpendPerPlayer.toLocaleString() : '—',
-                      icon: TrendingUp, color: 'text-amber-400', bg: 'bg-amber-400/10',
-                    },
-                    {
-                      label: 'Bids Won',
-                      value: `${session.bidHistory.filter(b => b.result === 'WON').length}`,
-                      icon: Trophy, color: 'text-emerald-400', bg: 'bg-emerald-400/10',
-                    },
+                    ...(isDraft ? [] : [
+                      {
+                        label: 'Spent',
+                        value: `${budgetAnalytics.spent.toLocaleString()}`,
+                        icon: Wallet, color: 'text-purple-400', bg: 'bg-purple-400/10',
+                      },
+                      {
+                        label: 'Avg/Player',
+                        value: budgetAnalytics.avgSpendPerPlayer > 0 ? budgetAnalytics.avgSpendPerPlayer.toLocaleString() : '—',
+                        icon: TrendingUp, color: 'text-amber-400', bg: 'bg-amber-400/10',
+                      },
+                      {
+                        label: 'Bids Won',
+                        value: `${session.bidHistory.filter(b => b.result === 'WON').length}`,
+                        icon: Trophy, color: 'text-emerald-400', bg: 'bg-emerald-400/10',
+                      },
+                    ]),
                   ].map((stat) => (
                     <div key={stat.label} className="rounded-xl border border-white/[0.06] bg-white/[0.02] p-3">
                       <div className="flex items-center gap-2 mb-2">
@@ -922,6 +1159,9 @@ export default function CaptainDashboardPage() {
                       Squad Composition
                     </h3>
                     <CompositionDonut composition={squadComposition} />
+                    {session.roleRequirements.length > 0 && (
+                      <RoleNeeds requirements={session.roleRequirements} />
+                    )}
                   </div>
 
                   {/* Tier Requirements */}
@@ -1082,86 +1322,105 @@ export default function CaptainDashboardPage() {
                   </div>
                 )}
               </TabsContent>
+
+              {/* ── Wishlist Tab (proxy bids, open outcry only) ───── */}
+              {isOutcry && (
+                <TabsContent value="wishlist" className="mt-5">
+                  <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5 text-white">
+                    <WishlistPanel sessionId={`${auction.id}_${team.id}`} currencyIcon={auction.currencyIcon} />
+                  </div>
+                </TabsContent>
+              )}
+
+              {session.draft && (
+                <TabsContent value="rankings" className="mt-5">
+                  <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5 text-white">
+                    <DraftRankingsPanel draft={session.draft} busy={isSubmitting} onSave={handleSaveDraftRankings} />
+                  </div>
+                </TabsContent>
+              )}
             </Tabs>
           </div>
 
           {/* ── Right Column (4 cols) ───────────────────────────── */}
           <div className="lg:col-span-4 space-y-5">
 
-            {/* Budget Intelligence Panel */}
-            <div className="rounded-2xl border border-white/[0.06] bg-gradient-to-b from-white/[0.04] to-transparent p-5">
-              <div className="flex items-center gap-2 mb-5">
-                <div className="w-6 h-6 rounded-md bg-emerald-400/10 flex items-center justify-center">
-                  <Gauge className="h-3.5 w-3.5 text-emerald-400" />
+            {/* Budget Intelligence Panel (drafts have no money) */}
+            {!isDraft && (
+              <div className="rounded-2xl border border-white/[0.06] bg-gradient-to-b from-white/[0.04] to-transparent p-5">
+                <div className="flex items-center gap-2 mb-5">
+                  <div className="w-6 h-6 rounded-md bg-emerald-400/10 flex items-center justify-center">
+                    <Gauge className="h-3.5 w-3.5 text-emerald-400" />
+                  </div>
+                  <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">Budget</h3>
                 </div>
-                <h3 className="text-xs font-medium text-white/50 uppercase tracking-wider">Budget</h3>
-              </div>
 
-              <BudgetGauge analytics={budgetAnalytics} currencyIcon={auction.currencyIcon} />
-
-              <div className="mt-5 space-y-0 divide-y divide-white/[0.04]">
-                <BudgetDetailRow
-                  label="Total Budget"
-                  value={`${budgetAnalytics.totalBudget.toLocaleString()} ${auction.currencyIcon}`}
-                />
-                <BudgetDetailRow
-                  label="Spent"
-                  value={`${budgetAnalytics.spent.toLocaleString()} ${auction.currencyIcon}`}
-                  subtitle={`${budgetAnalytics.percentSpent}% of total`}
-                />
-                <BudgetDetailRow
-                  label="Remaining"
-                  value={`${budgetAnalytics.remaining.toLocaleString()} ${auction.currencyIcon}`}
-                  accent
-                />
-                <BudgetDetailRow
-                  label="Slots Left"
-                  value={`${budgetAnalytics.slotsRemaining}`}
-                  subtitle={`of ${squadComposition.targetSize} total`}
-                />
-                <BudgetDetailRow
-                  label="Reserved (min fills)"
-                  value={`${budgetAnalytics.mandatoryReserve.toLocaleString()} ${auction.currencyIcon}`}
-                  subtitle={`${budgetAnalytics.slotsRemaining - 1} slots × min base`}
-                />
-                <BudgetDetailRow
-                  label="Max Single Bid"
-                  value={`${budgetAnalytics.maxAllowableBid.toLocaleString()} ${auction.currencyIcon}`}
-                  accent
-                />
-                <BudgetDetailRow
-                  label="Avg. per Remaining Slot"
-                  value={budgetAnalytics.slotsRemaining > 0
-                    ? `${budgetAnalytics.avgRemainingPerSlot.toLocaleString()} ${auction.currencyIcon}`
-                    : '—'
-                  }
-                />
-              </div>
+                <BudgetGauge analytics={budgetAnalytics} currencyIcon={auction.currencyIcon} />
+
+                <div className="mt-5 space-y-0 divide-y divide-white/[0.04]">
+                  <BudgetDetailRow
+                    label="Total Budget"
+                    value={`${budgetAnalytics.totalBudget.toLocaleString()} ${auction.currencyIcon}`}
+                  />
+                  <BudgetDetailRow
+                    label="Spent"
+                    value={`${budgetAnalytics.spent.toLocaleString()} ${auction.currencyIcon}`}
+                    subtitle={`${budgetAnalytics.percentSpent}% of total`}
+                  />
+                  <BudgetDetailRow
+                    label="Remaining"
+                    value={`${budgetAnalytics.remaining.toLocaleString()} ${auction.currencyIcon}`}
+                    accent
+                  />
+                  <BudgetDetailRow
+                    label="Slots Left"
+                    value={`${budgetAnalytics.slotsRemaining}`}
+                    subtitle={`of ${squadComposition.targetSize} total`}
+                  />
+                  <BudgetDetailRow
+                    label="Reserved (min fills)"
+                    value={`${budgetAnalytics.mandatoryReserve.toLocaleString()} ${auction.currencyIcon}`}
+                    subtitle="Base price of open slots, tier minimums first"
+                  />
+                  <BudgetDetailRow
+                    label="Max Single Bid"
+                    value={`${budgetAnalytics.maxAllowableBid.toLocaleString()} ${auction.currencyIcon}`}
+                    accent
+                  />
+                  <BudgetDetailRow
+                    label="Avg. per Remaining Slot"
+                    value={budgetAnalytics.slotsRemaining > 0
+                      ? `${budgetAnalytics.avgRemainingPerSlot.toLocaleString()} ${auction.currencyIcon}`
+                      : '—'
+                    }
+                  />
+                </div>
 
-              {/* Budget health alert */}
-              {budgetAnalytics.budgetHealth !== 'healthy' && budgetAnalytics.slotsRemaining > 0 && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  className={cn(
-                    'mt-4 px-3 py-2.5 rounded-lg border text-xs',
-                    budgetAnalytics.budgetHealth === 'critical'
-                      ? 'bg-red-500/5 border-red-500/20 text-red-400'
-                      : 'bg-amber-500/5 border-amber-500/20 text-amber-400'
-                  )}
-                >
-                  <div className="flex items-start gap-2">
-                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
-                    <div>
-                      {budgetAnalytics.budgetHealth === 'critical'
-                        ? 'Budget is critically low. You may only be able to bid base prices for remaining slots.'
-                        : 'Budget is running low. Consider bidding conservatively on remaining rounds.'
-                      }
+                {/* Budget health alert */}
+                {budgetAnalytics.budgetHealth !== 'healthy' && budgetAnalytics.slotsRemaining > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    className={cn(
+                      'mt-4 px-3 py-2.5 rounded-lg border text-xs',
+                      budgetAnalytics.budgetHealth === 'critical'
+                        ? 'bg-red-500/5 border-red-500/20 text-red-400'
+                        : 'bg-amber-500/5 border-amber-500/20 text-amber-400'
+                    )}
+                  >
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      <div>
+                        {budgetAnalytics.budgetHealth === 'critical'
+                          ? 'Budget is critically low. You may only be able to bid base prices for remaining slots.'
+                          : 'Budget is running low. Consider bidding conservatively on remaining rounds.'
+                        }
+                      </div>
                     </div>
-                  </div>
-                </motion.div>
-              )}
-            </div>
+                  </motion.div>
+                )}
+              </div>
+            )}
 
             {/* Team Identity Card */}
             <div className="rounded-2xl border border-white/[0.06] overflow-hidden">
@@ -0,0 +1,239 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { createClient } from '@/lib/supabase'
+import { AlertCircle, Crown, Eye, Trophy } from 'lucide-react'
+import { toast } from 'sonner'
+import { PageTransition } from '@/components/PageTransition'
+
+interface InviteDetails {
+  auctionName: string
+  teamName: string
+  role: 'CAPTAIN' | 'VIEWER'
+  expiresAt: string
+}
+
+export default function InvitePage() {
+  const params = useParams()
+  const token = params.token as string
+  const router = useRouter()
+  const supabase = createClient()
+
+  const [invite, setInvite] = useState<InviteDetails | null>(null)
+  const [signedIn, setSignedIn] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [inviteError, setInviteError] = useState('')
+
+  const [mode, setMode] = useState<'signup' | 'signin'>('signup')
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [confirmationSent, setConfirmationSent] = useState(false)
+
+  useEffect(() => {
+    async function loadInvite() {
+      try {
+        const [res, { data: { user } }] = await Promise.all([
+          fetch(`/api/invites/${token}`),
+          createClient().auth.getUser(),
+        ])
+        const data = await res.json()
+        if (!res.ok) {
+          setInviteError(data.error || 'This invite link is not valid')
+          return
+        }
+        setInvite(data)
+        setSignedIn(!!user)
+      } catch {
+        setInviteError('Failed to load the invite')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadInvite()
+  }, [token])
+
+  const redeem = async () => {
+    const res = await fetch(`/api/invites/${token}`, { method: 'POST' })
+    const data = await res.json()
+    if (!res.ok) {
+      throw new Error(data.error || 'Failed to accept the invite')
+    }
+    return data as { redirectTo: string }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSubmitting(true)
+
+    try {
+      if (!signedIn && mode === 'signin') {
+        const { error: signInError } = await supabase.auth.signInWithPassword({ email, password })
+        if (signInError) {
+          setError(signInError.message)
+          return
+        }
+      }
+
+      if (!signedIn && mode === 'signup') {
+        // New accounts confirm their email first; the link brings them back here to join
+        const { data, error: signUpError } = await supabase.auth.signUp({
+          email,
+          password,
+          options: {
+            data: { name: name.trim() },
+            emailRedirectTo: `${location.origin}/auth/callback?next=${encodeURIComponent(`/invite/${token}`)}`,
+          },
+        })
+        if (signUpError) {
+          setError(signUpError.message)
+          return
+        }
+        // Signing up with a taken email returns a user with no identities
+        if (data.user?.identities?.length === 0) {
+          setMode('signin')
+          setError('An account with this email already exists. Sign in to accept the invite.')
+          return
+        }
+        if (!data.session) {
+          setConfirmationSent(true)
+          return
+        }
+      }
+
+      const result = await redeem()
+
+      toast.success(`You're in: ${invite?.teamName}`)
+      router.push(result.redirectTo)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the invite')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <PageTransition>
+      <div className="min-h-screen bg-gradient-to-br from-background via-card to-background flex items-center justify-center p-4">
+        <div className="w-full max-w-md">
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Trophy className="h-10 w-10 text-blue-400" />
+            </div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">You&apos;re invited</h1>
+          </div>
+
+          <Card className="shadow-2xl shadow-primary/5 border border-border">
+            {!invite ? (
+              <CardContent className="p-6">
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{inviteError}</AlertDescription>
+                </Alert>
+                <p className="text-sm text-muted-foreground mt-4 text-center">
+                  Ask the auction organiser for a new link.
+                </p>
+              </CardContent>
+            ) : (
+              <>
+                <CardHeader className="space-y-1">
+                  <CardTitle className="text-2xl text-center flex items-center justify-center gap-2">
+                    {invite.role === 'CAPTAIN'
+                      ? <Crown className="h-5 w-5 text-yellow-600" />
+                      : <Eye className="h-5 w-5 text-muted-foreground" />}
+                    {invite.teamName}
+                  </CardTitle>
+                  <CardDescription className="text-center">
+                    {invite.role === 'CAPTAIN' ? 'Bid for this team' : 'Follow this team'} in {invite.auctionName}.
+                    {' '}This link expires {new Date(invite.expiresAt).toLocaleString()}.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {confirmationSent ? (
+                    <p className="text-sm text-center text-muted-foreground">
+                      Check {email} for a link to confirm your account. It brings you back here to join.
+                    </p>
+                  ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                      {!signedIn && mode === 'signup' && (
+                        <div className="space-y-2">
+                          <Label htmlFor="name">Full Name</Label>
+                          <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+                        </div>
+                      )}
+
+                      {!signedIn && (
+                        <>
+                          <div className="space-y-2">
+                            <Label htmlFor="email">Email</Label>
+                            <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="password">Password</Label>
+                            <Input
+                              id="password"
+                              type="password"
+                              placeholder={mode === 'signup' ? 'Create a password' : undefined}
+                              value={password}
+                              onChange={(e) => setPassword(e.target.value)}
+                              required
+                            />
+                          </div>
+                        </>
+                      )}
+
+                      {error && (
+                        <Alert variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>{error}</AlertDescription>
+                        </Alert>
+                      )}
+
+                      <Button type="submit" className="w-full" disabled={isSubmitting}>
+                        {isSubmitting
+                          ? 'Joining...'
+                          : signedIn
+                            ? 'Accept invite'
+                            : mode === 'signup' ? 'Create account and join' : 'Sign in and join'}
+                      </Button>
+
+                      {!signedIn && (
+                        <p className="text-sm text-center text-muted-foreground">
+                          {mode === 'signup' ? 'Already have an account?' : 'New here?'}{' '}
+                          <button
+                            type="button"
+                            className="text-primary hover:underline"
+                            onClick={() => { setMode(mode === 'signup' ? 'signin' : 'signup'); setError('') }}
+                          >
+                            {mode === 'signup' ? 'Sign in instead' : 'Create an account'}
+                          </button>
+                        </p>
+                      )}
+                    </form>
+                  )}
+                </CardContent>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+    </PageTransition>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { FastForward, Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { AcceleratedRound } from '@/lib/accelerated-round'
+
+interface AcceleratedPicksCardProps {
+  // Loaded for one team, so pickedBy only ever holds this team
+  round: AcceleratedRound
+  currencyIcon?: string
+  busy?: boolean
+  onSave: (playerIds: string[]) => void
+}
+
+export function AcceleratedPicksCard({
+  round,
+  currencyIcon = '\u{1FA99}',
+  busy = false,
+  onSave,
+}: AcceleratedPicksCardProps) {
+  const savedIds = round.players.filter(p => p.pickedBy.length > 0).map(p => p.id)
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(savedIds))
+
+  const dirty = selected.size !== savedIds.length || savedIds.some(id => !selected.has(id))
+
+  const toggle = (playerId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(playerId)) next.delete(playerId)
+      else next.add(playerId)
+      return next
+    })
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-xs font-medium text-white/50 uppercase tracking-wider">
+          <FastForward className="h-3.5 w-3.5 text-amber-400" />
+          Accelerated Round
+        </h3>
+        <span className="text-[10px] text-white/40 tabular-nums">
+          {selected.size} picked
+        </span>
+      </div>
+      <p className="text-xs text-white/40 mb-3">
+        Pick the unsold players you want back. Only players picked by at least one team go up again.
+      </p>
+
+      {round.players.length === 0 ? (
+        <p className="text-sm text-white/40">No unsold players</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-4">
+          {round.players.map(player => {
+            const isSelected = selected.has(player.id)
+            return (
+              <button
+                key={player.id}
+                type="button"
+                onClick={() => toggle(player.id)}
+                disabled={busy}
+                className={cn(
+                  'flex items-center justify-between rounded-lg border px-3 py-2 text-left transition-colors',
+                  isSelected
+                    ? 'border-amber-400/40 bg-amber-400/10'
+                    : 'border-white/[0.06] bg-white/[0.02] hover:bg-white/[0.04]'
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{player.name}</p>
+                  <p className="text-[10px] text-white/40">
+                    {player.tierName || 'No tier'} · {currencyIcon} {player.tierBasePrice}
+                  </p>
+                </div>
+                {isSelected && <Check className="h-4 w-4 text-amber-400 shrink-0" />}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      <Button size="sm" onClick={() => onSave(Array.from(selected))} disabled={busy || !dirty}>
+        {busy ? 'Saving...' : 'Save picks'}
+      </Button>
+    </div>
+  )
+}
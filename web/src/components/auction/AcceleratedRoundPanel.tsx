@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { FastForward } from 'lucide-react'
+import { getReducedBasePrices, type AcceleratedRound } from '@/lib/accelerated-round'
+
+interface AcceleratedRoundPanelProps {
+  round: AcceleratedRound | null
+  unsoldCount: number
+  currencyIcon?: string
+  busy?: boolean
+  error?: string | null
+  onOpen: () => void
+  onStart: (basePrices: Record<string, number>) => void
+  onClose: () => void
+}
+
+export function AcceleratedRoundPanel({
+  round,
+  unsoldCount,
+  currencyIcon = '\u{1FA99}',
+  busy = false,
+  error,
+  onOpen,
+  onStart,
+  onClose,
+}: AcceleratedRoundPanelProps) {
+  const [discount, setDiscount] = useState('0')
+
+  const isPicking = round?.status === 'PICKING'
+  const isRunning = round?.status === 'RUNNING'
+
+  if (!isPicking && !isRunning && unsoldCount === 0) return null
+
+  const picked = round?.players.filter(p => p.pickedBy.length > 0) ?? []
+  const basePrices = getReducedBasePrices(picked, parseInt(discount) || 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <FastForward className="h-4 w-4 text-amber-500" />
+            Accelerated Round
+          </span>
+          {round && (isPicking || isRunning) && (
+            <Badge variant="secondary">{isPicking ? 'Captains picking' : 'Running'}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isPicking && !isRunning && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {unsoldCount} unsold player{unsoldCount !== 1 ? 's' : ''}. Let captains pick who comes back for a quick second pass.
+            </p>
+            <Button size="sm" onClick={onOpen} disabled={busy}>
+              Open picks
+            </Button>
+          </div>
+        )}
+
+        {isPicking && round && (
+          <>
+            <div className="space-y-1.5">
+              {round.players.map(player => (
+                <div key={player.id} className="flex items-center justify-between text-sm">
+                  <span className={player.pickedBy.length > 0 ? 'font-medium' : 'text-muted-foreground'}>
+                    {player.name}
+                    <span className="ml-2 text-xs text-muted-foreground">{player.tierName || 'No tier'}</span>
+                  </span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {player.pickedBy.length > 0
+                      ? player.pickedBy.map(p => p.teamName).join(', ')
+                      : 'Not picked'}
+                    {basePrices[player.id] !== undefined && (
+                      <span className="ml-2 text-foreground">
+                        <s className="text-muted-foreground">{currencyIcon} {player.tierBasePrice}</s> {currencyIcon} {basePrices[player.id]}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <label htmlFor="accelerated-discount" className="text-sm text-muted-foreground">
+                Base price cut
+              </label>
+              <Input
+                id="accelerated-discount"
+                type="number"
+                min={0}
+                max={90}
+                step={5}
+                value={discount}
+                onChange={(e) => setDiscount(e.target.value)}
+                className="w-20 h-8"
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+            </div>
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => onStart(basePrices)} disabled={busy || picked.length === 0}>
+                Start with {picked.length} player{picked.length !== 1 ? 's' : ''}
+              </Button>
+              <Button size="sm" variant="outline" onClick={onClose} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </>
+        )}
+
+        {/* Only shown once the queue is exhausted, so a running round has been worked through */}
+        {isRunning && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              Every picked player has been up.
+              {unsoldCount > 0 && ` ${unsoldCount} still unsold.`}
+            </p>
+            <div className="flex gap-2 shrink-0">
+              {unsoldCount > 0 && (
+                <Button size="sm" onClick={onOpen} disabled={busy}>
+                  Reopen picks
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={onClose} disabled={busy}>
+                Close round
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Undo2, Gavel, Clock } from 'lucide-react'
+import { Undo2, Gavel, Clock, Scale } from 'lucide-react'
 
 interface Team {
   name: string
@@ -35,6 +35,9 @@ interface AuctionControlsProps {
   canUndo: boolean
   roundBids?: RoundBid[]
   onSelectBid?: (bid: RoundBid) => void
+  onResolve?: () => void   // close the round and let the server pick the winner
+  resolving?: boolean
+  tieBreakLabel?: string
 }
 
 export function AuctionControls({
@@ -51,6 +54,9 @@ export function AuctionControls({
   canUndo,
   roundBids = [],
   onSelectBid,
+  onResolve,
+  resolving = false,
+  tieBreakLabel,
 }: AuctionControlsProps) {
   return (
     <div className="space-y-4">
@@ -156,6 +162,17 @@ export function AuctionControls({
 
       {/* Action buttons */}
       <div className="flex flex-col gap-2">
+        {onResolve && (
+          <Button
+            className="h-12 font-bold"
+            disabled={roundBids.length === 0 || resolving}
+            onClick={onResolve}
+            title={tieBreakLabel ? `Ties broken by: ${tieBreakLabel}` : undefined}
+          >
+            <Scale className="h-4 w-4 mr-2" />
+            {resolving ? 'Resolving...' : 'Close & Resolve'}
+          </Button>
+        )}
         <div className="grid grid-cols-3 gap-2">
           <Button
             className="h-14 text-lg font-bold bg-success hover:bg-success/90 text-success-foreground"
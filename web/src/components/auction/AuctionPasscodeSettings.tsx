@@ -0,0 +1,116 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Check, Copy, KeyRound, RefreshCw } from 'lucide-react'
+
+interface AuctionPasscodeSettingsProps {
+  auctionId: string
+}
+
+// Owner-only passcode controls. Renders nothing for public auctions.
+export function AuctionPasscodeSettings({ auctionId }: AuctionPasscodeSettingsProps) {
+  const [data, setData] = useState<{ visibility: string; passcode: string | null } | null>(null)
+  const [draft, setDraft] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchPasscode() {
+      try {
+        const res = await fetch(`/api/auctions/${auctionId}/passcode`)
+        if (res.ok) {
+          setData(await res.json())
+        }
+      } catch {
+        // Not the owner, or offline — nothing to show
+      }
+    }
+    fetchPasscode()
+  }, [auctionId])
+
+  if (!data || data.visibility !== 'PRIVATE') return null
+
+  const save = async (passcode: string | null | undefined) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/passcode`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(passcode === undefined ? {} : { passcode }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.details?.[0]?.message || result.error || 'Failed to update passcode')
+        return
+      }
+      setData(prev => prev && { ...prev, passcode: result.passcode })
+      setDraft('')
+    } catch {
+      setError('Failed to update passcode')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCopy = () => {
+    if (!data.passcode) return
+    navigator.clipboard.writeText(data.passcode)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="mb-4 pb-4 border-b space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <KeyRound className="h-4 w-4 text-muted-foreground" />
+          Join passcode
+        </span>
+        {data.passcode ? (
+          <div className="flex items-center gap-1">
+            <code className="rounded bg-muted px-2 py-1 text-sm font-mono tracking-widest">{data.passcode}</code>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleCopy} aria-label="Copy passcode">
+              {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+            </Button>
+            <Button variant="outline" size="sm" className="h-8" onClick={() => save(undefined)} disabled={busy}>
+              <RefreshCw className="h-3.5 w-3.5 mr-1" />
+              Rotate
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8" onClick={() => save(null)} disabled={busy}>
+              Remove
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="h-8" onClick={() => save(undefined)} disabled={busy}>
+            Generate
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {data.passcode
+          ? 'New members need this to join. Rotating it doesn’t remove anyone who has already joined.'
+          : 'Without a passcode, only league members can join this private auction.'}
+      </p>
+
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Or set your own"
+          className="h-8 max-w-48"
+          aria-label="Custom passcode"
+        />
+        <Button size="sm" className="h-8" onClick={() => save(draft)} disabled={busy || !draft.trim()}>
+          Set
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
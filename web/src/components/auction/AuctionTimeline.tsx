@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { History, Redo2, RotateCcw } from 'lucide-react'
+import { previewRevert, type AuctionTimeline as Timeline } from '@/lib/auction-events'
+
+interface AuctionTimelineProps {
+  timeline: Timeline | null
+  onRevert: (eventId: string) => void
+  onRedo: () => void
+  busy?: boolean
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  SOLD: 'Sold',
+  UNSOLD: 'Unsold',
+  DEFER: 'Deferred',
+  NOMINATE: 'Nominated',
+  PICK: 'Drafted',
+  ACCELERATE: 'Accelerated round started',
+}
+
+export function AuctionTimeline({ timeline, onRevert, onRedo, busy = false }: AuctionTimelineProps) {
+  const [previewId, setPreviewId] = useState<string | null>(null)
+
+  const entries = timeline?.entries || []
+  const nextRedoId = timeline?.redo[timeline.redo.length - 1]
+  const nextRedo = nextRedoId ? entries.find(e => e.id === nextRedoId) : undefined
+  const preview = timeline && previewId ? previewRevert(timeline, previewId) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Timeline
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            disabled={!nextRedo || busy}
+            onClick={onRedo}
+            title={nextRedo ? `Redo: ${ACTION_LABELS[nextRedo.action]} ${nextRedo.playerName}` : 'Nothing to redo'}
+          >
+            <Redo2 className="w-3.5 h-3.5 mr-1" />
+            Redo
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length > 0 ? (
+          <div className="space-y-1.5 max-h-96 overflow-y-auto">
+            {entries.map(entry => (
+              <div key={entry.id}>
+                <div
+                  className={`flex items-center justify-between text-sm p-2 rounded ${
+                    entry.status === 'applied' ? 'bg-muted' : 'opacity-50'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className={`truncate ${entry.status === 'applied' ? '' : 'line-through'}`}>
+                      {entry.playerName}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {ACTION_LABELS[entry.action]}
+                      {entry.action === 'SOLD' && ` to ${entry.teamName} for ${entry.price}`}
+                      {(entry.action === 'NOMINATE' || entry.action === 'PICK') && entry.teamName && ` by ${entry.teamName}`}
+                      {entry.status === 'undone' && ' · undone'}
+                    </div>
+                  </div>
+                  {entry.status === 'applied' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 shrink-0 ml-2"
+                      disabled={busy}
+                      onClick={() => setPreviewId(prev => prev === entry.id ? null : entry.id)}
+                      title="Revert to before this action"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                </div>
+
+                {previewId === entry.id && preview && (
+                  <div className="border rounded p-3 mt-1 space-y-2 text-xs">
+                    <div className="font-semibold text-foreground">
+                      Reverting {preview.effects.length} action{preview.effects.length === 1 ? '' : 's'}:
+                    </div>
+                    <ul className="space-y-0.5 text-muted-foreground">
+                      {preview.effects.map((effect, i) => (
+                        <li key={i}>• {effect}</li>
+                      ))}
+                    </ul>
+                    {preview.refund.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {preview.refund.map(r => (
+                          <Badge key={r.teamName} variant="secondary" className="text-xs tabular-nums">
+                            {r.teamName} +{r.amount}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {preview.playerOnBlock && (
+                      <div className="text-muted-foreground">
+                        {preview.playerOnBlock} goes back on the block.
+                      </div>
+                    )}
+                    <div className="flex gap-2 pt-1">
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        className="h-7"
+                        disabled={busy}
+                        onClick={() => {
+                          setPreviewId(null)
+                          onRevert(entry.id)
+                        }}
+                      >
+                        Revert
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-7" onClick={() => setPreviewId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground text-sm">
+            No actions yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bot } from 'lucide-react'
+import { BOT_STRATEGIES, BOT_STRATEGY_LABELS, type BotStrategy } from '@/lib/bot-strategy'
+
+interface BotTeam {
+  id: string
+  name: string
+  strategy: BotStrategy | null
+}
+
+interface BotCaptainsPanelProps {
+  auctionId: string
+  // Bump to refetch, e.g. after teams are added or removed
+  refreshKey?: number
+}
+
+const NONE = 'NONE'
+
+export function BotCaptainsPanel({ auctionId, refreshKey = 0 }: BotCaptainsPanelProps) {
+  const [data, setData] = useState<{ editable: boolean; teams: BotTeam[] } | null>(null)
+  const [busyTeamId, setBusyTeamId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchBots() {
+      try {
+        const res = await fetch(`/api/auctions/${auctionId}/bots`)
+        if (res.ok) {
+          setData(await res.json())
+        }
+      } catch {
+        // Shown as empty until the next refresh
+      }
+    }
+    fetchBots()
+  }, [auctionId, refreshKey])
+
+  if (!data) return null
+
+  if (data.teams.length === 0) {
+    return <p className="text-sm text-muted-foreground">Add teams first, then hand any of them to a bot.</p>
+  }
+
+  const handleChange = async (teamId: string, value: string) => {
+    const strategy = value === NONE ? null : value as BotStrategy
+    setBusyTeamId(teamId)
+    setError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/bots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId, strategy }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.error || 'Failed to update bot captain')
+        return
+      }
+      setData(prev => prev && {
+        ...prev,
+        teams: prev.teams.map(t => t.id === teamId ? { ...t, strategy } : t),
+      })
+    } catch {
+      setError('Failed to update bot captain')
+    } finally {
+      setBusyTeamId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Hand teams to bots to rehearse on your own. Bots bid as soon as a round opens and answer every raise, within the same budget and squad rules as everyone else.
+      </p>
+
+      <div className="space-y-1">
+        {data.teams.map(team => (
+          <div key={team.id} className="flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-sm">
+            <span className="flex items-center gap-2 min-w-0">
+              {team.strategy && <Bot className="h-4 w-4 text-violet-500 shrink-0" />}
+              <span className="font-medium truncate">{team.name}</span>
+            </span>
+            <Select
+              value={team.strategy ?? NONE}
+              onValueChange={(value) => handleChange(team.id, value)}
+              disabled={!data.editable || busyTeamId === team.id}
+            >
+              <SelectTrigger className="w-44 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No bot</SelectItem>
+                {BOT_STRATEGIES.map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>{BOT_STRATEGY_LABELS[strategy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
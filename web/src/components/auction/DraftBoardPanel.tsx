@@ -0,0 +1,111 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ListOrdered, Timer, Wand2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useNominationClock } from '@/hooks/useNominationClock'
+import { DRAFT_ORDER_LABELS, type DraftState } from '@/lib/draft'
+
+interface DraftBoardPanelProps {
+  draft: DraftState
+  busy?: boolean
+  error?: string | null
+  // Pick from the ranked list of the team on the clock; also fired once when the clock runs out
+  onAutoPick: () => void
+}
+
+const RECENT_PICKS = 8
+
+export function DraftBoardPanel({
+  draft,
+  busy = false,
+  error,
+  onAutoPick,
+}: DraftBoardPanelProps) {
+  const secondsLeft = useNominationClock({ turnStartedAt: draft.pickStartedAt, timerSeconds: draft.pickSeconds })
+  const expiredPickRef = useRef<string | null>(null)
+
+  const currentTeam = draft.teams.find(t => t.id === draft.currentTeamId)
+  const recentPicks = draft.picks.slice(-RECENT_PICKS).reverse()
+
+  // Timer fallback: auto-pick once per pick when the clock hits zero
+  useEffect(() => {
+    if (secondsLeft !== 0 || !currentTeam) return
+    if (expiredPickRef.current === draft.pickStartedAt) return
+    expiredPickRef.current = draft.pickStartedAt
+    onAutoPick()
+  }, [secondsLeft, currentTeam, draft.pickStartedAt, onAutoPick])
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <ListOrdered className="h-4 w-4 text-amber-500" />
+            Draft · Pick {draft.picks.length + (currentTeam ? 1 : 0)}
+          </span>
+          <Badge variant="secondary">{DRAFT_ORDER_LABELS[draft.orderType]} order</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!currentTeam ? (
+          <p className="text-sm text-muted-foreground">
+            {draft.available.length === 0 ? 'Every player has been drafted.' : 'Every squad is full.'}
+          </p>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm">
+              <span className="font-medium">{currentTeam.name}</span>
+              <span className="text-muted-foreground"> is on the clock</span>
+              {secondsLeft !== null && (
+                <span className={cn('ml-2 inline-flex items-center gap-1 tabular-nums', secondsLeft <= 10 ? 'text-destructive' : 'text-muted-foreground')}>
+                  <Timer className="h-3.5 w-3.5" />
+                  {secondsLeft}s
+                </span>
+              )}
+            </p>
+            <Button size="sm" variant="outline" onClick={onAutoPick} disabled={busy}>
+              <Wand2 className="h-4 w-4 mr-1" />
+              Auto-pick
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-1.5">
+          {draft.teams.map(team => (
+            <Badge
+              key={team.id}
+              variant={team.id === draft.currentTeamId ? 'default' : 'outline'}
+              className="font-normal"
+            >
+              {team.name}
+            </Badge>
+          ))}
+        </div>
+
+        {recentPicks.length > 0 && (
+          <ol className="space-y-1 text-sm">
+            {recentPicks.map((pick, i) => (
+              <li key={pick.playerId} className="flex items-center justify-between gap-3">
+                <span>
+                  <span className="text-xs tabular-nums text-muted-foreground mr-2">{draft.picks.length - i}.</span>
+                  {pick.playerName}
+                </span>
+                <span className="text-xs text-muted-foreground">{pick.teamName}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {draft.available.length} player{draft.available.length !== 1 ? 's' : ''} left
+        </p>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ListOrdered, Timer } from 'lucide-react'
+import { useNominationClock } from '@/hooks/useNominationClock'
+import type { DraftState } from '@/lib/draft'
+
+interface DraftPickCardProps {
+  draft: DraftState
+  teamId: string
+  busy?: boolean
+  onPick: (playerId: string) => void
+}
+
+export function DraftPickCard({
+  draft,
+  teamId,
+  busy = false,
+  onPick,
+}: DraftPickCardProps) {
+  const [playerId, setPlayerId] = useState('')
+  const secondsLeft = useNominationClock({ turnStartedAt: draft.pickStartedAt, timerSeconds: draft.pickSeconds })
+
+  const isMyPick = draft.currentTeamId === teamId
+  const currentTeam = draft.teams.find(t => t.id === draft.currentTeamId)
+  const lastPick = draft.picks[draft.picks.length - 1]
+  const selectedPlayer = draft.available.find(p => p.id === playerId)
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-xs font-medium text-white/50 uppercase tracking-wider">
+          <ListOrdered className="h-3.5 w-3.5 text-amber-400" />
+          Draft · Pick {draft.picks.length + 1}
+        </h3>
+        {currentTeam && secondsLeft !== null && (
+          <span className={`flex items-center gap-1 text-xs tabular-nums ${secondsLeft <= 10 ? 'text-red-400' : 'text-white/40'}`}>
+            <Timer className="h-3 w-3" />
+            {secondsLeft}s
+          </span>
+        )}
+      </div>
+
+      {lastPick && (
+        <p className="text-xs text-white/40 mb-3">
+          Last pick: <span className="text-white/70">{lastPick.playerName}</span> to {lastPick.teamName}
+        </p>
+      )}
+
+      {!currentTeam ? (
+        <p className="text-sm text-white/40">The draft is over.</p>
+      ) : !isMyPick ? (
+        <p className="text-sm text-white/60">
+          <span className="font-medium text-white">{currentTeam.name}</span> is on the clock.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-white/40 mb-3">
+            You&apos;re on the clock — pick a player.
+            {draft.pickSeconds && ' If the clock runs out, the pick comes from your rankings.'}
+          </p>
+          <div className="grid gap-2 sm:grid-cols-[1fr_auto] items-end">
+            <Select value={playerId} onValueChange={setPlayerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a player" />
+              </SelectTrigger>
+              <SelectContent>
+                {draft.available.map(player => (
+                  <SelectItem key={player.id} value={player.id}>
+                    {player.name}{player.tierName ? ` · ${player.tierName}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => selectedPlayer && onPick(selectedPlayer.id)} disabled={busy || !selectedPlayer}>
+              {busy ? 'Picking...' : 'Draft Player'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
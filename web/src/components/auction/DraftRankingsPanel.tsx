@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowDown, ArrowUp, X } from 'lucide-react'
+import type { DraftState } from '@/lib/draft'
+
+interface DraftRankingsPanelProps {
+  // Loaded for this team, so rankings is its own list
+  draft: DraftState
+  busy?: boolean
+  onSave: (playerIds: string[]) => void
+}
+
+export function DraftRankingsPanel({
+  draft,
+  busy = false,
+  onSave,
+}: DraftRankingsPanelProps) {
+  const savedIds = draft.rankings ?? []
+  const [ranked, setRanked] = useState<string[]>(savedIds)
+
+  const available = new Map(draft.available.map(p => [p.id, p]))
+  // Players drafted since the list was saved drop off; the saved list keeps them harmlessly
+  const rankedPlayers = ranked.map(id => available.get(id)).filter(p => p !== undefined)
+  const unranked = draft.available.filter(p => !ranked.includes(p.id))
+  const dirty = ranked.length !== savedIds.length || ranked.some((id, i) => savedIds[i] !== id)
+
+  const move = (index: number, by: number) => {
+    setRanked(prev => {
+      const next = prev.filter(id => available.has(id))
+      const target = index + by
+      if (target < 0 || target >= next.length) return prev
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-white/40">
+        Rank the players you want. When your clock runs out, you get the highest-ranked one still available
+        that fits your squad. With no rankings, you get the best player left.
+      </p>
+
+      <Select value="" onValueChange={(id) => setRanked(prev => [...prev, id])}>
+        <SelectTrigger>
+          <SelectValue placeholder="Add a player" />
+        </SelectTrigger>
+        <SelectContent>
+          {unranked.map(player => (
+            <SelectItem key={player.id} value={player.id}>
+              {player.name}{player.tierName ? ` · ${player.tierName}` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {rankedPlayers.length === 0 ? (
+        <p className="text-sm text-white/40">No players ranked</p>
+      ) : (
+        <ol className="space-y-1.5">
+          {rankedPlayers.map((player, index) => (
+            <li
+              key={player.id}
+              className="flex items-center gap-2 rounded-lg border border-white/[0.06] bg-white/[0.02] px-3 py-2 text-sm"
+            >
+              <span className="w-5 text-xs tabular-nums text-white/30">{index + 1}</span>
+              <span className="flex-1 truncate">{player.name}</span>
+              {player.tierName && <span className="text-[10px] text-white/40">{player.tierName}</span>}
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="text-white/40 hover:text-white disabled:opacity-30" aria-label="Move up">
+                <ArrowUp className="h-3.5 w-3.5" />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === rankedPlayers.length - 1} className="text-white/40 hover:text-white disabled:opacity-30" aria-label="Move down">
+                <ArrowDown className="h-3.5 w-3.5" />
+              </button>
+              <button onClick={() => setRanked(prev => prev.filter(id => id !== player.id))} className="text-white/40 hover:text-red-400" aria-label="Remove">
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Button onClick={() => onSave(ranked.filter(id => available.has(id)))} disabled={busy || !dirty} className="w-full">
+        {busy ? 'Saving...' : 'Save Rankings'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { FlaskConical, Lightbulb } from 'lucide-react'
+import { BOT_STRATEGY_LABELS } from '@/lib/bot-strategy'
+import type { DryRunConfig, DryRunRecommendation, DryRunResult } from '@/lib/dry-run'
+
+const DRY_RUN_COUNT = 200
+
+interface DryRunPanelProps {
+  setup: Omit<DryRunConfig, 'runs' | 'seed'>
+  onApply: (recommendation: DryRunRecommendation) => void
+}
+
+// Recommendations the wizard can apply with one click
+const APPLICABLE: DryRunRecommendation['type'][] = ['RAISE_BUDGET', 'LOWER_BUDGET', 'GROW_POOL']
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`
+
+export function DryRunPanel({ setup, onApply }: DryRunPanelProps) {
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [run, setRun] = useState<{ setupKey: string; result: DryRunResult; recommendations: DryRunRecommendation[] } | null>(null)
+
+  const setupKey = JSON.stringify(setup)
+
+  const handleRun = async () => {
+    setRunning(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/dry-runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...setup, runs: DRY_RUN_COUNT }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to run the simulation')
+        return
+      }
+      setRun({ setupKey, result: data.result, recommendations: data.recommendations || [] })
+    } catch (e) {
+      console.error('Failed to run the simulation:', e)
+      setError('Failed to run the simulation')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const result = run?.result
+
+  return (
+    <div className="bg-card/50 border border-border/50 rounded-2xl p-6">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-violet-500/10 flex items-center justify-center">
+            <FlaskConical className="w-4 h-4 text-violet-400" />
+          </div>
+          <label className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            Dry Run
+          </label>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleRun} disabled={running}>
+          {running ? 'Simulating...' : result ? 'Run again' : 'Simulate'}
+        </Button>
+      </div>
+
+      {!result && (
+        <p className="text-xs text-muted-foreground">
+          Play this setup out {DRY_RUN_COUNT} times with bot captains to see how budgets hold up before you create it.
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+
+      {result && (
+        <div className="space-y-4">
+          {run.setupKey !== setupKey && (
+            <p className="text-xs text-amber-600">The setup has changed since this run.</p>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div>
+              <div className="text-2xl font-bold tabular-nums">{Math.round(result.balanceScore)}</div>
+              <div className="text-[11px] text-muted-foreground">Balance /100</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold tabular-nums">{percent(result.avgBudgetLeftRate)}</div>
+              <div className="text-[11px] text-muted-foreground">Budget left over</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold tabular-nums">{percent(result.unfilledRunRate)}</div>
+              <div className="text-[11px] text-muted-foreground">Runs with a short squad</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold tabular-nums">{percent(result.unsoldRate)}</div>
+              <div className="text-[11px] text-muted-foreground">Unsold</div>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {result.ranOutRate > 0
+              ? `${percent(result.ranOutRate)} of squads were down to base-price bids before they were full, ${percent(result.avgRanOutAt ?? 0)} of the way through on average.`
+              : 'No squad ran short of money before it was full.'}
+          </p>
+
+          <div className="space-y-1">
+            {result.tiers.map(tier => (
+              <div key={tier.name} className="flex items-center justify-between text-xs">
+                <span className="font-medium">{tier.name} <span className="text-muted-foreground">· {tier.players}</span></span>
+                <span className="text-muted-foreground tabular-nums">
+                  {tier.avgPrice !== null ? `avg ${Math.round(tier.avgPrice)} (base ${tier.basePrice})` : 'never sold'}
+                  {tier.unsoldRate > 0 && ` · ${percent(tier.unsoldRate)} unsold`}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            {result.strategies.map(s => (
+              <div key={s.strategy} className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{BOT_STRATEGY_LABELS[s.strategy]} bots</span>
+                <span className="tabular-nums">spent {percent(s.avgSpentRate)} · {s.avgFilled.toFixed(1)} slots filled</span>
+              </div>
+            ))}
+          </div>
+
+          {run.recommendations.length > 0 && (
+            <div className="space-y-2 border-t border-border/50 pt-3">
+              {run.recommendations.map(rec => (
+                <div key={`${rec.type}-${rec.tier ?? ''}`} className="flex items-start justify-between gap-3 text-sm">
+                  <span className="flex items-start gap-2">
+                    <Lightbulb className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                    {rec.message}
+                  </span>
+                  {APPLICABLE.includes(rec.type) && run.setupKey === setupKey && (
+                    <Button size="sm" variant="ghost" className="h-7 shrink-0" onClick={() => onApply(rec)}>
+                      Apply
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Gavel } from 'lucide-react'
+import type { GavelPresence, GavelView } from '@/lib/auction-gavel'
+
+interface GavelPanelProps {
+  gavel: GavelView | null
+  auctioneers: GavelPresence[]
+  error: string | null
+  onClaim: (force?: boolean) => Promise<void>
+  onRelease: () => Promise<void>
+  onHandOver: (toUserId: string | null) => Promise<void>
+}
+
+// Who is running the auction, with the controls to take, release or hand over the gavel
+export function GavelPanel({ gavel, auctioneers, error, onClaim, onRelease, onHandOver }: GavelPanelProps) {
+  const [busy, setBusy] = useState(false)
+
+  if (!gavel) return null
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const { holder, heldByYou, stale, offeredTo, you } = gavel
+  const offeredToYou = !heldByYou && offeredTo?.userId === you.userId
+  const canTakeBack = you.role === 'OWNER' || holder?.userId === you.userId
+
+  // One entry per person, leaving out this user
+  const handoverTargets = auctioneers
+    .filter(p => p.userId !== you.userId)
+    .filter((p, i, all) => all.findIndex(q => q.userId === p.userId) === i)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="w-4 h-4" />
+          Gavel
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {heldByYou ? (
+          <>
+            <p className="text-sm font-medium">You&apos;re running this auction</p>
+            {offeredTo ? (
+              <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span>Waiting for {offeredTo.name} to take over</span>
+                <Button variant="ghost" size="sm" onClick={() => run(() => onHandOver(null))} disabled={busy}>
+                  Cancel
+                </Button>
+              </div>
+            ) : handoverTargets.length > 0 ? (
+              <Select onValueChange={userId => run(() => onHandOver(userId))} disabled={busy}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Hand over to…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {handoverTargets.map(p => (
+                    <SelectItem key={p.userId} value={p.userId}>
+                      {p.name} {p.role === 'OWNER' ? '(owner)' : '(moderator)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Other owners and moderators show up here when they open the auction.
+              </p>
+            )}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => run(onRelease)} disabled={busy}>
+              Release gavel
+            </Button>
+          </>
+        ) : holder ? (
+          <>
+            <p className="text-sm">
+              <span className="font-medium">{holder.userId === you.userId ? 'You' : holder.name}</span>{' '}
+              {holder.userId === you.userId ? 'are running this auction from another window' : 'is running this auction'}
+              {stale && <span className="text-muted-foreground"> (inactive)</span>}
+            </p>
+            {offeredToYou ? (
+              <Button size="sm" className="w-full" onClick={() => run(() => onClaim())} disabled={busy}>
+                Accept the gavel
+              </Button>
+            ) : stale || canTakeBack ? (
+              <Button variant="outline" size="sm" className="w-full" onClick={() => run(() => onClaim(!stale))} disabled={busy}>
+                Take over
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">Ask {holder.name} to hand over the gavel to run rounds.</p>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">Nobody is running this auction.</p>
+            <Button size="sm" className="w-full" onClick={() => run(() => onClaim())} disabled={busy}>
+              Take the gavel
+            </Button>
+          </>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
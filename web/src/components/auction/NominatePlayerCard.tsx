@@ -0,0 +1,95 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Hand, Timer } from 'lucide-react'
+import { useNominationClock } from '@/hooks/useNominationClock'
+import type { NominationState } from '@/lib/nomination'
+
+interface NominatePlayerCardProps {
+  nomination: NominationState
+  teamId: string
+  currencyIcon?: string
+  busy?: boolean
+  onNominate: (playerId: string, openingBid: number) => void
+}
+
+export function NominatePlayerCard({
+  nomination,
+  teamId,
+  currencyIcon = '\u{1FA99}',
+  busy = false,
+  onNominate,
+}: NominatePlayerCardProps) {
+  const [playerId, setPlayerId] = useState('')
+  const [openingBid, setOpeningBid] = useState('')
+  const secondsLeft = useNominationClock(nomination)
+
+  const isMyTurn = nomination.currentTeamId === teamId
+  const currentTeam = nomination.teams.find(t => t.id === nomination.currentTeamId)
+  const selectedPlayer = nomination.pool.find(p => p.id === playerId)
+
+  const handleNominate = () => {
+    if (!selectedPlayer) return
+    onNominate(selectedPlayer.id, Number(openingBid) || selectedPlayer.basePrice)
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/[0.06] bg-white/[0.02] p-5 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="flex items-center gap-2 text-xs font-medium text-white/50 uppercase tracking-wider">
+          <Hand className="h-3.5 w-3.5 text-sky-400" />
+          Nomination
+        </h3>
+        {secondsLeft !== null && (
+          <span className={`flex items-center gap-1 text-xs tabular-nums ${secondsLeft <= 10 ? 'text-red-400' : 'text-white/40'}`}>
+            <Timer className="h-3 w-3" />
+            {secondsLeft}s
+          </span>
+        )}
+      </div>
+
+      {!currentTeam ? (
+        <p className="text-sm text-white/40">Every squad is full.</p>
+      ) : !isMyTurn ? (
+        <p className="text-sm text-white/60">
+          Waiting for <span className="font-medium text-white">{currentTeam.name}</span> to put the next player up.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-white/40 mb-3">
+            Your turn — pick who goes up next and open the bidding.
+            {nomination.timerSeconds && ' If the clock runs out, a player is picked at random.'}
+          </p>
+          <div className="grid gap-2 sm:grid-cols-[1fr_7rem_auto] items-end">
+            <Select value={playerId} onValueChange={setPlayerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a player" />
+              </SelectTrigger>
+              <SelectContent>
+                {nomination.pool.map(player => (
+                  <SelectItem key={player.id} value={player.id}>
+                    {player.name}{player.tierName ? ` · ${player.tierName}` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={selectedPlayer?.basePrice ?? 1}
+              placeholder={selectedPlayer ? `${currencyIcon} ${selectedPlayer.basePrice}` : 'Opening bid'}
+              value={openingBid}
+              onChange={(e) => setOpeningBid(e.target.value)}
+              aria-label="Opening bid"
+            />
+            <Button onClick={handleNominate} disabled={busy || !selectedPlayer}>
+              {busy ? 'Nominating...' : 'Nominate'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
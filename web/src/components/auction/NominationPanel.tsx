@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Hand, Shuffle, Timer } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useNominationClock } from '@/hooks/useNominationClock'
+import type { NominationState } from '@/lib/nomination'
+
+interface NominationPanelProps {
+  nomination: NominationState
+  busy?: boolean
+  error?: string | null
+  // Random pick for the team on the clock; also fired once when the clock runs out
+  onRandomPick: () => void
+}
+
+export function NominationPanel({
+  nomination,
+  busy = false,
+  error,
+  onRandomPick,
+}: NominationPanelProps) {
+  const secondsLeft = useNominationClock(nomination)
+  const expiredTurnRef = useRef<string | null>(null)
+
+  const currentTeam = nomination.teams.find(t => t.id === nomination.currentTeamId)
+
+  // Timer fallback: pick at random once per turn when the clock hits zero
+  useEffect(() => {
+    if (secondsLeft !== 0 || !currentTeam || nomination.pool.length === 0) return
+    if (expiredTurnRef.current === nomination.turnStartedAt) return
+    expiredTurnRef.current = nomination.turnStartedAt
+    onRandomPick()
+  }, [secondsLeft, currentTeam, nomination.pool.length, nomination.turnStartedAt, onRandomPick])
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Hand className="h-4 w-4 text-sky-500" />
+            Nominations
+          </span>
+          <Badge variant="secondary">{nomination.orderType === 'SNAKE' ? 'Snake order' : 'Fixed order'}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {nomination.pool.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every player has been nominated.</p>
+        ) : !currentTeam ? (
+          <p className="text-sm text-muted-foreground">Every squad is full.</p>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm">
+              <span className="font-medium">{currentTeam.name}</span>
+              <span className="text-muted-foreground"> is choosing the next player</span>
+              {secondsLeft !== null && (
+                <span className={cn('ml-2 inline-flex items-center gap-1 tabular-nums', secondsLeft <= 10 ? 'text-destructive' : 'text-muted-foreground')}>
+                  <Timer className="h-3.5 w-3.5" />
+                  {secondsLeft}s
+                </span>
+              )}
+            </p>
+            <Button size="sm" variant="outline" onClick={onRandomPick} disabled={busy}>
+              <Shuffle className="h-4 w-4 mr-1" />
+              Random pick
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-1.5">
+          {nomination.teams.map(team => (
+            <Badge
+              key={team.id}
+              variant={team.id === nomination.currentTeamId ? 'default' : 'outline'}
+              className="font-normal"
+            >
+              {team.name}
+            </Badge>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {nomination.pool.length} player{nomination.pool.length !== 1 ? 's' : ''} left to nominate
+        </p>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,6 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Trophy } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { RtmOfferBanner } from './RtmOfferBanner'
+import type { RtmOffer } from '@/lib/rtm'
 
 interface NowAuctioningCardProps {
   playerName: string | null
@@ -13,6 +15,7 @@ interface NowAuctioningCardProps {
   auctionIndex: number
   isComplete: boolean
   onFinishAuction: () => void
+  rtmOffer?: RtmOffer | null // right-to-match window for the player just sold
   children?: React.ReactNode
 }
 
@@ -23,6 +26,7 @@ export function NowAuctioningCard({
   auctionIndex,
   isComplete,
   onFinishAuction,
+  rtmOffer,
   children,
 }: NowAuctioningCardProps) {
   return (
@@ -37,6 +41,7 @@ export function NowAuctioningCard({
         </CardTitle>
       </CardHeader>
       <CardContent>
+        {rtmOffer && <RtmOfferBanner offer={rtmOffer} className="mb-4" />}
         {!isComplete ? (
           <AnimatePresence mode="wait">
             <motion.div
@@ -6,7 +6,10 @@ import { Button } from '@/components/ui/button'
 import { Gavel, Timer, TrendingUp, Undo2 } from 'lucide-react'
 import { OutcryBidFeed } from './OutcryBidFeed'
 import { createClient } from '@/lib/supabase'
-import { calculateNextBid, calculateIncrement, type OutcryConfig } from '@/lib/outcry-utils'
+import {
+  calculateNextBid, calculateIncrement, getOutcryExpiryAction, getOutcryExpiryPolicy,
+  type OutcryConfig, type OutcryRule,
+} from '@/lib/outcry-utils'
 import type { OutcryBidEntry } from '@/hooks/useOpenOutcry'
 
 interface OpenOutcryAuctioneerPanelProps {
@@ -43,6 +46,7 @@ export function OpenOutcryAuctioneerPanel({
   const [bidSequence, setBidSequence] = useState<OutcryBidEntry[]>([])
   const [timerExpiresAt, setTimerExpiresAt] = useState<string | null>(null)
   const [timerSecondsLeft, setTimerSecondsLeft] = useState<number | null>(null)
+  const [roundRules, setRoundRules] = useState<OutcryRule[] | null>(null)
 
   // Fetch initial state
   const fetchState = useCallback(async () => {
@@ -55,6 +59,7 @@ export function OpenOutcryAuctioneerPanel({
       if (data.currentBidTeamId) setCurrentBidTeamId(data.currentBidTeamId)
       if (data.bidCount != null) setBidCount(data.bidCount)
       if (data.timerExpiresAt) setTimerExpiresAt(data.timerExpiresAt)
+      setRoundRules(data.rules ?? null)
       if (data.recentBids) {
         setBidSequence(data.recentBids.map((b: any) => ({
           id: b.id,
@@ -62,6 +67,8 @@ export function OpenOutcryAuctioneerPanel({
           teamName: b.teamName,
           amount: b.amount,
           sequence: b.sequence,
+          jump: b.jump,
+          proxy: b.proxy,
           at: b.at,
         })))
       }
@@ -79,6 +86,7 @@ export function OpenOutcryAuctioneerPanel({
       setBidCount(0)
       setBidSequence([])
       setTimerExpiresAt(null)
+      setRoundRules(null)
       return
     }
     fetchState()
@@ -111,6 +119,8 @@ export function OpenOutcryAuctioneerPanel({
             teamName: payload.teamName,
             amount: payload.amount,
             sequence: payload.sequence,
+            jump: payload.jump,
+            proxy: payload.proxy,
             at: new Date().toISOString(),
           }
           return [entry, ...prev].slice(0, 50)
@@ -141,11 +151,11 @@ export function OpenOutcryAuctioneerPanel({
   }, [timerExpiresAt])
 
   const increment = outcryConfig
-    ? calculateIncrement(currentBid, basePrice, outcryConfig)
+    ? calculateIncrement(currentBid, basePrice, outcryConfig, { roundRules })
     : basePrice
   const nextBidAmount = bidCount === 0
     ? basePrice
-    : (outcryConfig ? calculateNextBid(currentBid, basePrice, outcryConfig) : currentBid + basePrice)
+    : (outcryConfig ? calculateNextBid(currentBid, basePrice, outcryConfig, { roundRules }) : currentBid + basePrice)
 
   const timerPercent = timerSecondsLeft !== null && outcryConfig.timer_seconds
     ? (timerSecondsLeft / outcryConfig.timer_seconds) * 100
@@ -153,6 +163,11 @@ export function OpenOutcryAuctioneerPanel({
 
   const hasBids = bidCount > 0 && currentBidTeamName
 
+  // Server closes the round itself once the timer runs out (policy permitting)
+  const expiryAction = timerSecondsLeft === 0
+    ? getOutcryExpiryAction(bidCount, getOutcryExpiryPolicy(outcryConfig))
+    : null
+
   return (
     <div className="space-y-4">
       {/* Current Bid Display */}
@@ -212,7 +227,12 @@ export function OpenOutcryAuctioneerPanel({
           )}
         </div>
 
-        {hasBids && (
+        {expiryAction ? (
+          <div className="flex items-center justify-center gap-1.5 mt-2 text-xs text-amber-400">
+            <Timer className="w-3 h-3" />
+            <span>Time&apos;s up — closing as {expiryAction}...</span>
+          </div>
+        ) : hasBids && (
           <div className="flex items-center justify-center gap-1.5 mt-2 text-xs text-muted-foreground">
             <TrendingUp className="w-3 h-3" />
             <span>Next raise: {currencyIcon} {nextBidAmount} (+{increment})</span>
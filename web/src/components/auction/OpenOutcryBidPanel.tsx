@@ -1,8 +1,10 @@
 'use client'
 
+import { useState } from 'react'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
-import { Gavel, Timer, TrendingUp, AlertCircle } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Gavel, Timer, TrendingUp, AlertCircle, ChevronsUp } from 'lucide-react'
 import { useOpenOutcry, type UseOpenOutcryOptions } from '@/hooks/useOpenOutcry'
 import { OutcryBidFeed } from './OutcryBidFeed'
 
@@ -29,8 +31,27 @@ export function OpenOutcryBidPanel({
     bidSequence,
     raisePaddle,
     isRaising,
+    raiseError,
+    maxJumpAmount,
+    roundToStep,
+    getJumpError,
   } = useOpenOutcry(outcryOptions)
 
+  const [jumpInput, setJumpInput] = useState('')
+  const jumpAmount = jumpInput ? Number(jumpInput) : null
+  const jumpError = jumpAmount !== null ? getJumpError(jumpAmount) : null
+
+  // Snap whatever was typed onto the nearest valid step
+  const snapJump = () => {
+    if (jumpAmount === null || Number.isNaN(jumpAmount)) return
+    setJumpInput(String(roundToStep(jumpAmount)))
+  }
+
+  const submitJump = async () => {
+    if (jumpAmount === null || jumpError) return
+    if (await raisePaddle(jumpAmount)) setJumpInput('')
+  }
+
   const isLeading = currentBidTeam?.id === outcryOptions.teamId
   const timerPercent = timerSecondsLeft !== null && outcryOptions.outcryConfig.timer_seconds
     ? (timerSecondsLeft / outcryOptions.outcryConfig.timer_seconds) * 100
@@ -98,7 +119,7 @@ export function OpenOutcryBidPanel({
       {/* Raise Paddle Button */}
       <div className="space-y-2">
         <Button
-          onClick={raisePaddle}
+          onClick={() => raisePaddle()}
           disabled={!canRaise}
           className={`w-full h-16 text-lg font-bold transition-all ${
             canRaise
@@ -134,9 +155,49 @@ export function OpenOutcryBidPanel({
           </div>
         )}
 
+        {/* Jump Bid */}
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={nextBidAmount}
+            max={maxJumpAmount ?? undefined}
+            placeholder={`Jump bid (above ${nextBidAmount})`}
+            value={jumpInput}
+            onChange={(e) => setJumpInput(e.target.value)}
+            onBlur={snapJump}
+            onKeyDown={(e) => { if (e.key === 'Enter') submitJump() }}
+            disabled={!canRaise}
+            className="h-10 tabular-nums"
+          />
+          <Button
+            variant="outline"
+            onClick={submitJump}
+            disabled={!canRaise || jumpAmount === null || !!jumpError}
+            className="h-10 shrink-0"
+          >
+            <ChevronsUp className="w-4 h-4 mr-1" />
+            Jump
+          </Button>
+        </div>
+
+        {(jumpInput && jumpError) || raiseError ? (
+          <div className="flex items-center justify-center gap-1.5 text-xs text-red-400">
+            <AlertCircle className="w-3 h-3" />
+            <span>{(jumpInput && jumpError) || raiseError}</span>
+          </div>
+        ) : null}
+
         <div className="flex items-center justify-between text-xs text-muted-foreground px-1">
-          <span>Increment: +{increment} {currencyName}</span>
-          <span>Budget: {currencyIcon} {outcryOptions.budgetRemaining}</span>
+          <span>
+            Increment: +{increment} {currencyName}
+            {maxJumpAmount !== null && ` · Max jump: ${currencyIcon} ${maxJumpAmount}`}
+          </span>
+          <span>
+            {outcryOptions.maxBid != null && outcryOptions.maxBid < outcryOptions.budgetRemaining
+              ? `You can bid up to ${currencyIcon} ${outcryOptions.maxBid}`
+              : `Budget: ${currencyIcon} ${outcryOptions.budgetRemaining}`}
+          </span>
         </div>
       </div>
 
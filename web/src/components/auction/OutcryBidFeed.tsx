@@ -59,6 +59,16 @@ export function OutcryBidFeed({
                     LEADING
                   </span>
                 )}
+                {bid.jump && (
+                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 shrink-0">
+                    JUMP
+                  </span>
+                )}
+                {bid.proxy && (
+                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-violet-500/20 text-violet-400 shrink-0">
+                    PROXY
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-1.5 shrink-0 ml-2">
                 <span className="text-xs">{currencyIcon}</span>
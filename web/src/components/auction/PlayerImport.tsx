@@ -293,7 +293,8 @@ export function PlayerImport({ auctionId, tiers, existingPlayers = 0, onImportCo
                 <code className="bg-background px-1.5 py-0.5 rounded border text-[11px]">tier</code>*,{' '}
                 <code className="bg-background px-1.5 py-0.5 rounded border text-[11px]">battingStyle</code>,{' '}
                 <code className="bg-background px-1.5 py-0.5 rounded border text-[11px]">bowlingStyle</code>,{' '}
-                <code className="bg-background px-1.5 py-0.5 rounded border text-[11px]">customTags</code>
+                <code className="bg-background px-1.5 py-0.5 rounded border text-[11px]">customTags</code>,{' '}
+                <code className="bg-background px-1.5 py-0.5 rounded border text-[11px]">previousTeam</code>
               </p>
               <div className="flex flex-wrap gap-x-6 gap-y-1 text-muted-foreground">
                 <span><strong className="text-foreground">Roles:</strong> Batsman, Bowler, All-rounder, Wicketkeeper</span>
@@ -0,0 +1,28 @@
+import { Shuffle } from 'lucide-react'
+import type { QueueShuffle } from '@/lib/queue-shuffle'
+
+interface QueueShuffleNoteProps {
+  auctionId: string
+  shuffle: Pick<QueueShuffle, 'seed' | 'version'>
+  className?: string
+}
+
+/** The seed the player order was drawn from, with a link to rebuild and check it. */
+export function QueueShuffleNote({ auctionId, shuffle, className = '' }: QueueShuffleNoteProps) {
+  return (
+    <p className={`text-xs text-muted-foreground flex flex-wrap items-center gap-1 ${className}`}>
+      <Shuffle className="w-3 h-3 shrink-0" />
+      Player order drawn from seed
+      <code className="font-mono break-all">{shuffle.seed}</code>
+      (v{shuffle.version}) ·
+      <a
+        href={`/api/auctions/${auctionId}/shuffle/verify`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline hover:text-foreground"
+      >
+        Verify order
+      </a>
+    </p>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Lock, X } from 'lucide-react'
+import type { RetainedPlayer, RetentionLimits, TeamRetentionSummary } from '@/lib/retention'
+
+interface RetentionTeam extends TeamRetentionSummary {
+  id: string
+  name: string
+  budgetRemaining: number | null
+}
+
+interface AvailablePlayer {
+  id: string
+  name: string
+  playingRole: string
+  tierName: string | null
+  basePrice: number
+}
+
+interface RetentionData {
+  open: boolean
+  limits: RetentionLimits
+  retained: RetainedPlayer[]
+  available: AvailablePlayer[]
+  teams: RetentionTeam[]
+}
+
+interface RetentionPanelProps {
+  auctionId: string
+  currencyIcon?: string
+  // Teams this user may retain for — all teams for the auctioneer, their own for a captain
+  teamIds?: string[]
+  onChange?: () => void
+}
+
+export function RetentionPanel({ auctionId, currencyIcon = '\u{1FA99}', teamIds, onChange }: RetentionPanelProps) {
+  const [data, setData] = useState<RetentionData | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [teamId, setTeamId] = useState('')
+  const [playerId, setPlayerId] = useState('')
+  const [price, setPrice] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchRetentions() {
+      try {
+        const res = await fetch(`/api/auctions/${auctionId}/retentions`)
+        if (res.ok) {
+          setData(await res.json())
+        }
+      } catch {
+        // Shown as empty until the next refresh
+      }
+    }
+    fetchRetentions()
+  }, [auctionId, refreshKey])
+
+  if (!data) return null
+
+  const teams = teamIds ? data.teams.filter(t => teamIds.includes(t.id)) : data.teams
+  const selectedTeamId = teamId || (teams.length === 1 ? teams[0].id : '')
+  const selectedTeam = teams.find(t => t.id === selectedTeamId)
+  const selectedPlayer = data.available.find(p => p.id === playerId)
+  const retained = data.retained.filter(r => teams.some(t => t.id === r.teamId))
+
+  const refresh = () => {
+    setRefreshKey(k => k + 1)
+    onChange?.()
+  }
+
+  const handleRetain = async () => {
+    if (!selectedTeamId || !playerId) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/retentions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          teamId: selectedTeamId,
+          playerId,
+          price: Number(price) || selectedPlayer?.basePrice || 0,
+        }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.error || 'Failed to retain player')
+        return
+      }
+      setPlayerId('')
+      setPrice('')
+      refresh()
+    } catch {
+      setError('Failed to retain player')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRelease = async (releasePlayerId: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/retentions/${releasePlayerId}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const result = await res.json()
+        setError(result.error || 'Failed to release player')
+        return
+      }
+      refresh()
+    } catch {
+      setError('Failed to release player')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (data.limits.maxPerTeam === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Retentions are off. Set a retention limit in the auction settings to let teams keep players before bidding starts.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+        <Badge variant="secondary">Up to {data.limits.maxPerTeam} per team</Badge>
+        {data.limits.maxSpend != null && (
+          <Badge variant="secondary" className="tabular-nums">
+            Retention budget {currencyIcon} {data.limits.maxSpend}
+          </Badge>
+        )}
+      </div>
+
+      {data.open && (
+        <div className="grid gap-2 sm:grid-cols-[1fr_1fr_7rem_auto] items-end">
+          {teams.length > 1 && (
+            <Select value={selectedTeamId} onValueChange={setTeamId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map(team => (
+                  <SelectItem key={team.id} value={team.id} disabled={team.slotsLeft === 0}>
+                    {team.name} ({team.count}/{data.limits.maxPerTeam})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={playerId} onValueChange={setPlayerId}>
+            <SelectTrigger className={teams.length > 1 ? '' : 'sm:col-span-2'}>
+              <SelectValue placeholder="Player to retain" />
+            </SelectTrigger>
+            <SelectContent>
+              {data.available.map(player => (
+                <SelectItem key={player.id} value={player.id}>
+                  {player.name}{player.tierName ? ` · ${player.tierName}` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={selectedPlayer?.basePrice ?? 1}
+            placeholder={selectedPlayer ? String(selectedPlayer.basePrice) : 'Price'}
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            aria-label="Retention price"
+          />
+          <Button onClick={handleRetain} disabled={busy || !selectedTeamId || !playerId || selectedTeam?.slotsLeft === 0}>
+            <Lock className="h-4 w-4 mr-1" />
+            Retain
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {retained.length > 0 ? (
+        <div className="space-y-1">
+          {retained.map(r => (
+            <div key={r.playerId} className="flex items-center justify-between rounded-lg border px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <span className="font-medium">{r.playerName}</span>
+                <span className="text-muted-foreground"> · {r.teamName}</span>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="tabular-nums">{currencyIcon} {r.price}</span>
+                {data.open && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleRelease(r.playerId)}
+                    disabled={busy}
+                    aria-label={`Release ${r.playerName}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No players retained yet.</p>
+      )}
+
+      {!data.open && (
+        <p className="text-xs text-muted-foreground">Retentions closed when the auction started.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { Button } from '@/components/ui/button'
+import { RotateCcw, Timer } from 'lucide-react'
+import { getRtmSecondsLeft, RTM_WINDOW_SECONDS, type RtmOffer } from '@/lib/rtm'
+
+interface RtmOfferBannerProps {
+  offer: RtmOffer
+  currencyIcon?: string
+  // Captain view: answer the offer. Without these the banner is read-only.
+  onClaim?: () => void
+  onDecline?: () => void
+  busy?: boolean
+  error?: string | null
+  className?: string
+}
+
+export function RtmOfferBanner({
+  offer,
+  currencyIcon = '\u{1FA99}',
+  onClaim,
+  onDecline,
+  busy = false,
+  error,
+  className = '',
+}: RtmOfferBannerProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const secondsLeft = getRtmSecondsLeft(offer, now)
+  if (offer.status !== 'OPEN' || secondsLeft === 0) return null
+
+  return (
+    <div className={`relative rounded-xl border-2 border-sky-500/50 bg-sky-500/5 p-4 text-left ${className}`}>
+      <div className="absolute top-0 left-0 right-0 h-1 rounded-t-xl overflow-hidden bg-muted/30">
+        <motion.div
+          className="h-full bg-sky-500"
+          initial={false}
+          animate={{ width: `${(secondsLeft / RTM_WINDOW_SECONDS) * 100}%` }}
+          transition={{ duration: 0.3 }}
+        />
+      </div>
+
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2">
+          <RotateCcw className="h-4 w-4 mt-0.5 text-sky-500 shrink-0" />
+          <div>
+            <p className="text-sm font-semibold">Right to Match</p>
+            <p className="text-sm text-muted-foreground">
+              {onClaim ? 'You' : offer.teamName} can take <span className="font-medium text-foreground">{offer.playerName}</span> from{' '}
+              {offer.winningTeamName} for{' '}
+              <span className="font-medium text-foreground tabular-nums">{currencyIcon} {offer.price}</span>
+            </p>
+          </div>
+        </div>
+        <span className="flex items-center gap-1 text-xs font-medium tabular-nums text-sky-500">
+          <Timer className="h-3.5 w-3.5" />
+          {secondsLeft}s
+        </span>
+      </div>
+
+      {onClaim && onDecline && (
+        <div className="flex gap-2 mt-3">
+          <Button size="sm" onClick={onClaim} disabled={busy}>
+            Use RTM card
+          </Button>
+          <Button size="sm" variant="outline" onClick={onDecline} disabled={busy}>
+            Let it go
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </div>
+  )
+}
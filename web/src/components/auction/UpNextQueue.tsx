@@ -10,7 +10,7 @@ interface UpNextQueueProps {
   queue: string[]
   startIndex: number
   count?: number
-  getPlayerInfo: (name: string) => { tier: string; basePrice: number }
+  getPlayerInfo: (playerId: string) => { name: string; tier: string; basePrice: number }
 }
 
 export function UpNextQueue({ queue, startIndex, count = 12, getPlayerInfo }: UpNextQueueProps) {
@@ -35,11 +35,11 @@ export function UpNextQueue({ queue, startIndex, count = 12, getPlayerInfo }: Up
       {expanded && (
         <CardContent>
           <div className="space-y-1">
-            {upcoming.map((playerName, i) => (
+            {upcoming.map((playerId, i) => (
               <div key={i} className="flex items-center justify-between p-2 bg-muted rounded text-sm">
-                <span className="font-medium text-foreground">{playerName}</span>
+                <span className="font-medium text-foreground">{getPlayerInfo(playerId).name}</span>
                 <Badge className="text-xs shrink-0 ml-2" variant="secondary">
-                  {getPlayerInfo(playerName).tier}
+                  {getPlayerInfo(playerId).tier}
                 </Badge>
               </div>
             ))}
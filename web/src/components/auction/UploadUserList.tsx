@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import {
   Upload, Download, AlertCircle, CheckCircle, Loader2, X
 } from 'lucide-react'
+import type { ImportOutcome, ImportRowResult } from '@/lib/participant-invitations'
 
 interface ParsedUser {
   name: string
@@ -18,6 +19,15 @@ interface ParsedUser {
   role: 'CAPTAIN' | 'MODERATOR' | 'VIEWER'
 }
 
+const OUTCOME_BADGES: Record<ImportOutcome, { label: string; className: string }> = {
+  ADDED: { label: 'Added', className: 'border-green-500/40 text-green-700 dark:text-green-400' },
+  UPDATED: { label: 'Updated', className: 'border-green-500/40 text-green-700 dark:text-green-400' },
+  INVITED: { label: 'Invited', className: 'border-blue-500/40 text-blue-700 dark:text-blue-400' },
+  ALREADY_INVITED: { label: 'Pending', className: 'border-blue-500/40 text-blue-700 dark:text-blue-400' },
+  SKIPPED: { label: 'Skipped', className: 'text-muted-foreground' },
+  ERROR: { label: 'Failed', className: 'border-red-500/40 text-red-700 dark:text-red-400' },
+}
+
 interface UploadUserListProps {
   auctionId: string
   open: boolean
@@ -34,7 +44,7 @@ export function UploadUserList({ auctionId, open, onOpenChange, onImportComplete
   const [importResult, setImportResult] = useState<{
     success: boolean
     message: string
-    details?: { name: string; email: string; status: string }[]
+    details?: ImportRowResult[]
   } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -248,6 +258,7 @@ export function UploadUserList({ auctionId, open, onOpenChange, onImportComplete
             />
             <p className="text-xs text-muted-foreground mt-1">
               Format: name, email, role (optional). Supports CSV, TSV, or email-per-line.
+              People without an account are emailed an invitation and join when they sign up.
             </p>
           </div>
 
@@ -305,21 +316,42 @@ export function UploadUserList({ auctionId, open, onOpenChange, onImportComplete
 
           {/* Import result */}
           {importResult && (
-            <Alert className={importResult.success ? 'border-green-500' : 'border-red-500'}>
-              {importResult.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
-              <AlertDescription>
-                <p className="font-medium">{importResult.message}</p>
-                {importResult.details && importResult.details.length > 0 && (
-                  <ul className="mt-2 space-y-1 text-xs">
-                    {importResult.details.map((d, i) => (
-                      <li key={i}>
-                        {d.name} ({d.email}) — {d.status}
-                      </li>
-                    ))}
-                  </ul>
-                )}
-              </AlertDescription>
-            </Alert>
+            <div className="space-y-2">
+              <Alert className={importResult.success ? 'border-green-500' : 'border-red-500'}>
+                {importResult.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+                <AlertDescription>
+                  <p className="font-medium">{importResult.message}</p>
+                </AlertDescription>
+              </Alert>
+              {importResult.details && importResult.details.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="text-left p-2">Name</th>
+                        <th className="text-left p-2">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importResult.details.map((row, index) => (
+                        <tr key={index} className="border-t align-top">
+                          <td className="p-2">
+                            <div>{row.name}</div>
+                            <div className="font-mono text-xs text-muted-foreground">{row.email}</div>
+                          </td>
+                          <td className="p-2">
+                            <Badge variant="outline" className={`text-xs ${OUTCOME_BADGES[row.outcome].className}`}>
+                              {OUTCOME_BADGES[row.outcome].label}
+                            </Badge>
+                            <div className="text-xs text-muted-foreground mt-1">{row.status}</div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
           )}
         </div>
 
@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bot, X } from 'lucide-react'
+import type { WishlistEntry } from '@/lib/proxy-bidder'
+
+interface WishlistPlayer {
+  id: string
+  name: string
+  playingRole: string
+  tierName: string | null
+  basePrice: number
+}
+
+interface WishlistData {
+  wishlist: WishlistEntry[]
+  players: WishlistPlayer[] // still available — sold players drop off
+}
+
+interface WishlistPanelProps {
+  // "auctionId_teamId"
+  sessionId: string
+  currencyIcon?: string
+}
+
+export function WishlistPanel({ sessionId, currencyIcon = '\u{1FA99}' }: WishlistPanelProps) {
+  const [data, setData] = useState<WishlistData | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [playerId, setPlayerId] = useState('')
+  const [maxPrice, setMaxPrice] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchWishlist() {
+      try {
+        const res = await fetch(`/api/captain/${sessionId}/wishlist`)
+        if (res.ok) {
+          setData(await res.json())
+        }
+      } catch {
+        // Shown as empty until the next refresh
+      }
+    }
+    fetchWishlist()
+  }, [sessionId, refreshKey])
+
+  if (!data) return null
+
+  const playerMap = new Map(data.players.map(p => [p.id, p]))
+  const entries = data.wishlist.filter(e => playerMap.has(e.playerId))
+  const wishlisted = new Set(entries.map(e => e.playerId))
+  const selectedPlayer = playerMap.get(playerId)
+
+  const saveEntry = async (entryPlayerId: string, price: number | null) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/captain/${sessionId}/wishlist`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: entryPlayerId, maxPrice: price }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.error || 'Failed to update wishlist')
+        return false
+      }
+      setRefreshKey(k => k + 1)
+      return true
+    } catch {
+      setError('Failed to update wishlist')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!selectedPlayer) return
+    if (await saveEntry(selectedPlayer.id, Number(maxPrice) || selectedPlayer.basePrice)) {
+      setPlayerId('')
+      setMaxPrice('')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-white/40">
+        Set the most you&apos;d pay for a player. If you&apos;re away when they come up, a proxy raises for your team
+        one step at a time, up to that price and within your budget.
+      </p>
+
+      <div className="grid gap-2 sm:grid-cols-[1fr_7rem_auto] items-end">
+        <Select value={playerId} onValueChange={setPlayerId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add a player" />
+          </SelectTrigger>
+          <SelectContent>
+            {data.players.filter(p => !wishlisted.has(p.id)).map(player => (
+              <SelectItem key={player.id} value={player.id}>
+                {player.name}{player.tierName ? ` · ${player.tierName}` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={selectedPlayer?.basePrice ?? 1}
+          placeholder={selectedPlayer ? String(selectedPlayer.basePrice) : 'Max price'}
+          value={maxPrice}
+          onChange={(e) => setMaxPrice(e.target.value)}
+          aria-label="Max price"
+        />
+        <Button onClick={handleAdd} disabled={busy || !selectedPlayer}>
+          <Bot className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {entries.length > 0 ? (
+        <div className="space-y-1">
+          {entries.map(entry => {
+            const player = playerMap.get(entry.playerId)!
+            return (
+              <div key={entry.playerId} className="flex items-center justify-between rounded-lg border border-white/[0.06] px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium text-white">{player.name}</span>
+                  {player.tierName && <span className="text-white/40"> · {player.tierName}</span>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-white/40 text-xs">up to</span>
+                  <span className="tabular-nums text-white">{currencyIcon} {entry.maxPrice}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-white/40 hover:text-white"
+                    onClick={() => saveEntry(entry.playerId, null)}
+                    disabled={busy}
+                    aria-label={`Remove ${player.name} from wishlist`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-white/40">No players on your wishlist yet.</p>
+      )}
+    </div>
+  )
+}
@@ -9,9 +9,10 @@ import { TeamCard } from './TeamCard'
 
 interface AuctionCompleteProps {
   teams: LiveTeam[]
+  hideBudgets?: boolean
 }
 
-export function AuctionComplete({ teams }: AuctionCompleteProps) {
+export function AuctionComplete({ teams, hideBudgets }: AuctionCompleteProps) {
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -48,7 +49,7 @@ export function AuctionComplete({ teams }: AuctionCompleteProps) {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.5 + i * 0.1 }}
           >
-            <TeamCard team={team} />
+            <TeamCard team={team} hideBudget={hideBudgets} />
           </motion.div>
         ))}
       </div>
@@ -0,0 +1,43 @@
+'use client'
+
+import { ListOrdered, Timer } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { useNominationClock } from '@/hooks/useNominationClock'
+import type { DraftState } from '@/lib/draft'
+
+interface DraftClockProps {
+  draft: DraftState
+}
+
+export function DraftClock({ draft }: DraftClockProps) {
+  const secondsLeft = useNominationClock({ turnStartedAt: draft.pickStartedAt, timerSeconds: draft.pickSeconds })
+  const currentTeam = draft.teams.find(t => t.id === draft.currentTeamId)
+
+  return (
+    <Card className="mt-4">
+      <CardContent className="py-4 px-5 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <ListOrdered className="w-5 h-5 text-muted-foreground" />
+          {currentTeam ? (
+            <p className="text-foreground">
+              <span className="text-xs font-semibold tracking-widest text-muted-foreground uppercase mr-2">
+                Pick {draft.picks.length + 1}
+              </span>
+              <span className="font-medium">{currentTeam.name}</span> is on the clock
+            </p>
+          ) : (
+            <p className="text-foreground font-medium">The draft is over</p>
+          )}
+        </div>
+        {currentTeam && secondsLeft !== null && (
+          <span className={`flex items-center gap-1 text-sm font-mono tabular-nums ${
+            secondsLeft <= 10 ? 'text-red-400' : 'text-muted-foreground'
+          }`}>
+            <Timer className="w-4 h-4" />
+            {secondsLeft}s
+          </span>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,6 +14,8 @@ import { TeamsOverview } from './TeamsOverview'
 import { SoldCelebration } from './SoldCelebration'
 import { WaitingState } from './WaitingState'
 import { AuctionComplete } from './AuctionComplete'
+import { DraftClock } from './DraftClock'
+import { QueueShuffleNote } from '@/components/auction/QueueShuffleNote'
 import type { LiveTeam, LiveOutcryState } from '@/hooks/useLiveAuction'
 
 interface LiveAuctionViewProps {
@@ -27,14 +29,20 @@ export default function LiveAuctionView({ auctionId }: LiveAuctionViewProps) {
     currentPlayer,
     teams,
     lastSoldEvent,
+    lastReveal,
     progress,
     isConnected,
     biddingType,
     outcryState,
+    draft,
+    queueShuffle,
+    auctioneerName,
   } = useLiveAuction(auctionId)
   const { config } = useViewConfig(auctionId, 'public')
   const [budgetsExpanded, setBudgetsExpanded] = useState(true)
   const [showSquads, setShowSquads] = useState(false)
+  // Drafts have no money, so budgets stay hidden
+  const isDraft = biddingType === 'DRAFT'
 
   return (
     <div className="min-h-screen bg-muted">
@@ -42,6 +50,7 @@ export default function LiveAuctionView({ auctionId }: LiveAuctionViewProps) {
         auctionName={auctionName}
         progress={progress}
         isConnected={isConnected}
+        auctioneerName={auctioneerName}
         showSquads={showSquads}
         onToggleSquads={() => setShowSquads(prev => !prev)}
       />
@@ -82,6 +91,7 @@ export default function LiveAuctionView({ auctionId }: LiveAuctionViewProps) {
                   <div className="text-[11px] text-muted-foreground">Unsold</div>
                 </div>
               </div>
+              {queueShuffle && <QueueShuffleNote auctionId={auctionId} shuffle={queueShuffle} className="mt-3" />}
             </CardContent>
           </Card>
         </div>
@@ -101,7 +111,7 @@ export default function LiveAuctionView({ auctionId }: LiveAuctionViewProps) {
             >
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
                 {teams.map((team) => (
-                  <TeamCard key={team.name} team={team} />
+                  <TeamCard key={team.name} team={team} hideBudget={isDraft} />
                 ))}
               </div>
             </motion.div>
@@ -278,19 +288,25 @@ export default function LiveAuctionView({ auctionId }: LiveAuctionViewProps) {
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
             >
-              <TeamsOverview teams={teams} />
+              {isDraft && draft && <DraftClock draft={draft} />}
+              <TeamsOverview teams={teams} hideBudgets={isDraft} />
             </motion.div>
           )}
 
           {viewState === 'auction_complete' && (
-            <AuctionComplete key="complete" teams={teams} />
+            <AuctionComplete key="complete" teams={teams} hideBudgets={isDraft} />
           )}
         </AnimatePresence>
       </div>
 
       <AnimatePresence>
         {viewState === 'sold_celebration' && lastSoldEvent && (
-          <SoldCelebration event={lastSoldEvent} showSoldAmount={config.showSalesDetails} />
+          <SoldCelebration
+            event={lastSoldEvent}
+            showSoldAmount={config.showSalesDetails && !isDraft}
+            label={isDraft ? 'Drafted' : undefined}
+            reveal={lastReveal?.playerId === lastSoldEvent.playerId ? lastReveal : null}
+          />
         )}
       </AnimatePresence>
     </div>
@@ -10,11 +10,13 @@ interface LiveHeaderProps {
   auctionName: string
   progress: LiveAuctionProgress
   isConnected: boolean
+  // Who holds the gavel, if anyone is running the auction right now
+  auctioneerName?: string | null
   showSquads?: boolean
   onToggleSquads?: () => void
 }
 
-export function LiveHeader({ auctionName, progress, isConnected, showSquads, onToggleSquads }: LiveHeaderProps) {
+export function LiveHeader({ auctionName, progress, isConnected, auctioneerName, showSquads, onToggleSquads }: LiveHeaderProps) {
   const progressPct = progress.total > 0 ? (progress.sold / progress.total) * 100 : 0
 
   return (
@@ -34,6 +36,7 @@ export function LiveHeader({ auctionName, progress, isConnected, showSquads, onT
               </h1>
               <p className="text-sm text-muted-foreground">
                 {progress.sold}/{progress.total} players sold
+                {auctioneerName && <> · Run by {auctioneerName}</>}
               </p>
             </div>
           </div>
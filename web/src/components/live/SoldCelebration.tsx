@@ -3,13 +3,16 @@
 import { motion } from 'framer-motion'
 import { Badge } from '@/components/ui/badge'
 import type { LastSoldEvent } from '@/hooks/useLiveAuction'
+import { TIE_BREAK_LABELS, type SealedRevealEvent } from '@/lib/sealed-utils'
 
 interface SoldCelebrationProps {
   event: LastSoldEvent
   showSoldAmount?: boolean
+  reveal?: SealedRevealEvent | null
+  label?: string // 'Drafted' in draft mode
 }
 
-export function SoldCelebration({ event, showSoldAmount = false }: SoldCelebrationProps) {
+export function SoldCelebration({ event, showSoldAmount = false, reveal, label = 'Sold' }: SoldCelebrationProps) {
   return (
     <motion.div
       className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-background/90 backdrop-blur-sm"
@@ -28,7 +31,7 @@ export function SoldCelebration({ event, showSoldAmount = false }: SoldCelebrati
         {/* SOLD badge */}
         <motion.div className="mb-6">
           <Badge className="text-base lg:text-lg px-6 py-2 font-bold uppercase tracking-widest bg-success text-success-foreground">
-            Sold
+            {label}
           </Badge>
         </motion.div>
 
@@ -62,6 +65,30 @@ export function SoldCelebration({ event, showSoldAmount = false }: SoldCelebrati
           />
           <span className="text-foreground text-lg lg:text-xl font-medium">{event.team}</span>
         </motion.div>
+
+        {/* Sealed bids, opened */}
+        {reveal && showSoldAmount && reveal.bids.length > 1 && (
+          <motion.div
+            className="mt-8 w-72 space-y-1.5"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 1.4 }}
+          >
+            {reveal.bids.map((b, i) => (
+              <div key={`${b.teamId}-${i}`} className="flex items-center justify-between text-sm">
+                <span className={b.teamId === reveal.winner.teamId ? 'text-foreground font-medium' : 'text-muted-foreground'}>
+                  {b.teamName}
+                </span>
+                <span className="font-mono tabular-nums text-muted-foreground">{b.amount.toLocaleString()}</span>
+              </div>
+            ))}
+            {reveal.tieBreak && (
+              <p className="text-xs text-muted-foreground pt-2">
+                Tie decided by {TIE_BREAK_LABELS[reveal.tieBreak].toLowerCase()}
+              </p>
+            )}
+          </motion.div>
+        )}
       </motion.div>
     </motion.div>
   )
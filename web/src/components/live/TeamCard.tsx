@@ -7,6 +7,7 @@ import type { LiveTeam } from '@/hooks/useLiveAuction'
 interface TeamCardProps {
   team: LiveTeam
   compact?: boolean
+  hideBudget?: boolean // drafts have no money
 }
 
 function getRoleIcon(role?: string) {
@@ -33,7 +34,7 @@ function getInitials(name: string): string {
   return name.split(' ').map(w => w[0]).join('').slice(0, 2).toUpperCase()
 }
 
-export function TeamCard({ team, compact }: TeamCardProps) {
+export function TeamCard({ team, compact, hideBudget }: TeamCardProps) {
   const budgetPct = team.originalCoins > 0 ? (team.coins / team.originalCoins) * 100 : 0
   const totalPlayers = team.players.length + (team.captain ? 1 : 0)
 
@@ -74,14 +75,16 @@ export function TeamCard({ team, compact }: TeamCardProps) {
           </div>
         )}
 
-        <div className="w-full bg-muted rounded-full h-1.5 overflow-hidden">
-          <motion.div
-            className="h-full rounded-full bg-primary"
-            initial={false}
-            animate={{ width: `${budgetPct}%` }}
-            transition={{ type: 'spring', stiffness: 200, damping: 25 }}
-          />
-        </div>
+        {!hideBudget && (
+          <div className="w-full bg-muted rounded-full h-1.5 overflow-hidden">
+            <motion.div
+              className="h-full rounded-full bg-primary"
+              initial={false}
+              animate={{ width: `${budgetPct}%` }}
+              transition={{ type: 'spring', stiffness: 200, damping: 25 }}
+            />
+          </div>
+        )}
       </div>
     )
   }
@@ -98,9 +101,11 @@ export function TeamCard({ team, compact }: TeamCardProps) {
         </div>
         <div className="min-w-0 flex-1">
           <p className="text-sm lg:text-base font-medium text-foreground truncate">{team.name}</p>
-          <p className="text-xs text-muted-foreground tabular-nums">
-            {team.coins} / {team.originalCoins}
-          </p>
+          {!hideBudget && (
+            <p className="text-xs text-muted-foreground tabular-nums">
+              {team.coins} / {team.originalCoins}
+            </p>
+          )}
         </div>
         <span className="text-xs text-muted-foreground tabular-nums shrink-0">
           {totalPlayers} players
@@ -108,14 +113,16 @@ export function TeamCard({ team, compact }: TeamCardProps) {
       </div>
 
       {/* Budget bar */}
-      <div className="w-full bg-muted rounded-full h-2.5 overflow-hidden mb-3">
-        <motion.div
-          className="h-full rounded-full bg-primary"
-          initial={false}
-          animate={{ width: `${budgetPct}%` }}
-          transition={{ type: 'spring', stiffness: 200, damping: 25 }}
-        />
-      </div>
+      {!hideBudget && (
+        <div className="w-full bg-muted rounded-full h-2.5 overflow-hidden mb-3">
+          <motion.div
+            className="h-full rounded-full bg-primary"
+            initial={false}
+            animate={{ width: `${budgetPct}%` }}
+            transition={{ type: 'spring', stiffness: 200, damping: 25 }}
+          />
+        </div>
+      )}
 
       {/* Squad Composition */}
       {totalPlayers > 0 && (() => {
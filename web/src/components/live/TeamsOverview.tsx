@@ -6,9 +6,10 @@ import { TeamCard } from './TeamCard'
 
 interface TeamsOverviewProps {
   teams: LiveTeam[]
+  hideBudgets?: boolean
 }
 
-export function TeamsOverview({ teams }: TeamsOverviewProps) {
+export function TeamsOverview({ teams, hideBudgets }: TeamsOverviewProps) {
   return (
     <div className="w-full grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6 py-4">
       {teams.map((team, i) => (
@@ -18,7 +19,7 @@ export function TeamsOverview({ teams }: TeamsOverviewProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: i * 0.1, duration: 0.4 }}
         >
-          <TeamCard team={team} />
+          <TeamCard team={team} hideBudget={hideBudgets} />
         </motion.div>
       ))}
     </div>
@@ -12,6 +12,7 @@ import {
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { motion, AnimatePresence } from 'framer-motion'
+import { TeamInvitesPanel } from '@/components/teams/TeamInvitesPanel'
 
 interface User {
   id: string
@@ -757,6 +758,9 @@ export function AuctionTeamManager({
                               )}
                             </div>
 
+                            {/* Invite links (owner only) */}
+                            <TeamInvitesPanel auctionId={auctionId} teamId={team.id} />
+
                             {/* Actions row */}
                             {isEditable && (
                               <div className="flex items-center gap-2 pt-1">
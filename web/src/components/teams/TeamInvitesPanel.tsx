@@ -0,0 +1,179 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Check, Copy, Link2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import type { InviteRole } from '@/lib/invite-token'
+
+interface TeamInvite {
+  id: string
+  role: InviteRole
+  expiresAt: string
+  revokedAt: string | null
+  redemptionCount: number
+  active: boolean
+  token: string | null
+}
+
+interface TeamInvitesPanelProps {
+  auctionId: string
+  teamId: string
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 24 * 7, label: '1 week' },
+  { hours: 24 * 30, label: '30 days' },
+]
+
+// Owner-only: signed invite links for one team. Renders nothing for anyone else.
+export function TeamInvitesPanel({ auctionId, teamId }: TeamInvitesPanelProps) {
+  const [invites, setInvites] = useState<TeamInvite[] | null>(null)
+  const [role, setRole] = useState<InviteRole>('CAPTAIN')
+  const [expiresInHours, setExpiresInHours] = useState('72')
+  const [busy, setBusy] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function fetchInvites() {
+      try {
+        const res = await fetch(`/api/auctions/${auctionId}/invites?teamId=${teamId}`)
+        if (res.ok) {
+          const data = await res.json()
+          setInvites(data.invites || [])
+        }
+      } catch {
+        // Invites are optional here
+      }
+    }
+    fetchInvites()
+  }, [auctionId, teamId])
+
+  if (!invites) return null
+
+  const copyLink = (invite: TeamInvite) => {
+    if (!invite.token) return
+    navigator.clipboard.writeText(`${window.location.origin}/invite/${invite.token}`)
+    setCopiedId(invite.id)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  const handleCreate = async () => {
+    setBusy(true)
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/invites`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamId, role, expiresInHours: Number(expiresInHours) }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to create invite')
+        return
+      }
+      setInvites(prev => [data.invite, ...(prev || [])])
+      copyLink(data.invite)
+      toast.success('Invite link copied')
+    } catch {
+      toast.error('Failed to create invite')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRevoke = async (inviteId: string) => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/invites/${inviteId}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to revoke invite')
+        return
+      }
+      setInvites(prev => (prev || []).map(i =>
+        i.id === inviteId ? { ...i, active: false, token: null, revokedAt: new Date().toISOString() } : i
+      ))
+    } catch {
+      toast.error('Failed to revoke invite')
+    }
+  }
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-muted-foreground mb-1.5 block">
+        Invite Links
+      </label>
+
+      {invites.length > 0 && (
+        <div className="space-y-1 mb-2">
+          {invites.map(invite => (
+            <div key={invite.id} className="flex items-center gap-2 px-2 py-1 rounded border bg-card text-xs">
+              <Badge variant={invite.active ? 'secondary' : 'outline'} className="text-[10px] h-4 px-1">
+                {invite.role === 'CAPTAIN' ? 'Captain' : 'Viewer'}
+              </Badge>
+              <span className={`flex-1 truncate ${invite.active ? '' : 'text-muted-foreground line-through'}`}>
+                {invite.revokedAt
+                  ? 'Revoked'
+                  : invite.active
+                    ? `Expires ${new Date(invite.expiresAt).toLocaleDateString()}`
+                    : 'Expired'}
+              </span>
+              <span className="text-muted-foreground tabular-nums">
+                {invite.redemptionCount} joined
+              </span>
+              {invite.active && (
+                <>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-foreground transition-colors"
+                    onClick={() => copyLink(invite)}
+                    aria-label="Copy invite link"
+                  >
+                    {copiedId === invite.id ? <Check className="w-3.5 h-3.5 text-green-600" /> : <Copy className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-destructive transition-colors"
+                    onClick={() => handleRevoke(invite.id)}
+                    aria-label="Revoke invite"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1.5">
+        <Select value={role} onValueChange={(value) => setRole(value as InviteRole)}>
+          <SelectTrigger className="h-7 w-24 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="CAPTAIN">Captain</SelectItem>
+            <SelectItem value="VIEWER">Viewer</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+          <SelectTrigger className="h-7 w-24 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map(option => (
+              <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" className="text-xs h-7" onClick={handleCreate} disabled={busy}>
+          <Link2 className="w-3 h-3 mr-1.5" />
+          Create link
+        </Button>
+      </div>
+    </div>
+  )
+}
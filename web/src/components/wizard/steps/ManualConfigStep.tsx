@@ -5,7 +5,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { AuctionConfigFormData } from '@/lib/validations/auction'
-import { Settings, DollarSign, Users, Trophy } from 'lucide-react'
+import { PLAYING_ROLES, ROLE_LABELS } from '@/lib/squad-rules'
+import type { PlayingRole, RoleRule } from '@/lib/types'
+import { Settings, DollarSign, Users, Trophy, Shield } from 'lucide-react'
 
 interface ManualConfigStepProps {
   data?: Partial<AuctionConfigFormData>
@@ -14,7 +16,7 @@ interface ManualConfigStepProps {
 }
 
 export function ManualConfigStep({ data = {}, onChange, errors = {} }: ManualConfigStepProps) {
-  const handleInputChange = (field: keyof AuctionConfigFormData, value: string | number) => {
+  const handleInputChange = (field: keyof AuctionConfigFormData, value: string | number | null) => {
     onChange({
       ...data,
       [field]: value
@@ -25,6 +27,19 @@ export function ManualConfigStep({ data = {}, onChange, errors = {} }: ManualCon
     return errors[field]?.[0]
   }
 
+  // Blank inputs clear that bound; a role with neither bound is dropped
+  const handleRoleRuleChange = (role: PlayingRole, bound: keyof RoleRule, value: string) => {
+    const roleRules = { ...data.roleRules }
+    const rule: RoleRule = { ...roleRules[role] }
+    if (value === '') delete rule[bound]
+    else rule[bound] = parseInt(value) || 0
+
+    if (rule.min == null && rule.max == null) delete roleRules[role]
+    else roleRules[role] = rule
+
+    onChange({ ...data, roleRules })
+  }
+
   return (
     <WizardStep
       title="Manual Configuration"
@@ -157,6 +172,120 @@ export function ManualConfigStep({ data = {}, onChange, errors = {} }: ManualCon
                 </p>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rtmCardsPerTeam">Right-to-Match Cards</Label>
+              <Input
+                id="rtmCardsPerTeam"
+                type="number"
+                min="0"
+                max="5"
+                placeholder="0"
+                value={data.rtmCardsPerTeam ?? ''}
+                onChange={(e) => handleInputChange('rtmCardsPerTeam', parseInt(e.target.value) || 0)}
+                className={getFieldError('rtmCardsPerTeam') ? 'border-destructive' : ''}
+              />
+              {getFieldError('rtmCardsPerTeam') && (
+                <p className="text-sm text-destructive">{getFieldError('rtmCardsPerTeam')}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Lets a team match the winning bid for a player it owned before (0-5)
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxRetentionsPerTeam">Retentions per Team</Label>
+                <Input
+                  id="maxRetentionsPerTeam"
+                  type="number"
+                  min="0"
+                  max="6"
+                  placeholder="0"
+                  value={data.maxRetentionsPerTeam ?? ''}
+                  onChange={(e) => handleInputChange('maxRetentionsPerTeam', parseInt(e.target.value) || 0)}
+                  className={getFieldError('maxRetentionsPerTeam') ? 'border-destructive' : ''}
+                />
+                {getFieldError('maxRetentionsPerTeam') && (
+                  <p className="text-sm text-destructive">{getFieldError('maxRetentionsPerTeam')}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Players a team may keep at a fixed price before bidding starts (0-6)
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maxRetentionSpend">Retention Budget</Label>
+                <Input
+                  id="maxRetentionSpend"
+                  type="number"
+                  min="0"
+                  placeholder="No cap"
+                  value={data.maxRetentionSpend ?? ''}
+                  onChange={(e) => handleInputChange('maxRetentionSpend', e.target.value === '' ? null : parseInt(e.target.value) || 0)}
+                  className={getFieldError('maxRetentionSpend') ? 'border-destructive' : ''}
+                />
+                {getFieldError('maxRetentionSpend') && (
+                  <p className="text-sm text-destructive">{getFieldError('maxRetentionSpend')}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Most a team may spend on retentions, out of its auction budget
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Playing Role Rules */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center space-x-2">
+              <Shield className="h-5 w-5 text-primary" />
+              <CardTitle>Playing Role Rules</CardTitle>
+            </div>
+            <CardDescription>
+              Optional limits on how many of each role a squad can have
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {PLAYING_ROLES.map(role => {
+              const label = ROLE_LABELS[role].many
+              const rule = data.roleRules?.[role]
+              const error = getFieldError(`roleRules.${role}.min`) || getFieldError(`roleRules.${role}.max`)
+              return (
+                <div key={role} className="space-y-1">
+                  <div className="grid grid-cols-3 gap-4 items-center">
+                    <Label className="capitalize">{label}</Label>
+                    <Input
+                      id={`roleRules-${role}-min`}
+                      type="number"
+                      min="0"
+                      max="18"
+                      placeholder="Min"
+                      aria-label={`Minimum ${label}`}
+                      value={rule?.min ?? ''}
+                      onChange={(e) => handleRoleRuleChange(role, 'min', e.target.value)}
+                      className={getFieldError(`roleRules.${role}.min`) ? 'border-destructive' : ''}
+                    />
+                    <Input
+                      id={`roleRules-${role}-max`}
+                      type="number"
+                      min="1"
+                      max="18"
+                      placeholder="Max"
+                      aria-label={`Maximum ${label}`}
+                      value={rule?.max ?? ''}
+                      onChange={(e) => handleRoleRuleChange(role, 'max', e.target.value)}
+                      className={getFieldError(`roleRules.${role}.max`) ? 'border-destructive' : ''}
+                    />
+                  </div>
+                  {error && <p className="text-sm text-destructive">{error}</p>}
+                </div>
+              )
+            })}
+            <p className="text-xs text-muted-foreground">
+              e.g. at least 1 wicketkeeper, at most 5 bowlers. Leave blank for no limit.
+            </p>
           </CardContent>
         </Card>
 
@@ -20,15 +20,19 @@ export interface AuthUser {
 interface UseAuctionAccessReturn {
   permissions: AuctionPermissions | null
   user: AuthUser | null
+  // Private auction with a passcode that this user hasn't joined yet
+  passcodeRequired: boolean
   loading: boolean
   error: string | null
-  joinAuction: (role?: 'CAPTAIN' | 'VIEWER', teamId?: string) => Promise<boolean>
+  // Joins as a viewer; captains are invited to a team instead
+  joinAuction: (passcode?: string) => Promise<boolean>
   checkAccess: () => Promise<void>
 }
 
 export function useAuctionAccess(auctionId: string): UseAuctionAccessReturn {
   const [permissions, setPermissions] = useState<AuctionPermissions | null>(null)
   const [user, setUser] = useState<AuthUser | null>(null)
+  const [passcodeRequired, setPasscodeRequired] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -50,6 +54,7 @@ export function useAuctionAccess(auctionId: string): UseAuctionAccessReturn {
       const data = await response.json()
       setPermissions(data.permissions)
       setUser(data.user)
+      setPasscodeRequired(!!data.passcodeRequired)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred'
       setError(errorMessage)
@@ -59,10 +64,7 @@ export function useAuctionAccess(auctionId: string): UseAuctionAccessReturn {
     }
   }
 
-  const joinAuction = async (
-    role: 'CAPTAIN' | 'VIEWER' = 'VIEWER',
-    teamId?: string
-  ): Promise<boolean> => {
+  const joinAuction = async (passcode?: string): Promise<boolean> => {
     try {
       setLoading(true)
       setError(null)
@@ -73,10 +75,7 @@ export function useAuctionAccess(auctionId: string): UseAuctionAccessReturn {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${getAuthToken()}`,
         },
-        body: JSON.stringify({
-          role,
-          teamId,
-        }),
+        body: JSON.stringify({ passcode }),
       })
 
       if (!response.ok) {
@@ -86,6 +85,7 @@ export function useAuctionAccess(auctionId: string): UseAuctionAccessReturn {
 
       const data = await response.json()
       setPermissions(data.permissions)
+      setPasscodeRequired(false)
       return true
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to join auction'
@@ -110,6 +110,7 @@ export function useAuctionAccess(auctionId: string): UseAuctionAccessReturn {
   return {
     permissions,
     user,
+    passcodeRequired,
     loading,
     error,
     joinAuction,
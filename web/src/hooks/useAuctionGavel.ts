@@ -0,0 +1,131 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { auctionRealtimeManager } from '@/lib/auction-realtime'
+import {
+  GAVEL_HEARTBEAT_SECONDS, GAVEL_SESSION_HEADER, type GavelPresence, type GavelView,
+} from '@/lib/auction-gavel'
+
+type GavelAction =
+  | { action: 'CLAIM'; force?: boolean }
+  | { action: 'HEARTBEAT' }
+  | { action: 'RELEASE' }
+  | { action: 'HANDOVER'; toUserId: string | null }
+
+export interface UseAuctionGavelReturn {
+  gavel: GavelView | null
+  // Owners and moderators with the auction page open, from presence
+  auctioneers: GavelPresence[]
+  // Send these with every round action so the server knows which window it came from
+  gavelHeaders: Record<string, string>
+  error: string | null
+  // A round action was turned away because another window holds the gavel
+  onGavelHeld: (error: string) => void
+  claim: (force?: boolean) => Promise<void>
+  release: () => Promise<void>
+  handOver: (toUserId: string | null) => Promise<void>
+}
+
+/**
+ * The auctioneer page's side of the gavel: a session ID for this window,
+ * who holds the gavel, a heartbeat while this window does, and this
+ * window's entry in presence on the auction channel.
+ */
+export function useAuctionGavel(auctionId: string): UseAuctionGavelReturn {
+  // A new ID per page load, so a duplicated tab doesn't share the gavel
+  const [sessionId] = useState(() => crypto.randomUUID())
+  const [gavel, setGavel] = useState<GavelView | null>(null)
+  const [auctioneers, setAuctioneers] = useState<GavelPresence[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const gavelHeaders = useMemo(() => ({ [GAVEL_SESSION_HEADER]: sessionId }), [sessionId])
+
+  const fetchGavel = useCallback(async (): Promise<GavelView | null> => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/gavel`, { headers: gavelHeaders })
+      if (res.ok) {
+        const data = await res.json()
+        return data.gavel
+      }
+    } catch (err) {
+      console.error('Failed to fetch gavel:', err)
+    }
+    return null
+  }, [auctionId, gavelHeaders])
+
+  const refreshGavel = useCallback(() => {
+    fetchGavel().then(view => {
+      if (view) setGavel(view)
+    })
+  }, [fetchGavel])
+
+  const onGavelHeld = useCallback((message: string) => {
+    setError(message)
+    refreshGavel()
+  }, [refreshGavel])
+
+  const sendAction = useCallback(async (body: GavelAction) => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/gavel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...gavelHeaders },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to update the gavel')
+        refreshGavel()
+        return
+      }
+      setError(null)
+      setGavel(data.gavel)
+    } catch (err) {
+      console.error('Failed to update the gavel:', err)
+      setError('Failed to update the gavel')
+    }
+  }, [auctionId, gavelHeaders, refreshGavel])
+
+  useEffect(() => {
+    refreshGavel()
+    const removeGavel = auctionRealtimeManager.onGavel(refreshGavel)
+    const removePresence = auctionRealtimeManager.onPresenceChange(setAuctioneers)
+    return () => {
+      removeGavel()
+      removePresence()
+    }
+  }, [refreshGavel])
+
+  const heldByYou = !!gavel?.heldByYou
+
+  // Keep the gavel while this window holds it
+  useEffect(() => {
+    if (!heldByYou) return
+    const interval = setInterval(() => sendAction({ action: 'HEARTBEAT' }), GAVEL_HEARTBEAT_SECONDS * 1000)
+    return () => clearInterval(interval)
+  }, [heldByYou, sendAction])
+
+  const youId = gavel?.you.userId
+  const youName = gavel?.you.name
+  const youRole = gavel?.you.role
+  useEffect(() => {
+    if (!youId || !youName || !youRole) return
+    auctionRealtimeManager.trackPresence({ userId: youId, name: youName, role: youRole, holdsGavel: heldByYou })
+  }, [youId, youName, youRole, heldByYou])
+
+  useEffect(() => {
+    return () => {
+      auctionRealtimeManager.trackPresence(null)
+    }
+  }, [])
+
+  return {
+    gavel,
+    auctioneers,
+    gavelHeaders,
+    error,
+    onGavelHeld,
+    claim: (force?: boolean) => sendAction({ action: 'CLAIM', force }),
+    release: () => sendAction({ action: 'RELEASE' }),
+    handOver: (toUserId: string | null) => sendAction({ action: 'HANDOVER', toUserId }),
+  }
+}
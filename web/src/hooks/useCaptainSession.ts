@@ -1,6 +1,13 @@
 'use client'
 
 import { useState, useEffect, useRef, useCallback } from 'react'
+import { createClient } from '@/lib/supabase'
+import type { SealedRevealEvent } from '@/lib/sealed-utils'
+import type { RoleRequirement } from '@/lib/squad-rules'
+import type { RtmStatus } from '@/lib/rtm'
+import type { AcceleratedRound } from '@/lib/accelerated-round'
+import type { NominationState } from '@/lib/nomination'
+import type { DraftState } from '@/lib/draft'
 
 // ── Types ─────────────────────────────────────────────────────────
 
@@ -147,12 +154,18 @@ export interface CaptainSessionData {
     currencyName: string
     currencyIcon: string
     squadSize: number
+    biddingType?: 'SEALED_TENDER' | 'SEALED_SECOND_PRICE' | 'OPEN_OUTCRY' | 'DRAFT'
   }
   team: TeamInfo
   currentRound?: CurrentRound
   squad: SquadPlayer[]
   bidHistory: BidHistoryEntry[]
   tierRequirements: TierRequirement[]
+  roleRequirements: RoleRequirement[]
+  rtm: RtmStatus
+  accelerated: AcceleratedRound | null
+  nomination: NominationState | null
+  draft: DraftState | null
   budgetAnalytics: BudgetAnalytics
   squadComposition: SquadComposition
   auctionProgress: AuctionProgress
@@ -188,10 +201,16 @@ interface UseCaptainSessionReturn {
   timeLeft: number
   submitBid: (amount: number) => Promise<boolean>
   isSubmitting: boolean
+  respondToRtm: (claim: boolean) => Promise<void>
+  saveAcceleratedPicks: (playerIds: string[]) => Promise<void>
+  nominatePlayer: (playerId: string, openingBid: number) => Promise<string | null>
+  draftPlayer: (playerId: string) => Promise<void>
+  saveDraftRankings: (playerIds: string[]) => Promise<void>
   refresh: () => Promise<void>
   needsTeamSelection: boolean
   teamOptions: TeamSelectionOption[]
   auctionIdForSelection: string | null
+  lastReveal: SealedRevealEvent | null
 }
 
 export function useCaptainSession(
@@ -208,6 +227,7 @@ export function useCaptainSession(
   const [needsTeamSelection, setNeedsTeamSelection] = useState(false)
   const [teamOptions, setTeamOptions] = useState<TeamSelectionOption[]>([])
   const [auctionIdForSelection, setAuctionIdForSelection] = useState<string | null>(null)
+  const [lastReveal, setLastReveal] = useState<SealedRevealEvent | null>(null)
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
   const timerRef = useRef<NodeJS.Timeout | null>(null)
@@ -290,6 +310,125 @@ export function useCaptainSession(
     }
   }, [session, sessionId, fetchSession])
 
+  // Answer this team's open right-to-match offer
+  const respondToRtm = useCallback(async (claim: boolean) => {
+    const offer = session?.rtm.offer
+    if (!session || !offer) return
+
+    const rtmSessionId = `${session.auction.id}_${session.team.id}`
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(`/api/captain/${rtmSessionId}/rtm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ offerId: offer.id, action: claim ? 'CLAIM' : 'DECLINE' }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to answer RTM offer')
+      }
+    } finally {
+      await fetchSession()
+      setIsSubmitting(false)
+    }
+  }, [session, fetchSession])
+
+  // Replace this team's picks for the open accelerated round
+  const saveAcceleratedPicks = useCallback(async (playerIds: string[]) => {
+    if (!session?.accelerated) return
+
+    const picksSessionId = `${session.auction.id}_${session.team.id}`
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(`/api/captain/${picksSessionId}/accelerated`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerIds }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save picks')
+      }
+    } finally {
+      await fetchSession()
+      setIsSubmitting(false)
+    }
+  }, [session, fetchSession])
+
+  // Nomination mode: put a player up with this team's opening bid. Resolves to the
+  // opening bid error, if the player went up but the bid didn't go through.
+  const nominatePlayer = useCallback(async (playerId: string, openingBid: number) => {
+    if (!session?.nomination) return null
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(`/api/auctions/${session.auction.id}/nomination`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'NOMINATE', teamId: session.team.id, playerId, openingBid }),
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to nominate player')
+      }
+      return (result.openingBidError as string | null) ?? null
+    } finally {
+      await fetchSession()
+      setIsSubmitting(false)
+    }
+  }, [session, fetchSession])
+
+  // Draft mode: take this player with the team's pick
+  const draftPlayer = useCallback(async (playerId: string) => {
+    if (!session?.draft) return
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(`/api/auctions/${session.auction.id}/draft`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'PICK', teamId: session.team.id, playerId }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to make pick')
+      }
+    } finally {
+      await fetchSession()
+      setIsSubmitting(false)
+    }
+  }, [session, fetchSession])
+
+  // Replace the ranked list the draft auto-picks from when this team's clock runs out
+  const saveDraftRankings = useCallback(async (playerIds: string[]) => {
+    if (!session?.draft) return
+
+    const rankingsSessionId = `${session.auction.id}_${session.team.id}`
+
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(`/api/captain/${rankingsSessionId}/draft-rankings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerIds }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save rankings')
+      }
+    } finally {
+      await fetchSession()
+      setIsSubmitting(false)
+    }
+  }, [session, fetchSession])
+
   // Timer countdown
   useEffect(() => {
     if (timeLeft > 0 && session?.currentRound?.status === 'OPEN') {
@@ -318,6 +457,43 @@ export function useCaptainSession(
     }
   }, [sessionId, session?.auction.status, pollingInterval])
 
+  // Realtime: refresh on auctioneer/bid broadcasts, keep the latest sealed reveal
+  const auctionId = session?.auction.id
+  useEffect(() => {
+    if (!auctionId) return
+
+    const supabase = createClient()
+    const channel = supabase.channel(`auction-${auctionId}`)
+
+    channel
+      .on('broadcast', { event: 'auction-state' }, () => {
+        fetchSession()
+      })
+      .on('broadcast', { event: 'bid-update' }, () => {
+        fetchSession()
+      })
+      .on('broadcast', { event: 'rtm-offer' }, () => {
+        fetchSession()
+      })
+      .on('broadcast', { event: 'accelerated-round' }, () => {
+        fetchSession()
+      })
+      .on('broadcast', { event: 'nomination' }, () => {
+        fetchSession()
+      })
+      .on('broadcast', { event: 'draft' }, () => {
+        fetchSession()
+      })
+      .on('broadcast', { event: 'sealed-reveal' }, ({ payload }) => {
+        setLastReveal(payload as SealedRevealEvent)
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [auctionId, fetchSession])
+
   return {
     session,
     loading,
@@ -325,9 +501,15 @@ export function useCaptainSession(
     timeLeft,
     submitBid,
     isSubmitting,
+    respondToRtm,
+    saveAcceleratedPicks,
+    nominatePlayer,
+    draftPlayer,
+    saveDraftRankings,
     refresh: fetchSession,
     needsTeamSelection,
     teamOptions,
     auctionIdForSelection,
+    lastReveal,
   }
 }
@@ -3,6 +3,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { createClient } from '@/lib/supabase'
 import type { AuctionState } from '@/lib/auction-realtime'
+import type { SealedRevealEvent } from '@/lib/sealed-utils'
+import type { DraftState } from '@/lib/draft'
+import type { QueueShuffle } from '@/lib/queue-shuffle'
+import { findGavelHolder, type GavelPresence } from '@/lib/auction-gavel'
 
 export type ViewState = 'connecting' | 'waiting' | 'player_up' | 'sold_celebration' | 'between_bids' | 'auction_complete'
 
@@ -30,6 +34,7 @@ export interface LiveTeam {
 }
 
 export interface LastSoldEvent {
+  playerId: string
   player: string
   team: string
   teamColor: string
@@ -69,7 +74,12 @@ export function useLiveAuction(auctionId: string) {
   const [auctionName, setAuctionName] = useState('')
   const [isConnected, setIsConnected] = useState(false)
   const [lastSoldEvent, setLastSoldEvent] = useState<LastSoldEvent | null>(null)
-  const [biddingType, setBiddingType] = useState<'SEALED_TENDER' | 'OPEN_OUTCRY'>('SEALED_TENDER')
+  const [lastReveal, setLastReveal] = useState<SealedRevealEvent | null>(null)
+  const [biddingType, setBiddingType] = useState<'SEALED_TENDER' | 'SEALED_SECOND_PRICE' | 'OPEN_OUTCRY' | 'DRAFT'>('SEALED_TENDER')
+  const [draft, setDraft] = useState<DraftState | null>(null)
+  const [queueShuffle, setQueueShuffle] = useState<QueueShuffle | null>(null)
+  // Whoever holds the gavel, from the auctioneer pages' presence
+  const [auctioneerName, setAuctioneerName] = useState<string | null>(null)
   const [outcryState, setOutcryState] = useState<LiveOutcryState>({
     currentBid: 0,
     currentBidTeamName: null,
@@ -90,6 +100,8 @@ export function useLiveAuction(auctionId: string) {
   const teamColorMapRef = useRef<Map<string, string>>(new Map())
   const handleStateRef = useRef<(state: AuctionState) => void>(() => {})
   const viewStateRef = useRef<ViewState>('connecting')
+  // Draft picks append to the queue and move past it, so the queue running out doesn't end a draft
+  const isDraftRef = useRef(false)
 
   const setView = useCallback((v: ViewState) => {
     viewStateRef.current = v
@@ -122,6 +134,8 @@ export function useLiveAuction(auctionId: string) {
 
       setAuctionName(data.name)
       if (data.biddingType) setBiddingType(data.biddingType)
+      isDraftRef.current = data.biddingType === 'DRAFT'
+      setQueueShuffle(data.queueShuffle ?? null)
 
       const map = new Map<string, PlayerDetails>()
       for (const p of data.players || []) {
@@ -230,6 +244,8 @@ export function useLiveAuction(auctionId: string) {
 
         if (!state.auctionStarted) {
           setView('waiting')
+        } else if (isDraftRef.current) {
+          setView('between_bids')
         } else if (auctionIdx >= queueLen && queueLen > 0) {
           setView('auction_complete')
         } else {
@@ -248,7 +264,7 @@ export function useLiveAuction(auctionId: string) {
       }
 
       // Auction complete
-      if (auctionIdx >= queueLen && queueLen > 0) {
+      if (auctionIdx >= queueLen && queueLen > 0 && !isDraftRef.current) {
         clearTimers()
         setView('auction_complete')
         prevSoldCountRef.current = soldCount
@@ -263,6 +279,7 @@ export function useLiveAuction(auctionId: string) {
         if (latestSold) {
           clearTimers()
           setLastSoldEvent({
+            playerId: latestSold.playerId,
             player: latestSold.playerName,
             team: latestSold.teamName,
             teamColor: getTeamColor(latestSold.teamName),
@@ -307,6 +324,23 @@ export function useLiveAuction(auctionId: string) {
     handleStateRef.current = handleState
   }, [getTeamColor, clearTimers, setView])
 
+  // Draft mode: who's on the clock and the picks so far
+  const fetchDraft = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/auctions/${auctionId}/draft`)
+      if (!res.ok) return
+      const data = await res.json()
+      if (mountedRef.current) setDraft(data.draft ?? null)
+    } catch (err) {
+      console.error('Failed to fetch draft:', err)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    if (biddingType !== 'DRAFT') return
+    fetchDraft()
+  }, [biddingType, fetchDraft])
+
   // Direct Supabase realtime subscription (same pattern as bidder)
   // On any broadcast event, re-fetch from REST API for reliable state
   useEffect(() => {
@@ -322,6 +356,12 @@ export function useLiveAuction(auctionId: string) {
       .on('broadcast', { event: 'bid-update' }, () => {
         fetchAndHandleState()
       })
+      .on('broadcast', { event: 'sealed-reveal' }, ({ payload }) => {
+        setLastReveal(payload as SealedRevealEvent)
+      })
+      .on('broadcast', { event: 'draft' }, () => {
+        fetchDraft()
+      })
       .on('broadcast', { event: 'outcry-bid' }, ({ payload }) => {
         setOutcryState(prev => {
           const newBid: LiveOutcryBid = {
@@ -343,12 +383,15 @@ export function useLiveAuction(auctionId: string) {
           outcryTimerExpiresAtRef.current = payload.timerExpiresAt
         }
       })
+      .on('presence', { event: 'sync' }, () => {
+        setAuctioneerName(findGavelHolder(channel.presenceState<GavelPresence>())?.name ?? null)
+      })
       .subscribe()
 
     return () => {
       supabase.removeChannel(channel)
     }
-  }, [auctionId, fetchAndHandleState])
+  }, [auctionId, fetchAndHandleState, fetchDraft])
 
   // Poll as fallback (every 10s)
   useEffect(() => {
@@ -399,14 +442,14 @@ export function useLiveAuction(auctionId: string) {
   }, [viewState, biddingType])
 
   // Derived values
-  const currentPlayerName = auctionState?.auctionStarted
+  const currentPlayerId = auctionState?.auctionStarted
     && auctionState.auctionIndex < (auctionState.auctionQueue?.length || 0)
     ? auctionState.auctionQueue[auctionState.auctionIndex]
     : null
 
-  // Look up by ID first (formal model uses IDs), then by name (legacy)
-  const currentPlayer: PlayerDetails | null = currentPlayerName
-    ? playerMap.get(currentPlayerName) || { name: currentPlayerName, playingRole: 'BATSMAN' }
+  // Queue holds player IDs; playerMap is keyed by both ID and name
+  const currentPlayer: PlayerDetails | null = currentPlayerId
+    ? playerMap.get(currentPlayerId) || { name: 'Unknown', playingRole: 'BATSMAN' }
     : null
 
   const teams: LiveTeam[] = (auctionState?.teams || []).map((t) => ({
@@ -433,7 +476,8 @@ export function useLiveAuction(auctionId: string) {
 
   const progress: LiveAuctionProgress = {
     sold: auctionState?.soldPlayers?.length || 0,
-    total: queueTotal,
+    // A draft's queue only holds the picks made so far
+    total: draft ? draft.picks.length + draft.available.length : queueTotal,
     unsold: auctionState?.unsoldPlayers?.length || 0,
   }
 
@@ -443,9 +487,13 @@ export function useLiveAuction(auctionId: string) {
     currentPlayer,
     teams,
     lastSoldEvent,
+    lastReveal,
     progress,
     isConnected,
     biddingType,
     outcryState,
+    draft,
+    queueShuffle,
+    auctioneerName,
   }
 }
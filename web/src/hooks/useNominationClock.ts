@@ -0,0 +1,21 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getNominationSecondsLeft, type NominationState } from '@/lib/nomination'
+
+/** Seconds left on the nomination clock, ticking once a second; null when no clock is running. */
+export function useNominationClock(
+  nomination: Pick<NominationState, 'turnStartedAt' | 'timerSeconds'> | null
+): number | null {
+  const [now, setNow] = useState(() => Date.now())
+  const running = !!nomination?.timerSeconds && !!nomination?.turnStartedAt
+
+  useEffect(() => {
+    if (!running) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [running])
+
+  if (!nomination) return null
+  return getNominationSecondsLeft(nomination.turnStartedAt, nomination.timerSeconds, now)
+}
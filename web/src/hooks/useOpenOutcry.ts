@@ -2,7 +2,10 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { createClient } from '@/lib/supabase'
-import { calculateNextBid, calculateIncrement, type OutcryConfig } from '@/lib/outcry-utils'
+import {
+  calculateNextBid, calculateIncrement, getJumpBidError, roundToOutcryStep,
+  type OutcryConfig, type OutcryRule,
+} from '@/lib/outcry-utils'
 
 export interface OutcryBidEntry {
   id?: string
@@ -10,6 +13,8 @@ export interface OutcryBidEntry {
   teamName: string
   amount: number
   sequence: number
+  jump?: boolean
+  proxy?: boolean // raised by the team's wishlist proxy
   at: string
 }
 
@@ -23,6 +28,7 @@ export interface UseOpenOutcryOptions {
   bidCount: number
   outcryConfig: OutcryConfig
   budgetRemaining: number
+  maxBid?: number // budget minus the squad reserve; defaults to budgetRemaining
   timerExpiresAt?: string | null
   enabled?: boolean
 }
@@ -36,8 +42,12 @@ export interface UseOpenOutcryReturn {
   cantRaiseReason?: string
   timerSecondsLeft: number | null
   bidSequence: OutcryBidEntry[]
-  raisePaddle: () => Promise<boolean>
+  raisePaddle: (amount?: number) => Promise<boolean> // amount above nextBidAmount = jump bid
   isRaising: boolean
+  raiseError: string | null
+  maxJumpAmount: number | null // highest jump bid the auction's cap allows, null = uncapped
+  roundToStep: (amount: number) => number
+  getJumpError: (amount: number) => string | null
 }
 
 export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryReturn {
@@ -51,6 +61,7 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
     bidCount: initialBidCount,
     outcryConfig,
     budgetRemaining,
+    maxBid = budgetRemaining,
     timerExpiresAt: initialTimerExpiresAt,
     enabled = true,
   } = options
@@ -64,6 +75,9 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
   const [timerSecondsLeft, setTimerSecondsLeft] = useState<number | null>(null)
   const [bidSequence, setBidSequence] = useState<OutcryBidEntry[]>([])
   const [isRaising, setIsRaising] = useState(false)
+  const [raiseError, setRaiseError] = useState<string | null>(null)
+  // Rules the server resolved for this round (tier / round overrides applied)
+  const [roundRules, setRoundRules] = useState<OutcryRule[] | null>(null)
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
 
   // Sync from props when server data changes
@@ -123,6 +137,8 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
             teamName: b.teamName,
             amount: b.amount,
             sequence: b.sequence,
+            jump: b.jump,
+            proxy: b.proxy,
             at: b.at,
           })))
         }
@@ -131,6 +147,7 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
         if (data.currentBidTeamName) setCurrentBidTeamName(data.currentBidTeamName)
         if (data.bidCount != null) setBidCount(data.bidCount)
         if (data.timerExpiresAt) setTimerExpiresAt(data.timerExpiresAt)
+        setRoundRules(data.rules ?? null)
       })
       .catch(console.error)
 
@@ -159,6 +176,8 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
             teamName: payload.teamName,
             amount: payload.amount,
             sequence: payload.sequence,
+            jump: payload.jump,
+            proxy: payload.proxy,
             at: new Date().toISOString(),
           }
           // Add to front (most recent first), limit to 50
@@ -175,11 +194,23 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
   // Calculate derived values
   const basePrice = initialBasePrice
   const increment = outcryConfig
-    ? calculateIncrement(currentBid, basePrice, outcryConfig)
+    ? calculateIncrement(currentBid, basePrice, outcryConfig, { roundRules })
     : basePrice
   const nextBidAmount = bidCount === 0
     ? basePrice
-    : (outcryConfig ? calculateNextBid(currentBid, basePrice, outcryConfig) : currentBid + basePrice)
+    : (outcryConfig ? calculateNextBid(currentBid, basePrice, outcryConfig, { roundRules }) : currentBid + basePrice)
+  const maxJumpAmount = outcryConfig?.max_jump != null ? nextBidAmount + outcryConfig.max_jump : null
+
+  const roundToStep = useCallback(
+    (amount: number) => roundToOutcryStep(amount, nextBidAmount, basePrice, outcryConfig, { roundRules }),
+    [nextBidAmount, basePrice, outcryConfig, roundRules]
+  )
+
+  const getJumpError = useCallback((amount: number): string | null => {
+    if (amount > budgetRemaining) return 'Insufficient budget'
+    if (amount > maxBid) return `You can bid up to ${maxBid}`
+    return getJumpBidError(amount, nextBidAmount, basePrice, outcryConfig, { roundRules })
+  }, [budgetRemaining, maxBid, nextBidAmount, basePrice, outcryConfig, roundRules])
 
   // Can raise?
   let canRaise = true
@@ -194,6 +225,9 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
   } else if (nextBidAmount > budgetRemaining) {
     canRaise = false
     cantRaiseReason = 'Insufficient budget'
+  } else if (nextBidAmount > maxBid) {
+    canRaise = false
+    cantRaiseReason = 'Rest of your budget is held back to complete your squad'
   } else if (timerSecondsLeft !== null && timerSecondsLeft <= 0) {
     canRaise = false
     cantRaiseReason = 'Timer expired'
@@ -202,20 +236,30 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
     cantRaiseReason = 'Submitting...'
   }
 
-  const raisePaddle = useCallback(async (): Promise<boolean> => {
+  const raisePaddle = useCallback(async (amount?: number): Promise<boolean> => {
     if (!canRaise || !roundId) return false
 
+    if (amount != null && amount !== nextBidAmount) {
+      const jumpError = getJumpError(amount)
+      if (jumpError) {
+        setRaiseError(jumpError)
+        return false
+      }
+    }
+
     setIsRaising(true)
+    setRaiseError(null)
     try {
       const res = await fetch(`/api/auctions/${auctionId}/outcry/raise`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ teamId }),
+        body: JSON.stringify({ teamId, amount }),
       })
 
       if (!res.ok) {
         const err = await res.json()
         console.error('[useOpenOutcry] Raise failed:', err)
+        setRaiseError(err.error || 'Failed to raise paddle')
         return false
       }
 
@@ -236,7 +280,7 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
     } finally {
       setIsRaising(false)
     }
-  }, [canRaise, roundId, auctionId, teamId])
+  }, [canRaise, roundId, nextBidAmount, getJumpError, auctionId, teamId])
 
   return {
     currentBid,
@@ -251,5 +295,9 @@ export function useOpenOutcry(options: UseOpenOutcryOptions): UseOpenOutcryRetur
     bidSequence,
     raisePaddle,
     isRaising,
+    raiseError,
+    maxJumpAmount,
+    roundToStep,
+    getJumpError,
   }
 }
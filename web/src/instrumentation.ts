@@ -0,0 +1,9 @@
+// Runs once per server start. With OUTCRY_TIMER_SCHEDULER=local the Node
+// server sweeps expired outcry rounds itself (no cron needed, e.g. local dev
+// or a single long-running container).
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.OUTCRY_TIMER_SCHEDULER === 'local') {
+    const { startOutcryTimerScheduler } = await import('@/lib/outcry-timer')
+    startOutcryTimerScheduler()
+  }
+}
@@ -0,0 +1,144 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// Accelerated round for unsold players (20260227130000 migration). After the
+// main queue, the auctioneer opens a round, captains pick which unsold
+// players they want back, and START turns the picks into a fresh queue —
+// optionally at a reduced base price. Events go out on `auction-${id}` as
+// 'accelerated-round': lifecycle changes from the auctioneer through
+// auction-realtime.ts, pick changes from the captain picks route.
+
+export type AcceleratedRoundStatus = 'PICKING' | 'RUNNING' | 'CLOSED'
+
+export type AcceleratedRoundEventType = 'OPENED' | 'PICKS_UPDATED' | 'STARTED' | 'CLOSED'
+
+export interface AcceleratedRoundEvent {
+  type: AcceleratedRoundEventType
+  roundId: string
+  teamId?: string // PICKS_UPDATED: the team that changed its picks
+}
+
+export interface AcceleratedPlayer {
+  id: string
+  name: string
+  tierName: string | null
+  tierBasePrice: number
+  basePrice: number | null // reduced base price once the round is running, null = tier base price
+  pickedBy: Array<{ teamId: string; teamName: string }>
+}
+
+export interface AcceleratedRound {
+  id: string
+  status: AcceleratedRoundStatus
+  players: AcceleratedPlayer[] // PICKING: every unsold player; RUNNING/CLOSED: the ones brought back
+}
+
+/**
+ * Players who go into the accelerated queue: every unsold player at least
+ * one team picked, in the order they went unsold. Mirrors start_accelerated_round.
+ */
+export function buildAcceleratedQueue(unsoldPlayerIds: string[], pickedPlayerIds: Iterable<string>): string[] {
+  const picked = new Set(pickedPlayerIds)
+  return unsoldPlayerIds.filter(id => picked.has(id))
+}
+
+/** A tier base price cut by `percent`, never below 1. */
+export function getReducedBasePrice(tierBasePrice: number, percent: number): number {
+  const clamped = Math.min(100, Math.max(0, percent))
+  return Math.max(1, Math.round(tierBasePrice * (100 - clamped) / 100))
+}
+
+/**
+ * Reduced base prices to send with START: only the players whose price
+ * actually drops, keyed by player id.
+ */
+export function getReducedBasePrices(players: Pick<AcceleratedPlayer, 'id' | 'tierBasePrice'>[], percent: number): Record<string, number> {
+  const prices: Record<string, number> = {}
+  for (const player of players) {
+    const reduced = getReducedBasePrice(player.tierBasePrice, percent)
+    if (reduced < player.tierBasePrice) prices[player.id] = reduced
+  }
+  return prices
+}
+
+/**
+ * The auction's current accelerated round (in progress, else the latest), or
+ * null if there has never been one. Pass teamId to only include that team's
+ * picks — captains don't see who else asked for a player.
+ */
+export async function loadAcceleratedRound(
+  supabase: SupabaseClient,
+  auctionId: string,
+  teamId?: string
+): Promise<AcceleratedRound | null> {
+  const { data: rounds } = await supabase
+    .from('accelerated_rounds')
+    .select('id, status, created_at')
+    .eq('auction_id', auctionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  const round = rounds?.[0]
+  if (!round) return null
+
+  const [auctionResult, picksResult, roundPlayersResult] = await Promise.all([
+    supabase.from('auctions').select('queue_state').eq('id', auctionId).maybeSingle(),
+    supabase
+      .from('accelerated_picks')
+      .select('team_id, player_id, team:teams!team_id(name)')
+      .eq('accelerated_round_id', round.id),
+    supabase
+      .from('accelerated_round_players')
+      .select('player_id, base_price')
+      .eq('accelerated_round_id', round.id),
+  ])
+
+  const roundPlayers = roundPlayersResult.data || []
+  const playerIds = round.status === 'PICKING'
+    ? ((auctionResult.data?.queue_state as { unsoldPlayers?: string[] } | null)?.unsoldPlayers || [])
+    : roundPlayers.map(p => p.player_id)
+
+  const { data: players } = playerIds.length > 0
+    ? await supabase
+      .from('players')
+      .select('id, name, tier:tiers!tier_id(name, base_price)')
+      .in('id', playerIds)
+    : { data: [] }
+
+  const playerMap = new Map((players || []).map(p => [p.id, p]))
+  const priceMap = new Map(roundPlayers.map(p => [p.player_id, p.base_price as number | null]))
+  const picks = (picksResult.data || []).filter(p => !teamId || p.team_id === teamId)
+
+  return {
+    id: round.id,
+    status: round.status as AcceleratedRoundStatus,
+    players: playerIds
+      .filter(id => playerMap.has(id))
+      .map(id => {
+        const player = playerMap.get(id)!
+        const tier = player.tier as unknown as { name: string; base_price: number } | null
+        return {
+          id,
+          name: player.name,
+          tierName: tier?.name || null,
+          tierBasePrice: tier?.base_price ?? 0,
+          basePrice: priceMap.get(id) ?? null,
+          pickedBy: picks
+            .filter(p => p.player_id === id)
+            .map(p => ({
+              teamId: p.team_id,
+              teamName: (p.team as unknown as { name: string } | null)?.name || 'Unknown',
+            })),
+        }
+      }),
+  }
+}
+
+export async function broadcastAcceleratedRound(supabase: SupabaseClient, auctionId: string, event: AcceleratedRoundEvent) {
+  const channel = supabase.channel(`auction-${auctionId}`)
+  await channel.send({
+    type: 'broadcast',
+    event: 'accelerated-round',
+    payload: event,
+  })
+  await supabase.removeChannel(channel)
+}
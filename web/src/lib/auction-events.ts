@@ -0,0 +1,201 @@
+// Auctioneer event log (audit_logs) — timeline + revert previews.
+// The undo/redo stack walk mirrors auction_event_stacks() in the
+// 20260227260000_log_nominations_and_picks_as_events migration; keep the two in step.
+
+export type AuctionEventAction = 'SOLD' | 'UNSOLD' | 'DEFER' | 'NOMINATE' | 'PICK' | 'ACCELERATE' | 'UNDO'
+
+export const AUCTION_EVENT_ACTIONS: AuctionEventAction[] = [
+  'SOLD', 'UNSOLD', 'DEFER', 'NOMINATE', 'PICK', 'ACCELERATE', 'UNDO',
+]
+
+// Nominations, draft picks and accelerated starts can be undone but not redone
+const FINAL_ACTIONS: AuctionEventAction[] = ['NOMINATE', 'PICK', 'ACCELERATE']
+
+export interface AuctionEvent {
+  id: string
+  seq: number
+  action: AuctionEventAction
+  at: string | null
+  beforeVersion: number
+  afterVersion: number
+  playerId: string | null
+  playerName: string | null
+  teamName: string | null
+  price: number
+  redoOf: string | null
+  reverted: string[] // UNDO only: event IDs, newest first
+}
+
+/**
+ * applied  — in effect, can be reverted
+ * undone   — reverted, can be redone
+ * discarded — reverted and then branched away from, reverted for good (NOMINATE,
+ *             PICK, ACCELERATE), or predates a queue restart
+ */
+export type TimelineEntryStatus = 'applied' | 'undone' | 'discarded'
+
+export interface TimelineEntry extends AuctionEvent {
+  status: TimelineEntryStatus
+}
+
+export interface AuctionTimeline {
+  entries: TimelineEntry[] // forward actions only, newest first
+  done: string[]           // undo stack, oldest first
+  redo: string[]           // redo stack, next redo last
+}
+
+// audit_logs.details as written by apply_auction_action, nominate_player, make_draft_pick
+// and start_accelerated_round
+interface AuctionEventDetails {
+  seq?: number
+  beforeVersion?: number
+  afterVersion?: number
+  playerId?: string | null
+  playerName?: string | null
+  teamName?: string | null
+  price?: number
+  redoOf?: string | null
+  reverted?: string[]
+}
+
+/**
+ * Map an audit_logs row to an AuctionEvent.
+ * Returns null for rows that aren't auctioneer actions.
+ */
+export function parseAuctionEvent(row: {
+  id: string
+  action: string
+  timestamp?: string | null
+  details: AuctionEventDetails | null
+}): AuctionEvent | null {
+  const d = row.details
+  if (!d || typeof d.seq !== 'number') return null
+  if (!AUCTION_EVENT_ACTIONS.includes(row.action as AuctionEventAction)) return null
+
+  return {
+    id: row.id,
+    seq: d.seq,
+    action: row.action as AuctionEventAction,
+    at: row.timestamp ?? null,
+    beforeVersion: d.beforeVersion ?? 0,
+    afterVersion: d.afterVersion ?? 0,
+    playerId: d.playerId ?? null,
+    playerName: d.playerName ?? null,
+    teamName: d.teamName ?? null,
+    price: d.price ?? 0,
+    redoOf: d.redoOf ?? null,
+    reverted: Array.isArray(d.reverted) ? d.reverted : [],
+  }
+}
+
+/**
+ * Walk the event stream in seq order and derive the undo/redo stacks.
+ * A break in the queue_version chain (or a tip that doesn't match the
+ * current version) means queue_state was replaced outside the log, so
+ * everything before it is discarded. Reverting a NOMINATE, PICK or
+ * ACCELERATE takes it off the undo stack without putting it on the redo stack.
+ */
+export function buildAuctionTimeline(
+  events: AuctionEvent[],
+  currentVersion: number
+): AuctionTimeline {
+  const ordered = [...events].sort((a, b) => a.seq - b.seq)
+  let done: string[] = []
+  let redo: string[] = []
+  let lastVersion: number | null = null
+  const final = new Set(ordered.filter(e => FINAL_ACTIONS.includes(e.action)).map(e => e.id))
+
+  for (const event of ordered) {
+    if (lastVersion !== null && event.beforeVersion !== lastVersion) {
+      done = []
+      redo = []
+    }
+
+    if (event.action === 'UNDO') {
+      for (const id of event.reverted) {
+        done = done.filter(d => d !== id)
+        if (!final.has(id)) redo = [...redo, id]
+      }
+    } else {
+      redo = event.redoOf ? redo.filter(r => r !== event.redoOf) : []
+      done = [...done, event.id]
+    }
+
+    lastVersion = event.afterVersion
+  }
+
+  if (lastVersion !== currentVersion) {
+    done = []
+    redo = []
+  }
+
+  const doneSet = new Set(done)
+  const redoSet = new Set(redo)
+  const entries: TimelineEntry[] = ordered
+    .filter(e => e.action !== 'UNDO')
+    .reverse()
+    .map(e => ({
+      ...e,
+      status: doneSet.has(e.id) ? 'applied' : redoSet.has(e.id) ? 'undone' : 'discarded',
+    }))
+
+  return { entries, done, redo }
+}
+
+export interface RevertPreview {
+  effects: string[]          // newest first, one line per reverted action
+  playerOnBlock: string | null
+  refund: Array<{ teamName: string; amount: number }>
+}
+
+function describeRevert(entry: TimelineEntry): string {
+  const player = entry.playerName || 'Unknown player'
+  switch (entry.action) {
+    case 'SOLD':
+      return `Unsell ${player} from ${entry.teamName || 'team'} (refund ${entry.price})`
+    case 'UNSOLD':
+      return `Take ${player} off the unsold list`
+    case 'DEFER':
+      return `Bring ${player} back from deferred`
+    case 'NOMINATE':
+      return `Withdraw the nomination of ${player}${entry.teamName ? ` (${entry.teamName} nominates again)` : ''}`
+    case 'PICK':
+      return `Return ${player} to the draft pool${entry.teamName ? ` (${entry.teamName} picks again)` : ''}`
+    case 'ACCELERATE':
+      return 'Put the accelerated round back to captains picking'
+    default:
+      return `Revert ${entry.action} for ${player}`
+  }
+}
+
+/**
+ * Preview reverting back to (and including) eventId: every applied event
+ * from the newest down to it is undone, and its player returns to the block
+ * (a reverted NOMINATE or PICK sends its player back to the pool instead).
+ * Returns null if the event isn't currently revertible.
+ */
+export function previewRevert(timeline: AuctionTimeline, eventId: string): RevertPreview | null {
+  const pos = timeline.done.indexOf(eventId)
+  if (pos === -1) return null
+
+  const byId = new Map(timeline.entries.map(e => [e.id, e]))
+  const target = byId.get(eventId)
+  const reverted = timeline.done
+    .slice(pos)
+    .reverse()
+    .map(id => byId.get(id))
+    .filter((e): e is TimelineEntry => !!e)
+
+  const refundByTeam = new Map<string, number>()
+  for (const e of reverted) {
+    if (e.action === 'SOLD' && e.teamName) {
+      refundByTeam.set(e.teamName, (refundByTeam.get(e.teamName) || 0) + e.price)
+    }
+  }
+
+  return {
+    effects: reverted.map(describeRevert),
+    playerOnBlock: target && !FINAL_ACTIONS.includes(target.action) ? target.playerName : null,
+    refund: [...refundByTeam.entries()].map(([teamName, amount]) => ({ teamName, amount })),
+  }
+}
@@ -0,0 +1,192 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { AuctionRole } from '@/lib/auction-permissions'
+
+// The gavel (20260227240000 migration): only one browser drives /auction/[id]
+// at a time. Each auctioneer tab makes up a session ID and sends it with every
+// round action; the server keeps the session holding the gavel in
+// auction_gavels and turns the others away. The holder's page sends a
+// heartbeat, and a gavel gone quiet can be picked up by any owner or
+// moderator. Handing over is an offer to one user that they accept. The
+// auctioneer pages also track themselves in presence on `auction-${id}`, which
+// is how the live view shows who is running the auction.
+
+export const GAVEL_SESSION_HEADER = 'x-gavel-session'
+
+/** Error code sent (with 423) when another window holds the gavel, unlike a stale queue's 409. */
+export const GAVEL_HELD_CODE = 'GAVEL_HELD'
+
+export const GAVEL_HEARTBEAT_SECONDS = 15
+
+/** A gavel with no heartbeat for this long is free for the taking. */
+export const GAVEL_STALE_SECONDS = 45
+
+export interface AuctionGavel {
+  holderUserId: string
+  holderName: string
+  sessionId: string
+  claimedAt: string
+  heartbeatAt: string
+  offeredToUserId: string | null
+  offeredToName: string | null
+}
+
+/** What an auctioneer tab sees. Session IDs stay on the server. */
+export interface GavelView {
+  holder: { userId: string; name: string } | null
+  heldByYou: boolean
+  stale: boolean
+  offeredTo: { userId: string; name: string } | null
+  you: { userId: string; name: string; role: AuctionRole }
+}
+
+/** What each auctioneer tab tracks in presence. */
+export interface GavelPresence {
+  userId: string
+  name: string
+  role: AuctionRole
+  holdsGavel: boolean
+}
+
+/** Broadcast as `gavel` whenever it changes hands or is offered. */
+export interface GavelEvent {
+  holderUserId: string | null
+  holderName: string | null
+  offeredToUserId: string | null
+}
+
+/**
+ * How a session could come to hold the gavel: it already does (HELD),
+ * nobody has it (FREE), the holder went quiet (STALE), it was offered to
+ * this user (OFFERED), the owner takes it back or a user moves it from
+ * another of their own windows (TAKEN_BACK, only with force), or not at
+ * all (BLOCKED).
+ */
+export type GavelClaim = 'HELD' | 'FREE' | 'STALE' | 'OFFERED' | 'TAKEN_BACK' | 'BLOCKED'
+
+export function isGavelStale(gavel: Pick<AuctionGavel, 'heartbeatAt'>, now = Date.now()): boolean {
+  return now - new Date(gavel.heartbeatAt).getTime() > GAVEL_STALE_SECONDS * 1000
+}
+
+export function getGavelClaim(
+  gavel: AuctionGavel | null,
+  claimant: { userId: string; sessionId: string; role: AuctionRole; force?: boolean },
+  now = Date.now()
+): GavelClaim {
+  if (!gavel) return 'FREE'
+  if (gavel.sessionId === claimant.sessionId) return 'HELD'
+  if (isGavelStale(gavel, now)) return 'STALE'
+  if (gavel.offeredToUserId === claimant.userId) return 'OFFERED'
+  if (claimant.force && (claimant.role === 'OWNER' || gavel.holderUserId === claimant.userId)) return 'TAKEN_BACK'
+  return 'BLOCKED'
+}
+
+export function toGavelView(
+  gavel: AuctionGavel | null,
+  sessionId: string | null,
+  you: GavelView['you'],
+  now = Date.now()
+): GavelView {
+  return {
+    holder: gavel ? { userId: gavel.holderUserId, name: gavel.holderName } : null,
+    heldByYou: !!gavel && !!sessionId && gavel.sessionId === sessionId,
+    stale: !!gavel && isGavelStale(gavel, now),
+    offeredTo: gavel?.offeredToUserId
+      ? { userId: gavel.offeredToUserId, name: gavel.offeredToName || 'Someone' }
+      : null,
+    you,
+  }
+}
+
+/** Whoever holds the gavel according to presence, for the live view. */
+export function findGavelHolder(presence: Record<string, GavelPresence[]>): GavelPresence | null {
+  for (const entries of Object.values(presence)) {
+    const holder = entries.find(p => p.holdsGavel)
+    if (holder) return holder
+  }
+  return null
+}
+
+// The helpers below need a service-role client: only the API touches auction_gavels
+
+export async function loadGavel(supabase: SupabaseClient, auctionId: string): Promise<AuctionGavel | null> {
+  const { data } = await supabase
+    .from('auction_gavels')
+    .select(`
+      holder_user_id, session_id, claimed_at, heartbeat_at, offered_to_user_id,
+      holder:users!holder_user_id(name),
+      offered_to:users!offered_to_user_id(name)
+    `)
+    .eq('auction_id', auctionId)
+    .maybeSingle()
+
+  if (!data) return null
+  return {
+    holderUserId: data.holder_user_id,
+    holderName: (data.holder as unknown as { name: string } | null)?.name || 'Someone',
+    sessionId: data.session_id,
+    claimedAt: data.claimed_at,
+    heartbeatAt: data.heartbeat_at,
+    offeredToUserId: data.offered_to_user_id,
+    offeredToName: (data.offered_to as unknown as { name: string } | null)?.name ?? null,
+  }
+}
+
+/**
+ * Give the gavel to this session. `previous` is the gavel as last read; the
+ * write only lands if it hasn't changed since (no new holder, no heartbeat),
+ * so two tabs racing for it can't both win. Returns whether it landed.
+ */
+export async function takeGavel(
+  supabase: SupabaseClient,
+  auctionId: string,
+  userId: string,
+  sessionId: string,
+  previous: AuctionGavel | null
+): Promise<boolean> {
+  const now = new Date().toISOString()
+  const holder = {
+    holder_user_id: userId,
+    session_id: sessionId,
+    claimed_at: now,
+    heartbeat_at: now,
+    offered_to_user_id: null,
+    offered_at: null,
+  }
+
+  if (!previous) {
+    const { error } = await supabase
+      .from('auction_gavels')
+      .insert({ auction_id: auctionId, ...holder })
+    return !error
+  }
+
+  const { data } = await supabase
+    .from('auction_gavels')
+    .update(holder)
+    .eq('auction_id', auctionId)
+    .eq('session_id', previous.sessionId)
+    .eq('heartbeat_at', previous.heartbeatAt)
+    .select('auction_id')
+  return (data || []).length > 0
+}
+
+export async function heartbeatGavel(supabase: SupabaseClient, auctionId: string, sessionId: string): Promise<void> {
+  await supabase
+    .from('auction_gavels')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('auction_id', auctionId)
+    .eq('session_id', sessionId)
+}
+
+export async function broadcastGavel(supabase: SupabaseClient, auctionId: string): Promise<void> {
+  const gavel = await loadGavel(supabase, auctionId)
+  const payload: GavelEvent = {
+    holderUserId: gavel?.holderUserId ?? null,
+    holderName: gavel?.holderName ?? null,
+    offeredToUserId: gavel?.offeredToUserId ?? null,
+  }
+
+  const channel = supabase.channel(`auction-${auctionId}`)
+  await channel.send({ type: 'broadcast', event: 'gavel', payload })
+  await supabase.removeChannel(channel)
+}
@@ -0,0 +1,52 @@
+import { z } from 'zod'
+
+// Passcodes for private auctions (20260227200000 migration). The owner sets one or
+// has the server generate it; joiners who aren't already in the auction must give
+// it. join_auction_with_passcode does the check and the rate limiting — these
+// constants mirror it for messages and tests.
+
+export const PASSCODE_MAX_ATTEMPTS = 5
+export const PASSCODE_WINDOW_MINUTES = 15
+
+export const GENERATED_PASSCODE_LENGTH = 6
+
+// No 0/O or 1/I/L, so a code read out loud or off a screen types back in cleanly
+const PASSCODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+export const passcodeSchema = z
+  .string()
+  .trim()
+  .min(4, 'Passcode must be at least 4 characters')
+  .max(32, 'Passcode must be at most 32 characters')
+
+/** Passcodes are compared trimmed and case-insensitively; stored the same way. */
+export function normalizePasscode(passcode: string): string {
+  return passcode.trim().toUpperCase()
+}
+
+export function generatePasscode(length = GENERATED_PASSCODE_LENGTH): string {
+  const bytes = new Uint32Array(length)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, b => PASSCODE_ALPHABET[b % PASSCODE_ALPHABET.length]).join('')
+}
+
+export type PasscodeJoinStatus = 'JOINED' | 'NOT_REQUIRED' | 'WRONG_PASSCODE' | 'RATE_LIMITED'
+
+/** What to tell someone after a failed attempt. */
+export function getPasscodeErrorMessage(
+  status: PasscodeJoinStatus,
+  attemptsLeft: number | null,
+  retryAfterSeconds: number | null
+): string {
+  if (status === 'RATE_LIMITED') {
+    const minutes = Math.max(1, Math.ceil((retryAfterSeconds ?? PASSCODE_WINDOW_MINUTES * 60) / 60))
+    return `Too many wrong passcodes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+  }
+  if (attemptsLeft === 0) {
+    return `Incorrect passcode. Try again in ${PASSCODE_WINDOW_MINUTES} minutes.`
+  }
+  if (attemptsLeft !== null && attemptsLeft <= 2) {
+    return `Incorrect passcode. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+  }
+  return 'Incorrect passcode'
+}
@@ -0,0 +1,222 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  GAVEL_HELD_CODE, GAVEL_SESSION_HEADER, broadcastGavel, getGavelClaim, heartbeatGavel, loadGavel, takeGavel,
+} from '@/lib/auction-gavel'
+
+// Who may do what to an auction. Every mutating /api/auctions/[id] route
+// checks its operation here before touching anything: owners can do it all,
+// moderators run the rounds (open, close, SOLD/UNSOLD) but can't change the
+// setup or delete, captains can bid and manage their own team's admins and
+// captaincy (checkTeamPermission), viewers can't change anything.
+
+export type AuctionRole = 'OWNER' | 'MODERATOR' | 'CAPTAIN' | 'VIEWER'
+
+export type AuctionOperation =
+  | 'CONFIGURE' | 'DELETE' | 'RUN_ROUNDS' | 'BID'
+  | 'MANAGE_TEAM_ADMINS' | 'CHANGE_CAPTAIN'
+
+export const ROLE_OPERATIONS: Record<AuctionRole, AuctionOperation[]> = {
+  OWNER: ['CONFIGURE', 'DELETE', 'RUN_ROUNDS', 'BID', 'MANAGE_TEAM_ADMINS', 'CHANGE_CAPTAIN'],
+  MODERATOR: ['RUN_ROUNDS', 'BID'],
+  CAPTAIN: ['BID', 'MANAGE_TEAM_ADMINS', 'CHANGE_CAPTAIN'],
+  VIEWER: [],
+}
+
+const OPERATION_LABELS: Record<AuctionOperation, string> = {
+  CONFIGURE: 'change this auction',
+  DELETE: 'delete this auction',
+  RUN_ROUNDS: 'run rounds in this auction',
+  BID: 'bid in this auction',
+  MANAGE_TEAM_ADMINS: 'manage team admins',
+  CHANGE_CAPTAIN: 'change team captains',
+}
+
+export interface AuctionPermissionResult {
+  success: boolean
+  role?: AuctionRole
+  error?: string
+  statusCode?: number
+  code?: string
+}
+
+export function canPerform(role: AuctionRole | null | undefined, operation: AuctionOperation): boolean {
+  return !!role && ROLE_OPERATIONS[role].includes(operation)
+}
+
+/**
+ * The user's role in the auction, or null if they have none. The owner
+ * column wins over participations; a team's captain counts as CAPTAIN even
+ * if they joined as a viewer or never joined at all.
+ */
+export async function getAuctionRole(
+  supabase: SupabaseClient,
+  auction: { id: string; owner_id: string | null },
+  userId: string
+): Promise<AuctionRole | null> {
+  if (auction.owner_id === userId) return 'OWNER'
+
+  const { data: participation } = await supabase
+    .from('auction_participations')
+    .select('role')
+    .eq('auction_id', auction.id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const role = (participation?.role ?? null) as AuctionRole | null
+  if (role && role !== 'VIEWER') return role
+
+  const { data: captainOf } = await supabase
+    .from('teams')
+    .select('id')
+    .eq('auction_id', auction.id)
+    .eq('captain_user_id', userId)
+    .limit(1)
+
+  return captainOf && captainOf.length > 0 ? 'CAPTAIN' : role
+}
+
+/**
+ * Check that the user may perform the operation on the auction. Failures
+ * carry the status to answer with: 401 signed out, 404 no such auction
+ * (or not visible to them), 403 their role doesn't allow it.
+ */
+export async function checkAuctionPermission(
+  auctionId: string,
+  userId: string | null,
+  operation: AuctionOperation
+): Promise<AuctionPermissionResult> {
+  if (!userId) {
+    return { success: false, error: 'Authentication required', statusCode: 401 }
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('id, owner_id')
+      .eq('id', auctionId)
+      .maybeSingle()
+
+    if (!auction) {
+      return { success: false, error: 'Auction not found', statusCode: 404 }
+    }
+
+    const role = await getAuctionRole(supabase, auction, userId)
+    if (!canPerform(role, operation)) {
+      return {
+        success: false,
+        role: role ?? undefined,
+        error: `You don't have permission to ${OPERATION_LABELS[operation]}`,
+        statusCode: 403,
+      }
+    }
+
+    return { success: true, role: role! }
+  } catch (error) {
+    console.error('Auction permission check failed:', error)
+    return { success: false, error: 'Internal server error during authorization', statusCode: 500 }
+  }
+}
+
+/**
+ * checkAuctionPermission for an operation on one team. The owner may do it
+ * for any team; a captain only for the team they captain (404 if the team
+ * isn't in the auction, 403 if it isn't theirs).
+ */
+export async function checkTeamPermission(
+  auctionId: string,
+  teamId: string,
+  userId: string | null,
+  operation: AuctionOperation
+): Promise<AuctionPermissionResult> {
+  const access = await checkAuctionPermission(auctionId, userId, operation)
+  if (!access.success || access.role === 'OWNER') return access
+
+  try {
+    const supabase = await createClient()
+
+    const { data: team } = await supabase
+      .from('teams')
+      .select('id, captain_user_id')
+      .eq('id', teamId)
+      .eq('auction_id', auctionId)
+      .maybeSingle()
+
+    if (!team) {
+      return { success: false, role: access.role, error: 'Team not found', statusCode: 404 }
+    }
+
+    if (team.captain_user_id !== userId) {
+      return {
+        success: false,
+        role: access.role,
+        error: `Only this team's captain or the auctioneer can ${OPERATION_LABELS[operation]}`,
+        statusCode: 403,
+      }
+    }
+
+    return access
+  } catch (error) {
+    console.error('Team permission check failed:', error)
+    return { success: false, error: 'Internal server error during authorization', statusCode: 500 }
+  }
+}
+
+/**
+ * checkAuctionPermission for RUN_ROUNDS, plus the gavel: only the browser
+ * session holding it may drive the auction. A free or abandoned gavel goes
+ * to whoever acts first; acting also counts as a heartbeat. Sessions that
+ * don't hold it get 423 with code GAVEL_HELD and the holder's name.
+ */
+export async function checkRoundControl(
+  request: Request,
+  auctionId: string,
+  userId: string | null
+): Promise<AuctionPermissionResult> {
+  const access = await checkAuctionPermission(auctionId, userId, 'RUN_ROUNDS')
+  if (!access.success || !userId) return access
+
+  const sessionId = request.headers.get(GAVEL_SESSION_HEADER)
+  if (!sessionId) {
+    return { success: false, role: access.role, error: 'Open the auction page to run rounds', statusCode: 400 }
+  }
+
+  try {
+    const admin = createAdminClient()
+    const gavel = await loadGavel(admin, auctionId)
+    const claim = getGavelClaim(gavel, { userId, sessionId, role: access.role! })
+
+    if (claim === 'HELD') {
+      await heartbeatGavel(admin, auctionId, sessionId)
+      return access
+    }
+    if ((claim === 'FREE' || claim === 'STALE') && await takeGavel(admin, auctionId, userId, sessionId, gavel)) {
+      await broadcastGavel(admin, auctionId)
+      return access
+    }
+
+    const holder = gavel?.holderUserId === userId ? 'You are' : `${gavel?.holderName || 'Someone else'} is`
+    return {
+      success: false,
+      role: access.role,
+      error: `${holder} running this auction from another window — take over the gavel first`,
+      statusCode: 423,
+      code: GAVEL_HELD_CODE,
+    }
+  } catch (error) {
+    console.error('Gavel check failed:', error)
+    return { success: false, error: 'Internal server error during authorization', statusCode: 500 }
+  }
+}
+
+/**
+ * Client for round writes once checkAuctionPermission has passed. RLS only
+ * lets the owner write rounds, results and queue state, so a moderator's
+ * round actions go through the service role instead.
+ */
+export async function getRoundClient(role: AuctionRole | undefined): Promise<SupabaseClient> {
+  return role === 'OWNER' ? createClient() : createAdminClient()
+}
@@ -1,5 +1,10 @@
 import { createClient } from '@/lib/supabase'
 import { RealtimeChannel } from '@supabase/supabase-js'
+import type { RtmOffer } from '@/lib/rtm'
+import type { AcceleratedRoundEvent } from '@/lib/accelerated-round'
+import type { NominationEvent } from '@/lib/nomination'
+import type { DraftEvent } from '@/lib/draft'
+import type { GavelEvent, GavelPresence } from '@/lib/auction-gavel'
 
 // Formal model types — derived from rounds, bids, auction_results, teams
 export interface AuctionState {
@@ -9,15 +14,27 @@ export interface AuctionState {
   teams: TeamState[]
   currentRound: RoundState | null
   soldPlayers: SoldPlayer[]
-  unsoldPlayers: string[]
-  deferredPlayers: string[]
-  auctionHistory: Array<{ player: string; team: string; price: number; action: string }>
-  auctionQueue: string[]   // player names in queue order
+  unsoldPlayers: string[]   // player IDs
+  deferredPlayers: string[] // player IDs
+  auctionHistory: AuctionHistoryEntry[]
+  auctionQueue: string[]   // player IDs in queue order
   auctionIndex: number     // current position in queue
   auctionStarted: boolean
+  queueVersion?: number    // optimistic lock on queue_state, echoed back on actions
   lastUpdated: string
 }
 
+// One auctioneer action in queue_state.auctionHistory. IDs are the keys; player/team
+// are names captured at the time of the action, for display only.
+export interface AuctionHistoryEntry {
+  playerId: string
+  player: string
+  teamId: string | null
+  team: string
+  price: number
+  action: string
+}
+
 export interface TeamState {
   id: string
   name: string
@@ -58,6 +75,15 @@ class AuctionRealtimeManager {
   private onStateChangeCallbacks: ((state: AuctionState) => void)[] = []
   private onBidsChangeCallbacks: ((bids: Record<string, FormalBid>) => void)[] = []
   private onBidUpdateCallbacks: ((payload: { roundId: string; teamId: string; teamName: string; amount: number }) => void)[] = []
+  private onRtmOfferCallbacks: ((offer: RtmOffer) => void)[] = []
+  private onAcceleratedRoundCallbacks: ((event: AcceleratedRoundEvent) => void)[] = []
+  private onNominationCallbacks: ((event: NominationEvent) => void)[] = []
+  private onDraftCallbacks: ((event: DraftEvent) => void)[] = []
+  // Gavel listeners and this tab's presence outlive re-subscribing; their owners remove them
+  private onPresenceCallbacks: ((auctioneers: GavelPresence[]) => void)[] = []
+  private onGavelCallbacks: ((event: GavelEvent) => void)[] = []
+  private presence: GavelPresence | null = null
+  private subscribed = false
 
   // Subscribe to auction changes via postgres_changes + broadcast
   subscribeToAuction(auctionId: string) {
@@ -71,6 +97,7 @@ class AuctionRealtimeManager {
     let subscribed = false
 
     this.channel = this.supabase.channel(`auction-${auctionId}`)
+    const channel = this.channel
 
     // Listen for broadcast events (auctioneer pushes state updates)
     ;(this.channel as any)
@@ -92,10 +119,46 @@ class AuctionRealtimeManager {
           this.onBidUpdateCallbacks.forEach(callback => callback(data))
         }
       })
+      .on('broadcast', { event: 'rtm-offer' }, (msg: { payload?: RtmOffer }) => {
+        const offer = msg?.payload
+        if (offer?.id) {
+          this.onRtmOfferCallbacks.forEach(callback => callback(offer))
+        }
+      })
+      .on('broadcast', { event: 'accelerated-round' }, (msg: { payload?: AcceleratedRoundEvent }) => {
+        const event = msg?.payload
+        if (event?.roundId) {
+          this.onAcceleratedRoundCallbacks.forEach(callback => callback(event))
+        }
+      })
+      .on('broadcast', { event: 'nomination' }, (msg: { payload?: NominationEvent }) => {
+        const event = msg?.payload
+        if (event?.type) {
+          this.onNominationCallbacks.forEach(callback => callback(event))
+        }
+      })
+      .on('broadcast', { event: 'draft' }, (msg: { payload?: DraftEvent }) => {
+        const event = msg?.payload
+        if (event?.type) {
+          this.onDraftCallbacks.forEach(callback => callback(event))
+        }
+      })
+      .on('broadcast', { event: 'gavel' }, (msg: { payload?: GavelEvent }) => {
+        const event = msg?.payload
+        if (event) {
+          this.onGavelCallbacks.forEach(callback => callback(event))
+        }
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const auctioneers = Object.values(channel.presenceState<GavelPresence>()).flat()
+        this.onPresenceCallbacks.forEach(callback => callback(auctioneers))
+      })
       .subscribe((status: string) => {
         console.log(`Channel auction-${auctionId} status: ${status}`)
         if (status === 'SUBSCRIBED') {
           subscribed = true
+          this.subscribed = true
+          if (this.presence) channel.track(this.presence)
           this.requestCurrentState()
         }
       })
@@ -124,6 +187,17 @@ class AuctionRealtimeManager {
     })
   }
 
+  // Show this tab in presence (auctioneer only); kept across re-subscribes until cleared
+  async trackPresence(presence: GavelPresence | null) {
+    this.presence = presence
+    if (!this.channel || !this.subscribed) return
+    if (presence) {
+      await this.channel.track(presence)
+    } else {
+      await this.channel.untrack()
+    }
+  }
+
   // Broadcast bid update (captains only)
   async broadcastBid(auctionId: string, teamName: string, bid: FormalBid) {
     if (!this.channel) return
@@ -141,6 +215,15 @@ class AuctionRealtimeManager {
     })
   }
 
+  // Broadcast an accelerated round lifecycle change (auctioneer only)
+  async broadcastAcceleratedRound(event: AcceleratedRoundEvent) {
+    await this.channel?.send({
+      type: 'broadcast',
+      event: 'accelerated-round',
+      payload: event,
+    })
+  }
+
   // Clear bids — no-op now, bids are cleared by closing the round
   async clearBids(_auctionId: string) {
     await this.channel?.send({
@@ -184,7 +267,7 @@ class AuctionRealtimeManager {
   private async fetchStateFromSupabase(auctionId: string): Promise<AuctionState | null> {
     const { data: auction, error: auctionError } = await this.supabase
       .from('auctions')
-      .select('id, name, status, budget_per_team, queue_state')
+      .select('id, name, status, budget_per_team, queue_state, queue_version')
       .eq('id', auctionId)
       .maybeSingle()
 
@@ -197,7 +280,7 @@ class AuctionRealtimeManager {
       auctionStarted?: boolean
       unsoldPlayers?: string[]
       deferredPlayers?: string[]
-      auctionHistory?: Array<{ player: string; team: string; price: number; action: string }>
+      auctionHistory?: AuctionHistoryEntry[]
     } | null
 
     const { data: teams } = await this.supabase
@@ -262,6 +345,7 @@ class AuctionRealtimeManager {
       auctionQueue: queueState?.auctionQueue || [],
       auctionIndex: queueState?.auctionIndex ?? 0,
       auctionStarted: queueState?.auctionStarted ?? false,
+      queueVersion: auction.queue_version ?? 0,
       lastUpdated: new Date().toISOString(),
     }
   }
@@ -309,6 +393,7 @@ class AuctionRealtimeManager {
       auctionQueue: data.queueState?.auctionQueue || [],
       auctionIndex: data.queueState?.auctionIndex ?? 0,
       auctionStarted: data.queueState?.auctionStarted ?? false,
+      queueVersion: data.queueVersion ?? 0,
       lastUpdated: new Date().toISOString(),
     }
   }
@@ -343,16 +428,53 @@ class AuctionRealtimeManager {
     this.onBidUpdateCallbacks.push(callback)
   }
 
+  onRtmOffer(callback: (offer: RtmOffer) => void) {
+    this.onRtmOfferCallbacks.push(callback)
+  }
+
+  onAcceleratedRound(callback: (event: AcceleratedRoundEvent) => void) {
+    this.onAcceleratedRoundCallbacks.push(callback)
+  }
+
+  onNomination(callback: (event: NominationEvent) => void) {
+    this.onNominationCallbacks.push(callback)
+  }
+
+  onDraft(callback: (event: DraftEvent) => void) {
+    this.onDraftCallbacks.push(callback)
+  }
+
+  // Returns a function that removes the listener
+  onPresenceChange(callback: (auctioneers: GavelPresence[]) => void) {
+    this.onPresenceCallbacks.push(callback)
+    return () => {
+      this.onPresenceCallbacks = this.onPresenceCallbacks.filter(c => c !== callback)
+    }
+  }
+
+  // Returns a function that removes the listener
+  onGavel(callback: (event: GavelEvent) => void) {
+    this.onGavelCallbacks.push(callback)
+    return () => {
+      this.onGavelCallbacks = this.onGavelCallbacks.filter(c => c !== callback)
+    }
+  }
+
   // Cleanup
   unsubscribe() {
     if (this.channel) {
       this.supabase.removeChannel(this.channel)
       this.channel = null
     }
+    this.subscribed = false
     this.currentAuctionId = null
     this.onStateChangeCallbacks = []
     this.onBidsChangeCallbacks = []
     this.onBidUpdateCallbacks = []
+    this.onRtmOfferCallbacks = []
+    this.onAcceleratedRoundCallbacks = []
+    this.onNominationCallbacks = []
+    this.onDraftCallbacks = []
   }
 }
 
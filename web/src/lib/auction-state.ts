@@ -0,0 +1,117 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { AuctionHistoryEntry, AuctionState } from '@/lib/auction-realtime'
+
+// All player arrays hold player IDs
+export interface QueueState {
+  auctionQueue: string[]
+  auctionIndex: number
+  auctionStarted: boolean
+  unsoldPlayers: string[]
+  deferredPlayers: string[]
+  auctionHistory: AuctionHistoryEntry[]
+}
+
+interface BuildAuctionStateParams {
+  supabase: SupabaseClient
+  auction: { id: string; name: string; status: string; budget_per_team: number }
+  queueState: Partial<QueueState> | null
+  queueVersion: number
+  openRoundId: string | null
+}
+
+/**
+ * Canonical AuctionState after an auctioneer action: queue from queue_state,
+ * everything else derived from rounds, team_budgets and auction_results.
+ */
+export async function buildAuctionState(params: BuildAuctionStateParams): Promise<AuctionState> {
+  const { supabase, auction, queueState, queueVersion, openRoundId } = params
+  const qs = queueState || {}
+
+  // Round now open for the player on the block
+  let currentRound: AuctionState['currentRound'] = null
+  if (openRoundId) {
+    const { data: round } = await supabase
+      .from('rounds')
+      .select('id, player_id, tier_id, status, opened_at, player:players!player_id(name)')
+      .eq('id', openRoundId)
+      .maybeSingle()
+
+    if (round) {
+      currentRound = {
+        id: round.id,
+        playerId: round.player_id,
+        playerName: (round.player as unknown as { name: string } | null)?.name || 'Unknown',
+        tierId: round.tier_id || '',
+        status: round.status,
+        openedAt: round.opened_at,
+        closedAt: null,
+      }
+    }
+  }
+
+  const { data: teams } = await supabase
+    .from('teams')
+    .select('id, name')
+    .eq('auction_id', auction.id)
+    .order('name')
+
+  const { data: teamBudgets } = await supabase
+    .from('team_budgets')
+    .select('team_id, total_budget, spent, budget_remaining')
+    .eq('auction_id', auction.id)
+
+  const budgetMap = new Map(
+    (teamBudgets || []).map(b => [b.team_id, b])
+  )
+
+  const { data: results } = await supabase
+    .from('auction_results')
+    .select('player_id, team_id, winning_bid_amount, player:players(name), team:teams(name)')
+    .eq('auction_id', auction.id)
+
+  const teamPlayersMap = new Map<string, Array<{ id: string; name: string; price: number }>>()
+  const soldPlayers: AuctionState['soldPlayers'] = []
+
+  for (const r of results || []) {
+    const teamPlayers = teamPlayersMap.get(r.team_id) || []
+    const playerName = (r.player as unknown as { name: string } | null)?.name || 'Unknown'
+    teamPlayers.push({ id: r.player_id, name: playerName, price: r.winning_bid_amount })
+    teamPlayersMap.set(r.team_id, teamPlayers)
+
+    soldPlayers.push({
+      playerId: r.player_id,
+      playerName,
+      teamId: r.team_id,
+      teamName: (r.team as unknown as { name: string } | null)?.name || 'Unknown',
+      price: r.winning_bid_amount,
+    })
+  }
+
+  const teamStates = (teams || []).map(t => {
+    const budget = budgetMap.get(t.id)
+    return {
+      id: t.id,
+      name: t.name,
+      coins: budget?.budget_remaining ?? auction.budget_per_team,
+      originalCoins: budget?.total_budget ?? auction.budget_per_team,
+      players: teamPlayersMap.get(t.id) || [],
+    }
+  })
+
+  return {
+    id: auction.id,
+    name: auction.name,
+    status: auction.status,
+    teams: teamStates,
+    soldPlayers,
+    unsoldPlayers: qs.unsoldPlayers || [],
+    deferredPlayers: qs.deferredPlayers || [],
+    auctionHistory: qs.auctionHistory || [],
+    auctionQueue: qs.auctionQueue || [],
+    auctionIndex: qs.auctionIndex ?? 0,
+    auctionStarted: qs.auctionStarted ?? false,
+    queueVersion,
+    currentRound,
+    lastUpdated: new Date().toISOString(),
+  }
+}
@@ -1,4 +1,7 @@
 import { SupabaseClient } from '@supabase/supabase-js'
+import { isSealedBiddingType } from '@/lib/sealed-utils'
+import { loadBidLimit, formatBidLimitError } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
 
 interface ValidateAndSubmitBidParams {
   supabase: SupabaseClient
@@ -29,7 +32,7 @@ export async function validateAndSubmitBid(params: ValidateAndSubmitBidParams):
   // Get team and auction info
   const { data: team, error: teamError } = await supabase
     .from('teams')
-    .select('id, auction_id, auction:auctions!auction_id(id, status, budget_per_team)')
+    .select('id, auction_id, auction:auctions!auction_id(id, status, budget_per_team, bidding_type)')
     .eq('id', teamId)
     .maybeSingle()
 
@@ -37,7 +40,12 @@ export async function validateAndSubmitBid(params: ValidateAndSubmitBidParams):
     return { success: false, error: 'Team not found', status: 404 }
   }
 
-  const teamAuction = team.auction as unknown as { id: string; status: string; budget_per_team: number } | null
+  const teamAuction = team.auction as unknown as {
+    id: string
+    status: string
+    budget_per_team: number
+    bidding_type: string | null
+  } | null
 
   if (teamAuction?.id !== auctionId) {
     return { success: false, error: 'Team does not belong to this auction', status: 400 }
@@ -47,10 +55,18 @@ export async function validateAndSubmitBid(params: ValidateAndSubmitBidParams):
     return { success: false, error: 'Auction is not live', status: 400 }
   }
 
+  // Sealed bids only — open outcry goes through the paddle raise path, drafts through picks
+  if (teamAuction.bidding_type === 'DRAFT') {
+    return { success: false, error: 'This auction is a draft — there is no bidding', status: 400 }
+  }
+  if (!isSealedBiddingType(teamAuction.bidding_type || 'SEALED_TENDER')) {
+    return { success: false, error: 'This auction uses open outcry — raise the paddle instead', status: 400 }
+  }
+
   // Verify round is active
   const { data: round, error: roundError } = await supabase
     .from('rounds')
-    .select('id, tier_id, status, closed_at, tier:tiers!tier_id(base_price)')
+    .select('id, tier_id, status, closed_at, base_price, tier:tiers!tier_id(base_price)')
     .eq('id', roundId)
     .eq('auction_id', auctionId)
     .eq('status', 'OPEN')
@@ -74,23 +90,26 @@ export async function validateAndSubmitBid(params: ValidateAndSubmitBidParams):
   // Note: tier check removed — auctioneer controls which player is up for bidding,
   // and rounds may be created on-the-fly with different tier context
 
-  // Check if bid meets minimum requirements
+  // Check if bid meets minimum requirements (a round's own base price, e.g. a
+  // reduced accelerated-round price, wins over the tier's)
   const roundTier = round.tier as unknown as { base_price: number } | null
-  const basePrice = roundTier?.base_price ?? 0
+  const basePrice = round.base_price ?? roundTier?.base_price ?? 0
   if (amount < basePrice) {
     return { success: false, error: `Minimum bid is ${basePrice}`, status: 400 }
   }
 
-  // Check if team has sufficient budget (computed from auction_results)
-  const { data: teamBudget } = await supabase
-    .from('team_budgets')
-    .select('budget_remaining')
-    .eq('team_id', teamId)
-    .maybeSingle()
+  // Team can't go over the player's tier maxPerTeam or role max
+  const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId, playerId })
+  if (squadLimitError) {
+    return { success: false, error: squadLimitError, status: 400 }
+  }
 
-  const remainingBudget = teamBudget?.budget_remaining ?? teamAuction.budget_per_team
-  if (amount > remainingBudget) {
-    return { success: false, error: 'Insufficient budget', status: 400 }
+  // Check the team can afford this and still fill its squad (budget computed
+  // from auction_results). Second-price winners can pay up to their full bid,
+  // so the check is the same.
+  const bidLimit = await loadBidLimit({ supabase, auctionId, teamId, forTierId: round.tier_id })
+  if (amount > bidLimit.maxBid) {
+    return { success: false, error: formatBidLimitError(bidLimit), status: 400 }
   }
 
   // Check if round is still open (time-based)
@@ -98,7 +117,7 @@ export async function validateAndSubmitBid(params: ValidateAndSubmitBidParams):
     return { success: false, error: 'Bidding time has expired for this round', status: 400 }
   }
 
-  // Upsert the bid (one bid per team per round per player, sealed tender only)
+  // Upsert the bid (one bid per team per round per player, sealed modes only)
   const { data: bid, error: bidError } = await supabase
     .from('bids')
     .upsert(
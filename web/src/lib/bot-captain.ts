@@ -0,0 +1,300 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { validateAndSubmitBid } from '@/lib/bid-utils'
+import { loadBidLimit } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
+import { isSealedBiddingType } from '@/lib/sealed-utils'
+import { createSeededRandom } from '@/lib/seeded-random'
+import { getBotValuation, type BotStrategy } from '@/lib/bot-strategy'
+import { AUTO_RAISES_PER_REQUEST, runProxyBidder } from '@/lib/proxy-bidder'
+import {
+  calculateNextBid, getRoundNextBid,
+  type OutcryConfig, type OutcryRule, type OutcryRuleScope,
+} from '@/lib/outcry-utils'
+import type { PlayingRole } from '@/lib/types'
+
+// Bot captains for practice auctions (20260227190000 migration). The owner
+// hands a team to a bot with a strategy; whenever a round opens or someone
+// raises, the server bids for bot teams through the same paths as people —
+// validateAndSubmitBid for sealed rounds, raise_paddle for open outcry —
+// so a single person can run a full mock auction against the real routes.
+// A bot's price for a player is drawn once per round from a seed of the
+// round and team, so repeated runs agree on it.
+
+export interface BotCaptain {
+  teamId: string
+  strategy: BotStrategy
+}
+
+/** Upper bound on bot raises per run, like MAX_PROXY_RAISES. */
+export const MAX_BOT_RAISES = 100
+
+/** Bots can be set up before the auction and changed while it runs. */
+export function canManageBots(status: string): boolean {
+  return status === 'DRAFT' || status === 'LOBBY' || status === 'LIVE'
+}
+
+/**
+ * How good a player looks to a bot, 0–1. Real players have no rating, so
+ * the tier stands in for it: each tier gets an equal band, best tier on
+ * top, and `jitter` (0–1) places the player within the band.
+ */
+export function getTierRating(tierIndex: number, tierCount: number, jitter: number): number {
+  if (tierIndex < 0 || tierCount <= 0) return jitter / 2
+  return (tierCount - 1 - tierIndex + jitter) / tierCount
+}
+
+/**
+ * Teams whose bot would raise to nextBid, keenest first: not already
+ * leading, and its price for the player covers the step.
+ */
+export function getBotCandidates(
+  prices: Array<{ teamId: string; price: number }>,
+  nextBid: number,
+  leadingTeamId: string | null
+): Array<{ teamId: string; price: number }> {
+  return prices
+    .filter(p => p.teamId !== leadingTeamId && p.price >= nextBid)
+    .sort((a, b) => b.price - a.price || a.teamId.localeCompare(b.teamId))
+}
+
+export async function loadBotCaptains(supabase: SupabaseClient, auctionId: string): Promise<BotCaptain[]> {
+  const { data } = await supabase
+    .from('bot_captains')
+    .select('team_id, strategy')
+    .eq('auction_id', auctionId)
+
+  return (data || []).map(b => ({ teamId: b.team_id, strategy: b.strategy as BotStrategy }))
+}
+
+interface BotRound {
+  id: string
+  player_id: string
+  tier_id: string | null
+  base_price: number | null
+}
+
+/** The most each bot team would pay for the round's player; bots that can't bid are left out. */
+async function getBotPrices(
+  supabase: SupabaseClient,
+  auctionId: string,
+  squadSize: number,
+  round: BotRound,
+  bots: BotCaptain[]
+): Promise<Array<{ teamId: string; price: number }>> {
+  const [playerResult, tiersResult] = await Promise.all([
+    supabase.from('players').select('id, playing_role, tier:tiers!tier_id(id, base_price)').eq('id', round.player_id).maybeSingle(),
+    supabase.from('tiers').select('id').eq('auction_id', auctionId).order('sort_order'),
+  ])
+  if (!playerResult.data) return []
+
+  const tier = playerResult.data.tier as unknown as { id: string; base_price: number } | null
+  const tierIds = (tiersResult.data || []).map(t => t.id)
+  const basePrice = round.base_price ?? tier?.base_price ?? 0
+  const player = {
+    basePrice,
+    playingRole: playerResult.data.playing_role as PlayingRole,
+    rating: getTierRating(tierIds.indexOf(tier?.id ?? ''), tierIds.length, createSeededRandom(round.player_id)()),
+  }
+
+  const prices: Array<{ teamId: string; price: number }> = []
+  for (const bot of bots) {
+    const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId: bot.teamId, playerId: round.player_id })
+    if (squadLimitError) continue
+
+    const [{ maxBid }, { data: squad }] = await Promise.all([
+      loadBidLimit({ supabase, auctionId, teamId: bot.teamId, forTierId: round.tier_id }),
+      supabase.from('auction_results').select('player:players!player_id(playing_role)').eq('team_id', bot.teamId),
+    ])
+
+    const roleCounts: Partial<Record<PlayingRole, number>> = {}
+    for (const row of squad || []) {
+      const role = (row.player as unknown as { playing_role: PlayingRole } | null)?.playing_role
+      if (role) roleCounts[role] = (roleCounts[role] || 0) + 1
+    }
+
+    const price = getBotValuation(
+      bot.strategy,
+      player,
+      { maxBid, squadSize, roleCounts },
+      createSeededRandom(`${round.id}:${bot.teamId}`)
+    )
+    if (price > 0) prices.push({ teamId: bot.teamId, price })
+  }
+  return prices
+}
+
+/**
+ * Bid for bot teams on the auction's open round. Sealed rounds get one bid
+ * per bot that hasn't bid yet; open outcry rounds get raises until no bot
+ * will go higher or maxRaises raises have gone in. Needs a service-role
+ * client — it bids for teams nobody is logged in as. Returns the number of
+ * bids placed.
+ */
+export async function runBotCaptains(
+  supabase: SupabaseClient,
+  auctionId: string,
+  maxRaises: number = MAX_BOT_RAISES
+): Promise<number> {
+  const { data: auction } = await supabase
+    .from('auctions')
+    .select('id, status, bidding_type, outcry_config, squad_size')
+    .eq('id', auctionId)
+    .maybeSingle()
+
+  if (!auction || auction.status !== 'LIVE' || auction.bidding_type === 'DRAFT') return 0
+
+  const bots = await loadBotCaptains(supabase, auctionId)
+  if (bots.length === 0) return 0
+
+  const { data: round } = await supabase
+    .from('rounds')
+    .select('id, player_id, tier_id, outcry_rules, base_price')
+    .eq('auction_id', auctionId)
+    .eq('status', 'OPEN')
+    .order('opened_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!round?.player_id) return 0
+
+  const prices = await getBotPrices(supabase, auctionId, auction.squad_size ?? 11, round, bots)
+  if (prices.length === 0) return 0
+
+  if (isSealedBiddingType(auction.bidding_type || 'SEALED_TENDER')) {
+    const { data: existing } = await supabase
+      .from('bids')
+      .select('team_id')
+      .eq('round_id', round.id)
+    const alreadyBid = new Set((existing || []).map(b => b.team_id))
+
+    let placed = 0
+    for (const { teamId, price } of prices) {
+      if (alreadyBid.has(teamId)) continue
+      const result = await validateAndSubmitBid({
+        supabase, auctionId, teamId, roundId: round.id, playerId: round.player_id, amount: price,
+      })
+      if (result.success) placed++
+      else console.error('[bot-captain] Sealed bid rejected:', result.error)
+    }
+    return placed
+  }
+
+  const outcryConfig = auction.outcry_config as OutcryConfig | null
+  const timerSeconds = outcryConfig?.timer_seconds ?? null
+  const ruleScope: OutcryRuleScope = {
+    tierId: round.tier_id,
+    roundRules: round.outcry_rules as OutcryRule[] | null,
+  }
+  const basePrice = round.base_price || 0
+  let raises = 0
+
+  while (raises < maxRaises) {
+    // Re-read the round each time: people and proxies raise in between
+    const { data: current } = await supabase
+      .from('rounds')
+      .select('current_bid_amount, current_bid_team_id, bid_count, status')
+      .eq('id', round.id)
+      .maybeSingle()
+
+    if (current?.status !== 'OPEN') break
+
+    const nextBid = getRoundNextBid(
+      { basePrice, currentBid: current.current_bid_amount, bidCount: current.bid_count },
+      outcryConfig,
+      ruleScope
+    )
+    const [bidder] = getBotCandidates(prices, nextBid, current.current_bid_team_id)
+    if (!bidder) break
+
+    const { data: rpcResult, error: rpcError } = await supabase
+      .rpc('raise_paddle', {
+        p_round_id: round.id,
+        p_team_id: bidder.teamId,
+        p_player_id: round.player_id,
+        p_auction_id: auctionId,
+        p_timer_seconds: timerSeconds,
+        p_amount: null,
+        p_is_proxy: false,
+      })
+
+    // Someone else got a raise in first (or the round closed) — leave it to the next run
+    if (rpcError) {
+      console.error('[bot-captain] raise_paddle failed:', rpcError.message)
+      break
+    }
+
+    raises++
+    const result = rpcResult?.[0] || rpcResult
+    const newAmount: number = result?.new_amount
+
+    const { data: team } = await supabase
+      .from('teams')
+      .select('name')
+      .eq('id', bidder.teamId)
+      .maybeSingle()
+
+    const channel = supabase.channel(`auction-${auctionId}`)
+    await channel.send({
+      type: 'broadcast',
+      event: 'outcry-bid',
+      payload: {
+        roundId: round.id,
+        bidId: result?.bid_id,
+        amount: newAmount,
+        sequence: result?.new_sequence,
+        jump: false,
+        proxy: false,
+        bot: true,
+        teamId: bidder.teamId,
+        teamName: team?.name || 'Unknown',
+        timerExpiresAt: timerSeconds ? new Date(Date.now() + timerSeconds * 1000).toISOString() : null,
+        nextBidAmount: outcryConfig
+          ? calculateNextBid(newAmount, basePrice, outcryConfig, ruleScope)
+          : newAmount + basePrice,
+        basePrice,
+        playerId: round.player_id,
+      },
+    })
+    await supabase.removeChannel(channel)
+  }
+
+  return raises
+}
+
+/**
+ * Bot and proxy raises can answer each other, so they take turns until
+ * neither moves or maxRaises bids have gone in between them. Returns the
+ * number of bids placed.
+ */
+export async function runAutoBidding(
+  supabase: SupabaseClient,
+  auctionId: string,
+  maxRaises: number = MAX_BOT_RAISES
+): Promise<number> {
+  let placed = 0
+  while (placed < maxRaises) {
+    const bots = await runBotCaptains(supabase, auctionId, maxRaises - placed)
+    placed += bots
+    if (bots === 0 || placed >= maxRaises) break
+
+    const proxies = await runProxyBidder(supabase, auctionId, maxRaises - placed)
+    placed += proxies
+    if (proxies === 0) break
+  }
+  return placed
+}
+
+/**
+ * Let bots bid after something that may have changed what they should do (a
+ * new round, a raise), for at most AUTO_RAISES_PER_REQUEST bids; the
+ * outcry-timer sweep carries on a longer exchange. Failures are logged,
+ * never thrown.
+ */
+export async function triggerBotCaptains(auctionId: string): Promise<void> {
+  try {
+    await runAutoBidding(createAdminClient(), auctionId, AUTO_RAISES_PER_REQUEST)
+  } catch (err) {
+    console.error('[bot-captain] Run failed for', auctionId, err)
+  }
+}
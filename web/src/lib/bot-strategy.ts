@@ -0,0 +1,72 @@
+import type { PlayingRole } from '@/lib/types'
+
+// How a bot captain values a player. Each strategy turns a player and the
+// team's position into the most the bot would pay; the caller caps that at
+// the team's bid limit and treats anything under base price as a pass.
+
+export type BotStrategy = 'VALUE' | 'ROLE_NEED' | 'AGGRESSIVE'
+
+export const BOT_STRATEGIES: BotStrategy[] = ['VALUE', 'ROLE_NEED', 'AGGRESSIVE']
+
+export const BOT_STRATEGY_LABELS: Record<BotStrategy, string> = {
+  VALUE: 'Value',
+  ROLE_NEED: 'Role need',
+  AGGRESSIVE: 'Random aggressive',
+}
+
+// Share of a squad each role makes up; used to decide what a team still needs
+export const ROLE_MIX: Record<PlayingRole, number> = {
+  BATSMAN: 0.35,
+  BOWLER: 0.35,
+  ALL_ROUNDER: 0.2,
+  WICKETKEEPER: 0.1,
+}
+
+export interface BotPlayer {
+  basePrice: number
+  playingRole: PlayingRole
+  rating: number // 0–1, how good the player is within the pool
+}
+
+export interface BotTeam {
+  maxBid: number // from calculateBidLimit
+  squadSize: number
+  roleCounts: Partial<Record<PlayingRole, number>>
+}
+
+/** Whether the team is still short of its share of players in this role. */
+export function needsRole(team: Pick<BotTeam, 'squadSize' | 'roleCounts'>, role: PlayingRole): boolean {
+  return (team.roleCounts[role] || 0) < Math.ceil(ROLE_MIX[role] * team.squadSize)
+}
+
+/**
+ * Most the bot would pay for the player, capped at the team's bid limit.
+ * Zero means it passes. A fair price runs from base price for the weakest
+ * player to twice base price for the best; VALUE pays up to that, ROLE_NEED
+ * pays more for roles it still needs and less for the rest, AGGRESSIVE
+ * overpays by a random margin of up to 150%.
+ */
+export function getBotValuation(
+  strategy: BotStrategy,
+  player: BotPlayer,
+  team: BotTeam,
+  random: () => number
+): number {
+  if (team.maxBid < player.basePrice) return 0
+
+  const fair = player.basePrice * (1 + player.rating)
+  let value: number
+  switch (strategy) {
+    case 'ROLE_NEED':
+      value = fair * (needsRole(team, player.playingRole) ? 1.5 : 0.8)
+      break
+    case 'AGGRESSIVE':
+      value = fair * (1 + random() * 1.5)
+      break
+    default:
+      value = fair
+  }
+
+  const amount = Math.min(Math.floor(value), team.maxBid)
+  return amount >= player.basePrice ? amount : 0
+}
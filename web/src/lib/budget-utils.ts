@@ -0,0 +1,119 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// How much a team may bid on one player while still being able to complete
+// its squad: every slot left open after this purchase is held back at base
+// price — the tier's base price while a tier minimum is unmet, otherwise the
+// cheapest tier's.
+
+export interface ReserveTier {
+  id: string
+  basePrice: number
+  minPerTeam: number
+  acquired: number // players this team already has from the tier
+}
+
+export interface BidLimitInput {
+  remaining: number // team_budgets.budget_remaining
+  slotsToFill: number // squad slots still open, including the one being bid on
+  tiers: ReserveTier[]
+  forTierId?: string | null // tier of the player being bid on
+}
+
+export interface BidLimit {
+  remaining: number
+  reserve: number
+  maxBid: number
+}
+
+export function calculateBidLimit(input: BidLimitInput): BidLimit {
+  const { remaining, slotsToFill, tiers, forTierId } = input
+  const slotsAfter = Math.max(0, slotsToFill - 1)
+
+  let tierSlots = 0
+  let tierReserve = 0
+  for (const tier of tiers) {
+    // Buying from a tier with an unmet minimum counts towards it
+    const bought = tier.id === forTierId ? 1 : 0
+    const needed = Math.max(0, tier.minPerTeam - tier.acquired - bought)
+    tierSlots += needed
+    tierReserve += needed * tier.basePrice
+  }
+
+  const cheapest = tiers.length > 0 ? Math.min(...tiers.map(t => t.basePrice)) : 0
+  const reserve = slotsAfter > 0
+    ? tierReserve + Math.max(0, slotsAfter - tierSlots) * cheapest
+    : 0
+
+  return { remaining, reserve, maxBid: Math.max(0, remaining - reserve) }
+}
+
+/**
+ * Squad slots a team must fill through the auction: squad_size, capped at
+ * the team's share of the pool (captains excluded) so a small pool doesn't
+ * reserve for slots nobody can fill.
+ */
+export function getRequiredSquadSize(squadSize: number, auctionableCount: number, numTeams: number): number {
+  return Math.min(squadSize, Math.floor(auctionableCount / Math.max(1, numTeams)))
+}
+
+interface LoadBidLimitParams {
+  supabase: SupabaseClient
+  auctionId: string
+  teamId: string
+  forTierId?: string | null
+}
+
+/**
+ * Server-side bid limit for a team, read from team_budgets, tiers and
+ * auction_results. Used by the bid and paddle-raise paths and the captain
+ * and bidder sessions so they all agree.
+ */
+export async function loadBidLimit(params: LoadBidLimitParams): Promise<BidLimit> {
+  const { supabase, auctionId, teamId, forTierId } = params
+
+  const [auctionResult, budgetResult, tiersResult, teamsResult, playersResult, resultsResult] = await Promise.all([
+    supabase.from('auctions').select('budget_per_team, squad_size').eq('id', auctionId).maybeSingle(),
+    supabase.from('team_budgets').select('budget_remaining').eq('team_id', teamId).maybeSingle(),
+    supabase.from('tiers').select('id, base_price, min_per_team').eq('auction_id', auctionId),
+    supabase.from('teams').select('id, captain_player_id').eq('auction_id', auctionId),
+    supabase.from('players').select('id').eq('auction_id', auctionId),
+    supabase
+      .from('auction_results')
+      .select('player_id, player:players!player_id(tier_id)')
+      .eq('auction_id', auctionId)
+      .eq('team_id', teamId),
+  ])
+
+  const auction = auctionResult.data
+  const remaining = budgetResult.data?.budget_remaining ?? auction?.budget_per_team ?? 0
+  const teams = teamsResult.data || []
+  const captainPlayerIds = new Set(teams.map(t => t.captain_player_id).filter(Boolean))
+  const auctionableCount = (playersResult.data || []).filter(p => !captainPlayerIds.has(p.id)).length
+  const results = resultsResult.data || []
+
+  const acquiredByTier: Record<string, number> = {}
+  for (const r of results) {
+    const tierId = (r.player as unknown as { tier_id: string | null } | null)?.tier_id
+    if (tierId) acquiredByTier[tierId] = (acquiredByTier[tierId] || 0) + 1
+  }
+
+  const squadSize = getRequiredSquadSize(auction?.squad_size || 0, auctionableCount, teams.length)
+
+  return calculateBidLimit({
+    remaining,
+    slotsToFill: Math.max(0, squadSize - results.length),
+    tiers: (tiersResult.data || []).map(t => ({
+      id: t.id,
+      basePrice: t.base_price,
+      minPerTeam: t.min_per_team || 0,
+      acquired: acquiredByTier[t.id] || 0,
+    })),
+    forTierId,
+  })
+}
+
+export function formatBidLimitError(limit: BidLimit): string {
+  return limit.reserve > 0
+    ? `You can bid up to ${limit.maxBid} — ${limit.reserve} is held back to complete your squad`
+    : 'Insufficient budget'
+}
@@ -6,6 +6,7 @@ export interface PlayerCSVRow {
   customTags?: string
   tier: string
   image?: string
+  previousTeam?: string // team name, for right-to-match
 }
 
 export interface CSVParseResult {
@@ -112,7 +113,7 @@ export function parseCSV(csvContent: string): CSVParseResult {
 
     // Validate required headers
     const requiredHeaders = ['name', 'playingRole', 'tier']
-    const optionalHeaders = ['battingStyle', 'bowlingStyle', 'customTags', 'image']
+    const optionalHeaders = ['battingStyle', 'bowlingStyle', 'customTags', 'image', 'previousTeam']
     const validHeaders = [...requiredHeaders, ...optionalHeaders]
 
     // Check for required headers
@@ -187,6 +188,7 @@ export function parseCSV(csvContent: string): CSVParseResult {
       const bowlingStyle = getCSVValue(values, headerMap.bowlingStyle)?.trim()
       const customTags = getCSVValue(values, headerMap.customTags)?.trim()
       const image = getCSVValue(values, headerMap.image)?.trim()
+      const previousTeam = getCSVValue(values, headerMap.previousTeam)?.trim()
 
       // Validate image URL if provided
       if (image && !isValidUrl(image)) {
@@ -201,6 +203,7 @@ export function parseCSV(csvContent: string): CSVParseResult {
         ...(bowlingStyle && { bowlingStyle }),
         ...(customTags && { customTags }),
         ...(image && isValidUrl(image) && { image }),
+        ...(previousTeam && { previousTeam }),
       }
 
       data.push(playerData)
@@ -281,14 +284,15 @@ export function generateCSVTemplate(): string {
     'battingStyle',
     'bowlingStyle',
     'customTags',
-    'image'
+    'image',
+    'previousTeam'
   ]
 
   const sampleRows = [
-    ['Virat Kohli', 'Batsman', 'Tier 0', 'Right-hand bat', '', 'Star Player', ''],
-    ['Jasprit Bumrah', 'Bowler', 'Tier 0', '', 'Right-arm fast', 'Pace, Yorker specialist', ''],
-    ['Ravindra Jadeja', 'Bowling Allrounder', 'Tier 1', 'Left-hand bat', 'Left-arm spin', '', ''],
-    ['KL Rahul', 'Batsman/Keeper', 'Tier 2', 'Right-hand bat', '', 'Opener', ''],
+    ['Virat Kohli', 'Batsman', 'Tier 0', 'Right-hand bat', '', 'Star Player', '', 'Team 1'],
+    ['Jasprit Bumrah', 'Bowler', 'Tier 0', '', 'Right-arm fast', 'Pace, Yorker specialist', '', ''],
+    ['Ravindra Jadeja', 'Bowling Allrounder', 'Tier 1', 'Left-hand bat', 'Left-arm spin', '', '', 'Team 2'],
+    ['KL Rahul', 'Batsman/Keeper', 'Tier 2', 'Right-hand bat', '', 'Opener', '', ''],
   ]
 
   return [
@@ -0,0 +1,273 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { PlayingRole, RoleRules } from '@/lib/types'
+import type { AuctionHistoryEntry, AuctionState } from '@/lib/auction-realtime'
+import { getNominatingTeam } from '@/lib/nomination'
+import { getRoleMaxError, getTierMaxError, toTierLimit, type TierLimit } from '@/lib/squad-rules'
+
+// Draft mode (20260227160000 migration): bidding_type 'DRAFT', no money.
+// Teams take turns picking players outright in a snake or linear order, with
+// a timer per pick. make_draft_pick records each pick as a closed round and
+// an auction_results row at 0, so squads and the live view work as for a
+// sale. When the clock runs out the team's pick comes from its captain's
+// ranked list, else the best player left. Events go out on `auction-${id}`
+// as 'draft'.
+
+export type DraftOrderType = 'SNAKE' | 'LINEAR'
+
+export interface DraftConfig {
+  order_type: DraftOrderType
+  pick_seconds: number | null // null = no pick timer
+}
+
+export const DRAFT_ORDER_LABELS: Record<DraftOrderType, string> = {
+  SNAKE: 'Snake',
+  LINEAR: 'Linear',
+}
+
+export function getDefaultDraftConfig(): DraftConfig {
+  return { order_type: 'SNAKE', pick_seconds: 60 }
+}
+
+export type DraftEventType = 'STARTED' | 'PICKED'
+
+export interface DraftEvent {
+  type: DraftEventType
+  teamId?: string   // PICKED: the team that picked
+  playerId?: string
+  auto?: boolean    // PICKED: made for the team when its clock ran out
+  state?: AuctionState // PICKED: squads after the pick, for the auctioneer (who ignores 'auction-state')
+}
+
+export interface DraftPlayer {
+  id: string
+  name: string
+  playingRole: PlayingRole
+  tierId: string | null
+  tierName: string | null
+}
+
+export interface DraftPick {
+  playerId: string
+  playerName: string
+  teamId: string
+  teamName: string
+}
+
+export interface DraftState {
+  orderType: DraftOrderType
+  pickSeconds: number | null
+  pick: number
+  status: 'ACTIVE' | 'DONE'
+  teams: Array<{ id: string; name: string }> // in pick order
+  currentTeamId: string | null  // null once the draft is over
+  pickStartedAt: string
+  available: DraftPlayer[]      // best first: tier order, then name
+  picks: DraftPick[]            // in the order they were made
+  rankings: string[] | null     // the loading team's ranked list, when loaded for a team
+}
+
+/** What a team already has, for checking a pick against the squad rules. */
+export interface DraftSquad {
+  tiers: TierLimit[]
+  roleRules: RoleRules | null
+  tierCounts: Record<string, number>
+  roleCounts: Partial<Record<PlayingRole, number>>
+  openSlots: number
+}
+
+/**
+ * Team on the clock for a pick: the first from `pick` on whose squad isn't
+ * full. Same turn walk as nominations — LINEAR repeats the order like FIXED.
+ */
+export function getDraftTeam(
+  teamOrder: string[],
+  orderType: DraftOrderType,
+  pick: number,
+  isSquadFull: (teamId: string) => boolean
+): { teamId: string; turn: number } | null {
+  return getNominatingTeam(teamOrder, orderType === 'SNAKE' ? 'SNAKE' : 'FIXED', pick, isSquadFull)
+}
+
+/**
+ * Every slot in a draft is filled by picking, so a pick can't leave fewer
+ * open slots than the tier minimums the team still has to meet. Mirrored in
+ * make_draft_pick, which has the final say.
+ */
+export function getTierMinimumError(squad: DraftSquad, pickTierId: string | null): string | null {
+  const outstanding = squad.tiers
+    .map(tier => ({
+      tier,
+      needed: Math.max(0, tier.minPerTeam - (squad.tierCounts[tier.id] || 0) - (tier.id === pickTierId ? 1 : 0)),
+    }))
+    .filter(o => o.needed > 0)
+
+  const needed = outstanding.reduce((sum, o) => sum + o.needed, 0)
+  if (needed <= squad.openSlots - 1) return null
+
+  return `Your remaining picks have to meet the tier minimums: ${outstanding.map(o => `${o.needed} more ${o.tier.name}`).join(', ')}`
+}
+
+/** Reason the team can't draft this player — tier max, role max, or tier minimums — or null. */
+export function getDraftPickError(squad: DraftSquad, player: Pick<DraftPlayer, 'tierId' | 'playingRole'>): string | null {
+  if (squad.openSlots <= 0) return 'Your squad is full'
+
+  const tier = squad.tiers.find(t => t.id === player.tierId)
+  if (tier) {
+    const tierError = getTierMaxError(tier, squad.tierCounts[tier.id] || 0)
+    if (tierError) return tierError
+  }
+
+  const roleError = getRoleMaxError(player.playingRole, squad.roleRules, squad.roleCounts[player.playingRole] || 0)
+  if (roleError) return roleError
+
+  return getTierMinimumError(squad, player.tierId)
+}
+
+/**
+ * Player to pick for a team whose clock ran out: the highest-ranked one still
+ * available that the squad rules allow, else the best available that fits.
+ * `available` is best first. Null if nobody fits.
+ */
+export function chooseAutoPick(
+  rankings: string[],
+  available: DraftPlayer[],
+  canPick: (player: DraftPlayer) => boolean
+): DraftPlayer | null {
+  const byId = new Map(available.map(p => [p.id, p]))
+  for (const playerId of rankings) {
+    const player = byId.get(playerId)
+    if (player && canPick(player)) return player
+  }
+  return available.find(canPick) ?? null
+}
+
+/** The auction's draft, or null if it hasn't started. Pass teamId to include that team's ranked list. */
+export async function loadDraft(
+  supabase: SupabaseClient,
+  auctionId: string,
+  teamId?: string
+): Promise<DraftState | null> {
+  const { data: draft } = await supabase
+    .from('auction_drafts')
+    .select('order_type, team_order, pick, pick_seconds, pick_started_at, status')
+    .eq('auction_id', auctionId)
+    .maybeSingle()
+
+  if (!draft) return null
+
+  const [auctionResult, teamsResult, resultsResult, playersResult, rankingsResult] = await Promise.all([
+    supabase.from('auctions').select('squad_size, queue_state').eq('id', auctionId).maybeSingle(),
+    supabase.from('teams').select('id, name, captain_player_id').eq('auction_id', auctionId),
+    supabase.from('auction_results').select('player_id, team_id').eq('auction_id', auctionId),
+    supabase
+      .from('players')
+      .select('id, name, playing_role, tier:tiers!tier_id(id, name, sort_order)')
+      .eq('auction_id', auctionId)
+      .order('name'),
+    teamId
+      ? supabase.from('draft_rankings').select('player_id, rank').eq('team_id', teamId).order('rank')
+      : Promise.resolve({ data: null }),
+  ])
+
+  const teams = teamsResult.data || []
+  const results = resultsResult.data || []
+  const squadSize = auctionResult.data?.squad_size ?? 11
+  const history = (auctionResult.data?.queue_state as { auctionHistory?: AuctionHistoryEntry[] } | null)?.auctionHistory || []
+
+  const squadCounts = new Map<string, number>()
+  for (const team of teams) squadCounts.set(team.id, team.captain_player_id ? 1 : 0)
+  for (const result of results) squadCounts.set(result.team_id, (squadCounts.get(result.team_id) || 0) + 1)
+
+  const teamOrder = draft.team_order as string[]
+  const orderType = draft.order_type as DraftOrderType
+  const current = draft.status === 'ACTIVE'
+    ? getDraftTeam(teamOrder, orderType, draft.pick, id => (squadCounts.get(id) || 0) >= squadSize)
+    : null
+
+  const taken = new Set<string>([
+    ...results.map(r => r.player_id),
+    ...teams.map(t => t.captain_player_id).filter(Boolean),
+  ])
+  const teamNames = new Map(teams.map(t => [t.id, t.name]))
+
+  const available = (playersResult.data || [])
+    .filter(p => !taken.has(p.id))
+    .map(p => {
+      const tier = p.tier as unknown as { id: string; name: string; sort_order: number } | null
+      return {
+        player: {
+          id: p.id,
+          name: p.name,
+          playingRole: p.playing_role as PlayingRole,
+          tierId: tier?.id ?? null,
+          tierName: tier?.name ?? null,
+        },
+        sortOrder: tier?.sort_order ?? Number.MAX_SAFE_INTEGER,
+      }
+    })
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map(p => p.player)
+
+  return {
+    orderType,
+    pickSeconds: draft.pick_seconds,
+    pick: current?.turn ?? draft.pick,
+    status: draft.status as DraftState['status'],
+    teams: teamOrder.map(id => ({ id, name: teamNames.get(id) || 'Unknown' })),
+    currentTeamId: current?.teamId ?? null,
+    pickStartedAt: draft.pick_started_at,
+    available,
+    picks: history
+      .filter(h => h.action === 'DRAFTED' && h.teamId)
+      .map(h => ({ playerId: h.playerId, playerName: h.player, teamId: h.teamId!, teamName: h.team })),
+    rankings: rankingsResult.data ? rankingsResult.data.map(r => r.player_id) : null,
+  }
+}
+
+/** A team's squad so far, for getDraftPickError. */
+export async function loadDraftSquad(
+  supabase: SupabaseClient,
+  auctionId: string,
+  teamId: string
+): Promise<DraftSquad> {
+  const [auctionResult, teamResult, tiersResult, resultsResult] = await Promise.all([
+    supabase.from('auctions').select('squad_size, role_rules').eq('id', auctionId).maybeSingle(),
+    supabase.from('teams').select('captain_player_id').eq('id', teamId).maybeSingle(),
+    supabase.from('tiers').select('id, name, min_per_team, max_per_team').eq('auction_id', auctionId).order('sort_order'),
+    supabase
+      .from('auction_results')
+      .select('player:players!player_id(tier_id, playing_role)')
+      .eq('team_id', teamId),
+  ])
+
+  const tierCounts: Record<string, number> = {}
+  const roleCounts: Partial<Record<PlayingRole, number>> = {}
+  const squad = resultsResult.data || []
+  for (const r of squad) {
+    const player = r.player as unknown as { tier_id: string | null; playing_role: PlayingRole } | null
+    if (!player) continue
+    roleCounts[player.playing_role] = (roleCounts[player.playing_role] || 0) + 1
+    if (player.tier_id) tierCounts[player.tier_id] = (tierCounts[player.tier_id] || 0) + 1
+  }
+
+  const squadSize = auctionResult.data?.squad_size ?? 11
+  const filled = squad.length + (teamResult.data?.captain_player_id ? 1 : 0)
+
+  return {
+    tiers: (tiersResult.data || []).map(toTierLimit),
+    roleRules: auctionResult.data?.role_rules as RoleRules | null,
+    tierCounts,
+    roleCounts,
+    openSlots: squadSize - filled,
+  }
+}
+
+export async function broadcastDraft(supabase: SupabaseClient, auctionId: string, event: DraftEvent) {
+  const channel = supabase.channel(`auction-${auctionId}`)
+  await channel.send({
+    type: 'broadcast',
+    event: 'draft',
+    payload: event,
+  })
+  await supabase.removeChannel(channel)
+}
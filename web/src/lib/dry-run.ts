@@ -0,0 +1,368 @@
+import { calculateBidLimit, getRequiredSquadSize, type ReserveTier } from '@/lib/budget-utils'
+import { BOT_STRATEGIES, ROLE_MIX, getBotValuation, type BotStrategy } from '@/lib/bot-strategy'
+import { DEFAULT_SECOND_PRICE_INCREMENT } from '@/lib/sealed-utils'
+import { createSeededRandom, seededShuffle } from '@/lib/seeded-random'
+import type { PlayingRole } from '@/lib/types'
+
+// Dry-run simulator for the creation wizard (dry_runs table, 20260227180000
+// migration). Builds a made-up pool from the draft tiers, then plays the
+// auction out many times with bot captains (lib/bot-strategy.ts) under the
+// real bid limit, and reports how budgets ran out, which squads were left
+// short and how even the teams came out. Runs are drawn from one seed, so a
+// stored config_snapshot replays to the same result.
+
+export type DryRunBiddingType = 'SEALED_TENDER' | 'SEALED_SECOND_PRICE' | 'OPEN_OUTCRY'
+
+export interface DryRunTier {
+  name: string
+  basePrice: number
+  minPerTeam: number
+  maxPerTeam: number | null
+  playerCount?: number // missing = share of what's left of the pool
+}
+
+export interface DryRunConfig {
+  teamCount: number
+  budgetPerTeam: number
+  squadSize: number
+  playerPoolSize: number
+  biddingType: DryRunBiddingType
+  tiers: DryRunTier[] // best first
+  runs: number
+  seed: string
+}
+
+export interface DryRunTierSummary {
+  name: string
+  basePrice: number
+  players: number
+  avgPrice: number | null  // null if nobody from the tier ever sold
+  unsoldRate: number       // share of the tier's players left unsold
+  minimumMissRate: number  // share of teams that finished under the tier minimum
+}
+
+export interface DryRunStrategySummary {
+  strategy: BotStrategy
+  teams: number            // team-runs played with this strategy
+  avgSpentRate: number     // share of the budget spent
+  avgFilled: number        // squad slots filled
+  ranOutRate: number
+  avgStrength: number      // sum of player ratings
+}
+
+export interface DryRunResult {
+  runs: number
+  slotsPerTeam: number
+  poolShortfall: number    // players missing for every team to fill its squad
+  minimumBudget: number    // least a team needs to fill its squad at base prices
+  avgBudgetLeftRate: number
+  ranOutRate: number       // share of teams down to base-price bids before their squad was full
+  avgRanOutAt: number | null // how far through the auction that happened, 0–1
+  unfilledRunRate: number  // share of runs where some squad was left short
+  avgUnfilledSlots: number // per team
+  unsoldRate: number
+  tiers: DryRunTierSummary[]
+  strategies: DryRunStrategySummary[]
+  balanceScore: number     // 0–100; 100 = every team equally strong
+}
+
+export type DryRunRecommendationType =
+  | 'GROW_POOL'
+  | 'RAISE_BUDGET'
+  | 'LOWER_BUDGET'
+  | 'LOWER_TIER_MINIMUM'
+  | 'SET_TIER_MINIMUM'
+
+export interface DryRunRecommendation {
+  type: DryRunRecommendationType
+  message: string
+  change?: number // GROW_POOL: players; RAISE_/LOWER_BUDGET: percent
+  tier?: string
+}
+
+interface SimPlayer {
+  tier: number
+  basePrice: number
+  playingRole: PlayingRole
+  rating: number
+}
+
+interface SimTeam {
+  strategy: BotStrategy
+  remaining: number
+  filled: number
+  tierCounts: number[]
+  roleCounts: Partial<Record<PlayingRole, number>>
+  strength: number
+  ranOutAt: number | null
+}
+
+interface RunOutcome {
+  teams: SimTeam[]
+  soldByTier: Array<{ count: number; spent: number }>
+  unsold: number[] // per tier
+}
+
+const ROLES = Object.keys(ROLE_MIX) as PlayingRole[]
+
+/**
+ * Players per tier. Tiers with a playerCount keep it; the rest of the pool
+ * is shared out as a pyramid, each tier getting more than the one above it.
+ */
+export function splitPool(poolSize: number, tiers: DryRunTier[]): number[] {
+  const fixed = tiers.reduce((sum, t) => sum + (t.playerCount ?? 0), 0)
+  const weights = tiers.map((t, i) => (t.playerCount === undefined ? i + 1 : 0))
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+  const left = Math.max(0, poolSize - fixed)
+
+  const counts = tiers.map((t, i) =>
+    t.playerCount ?? (totalWeight > 0 ? Math.floor((left * weights[i]) / totalWeight) : 0)
+  )
+
+  // Rounding leftovers go to the cheapest shared tiers
+  let spare = totalWeight > 0 ? left - counts.reduce((sum, c, i) => sum + (weights[i] ? c : 0), 0) : 0
+  for (let i = tiers.length - 1; i >= 0 && spare > 0; i--) {
+    if (weights[i]) {
+      counts[i]++
+      spare--
+    }
+  }
+  return counts
+}
+
+/** 100 when every team is equally strong, falling as the spread grows. */
+export function getBalanceScore(strengths: number[]): number {
+  if (strengths.length === 0) return 100
+  const mean = strengths.reduce((sum, s) => sum + s, 0) / strengths.length
+  if (mean <= 0) return 100
+  const variance = strengths.reduce((sum, s) => sum + (s - mean) ** 2, 0) / strengths.length
+  return 100 * (1 - Math.min(1, Math.sqrt(variance) / mean))
+}
+
+function pickRole(random: () => number): PlayingRole {
+  let roll = random()
+  for (const role of ROLES) {
+    roll -= ROLE_MIX[role]
+    if (roll < 0) return role
+  }
+  return ROLES[ROLES.length - 1]
+}
+
+function simulateAuction(config: DryRunConfig, tierCounts: number[], slots: number, random: () => number): RunOutcome {
+  const { tiers } = config
+  const cheapest = Math.min(...tiers.map(t => t.basePrice))
+
+  const pool: SimPlayer[] = tierCounts.flatMap((count, tier) =>
+    Array.from({ length: count }, () => ({
+      tier,
+      basePrice: tiers[tier].basePrice,
+      playingRole: pickRole(random),
+      rating: random(),
+    }))
+  )
+
+  const strategies = seededShuffle(
+    Array.from({ length: config.teamCount }, (_, i) => BOT_STRATEGIES[i % BOT_STRATEGIES.length]),
+    random
+  )
+  const teams: SimTeam[] = strategies.map(strategy => ({
+    strategy,
+    remaining: config.budgetPerTeam,
+    filled: 0,
+    tierCounts: tiers.map(() => 0),
+    roleCounts: {},
+    strength: 0,
+    ranOutAt: null,
+  }))
+
+  const reserveTiers = (team: SimTeam): ReserveTier[] => tiers.map((t, i) => ({
+    id: String(i),
+    basePrice: t.basePrice,
+    minPerTeam: t.minPerTeam,
+    acquired: team.tierCounts[i],
+  }))
+
+  const soldByTier = tiers.map(() => ({ count: 0, spent: 0 }))
+
+  // Everyone goes up once in a random order; the unsold come back once more
+  const firstPass = seededShuffle(pool, random)
+  const queue = [...firstPass]
+  const unsold: SimPlayer[] = []
+  for (let i = 0; i < queue.length; i++) {
+    const player = queue[i]
+
+    const bids: Array<{ team: SimTeam; amount: number }> = []
+    for (const team of teams) {
+      if (team.filled >= slots) continue
+      const maxPerTeam = tiers[player.tier].maxPerTeam
+      if (maxPerTeam !== null && team.tierCounts[player.tier] >= maxPerTeam) continue
+
+      const { maxBid } = calculateBidLimit({
+        remaining: team.remaining,
+        slotsToFill: slots - team.filled,
+        tiers: reserveTiers(team),
+        forTierId: String(player.tier),
+      })
+      const amount = getBotValuation(team.strategy, player, { maxBid, squadSize: slots, roleCounts: team.roleCounts }, random)
+      if (amount > 0) bids.push({ team, amount })
+    }
+
+    if (bids.length === 0) {
+      if (i < firstPass.length) queue.push(player)
+      else unsold.push(player)
+      continue
+    }
+
+    const top = Math.max(...bids.map(b => b.amount))
+    const leaders = bids.filter(b => b.amount === top)
+    const winner = leaders[Math.floor(random() * leaders.length)]
+    const runnerUp = Math.max(0, ...bids.filter(b => b !== winner).map(b => b.amount))
+    // Outcry and second price both stop one step above the runner-up
+    let price: number
+    if (config.biddingType === 'SEALED_TENDER') price = winner.amount
+    else if (runnerUp === 0) price = player.basePrice
+    else price = Math.min(runnerUp + DEFAULT_SECOND_PRICE_INCREMENT, winner.amount)
+
+    const team = winner.team
+    team.remaining -= price
+    team.filled++
+    team.tierCounts[player.tier]++
+    team.roleCounts[player.playingRole] = (team.roleCounts[player.playingRole] || 0) + 1
+    team.strength += player.rating
+    soldByTier[player.tier].count++
+    soldByTier[player.tier].spent += price
+
+    // Out of money: only base-price bids left while the squad still has gaps
+    const progress = Math.min(1, (i + 1) / firstPass.length)
+    for (const t of teams) {
+      if (t.ranOutAt !== null || t.filled >= slots) continue
+      const { maxBid } = calculateBidLimit({ remaining: t.remaining, slotsToFill: slots - t.filled, tiers: reserveTiers(t) })
+      if (maxBid <= cheapest) t.ranOutAt = progress
+    }
+  }
+
+  return {
+    teams,
+    soldByTier,
+    unsold: tiers.map((_, tier) => unsold.filter(p => p.tier === tier).length),
+  }
+}
+
+/** Play the configured auction `runs` times and summarise the outcomes. */
+export function runDryRun(config: DryRunConfig): DryRunResult {
+  const random = createSeededRandom(config.seed)
+  const tierCounts = splitPool(config.playerPoolSize, config.tiers)
+  const poolSize = tierCounts.reduce((sum, c) => sum + c, 0)
+  const slots = getRequiredSquadSize(config.squadSize, poolSize, config.teamCount)
+
+  const outcomes = Array.from({ length: config.runs }, () => simulateAuction(config, tierCounts, slots, random))
+  const teamRuns = outcomes.flatMap(o => o.teams)
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0)
+
+  const ranOut = teamRuns.filter(t => t.ranOutAt !== null)
+  const minimumSlots = config.tiers.reduce((sum, t) => sum + t.minPerTeam, 0)
+  const minimumBudget = config.tiers.reduce((sum, t) => sum + t.minPerTeam * t.basePrice, 0)
+    + Math.max(0, slots - minimumSlots) * Math.min(...config.tiers.map(t => t.basePrice))
+
+  return {
+    runs: config.runs,
+    slotsPerTeam: slots,
+    poolShortfall: Math.max(0, config.teamCount * config.squadSize - poolSize),
+    minimumBudget,
+    avgBudgetLeftRate: average(teamRuns.map(t => t.remaining / config.budgetPerTeam)),
+    ranOutRate: teamRuns.length > 0 ? ranOut.length / teamRuns.length : 0,
+    avgRanOutAt: ranOut.length > 0 ? average(ranOut.map(t => t.ranOutAt!)) : null,
+    unfilledRunRate: average(outcomes.map(o => (o.teams.some(t => t.filled < slots) ? 1 : 0))),
+    avgUnfilledSlots: average(teamRuns.map(t => slots - t.filled)),
+    unsoldRate: poolSize > 0 ? average(outcomes.map(o => o.unsold.reduce((sum, u) => sum + u, 0) / poolSize)) : 0,
+    tiers: config.tiers.map((tier, i) => {
+      const sold = outcomes.reduce((sum, o) => sum + o.soldByTier[i].count, 0)
+      const spent = outcomes.reduce((sum, o) => sum + o.soldByTier[i].spent, 0)
+      return {
+        name: tier.name,
+        basePrice: tier.basePrice,
+        players: tierCounts[i],
+        avgPrice: sold > 0 ? spent / sold : null,
+        unsoldRate: tierCounts[i] > 0 ? average(outcomes.map(o => o.unsold[i] / tierCounts[i])) : 0,
+        minimumMissRate: average(teamRuns.map(t => (t.tierCounts[i] < tier.minPerTeam ? 1 : 0))),
+      }
+    }),
+    strategies: BOT_STRATEGIES
+      .map(strategy => {
+        const played = teamRuns.filter(t => t.strategy === strategy)
+        return {
+          strategy,
+          teams: played.length,
+          avgSpentRate: average(played.map(t => 1 - t.remaining / config.budgetPerTeam)),
+          avgFilled: average(played.map(t => t.filled)),
+          ranOutRate: played.length > 0 ? played.filter(t => t.ranOutAt !== null).length / played.length : 0,
+          avgStrength: average(played.map(t => t.strength)),
+        }
+      })
+      .filter(s => s.teams > 0),
+    balanceScore: average(outcomes.map(o => getBalanceScore(o.teams.map(t => t.strength)))),
+  }
+}
+
+const percent = (rate: number) => Math.round(rate * 100)
+const roundUpTo5 = (n: number) => Math.ceil(n / 5) * 5
+const roundDownTo5 = (n: number) => Math.floor(n / 5) * 5
+
+/** Changes to the setup worth making, most pressing first. */
+export function getDryRunRecommendations(config: DryRunConfig, result: DryRunResult): DryRunRecommendation[] {
+  const recommendations: DryRunRecommendation[] = []
+
+  if (result.poolShortfall > 0) {
+    recommendations.push({
+      type: 'GROW_POOL',
+      message: `Add ${result.poolShortfall} players so every team can fill all ${config.squadSize} squad slots`,
+      change: result.poolShortfall,
+    })
+  }
+
+  if (config.budgetPerTeam < result.minimumBudget) {
+    const change = Math.max(10, roundUpTo5(((result.minimumBudget - config.budgetPerTeam) * 100) / config.budgetPerTeam))
+    recommendations.push({
+      type: 'RAISE_BUDGET',
+      message: `Raise the budget by ${change}% — filling a squad at base prices alone costs ${result.minimumBudget}`,
+      change,
+    })
+  } else if (result.unfilledRunRate > 0.1 || result.ranOutRate > 0.5) {
+    const change = Math.max(10, roundUpTo5((100 * result.avgUnfilledSlots) / Math.max(1, result.slotsPerTeam)))
+    recommendations.push({
+      type: 'RAISE_BUDGET',
+      message: result.unfilledRunRate > 0.1
+        ? `Raise the budget by ${change}% — a squad was left short in ${percent(result.unfilledRunRate)}% of runs`
+        : `Raise the budget by ${change}% — ${percent(result.ranOutRate)}% of teams were down to base-price bids before their squad was full`,
+      change,
+    })
+  } else if (result.avgBudgetLeftRate > 0.3) {
+    const change = Math.max(10, roundDownTo5(100 * (result.avgBudgetLeftRate - 0.1)))
+    recommendations.push({
+      type: 'LOWER_BUDGET',
+      message: `Lower the budget by ${change}% — teams finish with ${percent(result.avgBudgetLeftRate)}% of it unspent`,
+      change,
+    })
+  }
+
+  for (const tier of result.tiers) {
+    if (tier.minimumMissRate > 0.1) {
+      recommendations.push({
+        type: 'LOWER_TIER_MINIMUM',
+        message: `Teams missed the ${tier.name} minimum ${percent(tier.minimumMissRate)}% of the time — add players to ${tier.name} or lower its minimum`,
+        tier: tier.name,
+      })
+    }
+  }
+
+  const top = config.tiers[0]
+  if (result.balanceScore < 75 && top && top.minPerTeam === 0 && result.tiers[0].players >= config.teamCount) {
+    recommendations.push({
+      type: 'SET_TIER_MINIMUM',
+      message: `Require at least 1 ${top.name} player per team so the best players spread out (balance ${Math.round(result.balanceScore)}/100)`,
+      tier: top.name,
+    })
+  }
+
+  return recommendations
+}
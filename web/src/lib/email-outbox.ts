@@ -0,0 +1,91 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getMailTransport, type MailMessage, type MailTransport } from '@/lib/mailer'
+
+// Queued email (20260227220000 migration). Requests only ever insert into
+// email_outbox; delivery happens after the response is built and again from
+// the email-outbox cron, so a slow or failing mail server never fails an
+// import. A message is retried until MAX_EMAIL_ATTEMPTS, then left FAILED.
+
+export const MAX_EMAIL_ATTEMPTS = 3
+
+export type EmailKind = 'PARTICIPANT_INVITATION'
+
+/** Queue a message. Needs a service-role client; the outbox has no RLS policies. */
+export async function queueEmail(
+  supabase: SupabaseClient,
+  kind: EmailKind,
+  message: MailMessage
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .insert({
+      kind,
+      to_email: message.to,
+      subject: message.subject,
+      text_body: message.text,
+      html_body: message.html ?? null,
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+/** Send up to `limit` queued messages, oldest first. Returns how many went out and how many failed. */
+export async function deliverQueuedEmails(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  limit = 50
+): Promise<{ sent: number; failed: number }> {
+  const { data: queued, error } = await supabase
+    .from('email_outbox')
+    .select('id, to_email, subject, text_body, html_body, attempts')
+    .eq('status', 'QUEUED')
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  let sent = 0
+  let failed = 0
+  for (const email of queued || []) {
+    const attempts = (email.attempts ?? 0) + 1
+    try {
+      await transport.send({
+        to: email.to_email,
+        subject: email.subject,
+        text: email.text_body,
+        html: email.html_body ?? undefined,
+      })
+      await supabase
+        .from('email_outbox')
+        .update({ status: 'SENT', attempts, sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', email.id)
+      sent++
+    } catch (err) {
+      await supabase
+        .from('email_outbox')
+        .update({
+          status: attempts >= MAX_EMAIL_ATTEMPTS ? 'FAILED' : 'QUEUED',
+          attempts,
+          last_error: err instanceof Error ? err.message : String(err),
+        })
+        .eq('id', email.id)
+      failed++
+    }
+  }
+
+  return { sent, failed }
+}
+
+/** Deliver what's queued now, through the configured transport. Failures are logged, never thrown. */
+export async function triggerEmailDelivery(): Promise<void> {
+  try {
+    const { failed } = await deliverQueuedEmails(createAdminClient(), getMailTransport())
+    if (failed > 0) console.error(`[email-outbox] ${failed} message(s) failed; they'll be retried`)
+  } catch (err) {
+    console.error('[email-outbox] Delivery failed:', err)
+  }
+}
@@ -0,0 +1,120 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { verifyInviteToken, type InviteRole } from '@/lib/invite-token'
+
+// Looking up and redeeming invite tokens. Both need a service-role client:
+// whoever holds the link usually can't see the auction yet.
+
+export interface RedeemableInvite {
+  id: string
+  auctionId: string
+  auctionName: string
+  teamId: string
+  teamName: string
+  role: InviteRole
+  expiresAt: string
+}
+
+export type InviteLookup =
+  | { ok: true; invite: RedeemableInvite }
+  | { ok: false; error: string; status: number }
+
+const ROLE_RANK: Record<string, number> = { VIEWER: 0, CAPTAIN: 1, MODERATOR: 2, OWNER: 3 }
+
+/** Where an invite's holder lands once they're in. */
+export function getInviteDestination(invite: Pick<RedeemableInvite, 'auctionId' | 'teamId' | 'role'>): string {
+  return invite.role === 'CAPTAIN'
+    ? `/bid/${invite.auctionId}_${invite.teamId}`
+    : `/live/${invite.auctionId}`
+}
+
+/** Check a token's signature and expiry, then that its invite hasn't been revoked. */
+export async function loadInvite(supabase: SupabaseClient, token: string, secret: string): Promise<InviteLookup> {
+  const check = verifyInviteToken(token, secret)
+  if (!check.valid) {
+    return check.reason === 'EXPIRED'
+      ? { ok: false, error: 'This invite has expired', status: 410 }
+      : { ok: false, error: 'This invite link is not valid', status: 400 }
+  }
+
+  const { payload } = check
+  const { data: invite } = await supabase
+    .from('auction_invites')
+    .select(`
+      id, auction_id, team_id, role, expires_at, revoked_at,
+      auction:auctions!auction_id(name, status),
+      team:teams!team_id(name)
+    `)
+    .eq('id', payload.inviteId)
+    .maybeSingle()
+
+  // The row has to agree with the token, not just exist
+  if (!invite || invite.auction_id !== payload.auctionId || invite.team_id !== payload.teamId || invite.role !== payload.role) {
+    return { ok: false, error: 'This invite link is not valid', status: 400 }
+  }
+  if (invite.revoked_at) {
+    return { ok: false, error: 'This invite has been revoked', status: 410 }
+  }
+  if (new Date(invite.expires_at).getTime() <= Date.now()) {
+    return { ok: false, error: 'This invite has expired', status: 410 }
+  }
+
+  const auction = invite.auction as unknown as { name: string; status: string } | null
+  const team = invite.team as unknown as { name: string } | null
+  if (!auction || !team) {
+    return { ok: false, error: 'This invite link is not valid', status: 400 }
+  }
+  if (auction.status === 'COMPLETED' || auction.status === 'ARCHIVED') {
+    return { ok: false, error: 'This auction has finished', status: 410 }
+  }
+
+  return {
+    ok: true,
+    invite: {
+      id: invite.id,
+      auctionId: invite.auction_id,
+      auctionName: auction.name,
+      teamId: invite.team_id,
+      teamName: team.name,
+      role: invite.role as InviteRole,
+      expiresAt: invite.expires_at,
+    },
+  }
+}
+
+/**
+ * Put the user on the invite's team. Someone already in the auction with a
+ * higher role (an owner or moderator) keeps it; anyone else takes the
+ * invite's role and team.
+ */
+export async function redeemInvite(supabase: SupabaseClient, invite: RedeemableInvite, userId: string): Promise<void> {
+  const { data: existing } = await supabase
+    .from('auction_participations')
+    .select('id, role')
+    .eq('auction_id', invite.auctionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!existing) {
+    const { error } = await supabase
+      .from('auction_participations')
+      .insert({ auction_id: invite.auctionId, user_id: userId, role: invite.role, team_id: invite.teamId })
+    if (error) throw error
+  } else if (ROLE_RANK[existing.role] <= ROLE_RANK[invite.role]) {
+    const { error } = await supabase
+      .from('auction_participations')
+      .update({ role: invite.role, team_id: invite.teamId })
+      .eq('id', existing.id)
+    if (error) throw error
+  }
+
+  const { data: counts } = await supabase
+    .from('auction_invites')
+    .select('redemption_count')
+    .eq('id', invite.id)
+    .maybeSingle()
+
+  await supabase
+    .from('auction_invites')
+    .update({ redemption_count: (counts?.redemption_count ?? 0) + 1, last_redeemed_at: new Date().toISOString() })
+    .eq('id', invite.id)
+}
@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Signed invite links (20260227210000 migration). The owner mints an invite for
+// one team; the token carries the invite's ID, auction, team, role and expiry,
+// signed with HMAC-SHA256 so it can't be edited or forged. The auction_invites
+// row is what makes it revocable — a token only counts while its row is live.
+// Bump INVITE_TOKEN_VERSION if the payload changes.
+
+export const INVITE_TOKEN_VERSION = 1
+
+export type InviteRole = 'CAPTAIN' | 'VIEWER'
+
+export const DEFAULT_INVITE_TTL_HOURS = 72
+export const MAX_INVITE_TTL_HOURS = 24 * 30
+
+export interface InviteTokenPayload {
+  v: number
+  inviteId: string
+  auctionId: string
+  teamId: string
+  role: InviteRole
+  exp: number // seconds since the epoch
+}
+
+export type InviteTokenCheck =
+  | { valid: true; payload: InviteTokenPayload }
+  | { valid: false; reason: 'MALFORMED' | 'BAD_SIGNATURE' | 'EXPIRED' }
+
+export function getInviteSecret(): string {
+  const secret = process.env.INVITE_TOKEN_SECRET
+  if (!secret) {
+    throw new Error('INVITE_TOKEN_SECRET is not set')
+  }
+  return secret
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+export function signInviteToken(payload: Omit<InviteTokenPayload, 'v'>, secret: string): string {
+  const data = Buffer.from(JSON.stringify({ v: INVITE_TOKEN_VERSION, ...payload })).toString('base64url')
+  return `${data}.${sign(data, secret)}`
+}
+
+/** Check the signature and expiry. Whether the invite was revoked is up to the caller. */
+export function verifyInviteToken(token: string, secret: string, now = Date.now()): InviteTokenCheck {
+  const [data, signature, ...rest] = token.split('.')
+  if (!data || !signature || rest.length > 0) return { valid: false, reason: 'MALFORMED' }
+
+  const expected = Buffer.from(sign(data, secret))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return { valid: false, reason: 'BAD_SIGNATURE' }
+  }
+
+  let payload: InviteTokenPayload
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString())
+  } catch {
+    return { valid: false, reason: 'MALFORMED' }
+  }
+  if (payload?.v !== INVITE_TOKEN_VERSION) return { valid: false, reason: 'MALFORMED' }
+
+  if (payload.exp * 1000 <= now) return { valid: false, reason: 'EXPIRED' }
+
+  return { valid: true, payload }
+}
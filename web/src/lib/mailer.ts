@@ -0,0 +1,93 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+// Outgoing mail behind one small interface so the rest of the app doesn't care
+// how it's delivered. MAIL_TRANSPORT picks the transport:
+//   smtp    — SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+//   file    — writes each message as JSON under MAIL_FILE_DIR (default .mail)
+//   console — logs each message (the default, for local development)
+// MAIL_FROM sets the sender for all of them.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  readonly name: string
+  send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'TossUp <no-reply@tossup.local>'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: options.from, ...message })
+    },
+  }
+}
+
+export function createFileTransport(dir: string, from = DEFAULT_FROM): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(dir, { recursive: true })
+      const sentAt = new Date().toISOString()
+      const fileName = `${sentAt.replace(/[:.]/g, '-')}-${crypto.randomUUID()}.json`
+      await writeFile(path.join(dir, fileName), JSON.stringify({ from, sentAt, ...message }, null, 2))
+    },
+  }
+}
+
+export function createConsoleTransport(from = DEFAULT_FROM): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[mail] From: ${from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+    },
+  }
+}
+
+export function getMailTransport(env: Record<string, string | undefined> = process.env): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_FROM
+
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set')
+      }
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from,
+      })
+    case 'file':
+      return createFileTransport(env.MAIL_FILE_DIR || '.mail', from)
+    default:
+      return createConsoleTransport(from)
+  }
+}
@@ -0,0 +1,162 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// Nomination queue mode (20260227150000 migration). Instead of shuffling the
+// queue up front, teams take turns — in a fixed or snake order — putting the
+// next player up from the remaining pool with an opening bid. nominate_player
+// appends the player to queue_state.auctionQueue and opens the round, so the
+// rest of the auction runs as usual. A team's turn starts when the previous
+// round closes; after timerSeconds anyone can make a random pick for it.
+// Events go out on `auction-${id}` as 'nomination'.
+
+export type NominationOrderType = 'SNAKE' | 'FIXED'
+
+export type NominationEventType = 'STARTED' | 'NOMINATED'
+
+export interface NominationEvent {
+  type: NominationEventType
+  teamId?: string   // NOMINATED: the team that put the player up
+  playerId?: string
+  roundId?: string  // NOMINATED: the round that opened for the player
+  random?: boolean  // NOMINATED: timer fallback or auctioneer pick
+}
+
+export interface NominationPlayer {
+  id: string
+  name: string
+  playingRole: string
+  tierName: string | null
+  basePrice: number
+}
+
+export interface NominationState {
+  orderType: NominationOrderType
+  timerSeconds: number | null
+  turn: number
+  teams: Array<{ id: string; name: string }> // in nomination order
+  currentTeamId: string | null  // null once every squad is full
+  turnStartedAt: string | null  // null while a nominated player is up
+  pool: NominationPlayer[]      // players still available to nominate
+}
+
+/**
+ * Team on the clock for a turn number, before skipping full squads. SNAKE
+ * runs the order forwards then backwards (A B C C B A …), FIXED repeats it.
+ * Mirrors nomination_turn_team().
+ */
+export function getTurnTeamId(teamOrder: string[], orderType: NominationOrderType, turn: number): string | null {
+  if (teamOrder.length === 0) return null
+
+  const pass = Math.floor(turn / teamOrder.length)
+  const position = turn % teamOrder.length
+
+  return orderType === 'SNAKE' && pass % 2 === 1
+    ? teamOrder[teamOrder.length - 1 - position]
+    : teamOrder[position]
+}
+
+/**
+ * The team that nominates next: starting from `turn`, the first one whose
+ * squad isn't full, with the turn number it lands on. Null when every squad
+ * is full. Mirrors the turn walk in nominate_player.
+ */
+export function getNominatingTeam(
+  teamOrder: string[],
+  orderType: NominationOrderType,
+  turn: number,
+  isSquadFull: (teamId: string) => boolean
+): { teamId: string; turn: number } | null {
+  for (let i = 0; i < teamOrder.length; i++) {
+    const teamId = getTurnTeamId(teamOrder, orderType, turn + i)
+    if (teamId && !isSquadFull(teamId)) return { teamId, turn: turn + i }
+  }
+  return null
+}
+
+/** Seconds left on the nomination clock; null if there is no timer or no turn running. */
+export function getNominationSecondsLeft(
+  turnStartedAt: string | null,
+  timerSeconds: number | null,
+  now: number = Date.now()
+): number | null {
+  if (!timerSeconds || !turnStartedAt) return null
+  const elapsed = Math.max(0, (now - new Date(turnStartedAt).getTime()) / 1000)
+  return Math.max(0, Math.ceil(timerSeconds - elapsed))
+}
+
+/** The auction's nomination state, or null if it isn't in nomination mode. */
+export async function loadNomination(
+  supabase: SupabaseClient,
+  auctionId: string
+): Promise<NominationState | null> {
+  const { data: nomination } = await supabase
+    .from('auction_nominations')
+    .select('order_type, team_order, turn, timer_seconds, turn_started_at')
+    .eq('auction_id', auctionId)
+    .maybeSingle()
+
+  if (!nomination) return null
+
+  const [auctionResult, teamsResult, resultsResult, playersResult] = await Promise.all([
+    supabase.from('auctions').select('squad_size, queue_state').eq('id', auctionId).maybeSingle(),
+    supabase.from('teams').select('id, name, captain_player_id').eq('auction_id', auctionId),
+    supabase.from('auction_results').select('player_id, team_id').eq('auction_id', auctionId),
+    supabase
+      .from('players')
+      .select('id, name, playing_role, tier:tiers!tier_id(name, base_price)')
+      .eq('auction_id', auctionId)
+      .order('name'),
+  ])
+
+  const teams = teamsResult.data || []
+  const results = resultsResult.data || []
+  const squadSize = auctionResult.data?.squad_size ?? 11
+  const queueState = auctionResult.data?.queue_state as { auctionQueue?: string[]; deferredPlayers?: string[] } | null
+
+  const squadCounts = new Map<string, number>()
+  for (const team of teams) squadCounts.set(team.id, team.captain_player_id ? 1 : 0)
+  for (const result of results) squadCounts.set(result.team_id, (squadCounts.get(result.team_id) || 0) + 1)
+
+  const teamOrder = nomination.team_order as string[]
+  const orderType = nomination.order_type as NominationOrderType
+  const current = getNominatingTeam(teamOrder, orderType, nomination.turn,
+    teamId => (squadCounts.get(teamId) || 0) >= squadSize)
+
+  const taken = new Set<string>([
+    ...results.map(r => r.player_id),
+    ...teams.map(t => t.captain_player_id).filter(Boolean),
+    ...(queueState?.auctionQueue || []),
+    ...(queueState?.deferredPlayers || []),
+  ])
+  const teamNames = new Map(teams.map(t => [t.id, t.name]))
+
+  return {
+    orderType,
+    timerSeconds: nomination.timer_seconds,
+    turn: current?.turn ?? nomination.turn,
+    teams: teamOrder.map(id => ({ id, name: teamNames.get(id) || 'Unknown' })),
+    currentTeamId: current?.teamId ?? null,
+    turnStartedAt: nomination.turn_started_at,
+    pool: (playersResult.data || [])
+      .filter(p => !taken.has(p.id))
+      .map(p => {
+        const tier = p.tier as unknown as { name: string; base_price: number } | null
+        return {
+          id: p.id,
+          name: p.name,
+          playingRole: p.playing_role,
+          tierName: tier?.name || null,
+          basePrice: tier?.base_price ?? 1,
+        }
+      }),
+  }
+}
+
+export async function broadcastNomination(supabase: SupabaseClient, auctionId: string, event: NominationEvent) {
+  const channel = supabase.channel(`auction-${auctionId}`)
+  await channel.send({
+    type: 'broadcast',
+    event: 'nomination',
+    payload: event,
+  })
+  await supabase.removeChannel(channel)
+}
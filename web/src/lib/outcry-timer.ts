@@ -0,0 +1,187 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { buildAuctionState, type QueueState } from '@/lib/auction-state'
+import { runPostSaleHooks } from '@/lib/post-sale'
+import { runProxyBidder } from '@/lib/proxy-bidder'
+import { runAutoBidding } from '@/lib/bot-captain'
+
+// Server-owned open outcry timer. close_expired_outcry_rounds() does the
+// actual closing; this module runs it, tells connected clients and runs the
+// same post-sale hooks as a hammer from the auctioneer page. Before that it
+// carries on proxy and bot exchanges that a request stopped short of. It is
+// driven either by the local scheduler below (OUTCRY_TIMER_SCHEDULER=local,
+// started from instrumentation.ts) or by hitting /api/cron/outcry-timers.
+
+export interface ClosedOutcryRound {
+  auctionId: string
+  roundId: string
+  action: 'SOLD' | 'UNSOLD'
+  newVersion: number
+}
+
+export interface OutcrySweepResult {
+  raises: number
+  closed: ClosedOutcryRound[]
+}
+
+/**
+ * One pass of the sweep: finish pending proxy and bot raises while their
+ * rounds are still open, then close the rounds whose timer has run out.
+ */
+export async function sweepOutcryRounds(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<OutcrySweepResult> {
+  const raises = await continueAutoBidding(supabase, now)
+  const closed = await closeExpiredOutcryRounds(supabase, now)
+  return { raises, closed }
+}
+
+/**
+ * Requests make only the first AUTO_RAISES_PER_REQUEST raises of a proxy or
+ * bot exchange; run the rest for every open outcry round whose timer hasn't
+ * run out. Returns the number of raises.
+ */
+export async function continueAutoBidding(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('rounds')
+    .select('auction_id, auctions!inner(status, bidding_type)')
+    .eq('status', 'OPEN')
+    .eq('auctions.status', 'LIVE')
+    .eq('auctions.bidding_type', 'OPEN_OUTCRY')
+    .or(`closed_at.is.null,closed_at.gt.${now.toISOString()}`)
+
+  if (error) throw error
+
+  let raises = 0
+  for (const auctionId of new Set((data || []).map(r => r.auction_id as string))) {
+    try {
+      raises += await runProxyBidder(supabase, auctionId)
+      raises += await runAutoBidding(supabase, auctionId)
+    } catch (err) {
+      console.error('[outcry-timer] Failed to continue proxy and bot bidding for', auctionId, err)
+    }
+  }
+
+  return raises
+}
+
+/**
+ * Close every open outcry round whose timer has run out, then broadcast
+ * the new state for each affected auction and run its post-sale hooks.
+ * Needs a service-role client.
+ */
+export async function closeExpiredOutcryRounds(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<ClosedOutcryRound[]> {
+  const { data, error } = await supabase
+    .rpc('close_expired_outcry_rounds', { p_now: now.toISOString() })
+
+  if (error) throw error
+
+  const closed: ClosedOutcryRound[] = (data || []).map((row: {
+    auction_id: string
+    round_id: string
+    action: 'SOLD' | 'UNSOLD'
+    new_version: number
+  }) => ({
+    auctionId: row.auction_id,
+    roundId: row.round_id,
+    action: row.action,
+    newVersion: row.new_version,
+  }))
+
+  for (const auctionId of new Set(closed.map(c => c.auctionId))) {
+    try {
+      const openedRoundId = await broadcastAuctionState(supabase, auctionId)
+
+      for (const round of closed.filter(c => c.auctionId === auctionId)) {
+        const { data: closedRound } = await supabase
+          .from('rounds')
+          .select('player_id')
+          .eq('id', round.roundId)
+          .maybeSingle()
+
+        await runPostSaleHooks(supabase, auctionId, {
+          soldPlayerId: round.action === 'SOLD' ? closedRound?.player_id ?? null : null,
+          openedRoundId,
+        })
+      }
+    } catch (err) {
+      console.error('[outcry-timer] Failed to follow up closed rounds for', auctionId, err)
+    }
+  }
+
+  return closed
+}
+
+/** Broadcasts the auction's state and returns its open round, if any. */
+async function broadcastAuctionState(supabase: SupabaseClient, auctionId: string): Promise<string | null> {
+  const { data: auction } = await supabase
+    .from('auctions')
+    .select('id, name, status, budget_per_team, queue_state, queue_version')
+    .eq('id', auctionId)
+    .maybeSingle()
+
+  if (!auction) return null
+
+  const { data: openRound } = await supabase
+    .from('rounds')
+    .select('id')
+    .eq('auction_id', auctionId)
+    .eq('status', 'OPEN')
+    .order('opened_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const state = await buildAuctionState({
+    supabase,
+    auction,
+    queueState: auction.queue_state as QueueState | null,
+    queueVersion: auction.queue_version,
+    openRoundId: openRound?.id ?? null,
+  })
+
+  const channel = supabase.channel(`auction-${auctionId}`)
+  await channel.send({
+    type: 'broadcast',
+    event: 'auction-state',
+    payload: state,
+  })
+  await supabase.removeChannel(channel)
+
+  return openRound?.id ?? null
+}
+
+interface OutcryTimerSchedulerOptions {
+  intervalMs?: number
+  tick?: () => Promise<unknown>
+}
+
+/**
+ * Local stand-in for a cron job: runs the sweep every intervalMs, skipping
+ * a beat if the previous sweep is still running. Returns a stop function.
+ */
+export function startOutcryTimerScheduler(options: OutcryTimerSchedulerOptions = {}): () => void {
+  const { intervalMs = 1000 } = options
+  const tick = options.tick ?? (() => sweepOutcryRounds(createAdminClient()))
+  let running = false
+
+  const interval = setInterval(async () => {
+    if (running) return
+    running = true
+    try {
+      await tick()
+    } catch (err) {
+      console.error('[outcry-timer] Sweep failed:', err)
+    } finally {
+      running = false
+    }
+  }, intervalMs)
+
+  return () => clearInterval(interval)
+}
@@ -4,9 +4,36 @@ export interface OutcryRule {
   increment: number
 }
 
+/**
+ * What the server does when the bid timer runs out.
+ *
+ *   AUTO_CLOSE — timer starts when the round opens; sold to the leader, or UNSOLD with no bids
+ *   SELL_ONLY  — timer starts on the first bid; sold to the leader
+ *   MANUAL     — timer is advisory; the auctioneer always closes the round
+ */
+export type OutcryExpiryPolicy = 'AUTO_CLOSE' | 'SELL_ONLY' | 'MANUAL'
+
 export interface OutcryConfig {
   rules: OutcryRule[]
+  tier_rules?: Record<string, OutcryRule[]> // tiers.id → rules that replace `rules` for that tier
   timer_seconds: number | null // null = manual close only
+  expiry_policy?: OutcryExpiryPolicy // missing = SELL_ONLY
+  max_jump?: number | null // most a jump bid may go above the next bid; missing/null = uncapped
+}
+
+/**
+ * Which round is being bid on. rounds.outcry_rules (set by the auctioneer
+ * for a single round) wins over the tier override, which wins over `rules`.
+ */
+export interface OutcryRuleScope {
+  tierId?: string | null
+  roundRules?: OutcryRule[] | null
+}
+
+export const EXPIRY_POLICY_LABELS: Record<OutcryExpiryPolicy, string> = {
+  AUTO_CLOSE: 'Auto close',
+  SELL_ONLY: 'Sell only',
+  MANUAL: 'Manual',
 }
 
 /**
@@ -27,31 +54,65 @@ export function getDefaultOutcryConfig(): OutcryConfig {
       { from_multiplier: 10, to_multiplier: 9999, increment: 100 },
     ],
     timer_seconds: 15,
+    expiry_policy: 'AUTO_CLOSE',
   }
 }
 
+export function getOutcryExpiryPolicy(config: OutcryConfig | null | undefined): OutcryExpiryPolicy {
+  return config?.expiry_policy ?? 'SELL_ONLY'
+}
+
+/**
+ * Action the expiry sweep takes on a timed-out round, or null to leave it
+ * for the auctioneer. Mirrors close_expired_outcry_rounds() in the
+ * 20260227060000_add_outcry_timer_expiry migration.
+ */
+export function getOutcryExpiryAction(
+  bidCount: number,
+  policy: OutcryExpiryPolicy
+): 'SOLD' | 'UNSOLD' | null {
+  if (policy === 'MANUAL') return null
+  if (bidCount > 0) return 'SOLD'
+  return policy === 'AUTO_CLOSE' ? 'UNSOLD' : null
+}
+
+/**
+ * Increment rules in effect for a round. Mirrors the lookup in raise_paddle
+ * (20260227070000_add_outcry_rule_overrides migration).
+ */
+export function getOutcryRules(config: OutcryConfig, scope: OutcryRuleScope = {}): OutcryRule[] {
+  if (scope.roundRules && scope.roundRules.length > 0) return scope.roundRules
+
+  const tierRules = scope.tierId ? config.tier_rules?.[scope.tierId] : undefined
+  if (tierRules && tierRules.length > 0) return tierRules
+
+  return config.rules
+}
+
 /**
  * Calculate the increment for the next bid given current state.
- * Walks the rules array to find the matching multiplier bracket.
+ * Walks the rules in effect for the round to find the matching multiplier bracket.
  */
 export function calculateIncrement(
   currentBid: number,
   basePrice: number,
-  config: OutcryConfig
+  config: OutcryConfig,
+  scope: OutcryRuleScope = {}
 ): number {
   if (basePrice <= 0) return basePrice || 1
 
+  const rules = getOutcryRules(config, scope)
   const multiplier = currentBid / basePrice
 
-  for (const rule of config.rules) {
+  for (const rule of rules) {
     if (multiplier >= rule.from_multiplier && multiplier < rule.to_multiplier) {
       return rule.increment
     }
   }
 
   // Fallback: use the last rule's increment or base price
-  return config.rules.length > 0
-    ? config.rules[config.rules.length - 1].increment
+  return rules.length > 0
+    ? rules[rules.length - 1].increment
     : basePrice
 }
 
@@ -61,7 +122,95 @@ export function calculateIncrement(
 export function calculateNextBid(
   currentBid: number,
   basePrice: number,
-  config: OutcryConfig
+  config: OutcryConfig,
+  scope: OutcryRuleScope = {}
+): number {
+  return currentBid + calculateIncrement(currentBid, basePrice, config, scope)
+}
+
+/**
+ * The next step for an open outcry round: the base price for the first bid,
+ * then one increment above the current bid. Mirrors raise_paddle.
+ */
+export function getRoundNextBid(
+  round: { basePrice: number; currentBid: number | null; bidCount: number },
+  config: OutcryConfig | null,
+  scope: OutcryRuleScope = {}
+): number {
+  if (round.bidCount === 0) return round.basePrice
+  const currentBid = round.currentBid || round.basePrice
+  return config ? calculateNextBid(currentBid, round.basePrice, config, scope) : currentBid + round.basePrice
+}
+
+/**
+ * Longest ladder a jump bid may climb in one go. Keeps the step walk (here
+ * and in raise_paddle) bounded for tiny increments.
+ */
+export const MAX_JUMP_STEPS = 1000
+
+/**
+ * Valid steps either side of `amount`, walking the increment ladder up from
+ * `minBid` (the next bid). `below` is null when amount is under minBid;
+ * `above` is null when the walk gives up after MAX_JUMP_STEPS.
+ */
+export function findOutcryStep(
+  amount: number,
+  minBid: number,
+  basePrice: number,
+  config: OutcryConfig,
+  scope: OutcryRuleScope = {}
+): { below: number | null; above: number | null } {
+  if (amount < minBid) return { below: null, above: minBid }
+
+  let step = minBid
+  for (let i = 0; i < MAX_JUMP_STEPS; i++) {
+    const next = calculateNextBid(step, basePrice, config, scope)
+    if (next > amount) return { below: step, above: step === amount ? step : next }
+    if (next <= step) break
+    step = next
+  }
+  return { below: step, above: null }
+}
+
+/**
+ * Snap a typed jump amount onto the nearest valid step (ties go up),
+ * never below the next bid.
+ */
+export function roundToOutcryStep(
+  amount: number,
+  minBid: number,
+  basePrice: number,
+  config: OutcryConfig,
+  scope: OutcryRuleScope = {}
 ): number {
-  return currentBid + calculateIncrement(currentBid, basePrice, config)
+  const { below, above } = findOutcryStep(amount, minBid, basePrice, config, scope)
+  if (below === null) return minBid
+  if (above === null) return below
+  return amount - below < above - amount ? below : above
+}
+
+/**
+ * Why a bid of `amount` can't be placed when the next bid is `minBid`, or
+ * null if it's a valid (jump) bid. Mirrors the checks in raise_paddle
+ * (20260227080000_add_outcry_jump_bids migration).
+ */
+export function getJumpBidError(
+  amount: number,
+  minBid: number,
+  basePrice: number,
+  config: OutcryConfig,
+  scope: OutcryRuleScope = {}
+): string | null {
+  if (!Number.isInteger(amount)) return 'Bid must be a whole number'
+  if (amount < minBid) return `Bid must be at least ${minBid}`
+
+  if (config.max_jump != null && amount - minBid > config.max_jump) {
+    return `Jump bids are capped at ${config.max_jump} above the next bid (max ${minBid + config.max_jump})`
+  }
+
+  const { below, above } = findOutcryStep(amount, minBid, basePrice, config, scope)
+  if (above === null) return 'Jump bid is too far above the current bid'
+  if (below !== amount) return `${amount} is not a valid bid step — try ${below} or ${above}`
+
+  return null
 }
@@ -0,0 +1,80 @@
+import type { MailMessage } from '@/lib/mailer'
+
+// Bulk participant import (UploadUserList → POST /api/auctions/[id]/participants).
+// Known users become participants straight away; unknown emails get a pending
+// invitation and an invitation email, and join when they sign up (see the
+// 20260227220000 migration).
+
+export type ParticipantRole = 'CAPTAIN' | 'MODERATOR' | 'VIEWER'
+
+export type ImportOutcome = 'ADDED' | 'UPDATED' | 'SKIPPED' | 'INVITED' | 'ALREADY_INVITED' | 'ERROR'
+
+export interface ImportRowResult {
+  name: string
+  email: string
+  outcome: ImportOutcome
+  status: string // human-readable, shown per row in the dialog
+}
+
+const ROLE_LABELS: Record<ParticipantRole, string> = {
+  CAPTAIN: 'a captain',
+  MODERATOR: 'a moderator',
+  VIEWER: 'a viewer',
+}
+
+/** Invitations are matched on email case-insensitively. */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function buildInvitationEmail({
+  to,
+  name,
+  auctionName,
+  inviterName,
+  role,
+  signupUrl,
+}: {
+  to: string
+  name: string
+  auctionName: string
+  inviterName: string | null
+  role: ParticipantRole
+  signupUrl: string
+}): MailMessage {
+  const inviter = inviterName || 'The organiser'
+  const text = [
+    `Hi ${name},`,
+    '',
+    `${inviter} has invited you to join "${auctionName}" on TossUp as ${ROLE_LABELS[role]}.`,
+    '',
+    `Create your account with this email address (${to}) to accept:`,
+    signupUrl,
+    '',
+    "You'll be added to the auction as soon as your email is confirmed.",
+  ].join('\n')
+
+  return {
+    to,
+    subject: `You're invited to ${auctionName}`,
+    text,
+  }
+}
+
+/** One-line summary of an import, e.g. "Added 3, invited 2, skipped 1". */
+export function summarizeImport(rows: ImportRowResult[]): string {
+  const count = (...outcomes: ImportOutcome[]) => rows.filter(r => outcomes.includes(r.outcome)).length
+  const parts = [
+    ['Added', count('ADDED', 'UPDATED')],
+    ['invited', count('INVITED')],
+    ['already invited', count('ALREADY_INVITED')],
+    ['skipped', count('SKIPPED')],
+    ['failed', count('ERROR')],
+  ] as const
+
+  const summary = parts
+    .filter(([label, n]) => n > 0 || label === 'Added')
+    .map(([label, n]) => `${label} ${n}`)
+    .join(', ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
@@ -0,0 +1,34 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { broadcastRtmOffer, openRtmOffer } from '@/lib/rtm'
+import { triggerProxyBidder } from '@/lib/proxy-bidder'
+import { triggerBotCaptains } from '@/lib/bot-captain'
+
+// What follows a round closing, however it closed: the auctioneer's hammer
+// (action and round/resolve routes) or an expired outcry timer
+// (lib/outcry-timer.ts).
+
+export interface ClosedRound {
+  soldPlayerId: string | null // set when the round ended in a sale
+  openedRoundId: string | null // the next player's round, if one opened
+}
+
+/**
+ * A sale may open a right-to-match window for the player's previous team,
+ * and wishlisted teams and bot captains may open the bidding on the next
+ * player. Failures are logged by the hooks themselves, never thrown.
+ */
+export async function runPostSaleHooks(
+  supabase: SupabaseClient,
+  auctionId: string,
+  { soldPlayerId, openedRoundId }: ClosedRound
+): Promise<void> {
+  if (soldPlayerId) {
+    const rtmOffer = await openRtmOffer(supabase, auctionId, soldPlayerId)
+    if (rtmOffer) await broadcastRtmOffer(supabase, auctionId, rtmOffer)
+  }
+
+  if (openedRoundId) {
+    await triggerProxyBidder(auctionId)
+    await triggerBotCaptains(auctionId)
+  }
+}
@@ -0,0 +1,202 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { loadBidLimit } from '@/lib/budget-utils'
+import { checkSquadLimits } from '@/lib/squad-rules'
+import {
+  calculateNextBid, getRoundNextBid,
+  type OutcryConfig, type OutcryRule, type OutcryRuleScope,
+} from '@/lib/outcry-utils'
+
+// Captain wishlists and the server-side proxy bidder for open outcry
+// (20260227140000 migration). A wishlist entry is a max price for a player;
+// while that player is on the block the proxy raises for the team through
+// raise_paddle, one step at a time, as long as the next step is within the
+// max, the team's bid limit and its squad limits. Proxy raises go out as
+// ordinary 'outcry-bid' broadcasts with proxy: true. A request only makes
+// the first few raises of an exchange; the outcry-timer sweep makes the rest.
+
+export interface WishlistEntry {
+  playerId: string
+  maxPrice: number
+}
+
+export interface ProxyCandidate {
+  teamId: string
+  maxPrice: number
+  createdAt: string
+}
+
+/** Upper bound on proxy raises per run, so two proxies can't ping-pong forever. */
+export const MAX_PROXY_RAISES = 100
+
+/** Proxy (and bot) raises a request makes before it answers; the sweep carries on from there. */
+export const AUTO_RAISES_PER_REQUEST = 8
+
+/**
+ * Teams whose proxy would raise to nextBid, in the order they get to try:
+ * not already leading, max price covers the step. Highest max first (it
+ * would win the exchange anyway), then whoever set theirs earliest.
+ */
+export function getProxyCandidates(
+  entries: ProxyCandidate[],
+  nextBid: number,
+  leadingTeamId: string | null
+): ProxyCandidate[] {
+  return entries
+    .filter(e => e.teamId !== leadingTeamId && e.maxPrice >= nextBid)
+    .sort((a, b) => b.maxPrice - a.maxPrice || a.createdAt.localeCompare(b.createdAt))
+}
+
+/** This team's wishlist: a max price per player. */
+export async function loadWishlist(
+  supabase: SupabaseClient,
+  auctionId: string,
+  teamId: string
+): Promise<WishlistEntry[]> {
+  const { data } = await supabase
+    .from('wishlist_entries')
+    .select('player_id, max_price')
+    .eq('auction_id', auctionId)
+    .eq('team_id', teamId)
+
+  return (data || []).map(e => ({ playerId: e.player_id, maxPrice: e.max_price }))
+}
+
+/**
+ * Raise for wishlisted teams on the auction's open outcry round until no
+ * proxy can (or needs to) go higher, or maxRaises raises have gone in.
+ * Needs a service-role client — it bids for teams other than the caller's.
+ * Returns the number of proxy raises.
+ */
+export async function runProxyBidder(
+  supabase: SupabaseClient,
+  auctionId: string,
+  maxRaises: number = MAX_PROXY_RAISES
+): Promise<number> {
+  const { data: auction } = await supabase
+    .from('auctions')
+    .select('id, status, bidding_type, outcry_config')
+    .eq('id', auctionId)
+    .maybeSingle()
+
+  if (!auction || auction.status !== 'LIVE' || auction.bidding_type !== 'OPEN_OUTCRY') return 0
+
+  const outcryConfig = auction.outcry_config as OutcryConfig | null
+  const timerSeconds = outcryConfig?.timer_seconds ?? null
+  let raises = 0
+
+  while (raises < maxRaises) {
+    const { data: round } = await supabase
+      .from('rounds')
+      .select('id, player_id, tier_id, outcry_rules, base_price, current_bid_amount, current_bid_team_id, bid_count')
+      .eq('auction_id', auctionId)
+      .eq('status', 'OPEN')
+      .order('opened_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!round) break
+
+    const { data: entries } = await supabase
+      .from('wishlist_entries')
+      .select('team_id, max_price, created_at')
+      .eq('auction_id', auctionId)
+      .eq('player_id', round.player_id)
+
+    const ruleScope: OutcryRuleScope = {
+      tierId: round.tier_id,
+      roundRules: round.outcry_rules as OutcryRule[] | null,
+    }
+    const basePrice = round.base_price || 0
+    const nextBid = getRoundNextBid(
+      { basePrice, currentBid: round.current_bid_amount, bidCount: round.bid_count },
+      outcryConfig,
+      ruleScope
+    )
+
+    const candidates = getProxyCandidates(
+      (entries || []).map(e => ({ teamId: e.team_id, maxPrice: e.max_price, createdAt: e.created_at })),
+      nextBid,
+      round.current_bid_team_id
+    )
+
+    // First candidate that can still afford the step and has room for the player
+    let bidder: string | null = null
+    for (const candidate of candidates) {
+      const squadLimitError = await checkSquadLimits({ supabase, auctionId, teamId: candidate.teamId, playerId: round.player_id })
+      if (squadLimitError) continue
+      const bidLimit = await loadBidLimit({ supabase, auctionId, teamId: candidate.teamId, forTierId: round.tier_id })
+      if (nextBid > bidLimit.maxBid) continue
+      bidder = candidate.teamId
+      break
+    }
+
+    if (!bidder) break
+
+    const { data: rpcResult, error: rpcError } = await supabase
+      .rpc('raise_paddle', {
+        p_round_id: round.id,
+        p_team_id: bidder,
+        p_player_id: round.player_id,
+        p_auction_id: auctionId,
+        p_timer_seconds: timerSeconds,
+        p_amount: null,
+        p_is_proxy: true,
+      })
+
+    // Someone else got a raise in first (or the round closed) — leave it to the next run
+    if (rpcError) {
+      console.error('[proxy-bidder] raise_paddle failed:', rpcError.message)
+      break
+    }
+
+    raises++
+    const result = rpcResult?.[0] || rpcResult
+    const newAmount: number = result?.new_amount
+
+    const { data: team } = await supabase
+      .from('teams')
+      .select('name')
+      .eq('id', bidder)
+      .maybeSingle()
+
+    const channel = supabase.channel(`auction-${auctionId}`)
+    await channel.send({
+      type: 'broadcast',
+      event: 'outcry-bid',
+      payload: {
+        roundId: round.id,
+        bidId: result?.bid_id,
+        amount: newAmount,
+        sequence: result?.new_sequence,
+        jump: false,
+        proxy: true,
+        teamId: bidder,
+        teamName: team?.name || 'Unknown',
+        timerExpiresAt: timerSeconds ? new Date(Date.now() + timerSeconds * 1000).toISOString() : null,
+        nextBidAmount: outcryConfig
+          ? calculateNextBid(newAmount, basePrice, outcryConfig, ruleScope)
+          : newAmount + basePrice,
+        basePrice,
+        playerId: round.player_id,
+      },
+    })
+    await supabase.removeChannel(channel)
+  }
+
+  return raises
+}
+
+/**
+ * Run the proxy bidder after something that may have changed what it should
+ * do (a raise, a new round, a wishlist edit), for at most
+ * AUTO_RAISES_PER_REQUEST raises. Failures are logged, never thrown — the
+ * caller's own action has already succeeded.
+ */
+export async function triggerProxyBidder(auctionId: string): Promise<void> {
+  try {
+    await runProxyBidder(createAdminClient(), auctionId, AUTO_RAISES_PER_REQUEST)
+  } catch (err) {
+    console.error('[proxy-bidder] Run failed for', auctionId, err)
+  }
+}
@@ -0,0 +1,87 @@
+import { createSeededRandom, seededShuffle } from '@/lib/seeded-random'
+
+// Server-side queue shuffle (20260227170000 migration). The auctioneer picks a
+// mode; the server splits the pool into buckets, draws a seed and shuffles
+// each bucket in turn with one seeded stream. The seed, buckets and resulting
+// queue are stored on auctions.queue_shuffle so anyone can rebuild the order.
+// Bump QUEUE_SHUFFLE_VERSION whenever the draw changes; old records keep
+// verifying against the version they were made with.
+
+export const QUEUE_SHUFFLE_VERSION = 1
+
+export type QueueShuffleMode = 'random' | 'tier-ordered' | 'custom-mix'
+
+export interface QueueShuffle {
+  version: number
+  seed: string
+  mode: QueueShuffleMode
+  buckets: string[][] // player IDs, sorted within each bucket; shuffled in this order
+  queue: string[]
+  createdAt: string
+}
+
+export interface QueueShuffleVerification {
+  rebuiltQueue: string[]
+  matchesRecord: boolean    // the recorded queue is what the seed produces
+  matchesLiveQueue: boolean // the live queue still has the shuffled players in that order
+}
+
+/**
+ * Split the pool into the buckets a mode shuffles. `random` is one bucket;
+ * the tiered modes get one bucket per group of tier IDs, in order, with
+ * untiered players last. Players are sorted by ID so the buckets don't
+ * depend on the order the pool was loaded in.
+ */
+export function getShuffleBuckets(
+  players: Array<{ id: string; tierId: string | null }>,
+  mode: QueueShuffleMode,
+  tierGroups: string[][] = []
+): string[][] {
+  const sorted = [...players].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+
+  if (mode === 'random' || tierGroups.length === 0) {
+    return [sorted.map(p => p.id)]
+  }
+
+  const buckets = tierGroups.map(tierIds => sorted.filter(p => p.tierId && tierIds.includes(p.tierId)).map(p => p.id))
+  const untiered = sorted.filter(p => !p.tierId).map(p => p.id)
+  if (untiered.length > 0) buckets.push(untiered)
+
+  return buckets.filter(bucket => bucket.length > 0)
+}
+
+/** The queue a seed produces from these buckets. */
+export function shuffleQueue(buckets: string[][], seed: string, version = QUEUE_SHUFFLE_VERSION): string[] {
+  if (version !== 1) {
+    throw new Error(`Unsupported queue shuffle version ${version}`)
+  }
+
+  const random = createSeededRandom(seed)
+  return buckets.flatMap(bucket => seededShuffle(bucket, random))
+}
+
+/**
+ * Rebuild a recorded shuffle and compare it with the record and with the live
+ * queue. A defer moves a player to the back, so players in `movedIds` are left
+ * out of the live comparison, as are players added later (nominations,
+ * accelerated rounds) and repeat appearances.
+ */
+export function verifyQueueShuffle(
+  shuffle: QueueShuffle,
+  liveQueue: string[] | null,
+  movedIds: Set<string> = new Set()
+): QueueShuffleVerification {
+  const rebuiltQueue = shuffleQueue(shuffle.buckets, shuffle.seed, shuffle.version)
+  const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i])
+
+  const shuffled = new Set(rebuiltQueue)
+  // First appearance only: unsold players can be queued again at the end
+  const live = [...new Set(liveQueue || [])].filter(id => shuffled.has(id) && !movedIds.has(id))
+  const expected = rebuiltQueue.filter(id => !movedIds.has(id))
+
+  return {
+    rebuiltQueue,
+    matchesRecord: sameOrder(rebuiltQueue, shuffle.queue),
+    matchesLiveQueue: !!liveQueue && sameOrder(live, expected),
+  }
+}
@@ -0,0 +1,103 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// Pre-auction retentions (20260227120000 migration). While an auction is in
+// DRAFT or LOBBY, a team can keep players at a fixed price. Each retention is
+// an auction_results row with source = 'RETAINED', so budgets and squad
+// limits count it like a sale. retain_player / release_retention enforce the
+// limits below; the checks here give a clear message up front.
+
+export interface RetentionLimits {
+  maxPerTeam: number // 0 = retentions off
+  maxSpend: number | null // total a team may spend on retentions, null = no cap
+}
+
+export interface RetainedPlayer {
+  playerId: string
+  playerName: string
+  teamId: string
+  teamName: string
+  price: number
+}
+
+export interface TeamRetentionSummary {
+  teamId: string
+  count: number
+  spend: number
+  slotsLeft: number
+  spendLeft: number | null // null = no cap
+}
+
+export function isRetentionPhase(status: string | null | undefined): boolean {
+  return status === 'DRAFT' || status === 'LOBBY'
+}
+
+export function getTeamRetentionSummary(
+  limits: RetentionLimits,
+  retained: Pick<RetainedPlayer, 'teamId' | 'price'>[],
+  teamId: string
+): TeamRetentionSummary {
+  const mine = retained.filter(r => r.teamId === teamId)
+  const spend = mine.reduce((sum, r) => sum + r.price, 0)
+  return {
+    teamId,
+    count: mine.length,
+    spend,
+    slotsLeft: Math.max(0, limits.maxPerTeam - mine.length),
+    spendLeft: limits.maxSpend == null ? null : Math.max(0, limits.maxSpend - spend),
+  }
+}
+
+/**
+ * Why a team can't retain another player at `price`, or null if it can.
+ * Mirrors the limit checks in retain_player.
+ */
+export function getRetentionError(
+  limits: RetentionLimits,
+  summary: TeamRetentionSummary,
+  price: number,
+  basePrice = 1
+): string | null {
+  if (limits.maxPerTeam === 0) return 'Retentions are not enabled for this auction'
+  if (price < basePrice) return `Retention price must be at least ${basePrice} (the tier base price)`
+  if (summary.slotsLeft === 0) {
+    return `Team already has ${summary.count} retained player${summary.count === 1 ? '' : 's'} — the retention limit`
+  }
+  if (limits.maxSpend != null && summary.spend + price > limits.maxSpend) {
+    return `Retentions would cost ${summary.spend + price} — the retention budget is ${limits.maxSpend}`
+  }
+  return null
+}
+
+/** The auction's retention limits and every retained player. */
+export async function loadRetentions(
+  supabase: SupabaseClient,
+  auctionId: string
+): Promise<{ limits: RetentionLimits; retained: RetainedPlayer[] }> {
+  const [auctionResult, resultsResult] = await Promise.all([
+    supabase
+      .from('auctions')
+      .select('max_retentions_per_team, max_retention_spend')
+      .eq('id', auctionId)
+      .maybeSingle(),
+    supabase
+      .from('auction_results')
+      .select('player_id, team_id, winning_bid_amount, player:players!player_id(name), team:teams!team_id(name)')
+      .eq('auction_id', auctionId)
+      .eq('source', 'RETAINED')
+      .order('assigned_at', { ascending: true }),
+  ])
+
+  return {
+    limits: {
+      maxPerTeam: auctionResult.data?.max_retentions_per_team ?? 0,
+      maxSpend: auctionResult.data?.max_retention_spend ?? null,
+    },
+    retained: (resultsResult.data || []).map(r => ({
+      playerId: r.player_id,
+      playerName: (r.player as unknown as { name: string } | null)?.name || 'Unknown',
+      teamId: r.team_id,
+      teamName: (r.team as unknown as { name: string } | null)?.name || 'Unknown',
+      price: r.winning_bid_amount,
+    })),
+  }
+}
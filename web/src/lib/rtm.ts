@@ -0,0 +1,165 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { AuctionState } from '@/lib/auction-realtime'
+
+// Right-to-match cards (auctions.rtm_cards_per_team). When a player with a
+// previous_team_id is sold to another team, the previous team gets a short
+// window to take them at the hammer price. Offers live in rtm_offers and are
+// opened and claimed by the open_rtm_offer / claim_rtm functions
+// (20260227110000 migration).
+
+export const RTM_WINDOW_SECONDS = 30
+
+export type RtmOfferStatus = 'OPEN' | 'CLAIMED' | 'DECLINED' | 'EXPIRED' | 'VOID'
+
+// Broadcast on `auction-${id}` as 'rtm-offer' when a window opens and again once it is answered
+export interface RtmOffer {
+  id: string
+  playerId: string
+  playerName: string
+  teamId: string // previous team — the one holding the card
+  teamName: string
+  winningTeamId: string
+  winningTeamName: string
+  price: number
+  status: RtmOfferStatus
+  expiresAt: string
+}
+
+export interface RtmStatus {
+  cardsTotal: number
+  cardsLeft: number
+  offer: RtmOffer | null // this team's open offer, if any
+}
+
+export function getRtmSecondsLeft(offer: Pick<RtmOffer, 'expiresAt'>, now = Date.now()): number {
+  return Math.max(0, Math.ceil((new Date(offer.expiresAt).getTime() - now) / 1000))
+}
+
+export function isRtmOfferOpen(offer: Pick<RtmOffer, 'status' | 'expiresAt'>, now = Date.now()): boolean {
+  return offer.status === 'OPEN' && getRtmSecondsLeft(offer, now) > 0
+}
+
+export function getRtmCardsLeft(cardsPerTeam: number, claimed: number): number {
+  return Math.max(0, cardsPerTeam - claimed)
+}
+
+/**
+ * Moves a claimed player, and what was paid for them, from the winning team
+ * to the RTM team in an auctioneer's AuctionState.
+ */
+export function applyRtmClaim(state: AuctionState, offer: RtmOffer): AuctionState {
+  const moved = state.teams
+    .find(t => t.id === offer.winningTeamId)
+    ?.players.find(p => p.id === offer.playerId)
+  if (!moved) return state
+
+  return {
+    ...state,
+    teams: state.teams.map(team => {
+      if (team.id === offer.winningTeamId) {
+        return { ...team, coins: team.coins + offer.price, players: team.players.filter(p => p.id !== offer.playerId) }
+      }
+      if (team.id === offer.teamId) {
+        return { ...team, coins: team.coins - offer.price, players: [...team.players, moved] }
+      }
+      return team
+    }),
+    soldPlayers: state.soldPlayers.map(p =>
+      p.playerId === offer.playerId ? { ...p, teamId: offer.teamId, teamName: offer.teamName } : p
+    ),
+  }
+}
+
+export const RTM_OFFER_SELECT = `
+  id, player_id, team_id, winning_team_id, price, status, expires_at,
+  player:players!player_id(name, tier_id),
+  team:teams!team_id(name),
+  winning_team:teams!winning_team_id(name)
+`
+
+export function toRtmOffer(row: {
+  id: string
+  player_id: string
+  team_id: string
+  winning_team_id: string
+  price: number
+  status: string
+  expires_at: string
+  player?: unknown
+  team?: unknown
+  winning_team?: unknown
+}): RtmOffer {
+  return {
+    id: row.id,
+    playerId: row.player_id,
+    playerName: (row.player as { name: string } | null)?.name || 'Unknown',
+    teamId: row.team_id,
+    teamName: (row.team as { name: string } | null)?.name || 'Unknown',
+    winningTeamId: row.winning_team_id,
+    winningTeamName: (row.winning_team as { name: string } | null)?.name || 'Unknown',
+    price: row.price,
+    status: row.status as RtmOfferStatus,
+    expiresAt: row.expires_at,
+  }
+}
+
+/**
+ * Opens an RTM window for a player who was just sold, if their previous team
+ * has a card left. Returns null when there is nothing to offer.
+ */
+export async function openRtmOffer(supabase: SupabaseClient, auctionId: string, playerId: string): Promise<RtmOffer | null> {
+  const { data: opened, error } = await supabase.rpc('open_rtm_offer', {
+    p_auction_id: auctionId,
+    p_player_id: playerId,
+    p_window_seconds: RTM_WINDOW_SECONDS,
+  })
+
+  if (error) {
+    console.error('[rtm] Failed to open offer:', error)
+    return null
+  }
+
+  const offerId = (opened?.[0] || null)?.id as string | undefined
+  if (!offerId) return null
+
+  const { data: row } = await supabase
+    .from('rtm_offers')
+    .select(RTM_OFFER_SELECT)
+    .eq('id', offerId)
+    .maybeSingle()
+
+  return row ? toRtmOffer(row) : null
+}
+
+/** A team's RTM cards and its open offer. */
+export async function loadRtmStatus(supabase: SupabaseClient, auctionId: string, teamId: string): Promise<RtmStatus> {
+  const [auctionResult, offersResult] = await Promise.all([
+    supabase.from('auctions').select('rtm_cards_per_team').eq('id', auctionId).maybeSingle(),
+    supabase
+      .from('rtm_offers')
+      .select(RTM_OFFER_SELECT)
+      .eq('auction_id', auctionId)
+      .eq('team_id', teamId)
+      .in('status', ['OPEN', 'CLAIMED'])
+      .order('created_at', { ascending: false }),
+  ])
+
+  const offers = (offersResult.data || []).map(toRtmOffer)
+  const cardsTotal = auctionResult.data?.rtm_cards_per_team || 0
+
+  return {
+    cardsTotal,
+    cardsLeft: getRtmCardsLeft(cardsTotal, offers.filter(o => o.status === 'CLAIMED').length),
+    offer: offers.find(o => isRtmOfferOpen(o)) || null,
+  }
+}
+
+export async function broadcastRtmOffer(supabase: SupabaseClient, auctionId: string, offer: RtmOffer) {
+  const channel = supabase.channel(`auction-${auctionId}`)
+  await channel.send({
+    type: 'broadcast',
+    event: 'rtm-offer',
+    payload: offer,
+  })
+  await supabase.removeChannel(channel)
+}
@@ -0,0 +1,138 @@
+import { createSeededRandom } from '@/lib/seeded-random'
+
+export type SealedTieBreak = 'EARLIEST_BID' | 'FEWEST_PLAYERS' | 'RANDOM'
+
+export type SealedBiddingType = 'SEALED_TENDER' | 'SEALED_SECOND_PRICE'
+
+export interface SealedConfig {
+  tie_break: SealedTieBreak
+  increment?: number // SEALED_SECOND_PRICE: added to the runner-up bid
+}
+
+export const DEFAULT_SECOND_PRICE_INCREMENT = 10
+
+export function getDefaultSealedConfig(biddingType: SealedBiddingType = 'SEALED_TENDER'): SealedConfig {
+  return biddingType === 'SEALED_SECOND_PRICE'
+    ? { tie_break: 'EARLIEST_BID', increment: DEFAULT_SECOND_PRICE_INCREMENT }
+    : { tie_break: 'EARLIEST_BID' }
+}
+
+export function isSealedBiddingType(biddingType: string | null | undefined): biddingType is SealedBiddingType {
+  return biddingType === 'SEALED_TENDER' || biddingType === 'SEALED_SECOND_PRICE'
+}
+
+export const TIE_BREAK_LABELS: Record<SealedTieBreak, string> = {
+  EARLIEST_BID: 'Earliest bid',
+  FEWEST_PLAYERS: 'Smallest squad',
+  RANDOM: 'Random draw',
+}
+
+export interface SealedBid {
+  bidId: string
+  teamId: string
+  teamName: string
+  amount: number
+  submittedAt: string
+}
+
+export interface SealedResolution {
+  winner: SealedBid
+  price: number                 // what the winner pays — their bid, or the second price
+  bids: SealedBid[]             // every bid, highest first
+  tiedTeamIds: string[]         // teams level on the top amount (length 1 = no tie)
+  tieBreak: SealedTieBreak | null // rule that decided it, null when there was no tie
+  seed: string | null           // RANDOM only — replay with createSeededRandom(seed)
+}
+
+// Broadcast on `auction-${id}` as 'sealed-reveal' once a round is resolved
+export interface SealedRevealEvent {
+  roundId: string
+  playerId: string
+  playerName: string
+  winner: { teamId: string; teamName: string; amount: number; price: number }
+  bids: Array<{ teamId: string; teamName: string; amount: number; submittedAt: string }>
+  tieBreak: SealedTieBreak | null
+  seed: string | null
+}
+
+const byTime = (a: SealedBid, b: SealedBid) =>
+  new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime()
+  || a.teamId.localeCompare(b.teamId)
+
+/**
+ * Vickrey price: the runner-up's bid plus one increment, never more than
+ * the winner's own bid. With no other bids the winner pays the base price.
+ */
+export function calculateSecondPrice(
+  winner: SealedBid,
+  bids: SealedBid[],
+  basePrice: number,
+  increment: number = DEFAULT_SECOND_PRICE_INCREMENT
+): number {
+  const others = bids.filter(b => b.bidId !== winner.bidId)
+  if (others.length === 0) return basePrice > 0 ? Math.min(basePrice, winner.amount) : winner.amount
+
+  const runnerUp = Math.max(...others.map(b => b.amount))
+  return Math.min(runnerUp + increment, winner.amount)
+}
+
+/**
+ * Pick the winner of a sealed round: highest amount, then the configured
+ * tie-break. FEWEST_PLAYERS falls back to earliest bid when squads are
+ * level too. RANDOM sorts the tied teams by ID before drawing so the seed
+ * alone reproduces the result. Pass secondPrice to price the win with
+ * calculateSecondPrice; otherwise the winner pays their bid.
+ */
+export function resolveSealedBids(
+  bids: SealedBid[],
+  config: SealedConfig,
+  options: {
+    squadCounts?: Record<string, number>
+    seed?: string
+    secondPrice?: { basePrice: number }
+  } = {}
+): SealedResolution | null {
+  if (bids.length === 0) return null
+
+  const ranked = [...bids].sort((a, b) => b.amount - a.amount || byTime(a, b))
+  const top = ranked[0].amount
+  const tied = ranked.filter(b => b.amount === top)
+
+  const priceFor = (winner: SealedBid) => options.secondPrice
+    ? calculateSecondPrice(winner, ranked, options.secondPrice.basePrice, config.increment)
+    : winner.amount
+
+  if (tied.length === 1) {
+    return {
+      winner: tied[0],
+      price: priceFor(tied[0]),
+      bids: ranked,
+      tiedTeamIds: [tied[0].teamId],
+      tieBreak: null,
+      seed: null,
+    }
+  }
+
+  const tiedTeamIds = tied.map(b => b.teamId)
+  let winner: SealedBid
+  let seed: string | null = null
+
+  switch (config.tie_break) {
+    case 'FEWEST_PLAYERS': {
+      const counts = options.squadCounts || {}
+      winner = [...tied].sort((a, b) => (counts[a.teamId] ?? 0) - (counts[b.teamId] ?? 0) || byTime(a, b))[0]
+      break
+    }
+    case 'RANDOM': {
+      if (!options.seed) throw new Error('A seed is required for a random tie-break')
+      seed = options.seed
+      const pool = [...tied].sort((a, b) => a.teamId.localeCompare(b.teamId))
+      winner = pool[Math.floor(createSeededRandom(seed)() * pool.length)]
+      break
+    }
+    default:
+      winner = [...tied].sort(byTime)[0]
+  }
+
+  return { winner, price: priceFor(winner), bids: ranked, tiedTeamIds, tieBreak: config.tie_break, seed }
+}
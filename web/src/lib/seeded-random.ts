@@ -0,0 +1,50 @@
+// Deterministic PRNG for draws that must be reproducible from a recorded seed.
+// cyrb53 string hash → mulberry32. Not cryptographic; the point is that anyone
+// holding the seed can re-run the draw and get the same answer.
+
+function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (h1 ^ h2) >>> 0
+}
+
+/**
+ * Returns a function producing floats in [0, 1), fully determined by seed.
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fisher–Yates shuffle driven by `random`, so the same seed gives the same order.
+ * Returns a new array.
+ */
+export function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+/**
+ * Fresh seed for a new draw. Store it alongside the result.
+ */
+export function generateSeed(): string {
+  return crypto.randomUUID()
+}
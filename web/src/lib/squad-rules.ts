@@ -0,0 +1,213 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { PlayingRole, RoleRules } from '@/lib/types'
+
+// Squad composition limits: per tier (tiers.min_per_team / max_per_team) and
+// per playing role (auctions.role_rules). The maximums are also enforced in
+// the database by auction_results triggers (20260227090000 and
+// 20260227100000 migrations); the checks here give bidders a clear message
+// before they commit to a bid.
+
+export interface TierLimit {
+  id: string
+  name: string
+  minPerTeam: number
+  maxPerTeam: number | null // null = no cap
+}
+
+export interface UnmetTierRequirement {
+  tierId: string
+  tierName: string
+  required: number
+  acquired: number
+}
+
+export interface RoleRequirement {
+  role: PlayingRole
+  label: string
+  min: number
+  max: number | null
+  acquired: number
+  needed: number // still to buy to reach min
+}
+
+export interface IncompleteSquad {
+  teamId: string
+  teamName: string
+  unmet: UnmetTierRequirement[]
+  unmetRoles: RoleRequirement[]
+}
+
+export const PLAYING_ROLES: PlayingRole[] = ['BATSMAN', 'BOWLER', 'ALL_ROUNDER', 'WICKETKEEPER']
+
+export const ROLE_LABELS: Record<PlayingRole, { one: string; many: string }> = {
+  BATSMAN: { one: 'batsman', many: 'batsmen' },
+  BOWLER: { one: 'bowler', many: 'bowlers' },
+  ALL_ROUNDER: { one: 'all-rounder', many: 'all-rounders' },
+  WICKETKEEPER: { one: 'wicketkeeper', many: 'wicketkeepers' },
+}
+
+export function getTierMaxError(tier: TierLimit, acquired: number): string | null {
+  if (tier.maxPerTeam == null || acquired < tier.maxPerTeam) return null
+  return `Your team already has ${acquired} ${tier.name} player${acquired === 1 ? '' : 's'} — the maximum for that tier`
+}
+
+export function getRoleMaxError(role: PlayingRole, rules: RoleRules | null | undefined, acquired: number): string | null {
+  const max = rules?.[role]?.max
+  if (max == null || acquired < max) return null
+  const label = ROLE_LABELS[role]
+  return `Your team already has ${acquired} ${acquired === 1 ? label.one : label.many} — the most a squad can have`
+}
+
+/**
+ * Every role with a rule, and how many more of it the team needs.
+ * `counts` maps role → players the team already has.
+ */
+export function getRoleRequirements(
+  rules: RoleRules | null | undefined,
+  counts: Partial<Record<PlayingRole, number>>
+): RoleRequirement[] {
+  return PLAYING_ROLES
+    .filter(role => rules?.[role]?.min != null || rules?.[role]?.max != null)
+    .map(role => {
+      const min = rules?.[role]?.min ?? 0
+      const acquired = counts[role] || 0
+      return {
+        role,
+        label: ROLE_LABELS[role].many,
+        min,
+        max: rules?.[role]?.max ?? null,
+        acquired,
+        needed: Math.max(0, min - acquired),
+      }
+    })
+}
+
+/**
+ * Teams that fall short of any tier's minPerTeam or role minimum.
+ * `acquired` maps teamId → tierId → players bought from that tier;
+ * `roleCounts` maps teamId → role → players with that role.
+ */
+export function findIncompleteSquads(
+  teams: { id: string; name: string }[],
+  tiers: TierLimit[],
+  acquired: Record<string, Record<string, number>>,
+  roleRules?: RoleRules | null,
+  roleCounts: Record<string, Partial<Record<PlayingRole, number>>> = {}
+): IncompleteSquad[] {
+  const incomplete: IncompleteSquad[] = []
+
+  for (const team of teams) {
+    const unmet = tiers
+      .map(tier => ({
+        tierId: tier.id,
+        tierName: tier.name,
+        required: tier.minPerTeam,
+        acquired: acquired[team.id]?.[tier.id] || 0,
+      }))
+      .filter(req => req.acquired < req.required)
+    const unmetRoles = getRoleRequirements(roleRules, roleCounts[team.id] || {}).filter(r => r.needed > 0)
+
+    if (unmet.length > 0 || unmetRoles.length > 0) {
+      incomplete.push({ teamId: team.id, teamName: team.name, unmet, unmetRoles })
+    }
+  }
+
+  return incomplete
+}
+
+export function toTierLimit(t: { id: string; name: string; min_per_team: number | null; max_per_team: number | null }): TierLimit {
+  return { id: t.id, name: t.name, minPerTeam: t.min_per_team || 0, maxPerTeam: t.max_per_team ?? null }
+}
+
+interface CheckSquadLimitsParams {
+  supabase: SupabaseClient
+  auctionId: string
+  teamId: string
+  playerId: string
+}
+
+/**
+ * Reason the team can't take this player — its tier's maxPerTeam or its
+ * role's max is already reached — or null if it can.
+ */
+export async function checkSquadLimits(params: CheckSquadLimitsParams): Promise<string | null> {
+  const { supabase, auctionId, teamId, playerId } = params
+
+  const [playerResult, auctionResult, resultsResult] = await Promise.all([
+    supabase
+      .from('players')
+      .select('playing_role, tier:tiers!tier_id(id, name, min_per_team, max_per_team)')
+      .eq('id', playerId)
+      .maybeSingle(),
+    supabase.from('auctions').select('role_rules').eq('id', auctionId).maybeSingle(),
+    supabase
+      .from('auction_results')
+      .select('player:players!player_id(tier_id, playing_role)')
+      .eq('team_id', teamId),
+  ])
+
+  const player = playerResult.data
+  if (!player) return null
+
+  const squad = (resultsResult.data || []).map(r =>
+    r.player as unknown as { tier_id: string | null; playing_role: PlayingRole } | null
+  )
+
+  const tier = player.tier as unknown as Parameters<typeof toTierLimit>[0] | null
+  if (tier) {
+    const tierError = getTierMaxError(toTierLimit(tier), squad.filter(p => p?.tier_id === tier.id).length)
+    if (tierError) return tierError
+  }
+
+  const role = player.playing_role as PlayingRole
+  return getRoleMaxError(
+    role,
+    auctionResult.data?.role_rules as RoleRules | null,
+    squad.filter(p => p?.playing_role === role).length
+  )
+}
+
+/**
+ * Every team's unmet tier minimums, read from tiers and auction_results.
+ * Empty when all squads are complete.
+ */
+export async function loadIncompleteSquads(supabase: SupabaseClient, auctionId: string): Promise<IncompleteSquad[]> {
+  const [auctionResult, teamsResult, tiersResult, resultsResult] = await Promise.all([
+    supabase.from('auctions').select('role_rules').eq('id', auctionId).maybeSingle(),
+    supabase.from('teams').select('id, name').eq('auction_id', auctionId).order('name'),
+    supabase.from('tiers').select('id, name, min_per_team, max_per_team').eq('auction_id', auctionId).order('sort_order'),
+    supabase
+      .from('auction_results')
+      .select('team_id, player:players!player_id(tier_id, playing_role)')
+      .eq('auction_id', auctionId),
+  ])
+
+  const acquired: Record<string, Record<string, number>> = {}
+  const roleCounts: Record<string, Partial<Record<PlayingRole, number>>> = {}
+  for (const r of resultsResult.data || []) {
+    const player = r.player as unknown as { tier_id: string | null; playing_role: PlayingRole } | null
+    if (!player) continue
+    roleCounts[r.team_id] ??= {}
+    roleCounts[r.team_id][player.playing_role] = (roleCounts[r.team_id][player.playing_role] || 0) + 1
+    if (!player.tier_id) continue
+    acquired[r.team_id] ??= {}
+    acquired[r.team_id][player.tier_id] = (acquired[r.team_id][player.tier_id] || 0) + 1
+  }
+
+  return findIncompleteSquads(
+    teamsResult.data || [],
+    (tiersResult.data || []).map(toTierLimit),
+    acquired,
+    auctionResult.data?.role_rules as RoleRules | null,
+    roleCounts
+  )
+}
+
+export function formatIncompleteSquads(incomplete: IncompleteSquad[]): string[] {
+  return incomplete.map(team =>
+    `${team.teamName}: ` + [
+      ...team.unmet.map(u => `${u.acquired}/${u.required} ${u.tierName}`),
+      ...team.unmetRoles.map(r => `${r.acquired}/${r.min} ${r.label}`),
+    ].join(', ')
+  )
+}
@@ -16,8 +16,20 @@ export interface AuctionConfig {
   currencyIcon: string
   squadSize: number
   numTeams: number
+  roleRules?: RoleRules
+  rtmCardsPerTeam?: number // right-to-match cards each team gets
+  maxRetentionsPerTeam?: number // players each team may retain before the auction, 0 = off
+  maxRetentionSpend?: number | null // total each team may spend on retentions
 }
 
+// Per-squad limits on playing roles (auctions.role_rules)
+export interface RoleRule {
+  min?: number
+  max?: number
+}
+
+export type RoleRules = Partial<Record<PlayingRole, RoleRule>>
+
 export interface TierConfig {
   name: string
   basePrice: number
@@ -45,6 +57,7 @@ export interface PlayerData {
   bowlingStyle?: string
   customTags?: string
   userId?: string
+  previousTeamId?: string // eligible for right-to-match by this team
 }
 
 // Team Types
@@ -23,11 +23,44 @@ export const outcryRuleSchema = z.object({
 // Open outcry configuration validation
 export const outcryConfigSchema = z.object({
   rules: z.array(outcryRuleSchema).min(1, 'At least 1 increment rule required'),
+  // Per-tier overrides, keyed by tiers.id
+  tier_rules: z.record(
+    z.string().uuid(),
+    z.array(outcryRuleSchema).min(1, 'At least 1 increment rule required')
+  ).optional(),
   timer_seconds: z.number().min(5, 'Timer must be at least 5 seconds').max(120, 'Timer max 120 seconds').nullable(),
+  expiry_policy: z.enum(['AUTO_CLOSE', 'SELL_ONLY', 'MANUAL']).optional(),
+  max_jump: z.number().int().min(0, 'Jump cap cannot be negative').nullable().optional(),
+})
+
+// Sealed-bid configuration validation (increment only applies to second price)
+export const sealedConfigSchema = z.object({
+  tie_break: z.enum(['EARLIEST_BID', 'FEWEST_PLAYERS', 'RANDOM']),
+  increment: z.number().int().min(1, 'Increment must be at least 1').optional(),
+})
+
+// Playing-role composition rules, keyed by role (roles without an entry are unrestricted)
+export const roleRuleSchema = z.object({
+  min: z.number().int().min(0, 'Minimum cannot be negative').max(18, 'Minimum too high').optional(),
+  max: z.number().int().min(1, 'Maximum must be at least 1').max(18, 'Maximum too high').optional(),
+}).refine(data => data.min == null || data.max == null || data.max >= data.min, {
+  message: 'Maximum must be greater than minimum',
+  path: ['max'],
+})
+
+export const roleRulesSchema = z.partialRecord(
+  z.enum(['BATSMAN', 'BOWLER', 'ALL_ROUNDER', 'WICKETKEEPER']),
+  roleRuleSchema
+)
+
+// Draft configuration validation (no money: teams take turns picking players)
+export const draftConfigSchema = z.object({
+  order_type: z.enum(['SNAKE', 'LINEAR']),
+  pick_seconds: z.number().int().min(10, 'Pick timer must be at least 10 seconds').max(600, 'Pick timer max 600 seconds').nullable(),
 })
 
 // Bidding type enum
-export const biddingTypeSchema = z.enum(['SEALED_TENDER', 'OPEN_OUTCRY'])
+export const biddingTypeSchema = z.enum(['SEALED_TENDER', 'SEALED_SECOND_PRICE', 'OPEN_OUTCRY', 'DRAFT'])
 
 // Manual auction configuration validation
 export const auctionConfigSchema = z.object({
@@ -38,6 +71,12 @@ export const auctionConfigSchema = z.object({
   numTeams: z.number().min(2, 'Need at least 2 teams').max(12, 'Maximum 12 teams'),
   biddingType: biddingTypeSchema.default('SEALED_TENDER'),
   outcryConfig: outcryConfigSchema.optional(),
+  sealedConfig: sealedConfigSchema.optional(),
+  draftConfig: draftConfigSchema.optional(),
+  roleRules: roleRulesSchema.optional(),
+  rtmCardsPerTeam: z.number().int().min(0, 'RTM cards cannot be negative').max(5, 'Maximum 5 RTM cards per team').optional(),
+  maxRetentionsPerTeam: z.number().int().min(0, 'Retention limit cannot be negative').max(6, 'Maximum 6 retentions per team').optional(),
+  maxRetentionSpend: z.number().int().min(0, 'Retention budget cannot be negative').nullable().optional(),
 })
 
 // Team configuration validation
@@ -103,6 +142,9 @@ export type WizardFormStateData = z.infer<typeof wizardFormStateSchema>
 export type BiddingType = z.infer<typeof biddingTypeSchema>
 export type OutcryConfigFormData = z.infer<typeof outcryConfigSchema>
 export type OutcryRuleFormData = z.infer<typeof outcryRuleSchema>
+export type SealedConfigFormData = z.infer<typeof sealedConfigSchema>
+export type DraftConfigFormData = z.infer<typeof draftConfigSchema>
+export type RoleRulesFormData = z.infer<typeof roleRulesSchema>
 
 // Validation helper functions
 export function validateStep(stepData: any, stepSchema: z.ZodSchema): {
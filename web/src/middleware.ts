@@ -65,6 +65,11 @@ function isPublicRoute(pathname: string): boolean {
     '/tournament',
     '/api/health',
     '/api/auth',
+    // Invite links work before the recipient has an account
+    '/invite/',
+    '/api/invites/',
+    // Cron jobs have no session; each route checks the CRON_SECRET bearer itself
+    '/api/cron/',
   ]
 
   return publicPrefixes.some(prefix => pathname.startsWith(prefix)) ||
@@ -77,6 +82,10 @@ export async function middleware(request: NextRequest) {
   const startTime = Date.now()
   const { pathname } = request.nextUrl
 
+  // Routes trust these as the signed-in user, so only this middleware may set them
+  request.headers.delete('x-user-id')
+  request.headers.delete('x-user-email')
+
   // Skip middleware for static files and Next.js internals
   if (
     pathname.startsWith('/_next/') ||
@@ -84,7 +93,7 @@ export async function middleware(request: NextRequest) {
     pathname.includes('/public/') ||
     pathname.match(/\.(ico|png|jpg|jpeg|gif|svg|css|js|woff|woff2|ttf|eot)$/)
   ) {
-    return NextResponse.next()
+    return NextResponse.next({ request })
   }
 
   let supabaseResponse = NextResponse.next({ request })
@@ -0,0 +1,261 @@
+-- Migration: Atomic auctioneer actions
+-- Moves the SOLD/UNSOLD/DEFER/UNDO state machine out of the /action route and into a
+-- single transactional function, with an optimistic version number on queue_state.
+
+-- 1. Optimistic version for queue_state
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS queue_version INTEGER NOT NULL DEFAULT 0;
+
+-- Bump the version on every queue_state write (action RPC, /state PUT, PATCH)
+CREATE OR REPLACE FUNCTION bump_queue_version() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.queue_state IS DISTINCT FROM OLD.queue_state THEN
+    NEW.queue_version := COALESCE(OLD.queue_version, 0) + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS auctions_bump_queue_version ON auctions;
+CREATE TRIGGER auctions_bump_queue_version
+  BEFORE UPDATE OF queue_state ON auctions
+  FOR EACH ROW EXECUTE FUNCTION bump_queue_version();
+
+-- 2. Apply one auctioneer action atomically
+-- Error codes: 40001 = stale queue_version (409), P0002 = auction not found (404),
+-- anything else raised here is a rejected action (400).
+CREATE OR REPLACE FUNCTION apply_auction_action(
+  p_auction_id UUID,
+  p_action TEXT,
+  p_team_id UUID DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_queue TEXT[];
+  v_index INTEGER;
+  v_started BOOLEAN;
+  v_unsold TEXT[];
+  v_deferred TEXT[];
+  v_history JSONB;
+  v_last JSONB;
+  v_current TEXT;
+  v_player RECORD;
+  v_round RECORD;
+  v_sold_team_id UUID;
+  v_sold_amount INTEGER;
+  v_team_name TEXT;
+  v_positions INTEGER[];
+  v_base_price INTEGER;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+BEGIN
+  IF p_action NOT IN ('SOLD', 'UNSOLD', 'DEFER', 'UNDO') THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  -- Lock auction row so concurrent actions on the same auction serialize
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version != v_auction.queue_version THEN
+    RAISE EXCEPTION 'Auction state changed since it was loaded — refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  v_queue := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)));
+  v_index := COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0);
+  v_started := COALESCE((v_auction.queue_state->>'auctionStarted')::BOOLEAN, FALSE);
+  v_unsold := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'unsoldPlayers', '[]'::jsonb)));
+  v_deferred := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'deferredPlayers', '[]'::jsonb)));
+  v_history := COALESCE(v_auction.queue_state->'auctionHistory', '[]'::jsonb);
+
+  -- Queue arrays are 1-based in SQL, auctionIndex is 0-based
+  v_current := v_queue[v_index + 1];
+
+  IF p_action = 'SOLD' THEN
+    IF v_current IS NULL THEN
+      RAISE EXCEPTION 'No current player in queue';
+    END IF;
+
+    SELECT p.id, p.tier_id INTO v_player
+    FROM players p
+    WHERE p.auction_id = p_auction_id AND p.name = v_current
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Player "%" not found in database', v_current;
+    END IF;
+
+    SELECT r.id, r.current_bid_team_id, r.current_bid_amount
+    INTO v_round
+    FROM rounds r
+    WHERE r.auction_id = p_auction_id AND r.player_id = v_player.id AND r.status = 'OPEN'
+    ORDER BY r.opened_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    -- Open outcry: the winner is whoever holds the round, not what the client sent
+    IF v_auction.bidding_type = 'OPEN_OUTCRY' THEN
+      IF v_round.id IS NULL OR v_round.current_bid_team_id IS NULL OR v_round.current_bid_amount IS NULL THEN
+        RAISE EXCEPTION 'No bids placed in this round yet';
+      END IF;
+      v_sold_team_id := v_round.current_bid_team_id;
+      v_sold_amount := v_round.current_bid_amount;
+    ELSE
+      v_sold_team_id := p_team_id;
+      v_sold_amount := p_amount;
+    END IF;
+
+    IF v_sold_team_id IS NULL OR COALESCE(v_sold_amount, 0) <= 0 THEN
+      RAISE EXCEPTION 'teamId and amount required for SOLD';
+    END IF;
+
+    SELECT t.name INTO v_team_name
+    FROM teams t
+    WHERE t.id = v_sold_team_id AND t.auction_id = p_auction_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Team does not belong to this auction';
+    END IF;
+
+    INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+    VALUES (p_auction_id, v_player.id, v_sold_team_id, v_sold_amount, NOW())
+    ON CONFLICT (auction_id, player_id) DO UPDATE
+      SET team_id = EXCLUDED.team_id,
+          winning_bid_amount = EXCLUDED.winning_bid_amount,
+          assigned_at = EXCLUDED.assigned_at;
+
+    IF v_round.id IS NOT NULL THEN
+      UPDATE bids
+      SET is_winning_bid = TRUE
+      WHERE round_id = v_round.id
+        AND team_id = v_sold_team_id
+        AND (sequence_number IS NULL OR amount = v_sold_amount);
+    END IF;
+
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'player', v_current, 'team', v_team_name, 'price', v_sold_amount, 'action', 'SOLD'
+    ));
+    v_index := v_index + 1;
+
+  ELSIF p_action = 'UNSOLD' THEN
+    IF v_current IS NULL THEN
+      RAISE EXCEPTION 'No current player in queue';
+    END IF;
+
+    v_unsold := v_unsold || v_current;
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'player', v_current, 'team', '', 'price', 0, 'action', 'UNSOLD'
+    ));
+    v_index := v_index + 1;
+
+  ELSIF p_action = 'DEFER' THEN
+    IF v_current IS NULL THEN
+      RAISE EXCEPTION 'No current player in queue';
+    END IF;
+
+    -- Remove from queue at current index (don't advance — array shifted)
+    v_queue := v_queue[1:v_index] || v_queue[v_index + 2:];
+    v_deferred := v_deferred || v_current;
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'player', v_current, 'team', '', 'price', 0, 'action', 'DEFERRED'
+    ));
+
+  ELSIF p_action = 'UNDO' THEN
+    IF jsonb_array_length(v_history) = 0 THEN
+      RAISE EXCEPTION 'Nothing to undo';
+    END IF;
+
+    v_last := v_history->(jsonb_array_length(v_history) - 1);
+    v_history := v_history - (jsonb_array_length(v_history) - 1);
+
+    IF v_last->>'action' = 'SOLD' THEN
+      DELETE FROM auction_results ar
+      USING players p
+      WHERE ar.auction_id = p_auction_id
+        AND ar.player_id = p.id
+        AND p.auction_id = p_auction_id
+        AND p.name = v_last->>'player';
+      v_index := v_index - 1;
+
+    ELSIF v_last->>'action' = 'UNSOLD' THEN
+      v_unsold := array_remove(v_unsold, v_last->>'player');
+      v_index := v_index - 1;
+
+    ELSIF v_last->>'action' = 'DEFERRED' THEN
+      -- Remove player from wherever it might be in the queue (could have been auto-returned)
+      v_positions := array_positions(v_queue, v_last->>'player');
+      IF cardinality(v_positions) > 0 THEN
+        v_queue := v_queue[1:v_positions[cardinality(v_positions)] - 1]
+          || v_queue[v_positions[cardinality(v_positions)] + 1:];
+      END IF;
+      -- Re-insert at current position
+      v_queue := v_queue[1:v_index] || ARRAY[v_last->>'player'] || v_queue[v_index + 1:];
+      v_deferred := array_remove(v_deferred, v_last->>'player');
+    END IF;
+  END IF;
+
+  -- Deferred auto-return: once the queue runs out, deferred players go to the end
+  IF v_index >= cardinality(v_queue) AND cardinality(v_deferred) > 0 THEN
+    v_queue := v_queue || v_deferred;
+    v_deferred := '{}';
+  END IF;
+
+  -- Close all OPEN rounds for this auction
+  UPDATE rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE auction_id = p_auction_id AND status = 'OPEN';
+
+  -- Open a round for the next player in the queue
+  IF v_index < cardinality(v_queue) THEN
+    SELECT p.id, p.tier_id INTO v_player
+    FROM players p
+    WHERE p.auction_id = p_auction_id AND p.name = v_queue[v_index + 1]
+    LIMIT 1;
+
+    IF FOUND THEN
+      v_base_price := NULL;
+      IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+        SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+      END IF;
+
+      INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                          base_price, current_bid_amount, current_bid_team_id, bid_count)
+      VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+              v_base_price, v_base_price, NULL, 0)
+      RETURNING id INTO v_round_id;
+    END IF;
+  END IF;
+
+  v_queue_state := jsonb_build_object(
+    'auctionQueue', to_jsonb(v_queue),
+    'auctionIndex', v_index,
+    'auctionStarted', v_started,
+    'unsoldPlayers', to_jsonb(v_unsold),
+    'deferredPlayers', to_jsonb(v_deferred),
+    'auctionHistory', v_history
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id;
+END;
+$$;
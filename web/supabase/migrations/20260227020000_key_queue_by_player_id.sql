@@ -0,0 +1,399 @@
+-- Migration: Key the auction queue by player ID
+-- queue_state arrays (auctionQueue, unsoldPlayers, deferredPlayers) held player names,
+-- which broke as soon as two players in an auction shared a name. They now hold player
+-- IDs; auctionHistory entries carry playerId/teamId alongside the display names.
+
+-- 1. Convert existing queue_state JSON
+-- A name shared by several players in an auction is resolved from what the auction recorded,
+-- never by guessing: a SOLD history entry is the player of that name in auction_results for the
+-- same team (the nth such sale = the nth result by assigned_at), any other entry the one player
+-- of that name who was never sold. The queue arrays then take those players in the order the
+-- history used them; unplayed duplicates (nothing recorded yet, so interchangeable) fill in by
+-- id. Anything that still can't be told apart stops the migration rather than pointing at the
+-- wrong player. Entries that are already IDs are kept, so re-running this is a no-op.
+CREATE OR REPLACE FUNCTION tmp_history_add_ids(p_auction_id UUID, p_history JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_entry RECORD;
+  v_name TEXT;
+  v_team_id UUID;
+  v_player_id UUID;
+  v_matches INTEGER;
+  v_sold UUID[] := '{}';
+  v_out JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_entry IN
+    SELECT h.entry FROM jsonb_array_elements(COALESCE(p_history, '[]'::jsonb)) WITH ORDINALITY AS h(entry, ord)
+    ORDER BY h.ord
+  LOOP
+    v_name := v_entry.entry->>'player';
+    v_team_id := COALESCE((v_entry.entry->>'teamId')::UUID, (
+      SELECT t.id FROM teams t
+      WHERE t.auction_id = p_auction_id AND t.name = v_entry.entry->>'team'
+      ORDER BY t.id LIMIT 1
+    ));
+    v_player_id := (v_entry.entry->>'playerId')::UUID;
+
+    IF v_player_id IS NULL THEN
+      SELECT COUNT(*), MIN(p.id::TEXT)::UUID INTO v_matches, v_player_id
+      FROM players p
+      WHERE p.auction_id = p_auction_id AND p.name = v_name;
+
+      IF v_matches > 1 AND v_entry.entry->>'action' = 'SOLD' THEN
+        SELECT ar.player_id INTO v_player_id
+        FROM auction_results ar
+        JOIN players p ON p.id = ar.player_id
+        WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id AND p.name = v_name
+          AND ar.player_id <> ALL(v_sold)
+        ORDER BY ar.assigned_at, ar.player_id
+        LIMIT 1;
+        v_matches := CASE WHEN FOUND THEN 1 ELSE 0 END;
+      ELSIF v_matches > 1 THEN
+        SELECT COUNT(*), MIN(p.id::TEXT)::UUID INTO v_matches, v_player_id
+        FROM players p
+        WHERE p.auction_id = p_auction_id AND p.name = v_name
+          AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id);
+      END IF;
+
+      IF v_matches != 1 AND EXISTS (SELECT 1 FROM players p WHERE p.auction_id = p_auction_id AND p.name = v_name) THEN
+        RAISE EXCEPTION 'Auction %: can''t tell which "%" the % history entry refers to — fix its queue_state by hand and re-run',
+          p_auction_id, v_name, v_entry.entry->>'action';
+      END IF;
+
+      IF v_entry.entry->>'action' = 'SOLD' AND v_player_id IS NOT NULL THEN
+        v_sold := v_sold || v_player_id;
+      END IF;
+    END IF;
+
+    v_out := v_out || jsonb_build_array(v_entry.entry || jsonb_build_object('playerId', v_player_id, 'teamId', v_team_id));
+  END LOOP;
+
+  RETURN v_out;
+END;
+$$;
+
+-- p_used: players the history put in this array, in the order it used them
+CREATE OR REPLACE FUNCTION tmp_queue_names_to_ids(p_auction_id UUID, p_names JSONB, p_used UUID[])
+RETURNS JSONB
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_name TEXT;
+  v_player_id UUID;
+  v_matches INTEGER;
+  v_taken UUID[] := '{}';
+  v_out JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_name IN
+    SELECT e.value FROM jsonb_array_elements_text(COALESCE(p_names, '[]'::jsonb)) WITH ORDINALITY AS e(value, ord)
+    ORDER BY e.ord
+  LOOP
+    SELECT COUNT(*), MIN(p.id::TEXT)::UUID INTO v_matches, v_player_id
+    FROM players p
+    WHERE p.auction_id = p_auction_id AND p.name = v_name;
+
+    IF v_matches = 0 THEN
+      v_out := v_out || to_jsonb(v_name);
+      CONTINUE;
+    ELSIF v_matches = 1 THEN
+      v_out := v_out || to_jsonb(v_player_id::TEXT);
+      CONTINUE;
+    END IF;
+
+    SELECT u.id INTO v_player_id
+    FROM unnest(p_used) WITH ORDINALITY AS u(id, ord)
+    JOIN players p ON p.id = u.id
+    WHERE p.name = v_name AND u.id <> ALL(v_taken)
+    ORDER BY u.ord
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      SELECT p.id INTO v_player_id
+      FROM players p
+      WHERE p.auction_id = p_auction_id AND p.name = v_name
+        AND p.id <> ALL(v_taken) AND p.id <> ALL(p_used)
+      ORDER BY p.id
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Auction %: "%" is queued more times than there are players of that name — fix its queue_state by hand and re-run',
+          p_auction_id, v_name;
+      END IF;
+    END IF;
+
+    v_taken := v_taken || v_player_id;
+    v_out := v_out || to_jsonb(v_player_id::TEXT);
+  END LOOP;
+
+  RETURN v_out;
+END;
+$$;
+
+-- Players in the order the history used them, for the given actions
+CREATE OR REPLACE FUNCTION tmp_history_players(p_history JSONB, p_actions TEXT[])
+RETURNS UUID[]
+LANGUAGE sql AS $$
+  SELECT COALESCE(array_agg((h.entry->>'playerId')::UUID ORDER BY h.ord), '{}')
+  FROM jsonb_array_elements(p_history) WITH ORDINALITY AS h(entry, ord)
+  WHERE h.entry->>'action' = ANY(p_actions) AND h.entry->>'playerId' IS NOT NULL
+$$;
+
+DO $$
+DECLARE
+  v_auction RECORD;
+  v_history JSONB;
+BEGIN
+  FOR v_auction IN SELECT a.id, a.queue_state FROM auctions a WHERE a.queue_state IS NOT NULL LOOP
+    v_history := tmp_history_add_ids(v_auction.id, v_auction.queue_state->'auctionHistory');
+
+    UPDATE auctions
+    SET queue_state = v_auction.queue_state || jsonb_build_object(
+      'auctionQueue', tmp_queue_names_to_ids(v_auction.id, v_auction.queue_state->'auctionQueue',
+        tmp_history_players(v_history, ARRAY['SOLD', 'UNSOLD'])),
+      'unsoldPlayers', tmp_queue_names_to_ids(v_auction.id, v_auction.queue_state->'unsoldPlayers',
+        tmp_history_players(v_history, ARRAY['UNSOLD'])),
+      'deferredPlayers', tmp_queue_names_to_ids(v_auction.id, v_auction.queue_state->'deferredPlayers',
+        tmp_history_players(v_history, ARRAY['DEFERRED'])),
+      'auctionHistory', v_history
+    )
+    WHERE id = v_auction.id;
+  END LOOP;
+END;
+$$;
+
+DROP FUNCTION tmp_queue_names_to_ids(UUID, JSONB, UUID[]);
+DROP FUNCTION tmp_history_players(JSONB, TEXT[]);
+DROP FUNCTION tmp_history_add_ids(UUID, JSONB);
+
+-- 2. apply_auction_action resolves players by ID
+CREATE OR REPLACE FUNCTION apply_auction_action(
+  p_auction_id UUID,
+  p_action TEXT,
+  p_team_id UUID DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_queue TEXT[];
+  v_index INTEGER;
+  v_started BOOLEAN;
+  v_unsold TEXT[];
+  v_deferred TEXT[];
+  v_history JSONB;
+  v_last JSONB;
+  v_current TEXT;
+  v_player RECORD;
+  v_player_name TEXT;
+  v_round RECORD;
+  v_sold_team_id UUID;
+  v_sold_amount INTEGER;
+  v_team_name TEXT;
+  v_positions INTEGER[];
+  v_base_price INTEGER;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+BEGIN
+  IF p_action NOT IN ('SOLD', 'UNSOLD', 'DEFER', 'UNDO') THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  -- Lock auction row so concurrent actions on the same auction serialize
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version != v_auction.queue_version THEN
+    RAISE EXCEPTION 'Auction state changed since it was loaded — refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  v_queue := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)));
+  v_index := COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0);
+  v_started := COALESCE((v_auction.queue_state->>'auctionStarted')::BOOLEAN, FALSE);
+  v_unsold := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'unsoldPlayers', '[]'::jsonb)));
+  v_deferred := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'deferredPlayers', '[]'::jsonb)));
+  v_history := COALESCE(v_auction.queue_state->'auctionHistory', '[]'::jsonb);
+
+  -- Queue arrays are 1-based in SQL, auctionIndex is 0-based
+  v_current := v_queue[v_index + 1];
+
+  IF p_action IN ('SOLD', 'UNSOLD', 'DEFER') THEN
+    IF v_current IS NULL THEN
+      RAISE EXCEPTION 'No current player in queue';
+    END IF;
+
+    SELECT p.id, p.name, p.tier_id INTO v_player
+    FROM players p
+    WHERE p.auction_id = p_auction_id AND p.id::TEXT = v_current;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Player % not found in database', v_current;
+    END IF;
+    v_player_name := v_player.name;
+  END IF;
+
+  IF p_action = 'SOLD' THEN
+
+    SELECT r.id, r.current_bid_team_id, r.current_bid_amount
+    INTO v_round
+    FROM rounds r
+    WHERE r.auction_id = p_auction_id AND r.player_id = v_player.id AND r.status = 'OPEN'
+    ORDER BY r.opened_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    -- Open outcry: the winner is whoever holds the round, not what the client sent
+    IF v_auction.bidding_type = 'OPEN_OUTCRY' THEN
+      IF v_round.id IS NULL OR v_round.current_bid_team_id IS NULL OR v_round.current_bid_amount IS NULL THEN
+        RAISE EXCEPTION 'No bids placed in this round yet';
+      END IF;
+      v_sold_team_id := v_round.current_bid_team_id;
+      v_sold_amount := v_round.current_bid_amount;
+    ELSE
+      v_sold_team_id := p_team_id;
+      v_sold_amount := p_amount;
+    END IF;
+
+    IF v_sold_team_id IS NULL OR COALESCE(v_sold_amount, 0) <= 0 THEN
+      RAISE EXCEPTION 'teamId and amount required for SOLD';
+    END IF;
+
+    SELECT t.name INTO v_team_name
+    FROM teams t
+    WHERE t.id = v_sold_team_id AND t.auction_id = p_auction_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Team does not belong to this auction';
+    END IF;
+
+    INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+    VALUES (p_auction_id, v_player.id, v_sold_team_id, v_sold_amount, NOW())
+    ON CONFLICT (auction_id, player_id) DO UPDATE
+      SET team_id = EXCLUDED.team_id,
+          winning_bid_amount = EXCLUDED.winning_bid_amount,
+          assigned_at = EXCLUDED.assigned_at;
+
+    IF v_round.id IS NOT NULL THEN
+      UPDATE bids
+      SET is_winning_bid = TRUE
+      WHERE round_id = v_round.id
+        AND team_id = v_sold_team_id
+        AND (sequence_number IS NULL OR amount = v_sold_amount);
+    END IF;
+
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'playerId', v_current, 'player', v_player_name,
+      'teamId', v_sold_team_id, 'team', v_team_name,
+      'price', v_sold_amount, 'action', 'SOLD'
+    ));
+    v_index := v_index + 1;
+
+  ELSIF p_action = 'UNSOLD' THEN
+    v_unsold := v_unsold || v_current;
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'playerId', v_current, 'player', v_player_name,
+      'teamId', NULL, 'team', '', 'price', 0, 'action', 'UNSOLD'
+    ));
+    v_index := v_index + 1;
+
+  ELSIF p_action = 'DEFER' THEN
+    -- Remove from queue at current index (don't advance — array shifted)
+    v_queue := v_queue[1:v_index] || v_queue[v_index + 2:];
+    v_deferred := v_deferred || v_current;
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'playerId', v_current, 'player', v_player_name,
+      'teamId', NULL, 'team', '', 'price', 0, 'action', 'DEFERRED'
+    ));
+
+  ELSIF p_action = 'UNDO' THEN
+    IF jsonb_array_length(v_history) = 0 THEN
+      RAISE EXCEPTION 'Nothing to undo';
+    END IF;
+
+    v_last := v_history->(jsonb_array_length(v_history) - 1);
+    v_history := v_history - (jsonb_array_length(v_history) - 1);
+
+    IF v_last->>'action' = 'SOLD' THEN
+      DELETE FROM auction_results ar
+      WHERE ar.auction_id = p_auction_id
+        AND ar.player_id::TEXT = v_last->>'playerId';
+      v_index := v_index - 1;
+
+    ELSIF v_last->>'action' = 'UNSOLD' THEN
+      v_unsold := array_remove(v_unsold, v_last->>'playerId');
+      v_index := v_index - 1;
+
+    ELSIF v_last->>'action' = 'DEFERRED' THEN
+      -- Remove player from wherever it might be in the queue (could have been auto-returned)
+      v_positions := array_positions(v_queue, v_last->>'playerId');
+      IF cardinality(v_positions) > 0 THEN
+        v_queue := v_queue[1:v_positions[cardinality(v_positions)] - 1]
+          || v_queue[v_positions[cardinality(v_positions)] + 1:];
+      END IF;
+      -- Re-insert at current position
+      v_queue := v_queue[1:v_index] || ARRAY[v_last->>'playerId'] || v_queue[v_index + 1:];
+      v_deferred := array_remove(v_deferred, v_last->>'playerId');
+    END IF;
+  END IF;
+
+  -- Deferred auto-return: once the queue runs out, deferred players go to the end
+  IF v_index >= cardinality(v_queue) AND cardinality(v_deferred) > 0 THEN
+    v_queue := v_queue || v_deferred;
+    v_deferred := '{}';
+  END IF;
+
+  -- Close all OPEN rounds for this auction
+  UPDATE rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE auction_id = p_auction_id AND status = 'OPEN';
+
+  -- Open a round for the next player in the queue
+  IF v_index < cardinality(v_queue) THEN
+    SELECT p.id, p.tier_id INTO v_player
+    FROM players p
+    WHERE p.auction_id = p_auction_id AND p.id::TEXT = v_queue[v_index + 1];
+
+    IF FOUND THEN
+      v_base_price := NULL;
+      IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+        SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+      END IF;
+
+      INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                          base_price, current_bid_amount, current_bid_team_id, bid_count)
+      VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+              v_base_price, v_base_price, NULL, 0)
+      RETURNING id INTO v_round_id;
+    END IF;
+  END IF;
+
+  v_queue_state := jsonb_build_object(
+    'auctionQueue', to_jsonb(v_queue),
+    'auctionIndex', v_index,
+    'auctionStarted', v_started,
+    'unsoldPlayers', to_jsonb(v_unsold),
+    'deferredPlayers', to_jsonb(v_deferred),
+    'auctionHistory', v_history
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id;
+END;
+$$;
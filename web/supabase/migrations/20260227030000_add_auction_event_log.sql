@@ -0,0 +1,473 @@
+-- Migration: Auction event log for multi-step undo/redo
+-- Every auctioneer action is appended to audit_logs (unused until now) together with a
+-- before-snapshot: queue_state, the rounds it closed, the result it replaced and the bids it
+-- flagged as winning. UNDO and REDO are events too, so the log is append-only and the
+-- undo/redo stacks are derived by walking it in seq order.
+--
+-- details layout:
+--   SOLD/UNSOLD/DEFER: { seq, beforeVersion, afterVersion, playerId, playerName, teamId, teamName,
+--                        price, redoOf, before: { queueState, openRoundIds, result },
+--                        openedRoundId, winningBidIds }
+--   UNDO:              { seq, beforeVersion, afterVersion, reverted: [event ids, newest first] }
+
+-- 1. Ordered lookup by auction
+CREATE INDEX IF NOT EXISTS idx_audit_logs_auction_seq
+  ON public.audit_logs (auction_id, ((details->>'seq')::INTEGER));
+
+-- 2. RLS: owners can read and append; there is no UPDATE/DELETE policy
+DROP POLICY IF EXISTS "Auction owners can view audit logs" ON public.audit_logs;
+CREATE POLICY "Auction owners can view audit logs" ON public.audit_logs
+FOR SELECT USING (public.is_auction_owner(auction_id));
+
+DROP POLICY IF EXISTS "Auction owners can append audit logs" ON public.audit_logs;
+CREATE POLICY "Auction owners can append audit logs" ON public.audit_logs
+FOR INSERT WITH CHECK (public.is_auction_owner(auction_id));
+
+-- 3. Derive the undo (done) and redo stacks from the log
+-- Each event records the queue_version it started from and produced. A gap in that chain means
+-- queue_state was replaced outside the log (e.g. the auction was restarted), so older events no
+-- longer apply and both stacks reset. Mirrored in src/lib/auction-events.ts for the timeline.
+CREATE OR REPLACE FUNCTION auction_event_stacks(p_auction_id UUID, p_current_version INTEGER)
+RETURNS TABLE(done UUID[], redo UUID[])
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_event RECORD;
+  v_done UUID[] := '{}';
+  v_redo UUID[] := '{}';
+  v_last_version INTEGER;
+  v_id UUID;
+BEGIN
+  FOR v_event IN
+    SELECT l.id, l.action, l.details
+    FROM audit_logs l
+    WHERE l.auction_id = p_auction_id
+      AND l.action IN ('SOLD', 'UNSOLD', 'DEFER', 'UNDO')
+      AND l.details ? 'seq'
+    ORDER BY (l.details->>'seq')::INTEGER
+  LOOP
+    IF v_last_version IS NOT NULL
+       AND (v_event.details->>'beforeVersion')::INTEGER IS DISTINCT FROM v_last_version THEN
+      v_done := '{}';
+      v_redo := '{}';
+    END IF;
+
+    IF v_event.action = 'UNDO' THEN
+      FOR v_id IN SELECT (jsonb_array_elements_text(v_event.details->'reverted'))::UUID LOOP
+        v_done := array_remove(v_done, v_id);
+        v_redo := v_redo || v_id;
+      END LOOP;
+    ELSE
+      IF v_event.details->>'redoOf' IS NOT NULL THEN
+        v_redo := array_remove(v_redo, (v_event.details->>'redoOf')::UUID);
+      ELSE
+        v_redo := '{}';
+      END IF;
+      v_done := v_done || v_event.id;
+    END IF;
+
+    v_last_version := (v_event.details->>'afterVersion')::INTEGER;
+  END LOOP;
+
+  IF v_last_version IS DISTINCT FROM p_current_version THEN
+    v_done := '{}';
+    v_redo := '{}';
+  END IF;
+
+  RETURN QUERY SELECT v_done, v_redo;
+END;
+$$;
+
+-- 4. Forward actions (SOLD/UNSOLD/DEFER), logged with their before-snapshot
+-- p_redo_of set = replaying an undone event: the recorded team/price are used as-is.
+CREATE OR REPLACE FUNCTION auction_action_forward(
+  p_auction_id UUID,
+  p_action TEXT,
+  p_team_id UUID,
+  p_amount INTEGER,
+  p_user_id UUID,
+  p_redo_of UUID DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_queue TEXT[];
+  v_index INTEGER;
+  v_started BOOLEAN;
+  v_unsold TEXT[];
+  v_deferred TEXT[];
+  v_history JSONB;
+  v_current TEXT;
+  v_player RECORD;
+  v_round RECORD;
+  v_sold_team_id UUID;
+  v_sold_amount INTEGER;
+  v_team_name TEXT;
+  v_prior_result JSONB;
+  v_open_round_ids UUID[];
+  v_winning_bid_ids UUID[] := '{}';
+  v_base_price INTEGER;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_seq INTEGER;
+BEGIN
+  IF p_action NOT IN ('SOLD', 'UNSOLD', 'DEFER') THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  v_queue := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)));
+  v_index := COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0);
+  v_started := COALESCE((v_auction.queue_state->>'auctionStarted')::BOOLEAN, FALSE);
+  v_unsold := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'unsoldPlayers', '[]'::jsonb)));
+  v_deferred := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'deferredPlayers', '[]'::jsonb)));
+  v_history := COALESCE(v_auction.queue_state->'auctionHistory', '[]'::jsonb);
+
+  -- Queue arrays are 1-based in SQL, auctionIndex is 0-based
+  v_current := v_queue[v_index + 1];
+
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'No current player in queue';
+  END IF;
+
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.auction_id = p_auction_id AND p.id::TEXT = v_current;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player % not found in database', v_current;
+  END IF;
+
+  v_open_round_ids := ARRAY(
+    SELECT r.id FROM rounds r WHERE r.auction_id = p_auction_id AND r.status = 'OPEN'
+  );
+
+  IF p_action = 'SOLD' THEN
+    SELECT r.id, r.current_bid_team_id, r.current_bid_amount
+    INTO v_round
+    FROM rounds r
+    WHERE r.auction_id = p_auction_id AND r.player_id = v_player.id AND r.status = 'OPEN'
+    ORDER BY r.opened_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    -- Open outcry: the winner is whoever holds the round, not what the client sent
+    IF v_auction.bidding_type = 'OPEN_OUTCRY' AND p_redo_of IS NULL THEN
+      IF v_round.id IS NULL OR v_round.current_bid_team_id IS NULL OR v_round.current_bid_amount IS NULL THEN
+        RAISE EXCEPTION 'No bids placed in this round yet';
+      END IF;
+      v_sold_team_id := v_round.current_bid_team_id;
+      v_sold_amount := v_round.current_bid_amount;
+    ELSE
+      v_sold_team_id := p_team_id;
+      v_sold_amount := p_amount;
+    END IF;
+
+    IF v_sold_team_id IS NULL OR COALESCE(v_sold_amount, 0) <= 0 THEN
+      RAISE EXCEPTION 'teamId and amount required for SOLD';
+    END IF;
+
+    SELECT t.name INTO v_team_name
+    FROM teams t
+    WHERE t.id = v_sold_team_id AND t.auction_id = p_auction_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Team does not belong to this auction';
+    END IF;
+
+    SELECT jsonb_build_object('teamId', ar.team_id, 'amount', ar.winning_bid_amount)
+    INTO v_prior_result
+    FROM auction_results ar
+    WHERE ar.auction_id = p_auction_id AND ar.player_id = v_player.id;
+
+    INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+    VALUES (p_auction_id, v_player.id, v_sold_team_id, v_sold_amount, NOW())
+    ON CONFLICT (auction_id, player_id) DO UPDATE
+      SET team_id = EXCLUDED.team_id,
+          winning_bid_amount = EXCLUDED.winning_bid_amount,
+          assigned_at = EXCLUDED.assigned_at;
+
+    IF v_round.id IS NOT NULL THEN
+      WITH flagged AS (
+        UPDATE bids
+        SET is_winning_bid = TRUE
+        WHERE round_id = v_round.id
+          AND team_id = v_sold_team_id
+          AND (sequence_number IS NULL OR amount = v_sold_amount)
+          AND is_winning_bid IS DISTINCT FROM TRUE
+        RETURNING id
+      )
+      SELECT COALESCE(array_agg(id), '{}') INTO v_winning_bid_ids FROM flagged;
+    END IF;
+
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'playerId', v_current, 'player', v_player.name,
+      'teamId', v_sold_team_id, 'team', v_team_name,
+      'price', v_sold_amount, 'action', 'SOLD'
+    ));
+    v_index := v_index + 1;
+
+  ELSIF p_action = 'UNSOLD' THEN
+    v_unsold := v_unsold || v_current;
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'playerId', v_current, 'player', v_player.name,
+      'teamId', NULL, 'team', '', 'price', 0, 'action', 'UNSOLD'
+    ));
+    v_index := v_index + 1;
+
+  ELSE -- DEFER
+    -- Remove from queue at current index (don't advance — array shifted)
+    v_queue := v_queue[1:v_index] || v_queue[v_index + 2:];
+    v_deferred := v_deferred || v_current;
+    v_history := v_history || jsonb_build_array(jsonb_build_object(
+      'playerId', v_current, 'player', v_player.name,
+      'teamId', NULL, 'team', '', 'price', 0, 'action', 'DEFERRED'
+    ));
+  END IF;
+
+  -- Deferred auto-return: once the queue runs out, deferred players go to the end
+  IF v_index >= cardinality(v_queue) AND cardinality(v_deferred) > 0 THEN
+    v_queue := v_queue || v_deferred;
+    v_deferred := '{}';
+  END IF;
+
+  -- Close all OPEN rounds for this auction
+  UPDATE rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE auction_id = p_auction_id AND status = 'OPEN';
+
+  -- Open a round for the next player in the queue
+  IF v_index < cardinality(v_queue) THEN
+    SELECT p.id, p.tier_id INTO v_round
+    FROM players p
+    WHERE p.auction_id = p_auction_id AND p.id::TEXT = v_queue[v_index + 1];
+
+    IF FOUND THEN
+      v_base_price := NULL;
+      IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_round.tier_id IS NOT NULL THEN
+        SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_round.tier_id;
+      END IF;
+
+      INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                          base_price, current_bid_amount, current_bid_team_id, bid_count)
+      VALUES (p_auction_id, v_round.id, v_round.tier_id, 'OPEN', NOW(),
+              v_base_price, v_base_price, NULL, 0)
+      RETURNING id INTO v_round_id;
+    END IF;
+  END IF;
+
+  v_queue_state := jsonb_build_object(
+    'auctionQueue', to_jsonb(v_queue),
+    'auctionIndex', v_index,
+    'auctionStarted', v_started,
+    'unsoldPlayers', to_jsonb(v_unsold),
+    'deferredPlayers', to_jsonb(v_deferred),
+    'auctionHistory', v_history
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  SELECT COALESCE(MAX((l.details->>'seq')::INTEGER), 0) + 1 INTO v_seq
+  FROM audit_logs l
+  WHERE l.auction_id = p_auction_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (p_auction_id, p_user_id, p_action, jsonb_build_object(
+    'seq', v_seq,
+    'beforeVersion', v_auction.queue_version,
+    'afterVersion', v_version,
+    'playerId', v_player.id,
+    'playerName', v_player.name,
+    'teamId', v_sold_team_id,
+    'teamName', v_team_name,
+    'price', COALESCE(v_sold_amount, 0),
+    'redoOf', p_redo_of,
+    'before', jsonb_build_object(
+      'queueState', v_auction.queue_state,
+      'openRoundIds', to_jsonb(v_open_round_ids),
+      'result', v_prior_result
+    ),
+    'openedRoundId', v_round_id,
+    'winningBidIds', to_jsonb(v_winning_bid_ids)
+  ));
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id;
+END;
+$$;
+
+-- 5. Apply one auctioneer action atomically
+-- UNDO reverts every applied event back to and including p_target_event_id (default: the latest).
+-- REDO re-applies the most recently undone event.
+-- Error codes: 40001 = stale queue_version (409), P0002 = auction not found (404),
+-- anything else raised here is a rejected action (400).
+DROP FUNCTION IF EXISTS apply_auction_action(UUID, TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION apply_auction_action(
+  p_auction_id UUID,
+  p_action TEXT,
+  p_user_id UUID,
+  p_team_id UUID DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL,
+  p_target_event_id UUID DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_done UUID[];
+  v_redo UUID[];
+  v_pos INTEGER;
+  v_event RECORD;
+  v_reverted UUID[] := '{}';
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_round_id UUID;
+  v_seq INTEGER;
+  i INTEGER;
+BEGIN
+  IF p_action NOT IN ('SOLD', 'UNSOLD', 'DEFER', 'UNDO', 'REDO') THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  -- Lock auction row so concurrent actions on the same auction serialize
+  SELECT a.id, a.status, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version != v_auction.queue_version THEN
+    RAISE EXCEPTION 'Auction state changed since it was loaded — refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF p_action IN ('SOLD', 'UNSOLD', 'DEFER') THEN
+    RETURN QUERY SELECT * FROM auction_action_forward(p_auction_id, p_action, p_team_id, p_amount, p_user_id);
+    RETURN;
+  END IF;
+
+  SELECT s.done, s.redo INTO v_done, v_redo
+  FROM auction_event_stacks(p_auction_id, v_auction.queue_version) s;
+
+  IF p_action = 'REDO' THEN
+    IF cardinality(v_redo) = 0 THEN
+      RAISE EXCEPTION 'Nothing to redo';
+    END IF;
+
+    SELECT l.id, l.action, l.details INTO v_event
+    FROM audit_logs l
+    WHERE l.id = v_redo[cardinality(v_redo)];
+
+    IF v_auction.queue_state->'auctionQueue'->>((v_auction.queue_state->>'auctionIndex')::INTEGER)
+       IS DISTINCT FROM v_event.details->>'playerId' THEN
+      RAISE EXCEPTION 'Cannot redo: % is no longer on the block', v_event.details->>'playerName';
+    END IF;
+
+    RETURN QUERY SELECT * FROM auction_action_forward(
+      p_auction_id, v_event.action,
+      (v_event.details->>'teamId')::UUID, (v_event.details->>'price')::INTEGER,
+      p_user_id, v_event.id
+    );
+    RETURN;
+  END IF;
+
+  -- UNDO
+  IF cardinality(v_done) = 0 THEN
+    RAISE EXCEPTION 'Nothing to undo';
+  END IF;
+
+  v_pos := array_position(v_done, COALESCE(p_target_event_id, v_done[cardinality(v_done)]));
+  IF v_pos IS NULL THEN
+    RAISE EXCEPTION 'That action has already been undone or can no longer be reverted';
+  END IF;
+
+  -- Revert newest first; intermediate round open/close toggles cancel out
+  FOR i IN REVERSE cardinality(v_done)..v_pos LOOP
+    SELECT l.id, l.action, l.details INTO v_event
+    FROM audit_logs l
+    WHERE l.id = v_done[i];
+
+    IF v_event.action = 'SOLD' THEN
+      DELETE FROM auction_results ar
+      WHERE ar.auction_id = p_auction_id
+        AND ar.player_id = (v_event.details->>'playerId')::UUID;
+
+      IF jsonb_typeof(v_event.details->'before'->'result') = 'object' THEN
+        INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+        VALUES (p_auction_id, (v_event.details->>'playerId')::UUID,
+                (v_event.details->'before'->'result'->>'teamId')::UUID,
+                (v_event.details->'before'->'result'->>'amount')::INTEGER, NOW());
+      END IF;
+
+      UPDATE bids
+      SET is_winning_bid = FALSE
+      WHERE id IN (
+        SELECT (jsonb_array_elements_text(COALESCE(v_event.details->'winningBidIds', '[]'::jsonb)))::UUID
+      );
+    END IF;
+
+    UPDATE rounds
+    SET status = 'CLOSED', closed_at = NOW()
+    WHERE id = (v_event.details->>'openedRoundId')::UUID AND status = 'OPEN';
+
+    -- Reopen with bid state intact; closed_at doubles as the outcry timer, so clear it
+    UPDATE rounds
+    SET status = 'OPEN', closed_at = NULL
+    WHERE id IN (
+      SELECT (jsonb_array_elements_text(COALESCE(v_event.details->'before'->'openRoundIds', '[]'::jsonb)))::UUID
+    );
+
+    v_reverted := v_reverted || v_event.id;
+    v_queue_state := v_event.details->'before'->'queueState';
+  END LOOP;
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  SELECT COALESCE(MAX((l.details->>'seq')::INTEGER), 0) + 1 INTO v_seq
+  FROM audit_logs l
+  WHERE l.auction_id = p_auction_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (p_auction_id, p_user_id, 'UNDO', jsonb_build_object(
+    'seq', v_seq,
+    'beforeVersion', v_auction.queue_version,
+    'afterVersion', v_version,
+    'reverted', to_jsonb(v_reverted)
+  ));
+
+  SELECT r.id INTO v_round_id
+  FROM rounds r
+  WHERE r.auction_id = p_auction_id AND r.status = 'OPEN'
+  ORDER BY r.opened_at DESC
+  LIMIT 1;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Migration: Sealed tender resolution
+-- Per-auction tie-break rule for the "close and resolve" endpoint. Resolutions themselves are
+-- logged to audit_logs (action = 'SEALED_RESOLVED') with the revealed bids and any random seed.
+
+-- 1. Tie-break configuration: { "tie_break": "EARLIEST_BID" | "FEWEST_PLAYERS" | "RANDOM" }
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS sealed_config JSONB;
+
+UPDATE auctions
+SET sealed_config = '{"tie_break": "EARLIEST_BID"}'::jsonb
+WHERE bidding_type = 'SEALED_TENDER' AND sealed_config IS NULL;
+
+-- 2. Resolving locks the round before reading its bids by stamping closed_at (the bid
+-- path already refuses bids past closed_at). Sealed bids check the round under a share
+-- lock, so that stamp waits for bids in flight and every later bid sees it.
+CREATE OR REPLACE FUNCTION reject_late_sealed_bids()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_round RECORD;
+BEGIN
+  IF NEW.sequence_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT r.status, r.closed_at INTO v_round
+  FROM rounds r
+  WHERE r.id = NEW.round_id
+  FOR SHARE;
+
+  IF v_round.status IS DISTINCT FROM 'OPEN' OR (v_round.closed_at IS NOT NULL AND v_round.closed_at <= NOW()) THEN
+    RAISE EXCEPTION 'Bidding has closed for this round';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bids_reject_late_sealed ON bids;
+CREATE TRIGGER bids_reject_late_sealed
+  BEFORE INSERT OR UPDATE OF amount ON bids
+  FOR EACH ROW EXECUTE FUNCTION reject_late_sealed_bids();
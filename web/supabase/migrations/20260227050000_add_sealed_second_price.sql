@@ -0,0 +1,7 @@
+-- Migration: Sealed second-price (Vickrey) bidding
+-- Bids are sealed exactly as in SEALED_TENDER; the resolve endpoint charges the winner the
+-- runner-up's bid plus sealed_config.increment (or the tier base price when there was only one
+-- bid). auction_results.winning_bid_amount records that price; the bid keeps its own amount.
+
+-- 1. New bidding type
+ALTER TYPE bidding_type ADD VALUE IF NOT EXISTS 'SEALED_SECOND_PRICE' AFTER 'SEALED_TENDER';
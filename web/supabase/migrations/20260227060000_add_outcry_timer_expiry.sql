@@ -0,0 +1,255 @@
+-- Migration: Server-owned open outcry timer
+-- rounds.closed_at already doubles as the outcry timer (raise_paddle pushes it forward on every
+-- bid). Until now nothing acted on it, so a round hung whenever the auctioneer's tab slept.
+-- close_expired_outcry_rounds() is the sweep: a local scheduler or the cron route calls it and
+-- each expired round is closed through apply_auction_action, exactly like a manual hammer.
+--
+-- outcry_config.expiry_policy (missing = SELL_ONLY):
+--   AUTO_CLOSE — timer starts when the round opens; expiry sells to the leader, or UNSOLD with no bids
+--   SELL_ONLY  — timer starts on the first bid; expiry sells to the leader
+--   MANUAL     — timer is advisory; the auctioneer always closes the round
+-- Existing outcry auctions are set to MANUAL below, so nothing closes their rounds unasked.
+--
+-- The cron route runs once a minute, so an expired round can stay open for up to a minute
+-- before it is hammered. raise_paddle refuses bids once the timer is out, so that minute
+-- can't change the result. OUTCRY_TIMER_SCHEDULER=local sweeps every second instead, but
+-- only on a long-running server.
+
+-- 1. Keep auctions that predate the expiry policy on the old, auctioneer-closed behaviour
+UPDATE auctions
+SET outcry_config = outcry_config || '{"expiry_policy": "MANUAL"}'::jsonb
+WHERE bidding_type = 'OPEN_OUTCRY'
+  AND outcry_config IS NOT NULL
+  AND outcry_config->>'expiry_policy' IS NULL;
+
+-- 2. Start the timer when a round opens (AUTO_CLOSE) so unbid players also time out, and
+-- restart it when undo reopens a round, which clears closed_at (SELL_ONLY once bid on)
+CREATE OR REPLACE FUNCTION start_outcry_round_timer()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_policy TEXT;
+BEGIN
+  IF NEW.status != 'OPEN' OR NEW.closed_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status = 'OPEN' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT a.bidding_type, a.outcry_config INTO v_auction
+  FROM auctions a
+  WHERE a.id = NEW.auction_id;
+
+  IF v_auction.bidding_type != 'OPEN_OUTCRY' OR (v_auction.outcry_config->>'timer_seconds') IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := COALESCE(v_auction.outcry_config->>'expiry_policy', 'SELL_ONLY');
+
+  IF v_policy = 'AUTO_CLOSE' OR (v_policy = 'SELL_ONLY' AND COALESCE(NEW.bid_count, 0) > 0) THEN
+    NEW.closed_at := CASE WHEN TG_OP = 'INSERT' THEN COALESCE(NEW.opened_at, NOW()) ELSE NOW() END
+      + make_interval(secs => (v_auction.outcry_config->>'timer_seconds')::INTEGER);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rounds_start_outcry_timer ON rounds;
+CREATE TRIGGER rounds_start_outcry_timer
+  BEFORE INSERT OR UPDATE OF status ON rounds
+  FOR EACH ROW EXECUTE FUNCTION start_outcry_round_timer();
+
+-- 3. raise_paddle: once a server-owned timer has run out the round belongs to the sweep
+CREATE OR REPLACE FUNCTION raise_paddle(
+  p_round_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auction_id UUID,
+  p_timer_seconds INTEGER DEFAULT NULL
+) RETURNS TABLE(new_amount INTEGER, new_sequence INTEGER, bid_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_round RECORD;
+  v_auction RECORD;
+  v_config JSONB;
+  v_current_amount INTEGER;
+  v_base_price INTEGER;
+  v_increment INTEGER;
+  v_new_amount INTEGER;
+  v_new_sequence INTEGER;
+  v_bid_id UUID;
+  v_rule RECORD;
+  v_multiplier NUMERIC;
+BEGIN
+  -- Lock round row to prevent concurrent updates
+  SELECT r.id, r.current_bid_amount, r.base_price, r.bid_count, r.current_bid_team_id, r.status, r.closed_at
+  INTO v_round
+  FROM rounds r
+  WHERE r.id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status != 'OPEN' THEN
+    RAISE EXCEPTION 'Round is not open for bidding';
+  END IF;
+
+  -- Cannot raise if your team already holds the highest bid
+  IF v_round.current_bid_team_id = p_team_id THEN
+    RAISE EXCEPTION 'Your team already holds the highest bid';
+  END IF;
+
+  -- Get auction outcry config
+  SELECT a.outcry_config
+  INTO v_config
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  IF v_round.closed_at IS NOT NULL AND v_round.closed_at <= NOW()
+     AND COALESCE(v_config->>'expiry_policy', 'SELL_ONLY') != 'MANUAL' THEN
+    RAISE EXCEPTION 'Bidding time has expired for this round';
+  END IF;
+
+  v_current_amount := COALESCE(v_round.current_bid_amount, v_round.base_price);
+  v_base_price := COALESCE(v_round.base_price, 0);
+
+  -- Calculate increment from outcry_config rules
+  -- Rules are: [{ from_multiplier, to_multiplier, increment }]
+  -- multiplier = current_amount / base_price
+  v_increment := v_base_price; -- default increment = base price (fallback)
+
+  IF v_config IS NOT NULL AND v_config->'rules' IS NOT NULL AND v_base_price > 0 THEN
+    v_multiplier := v_current_amount::NUMERIC / v_base_price::NUMERIC;
+
+    FOR v_rule IN
+      SELECT
+        (rule->>'from_multiplier')::NUMERIC AS from_mul,
+        (rule->>'to_multiplier')::NUMERIC AS to_mul,
+        (rule->>'increment')::INTEGER AS incr
+      FROM jsonb_array_elements(v_config->'rules') AS rule
+    LOOP
+      IF v_multiplier >= v_rule.from_mul AND v_multiplier < v_rule.to_mul THEN
+        v_increment := v_rule.incr;
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- For the very first bid (bid_count = 0), the new amount IS the base price (no increment)
+  IF v_round.bid_count = 0 THEN
+    v_new_amount := v_base_price;
+  ELSE
+    v_new_amount := v_current_amount + v_increment;
+  END IF;
+
+  v_new_sequence := COALESCE(v_round.bid_count, 0) + 1;
+
+  -- Insert new bid
+  INSERT INTO bids (round_id, team_id, player_id, amount, submitted_at, sequence_number)
+  VALUES (p_round_id, p_team_id, p_player_id, v_new_amount, NOW(), v_new_sequence)
+  RETURNING id INTO v_bid_id;
+
+  -- Update round state
+  UPDATE rounds
+  SET
+    current_bid_amount = v_new_amount,
+    current_bid_team_id = p_team_id,
+    bid_count = v_new_sequence,
+    closed_at = CASE
+      WHEN p_timer_seconds IS NOT NULL
+      THEN NOW() + (p_timer_seconds || ' seconds')::INTERVAL
+      ELSE closed_at
+    END
+  WHERE id = p_round_id;
+
+  RETURN QUERY SELECT v_new_amount, v_new_sequence, v_bid_id;
+END;
+$$;
+
+-- 4. Expiry sweep. Each round is closed in its own subtransaction so one failure (the auctioneer
+-- got there first, the round is not for the player on the block, ...) doesn't stop the rest.
+-- The auction owner is recorded as the actor on the resulting audit_logs event.
+CREATE OR REPLACE FUNCTION close_expired_outcry_rounds(p_now TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE(auction_id UUID, round_id UUID, action TEXT, new_version INTEGER)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_candidate RECORD;
+  v_auction RECORD;
+  v_round RECORD;
+  v_policy TEXT;
+  v_action TEXT;
+  v_result RECORD;
+BEGIN
+  FOR v_candidate IN
+    SELECT r.id, r.auction_id
+    FROM rounds r
+    JOIN auctions a ON a.id = r.auction_id
+    WHERE r.status = 'OPEN'
+      AND r.closed_at IS NOT NULL
+      AND r.closed_at <= p_now
+      AND a.status = 'LIVE'
+      AND a.bidding_type = 'OPEN_OUTCRY'
+      AND COALESCE(a.outcry_config->>'expiry_policy', 'SELL_ONLY') != 'MANUAL'
+    ORDER BY r.closed_at
+  LOOP
+    BEGIN
+      -- Same lock order as apply_auction_action: auction, then round
+      SELECT a.id, a.owner_id, a.queue_state, a.outcry_config
+      INTO v_auction
+      FROM auctions a
+      WHERE a.id = v_candidate.auction_id
+      FOR UPDATE;
+
+      -- Re-check under the lock: a last-second raise may have pushed the timer out
+      SELECT r.id, r.player_id, r.bid_count
+      INTO v_round
+      FROM rounds r
+      WHERE r.id = v_candidate.id AND r.status = 'OPEN' AND r.closed_at <= p_now
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        CONTINUE;
+      END IF;
+
+      IF v_round.player_id::TEXT IS DISTINCT FROM
+         v_auction.queue_state->'auctionQueue'->>COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0) THEN
+        RAISE WARNING 'Expired outcry round % is not for the player on the block, skipping', v_round.id;
+        CONTINUE;
+      END IF;
+
+      v_policy := COALESCE(v_auction.outcry_config->>'expiry_policy', 'SELL_ONLY');
+
+      IF COALESCE(v_round.bid_count, 0) > 0 THEN
+        v_action := 'SOLD';
+      ELSIF v_policy = 'AUTO_CLOSE' THEN
+        v_action := 'UNSOLD';
+      ELSE
+        CONTINUE;
+      END IF;
+
+      SELECT * INTO v_result
+      FROM apply_auction_action(v_auction.id, v_action, v_auction.owner_id);
+
+      auction_id := v_auction.id;
+      round_id := v_round.id;
+      action := v_action;
+      new_version := v_result.new_version;
+      RETURN NEXT;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Failed to close expired outcry round %: %', v_candidate.id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
+
+-- Only the scheduler (service role) runs the sweep
+REVOKE EXECUTE ON FUNCTION close_expired_outcry_rounds(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION close_expired_outcry_rounds(TIMESTAMPTZ) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_rounds_open_closed_at
+  ON rounds (closed_at) WHERE status = 'OPEN';
@@ -0,0 +1,128 @@
+-- Migration: Per-tier and per-round open outcry increment rules
+-- outcry_config.tier_rules maps tiers.id to a rules array that replaces outcry_config.rules for
+-- players in that tier. rounds.outcry_rules overrides both for a single round (set by the
+-- auctioneer when opening it). Lookup order: round, tier, auction — see getOutcryRules().
+
+-- 1. Per-round override
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS outcry_rules JSONB;
+
+-- 2. raise_paddle: pick the rules in effect for the round before walking the brackets
+CREATE OR REPLACE FUNCTION raise_paddle(
+  p_round_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auction_id UUID,
+  p_timer_seconds INTEGER DEFAULT NULL
+) RETURNS TABLE(new_amount INTEGER, new_sequence INTEGER, bid_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_round RECORD;
+  v_auction RECORD;
+  v_config JSONB;
+  v_rules JSONB;
+  v_current_amount INTEGER;
+  v_base_price INTEGER;
+  v_increment INTEGER;
+  v_new_amount INTEGER;
+  v_new_sequence INTEGER;
+  v_bid_id UUID;
+  v_rule RECORD;
+  v_multiplier NUMERIC;
+BEGIN
+  -- Lock round row to prevent concurrent updates
+  SELECT r.id, r.current_bid_amount, r.base_price, r.bid_count, r.current_bid_team_id, r.status, r.closed_at,
+         r.tier_id, r.outcry_rules
+  INTO v_round
+  FROM rounds r
+  WHERE r.id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status != 'OPEN' THEN
+    RAISE EXCEPTION 'Round is not open for bidding';
+  END IF;
+
+  -- Cannot raise if your team already holds the highest bid
+  IF v_round.current_bid_team_id = p_team_id THEN
+    RAISE EXCEPTION 'Your team already holds the highest bid';
+  END IF;
+
+  -- Get auction outcry config
+  SELECT a.outcry_config
+  INTO v_config
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  IF v_round.closed_at IS NOT NULL AND v_round.closed_at <= NOW()
+     AND COALESCE(v_config->>'expiry_policy', 'SELL_ONLY') != 'MANUAL' THEN
+    RAISE EXCEPTION 'Bidding time has expired for this round';
+  END IF;
+
+  v_current_amount := COALESCE(v_round.current_bid_amount, v_round.base_price);
+  v_base_price := COALESCE(v_round.base_price, 0);
+
+  -- Rules in effect: round override, then tier override, then the auction default
+  v_rules := CASE
+    WHEN jsonb_typeof(v_round.outcry_rules) = 'array' AND jsonb_array_length(v_round.outcry_rules) > 0
+      THEN v_round.outcry_rules
+    WHEN jsonb_typeof(v_config->'tier_rules'->(v_round.tier_id::TEXT)) = 'array'
+         AND jsonb_array_length(v_config->'tier_rules'->(v_round.tier_id::TEXT)) > 0
+      THEN v_config->'tier_rules'->(v_round.tier_id::TEXT)
+    ELSE v_config->'rules'
+  END;
+
+  -- Calculate increment from the rules
+  -- Rules are: [{ from_multiplier, to_multiplier, increment }]
+  -- multiplier = current_amount / base_price
+  v_increment := v_base_price; -- default increment = base price (fallback)
+
+  IF v_rules IS NOT NULL AND v_base_price > 0 THEN
+    v_multiplier := v_current_amount::NUMERIC / v_base_price::NUMERIC;
+
+    FOR v_rule IN
+      SELECT
+        (rule->>'from_multiplier')::NUMERIC AS from_mul,
+        (rule->>'to_multiplier')::NUMERIC AS to_mul,
+        (rule->>'increment')::INTEGER AS incr
+      FROM jsonb_array_elements(v_rules) AS rule
+    LOOP
+      IF v_multiplier >= v_rule.from_mul AND v_multiplier < v_rule.to_mul THEN
+        v_increment := v_rule.incr;
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- For the very first bid (bid_count = 0), the new amount IS the base price (no increment)
+  IF v_round.bid_count = 0 THEN
+    v_new_amount := v_base_price;
+  ELSE
+    v_new_amount := v_current_amount + v_increment;
+  END IF;
+
+  v_new_sequence := COALESCE(v_round.bid_count, 0) + 1;
+
+  -- Insert new bid
+  INSERT INTO bids (round_id, team_id, player_id, amount, submitted_at, sequence_number)
+  VALUES (p_round_id, p_team_id, p_player_id, v_new_amount, NOW(), v_new_sequence)
+  RETURNING id INTO v_bid_id;
+
+  -- Update round state
+  UPDATE rounds
+  SET
+    current_bid_amount = v_new_amount,
+    current_bid_team_id = p_team_id,
+    bid_count = v_new_sequence,
+    closed_at = CASE
+      WHEN p_timer_seconds IS NOT NULL
+      THEN NOW() + (p_timer_seconds || ' seconds')::INTERVAL
+      ELSE closed_at
+    END
+  WHERE id = p_round_id;
+
+  RETURN QUERY SELECT v_new_amount, v_new_sequence, v_bid_id;
+END;
+$$;
@@ -0,0 +1,176 @@
+-- Migration: Jump bids in open outcry
+-- raise_paddle() takes an optional p_amount. NULL keeps the old behaviour (bid the next step);
+-- otherwise the amount must sit on the increment ladder at or above the next step, and no more
+-- than outcry_config.max_jump above it when a cap is set. bids.is_jump marks bids that skipped
+-- at least one step so the feeds can label them. See getJumpBidError() in outcry-utils.ts.
+
+-- 1. Flag jump bids
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS is_jump BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Increment bracket lookup, shared by the step walk below
+CREATE OR REPLACE FUNCTION outcry_increment(
+  p_rules JSONB,
+  p_amount INTEGER,
+  p_base_price INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_rule RECORD;
+  v_multiplier NUMERIC;
+BEGIN
+  IF p_rules IS NULL OR p_base_price <= 0 THEN
+    RETURN p_base_price; -- default increment = base price (fallback)
+  END IF;
+
+  v_multiplier := p_amount::NUMERIC / p_base_price::NUMERIC;
+
+  FOR v_rule IN
+    SELECT
+      (rule->>'from_multiplier')::NUMERIC AS from_mul,
+      (rule->>'to_multiplier')::NUMERIC AS to_mul,
+      (rule->>'increment')::INTEGER AS incr
+    FROM jsonb_array_elements(p_rules) AS rule
+  LOOP
+    IF v_multiplier >= v_rule.from_mul AND v_multiplier < v_rule.to_mul THEN
+      RETURN v_rule.incr;
+    END IF;
+  END LOOP;
+
+  RETURN p_base_price;
+END;
+$$;
+
+-- 3. raise_paddle with an explicit amount (and is_jump in the result). The signature changes, so
+--    drop the old one rather than leave an ambiguous overload behind.
+DROP FUNCTION IF EXISTS raise_paddle(UUID, UUID, UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION raise_paddle(
+  p_round_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auction_id UUID,
+  p_timer_seconds INTEGER DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL
+) RETURNS TABLE(new_amount INTEGER, new_sequence INTEGER, bid_id UUID, is_jump BOOLEAN)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_round RECORD;
+  v_config JSONB;
+  v_rules JSONB;
+  v_current_amount INTEGER;
+  v_base_price INTEGER;
+  v_min_amount INTEGER;
+  v_new_amount INTEGER;
+  v_new_sequence INTEGER;
+  v_bid_id UUID;
+  v_step INTEGER;
+  v_next INTEGER;
+  v_steps INTEGER := 0;
+BEGIN
+  -- Lock round row to prevent concurrent updates
+  SELECT r.id, r.current_bid_amount, r.base_price, r.bid_count, r.current_bid_team_id, r.status, r.closed_at,
+         r.tier_id, r.outcry_rules
+  INTO v_round
+  FROM rounds r
+  WHERE r.id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status != 'OPEN' THEN
+    RAISE EXCEPTION 'Round is not open for bidding';
+  END IF;
+
+  -- Cannot raise if your team already holds the highest bid
+  IF v_round.current_bid_team_id = p_team_id THEN
+    RAISE EXCEPTION 'Your team already holds the highest bid';
+  END IF;
+
+  -- Get auction outcry config
+  SELECT a.outcry_config
+  INTO v_config
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  IF v_round.closed_at IS NOT NULL AND v_round.closed_at <= NOW()
+     AND COALESCE(v_config->>'expiry_policy', 'SELL_ONLY') != 'MANUAL' THEN
+    RAISE EXCEPTION 'Bidding time has expired for this round';
+  END IF;
+
+  v_current_amount := COALESCE(v_round.current_bid_amount, v_round.base_price);
+  v_base_price := COALESCE(v_round.base_price, 0);
+
+  -- Rules in effect: round override, then tier override, then the auction default
+  v_rules := CASE
+    WHEN jsonb_typeof(v_round.outcry_rules) = 'array' AND jsonb_array_length(v_round.outcry_rules) > 0
+      THEN v_round.outcry_rules
+    WHEN jsonb_typeof(v_config->'tier_rules'->(v_round.tier_id::TEXT)) = 'array'
+         AND jsonb_array_length(v_config->'tier_rules'->(v_round.tier_id::TEXT)) > 0
+      THEN v_config->'tier_rules'->(v_round.tier_id::TEXT)
+    ELSE v_config->'rules'
+  END;
+
+  -- For the very first bid (bid_count = 0), the next step IS the base price (no increment)
+  IF v_round.bid_count = 0 THEN
+    v_min_amount := v_base_price;
+  ELSE
+    v_min_amount := v_current_amount + outcry_increment(v_rules, v_current_amount, v_base_price);
+  END IF;
+
+  IF p_amount IS NULL OR p_amount = v_min_amount THEN
+    v_new_amount := v_min_amount;
+  ELSE
+    IF p_amount < v_min_amount THEN
+      RAISE EXCEPTION 'Bid must be at least %', v_min_amount;
+    END IF;
+
+    IF (v_config->>'max_jump') IS NOT NULL
+       AND p_amount - v_min_amount > (v_config->>'max_jump')::INTEGER THEN
+      RAISE EXCEPTION 'Jump bids are capped at % above the next bid (max %)',
+        (v_config->>'max_jump')::INTEGER, v_min_amount + (v_config->>'max_jump')::INTEGER;
+    END IF;
+
+    -- Walk the ladder up from the next step; the amount has to land on a step exactly
+    v_step := v_min_amount;
+    LOOP
+      v_next := v_step + outcry_increment(v_rules, v_step, v_base_price);
+      EXIT WHEN v_next > p_amount OR v_next <= v_step;
+      v_step := v_next;
+      v_steps := v_steps + 1;
+      IF v_steps >= 1000 THEN
+        RAISE EXCEPTION 'Jump bid is too far above the current bid';
+      END IF;
+    END LOOP;
+
+    IF v_step != p_amount THEN
+      RAISE EXCEPTION '% is not a valid bid step — try % or %', p_amount, v_step, v_next;
+    END IF;
+
+    v_new_amount := p_amount;
+  END IF;
+
+  v_new_sequence := COALESCE(v_round.bid_count, 0) + 1;
+
+  -- Insert new bid
+  INSERT INTO bids (round_id, team_id, player_id, amount, submitted_at, sequence_number, is_jump)
+  VALUES (p_round_id, p_team_id, p_player_id, v_new_amount, NOW(), v_new_sequence, v_new_amount > v_min_amount)
+  RETURNING id INTO v_bid_id;
+
+  -- Update round state
+  UPDATE rounds
+  SET
+    current_bid_amount = v_new_amount,
+    current_bid_team_id = p_team_id,
+    bid_count = v_new_sequence,
+    closed_at = CASE
+      WHEN p_timer_seconds IS NOT NULL
+      THEN NOW() + (p_timer_seconds || ' seconds')::INTERVAL
+      ELSE closed_at
+    END
+  WHERE id = p_round_id;
+
+  RETURN QUERY SELECT v_new_amount, v_new_sequence, v_bid_id, v_new_amount > v_min_amount;
+END;
+$$;
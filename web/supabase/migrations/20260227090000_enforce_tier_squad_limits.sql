@@ -0,0 +1,46 @@
+-- Migration: Enforce tiers.max_per_team on every sale
+-- tiers.min_per_team / max_per_team were configured in the wizard but never checked. The bid and
+-- raise routes now reject bids from a team that is already full in the player's tier; this trigger
+-- is the backstop for every path that assigns a player (apply_auction_action SOLD, the expiry
+-- sweep, /sold, manual assignment). max_per_team NULL = no cap. The min_per_team check lives in
+-- PATCH /api/auctions/[id] before the auction can move to COMPLETED (see lib/squad-rules.ts).
+
+-- 1. Trigger function
+CREATE OR REPLACE FUNCTION enforce_tier_max_per_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_tier RECORD;
+  v_count INTEGER;
+BEGIN
+  SELECT t.id, t.name, t.max_per_team
+  INTO v_tier
+  FROM players p
+  JOIN tiers t ON t.id = p.tier_id
+  WHERE p.id = NEW.player_id;
+
+  IF v_tier IS NULL OR v_tier.max_per_team IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO v_count
+  FROM auction_results ar
+  JOIN players p ON p.id = ar.player_id
+  WHERE ar.team_id = NEW.team_id
+    AND p.tier_id = v_tier.id
+    AND ar.player_id != NEW.player_id;
+
+  IF v_count >= v_tier.max_per_team THEN
+    RAISE EXCEPTION 'Team already has % % player(s) — the maximum for that tier', v_count, v_tier.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Check on insert and when a result moves to another team
+DROP TRIGGER IF EXISTS auction_results_tier_max ON auction_results;
+CREATE TRIGGER auction_results_tier_max
+  BEFORE INSERT OR UPDATE OF team_id, player_id ON auction_results
+  FOR EACH ROW EXECUTE FUNCTION enforce_tier_max_per_team();
@@ -0,0 +1,50 @@
+-- Migration: Playing-role composition rules
+-- auctions.role_rules holds per-squad limits on players.playing_role, e.g.
+--   { "WICKETKEEPER": { "min": 1 }, "BOWLER": { "max": 5 } }
+-- Roles without an entry are unrestricted. Maximums are checked on every sale by the trigger
+-- below (the bid and raise routes check first for a friendlier message); minimums are checked
+-- before the auction can move to COMPLETED. See lib/squad-rules.ts.
+
+-- 1. Rules column
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS role_rules JSONB;
+
+-- 2. Trigger function
+CREATE OR REPLACE FUNCTION enforce_role_max_per_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_role playing_role;
+  v_max INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT p.playing_role, (a.role_rules->(p.playing_role::TEXT)->>'max')::INTEGER
+  INTO v_role, v_max
+  FROM players p
+  JOIN auctions a ON a.id = NEW.auction_id
+  WHERE p.id = NEW.player_id;
+
+  IF v_max IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO v_count
+  FROM auction_results ar
+  JOIN players p ON p.id = ar.player_id
+  WHERE ar.team_id = NEW.team_id
+    AND p.playing_role = v_role
+    AND ar.player_id != NEW.player_id;
+
+  IF v_count >= v_max THEN
+    RAISE EXCEPTION 'Team already has % % player(s) — the most a squad can have', v_count, v_role;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Check on insert and when a result moves to another team
+DROP TRIGGER IF EXISTS auction_results_role_max ON auction_results;
+CREATE TRIGGER auction_results_role_max
+  BEFORE INSERT OR UPDATE OF team_id, player_id ON auction_results
+  FOR EACH ROW EXECUTE FUNCTION enforce_role_max_per_team();
@@ -0,0 +1,209 @@
+-- Migration: Right-to-match (RTM) cards
+-- Each team gets auctions.rtm_cards_per_team cards. When a player with a previous_team_id is
+-- sold to someone else, open_rtm_offer gives the previous team a short window to take the
+-- player at the hammer price; claim_rtm moves the result over and spends a card. A card is
+-- spent only by a CLAIMED offer, so undoing the sale (which deletes the result) voids the
+-- offer and hands the card back. See lib/rtm.ts.
+
+-- 1. Card count per team, and the team each player played for last season
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS rtm_cards_per_team INTEGER NOT NULL DEFAULT 0
+  CHECK (rtm_cards_per_team >= 0);
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS previous_team_id UUID
+  REFERENCES teams(id) ON DELETE SET NULL;
+
+-- 2. Offers: team_id holds the card, winning_team_id won the hammer
+CREATE TABLE IF NOT EXISTS public.rtm_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id UUID NOT NULL REFERENCES auctions(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  winning_team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  price INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'OPEN'
+    CHECK (status IN ('OPEN', 'CLAIMED', 'DECLINED', 'EXPIRED', 'VOID')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_rtm_offers_auction_team ON public.rtm_offers (auction_id, team_id, status);
+
+-- At most one live offer per player
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rtm_offers_open_player
+  ON public.rtm_offers (auction_id, player_id) WHERE status = 'OPEN';
+
+-- 3. RLS: anyone who can see the auction can see its offers; owners manage them.
+-- Captains respond through claim_rtm, which runs as definer and only for the service role:
+-- the route checks the team and passes the signed-in user for the audit entry.
+ALTER TABLE public.rtm_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "RTM offers viewable with the auction" ON public.rtm_offers;
+CREATE POLICY "RTM offers viewable with the auction" ON public.rtm_offers
+FOR SELECT USING (public.is_auction_visible(auction_id));
+
+DROP POLICY IF EXISTS "Auction owners can manage RTM offers" ON public.rtm_offers;
+CREATE POLICY "Auction owners can manage RTM offers" ON public.rtm_offers
+FOR ALL USING (public.is_auction_owner(auction_id))
+WITH CHECK (public.is_auction_owner(auction_id));
+
+-- 4. Open an RTM window after a sale, if the player's previous team has a card left.
+-- Returns the new offer, or no row when there is nothing to offer.
+CREATE OR REPLACE FUNCTION open_rtm_offer(
+  p_auction_id UUID,
+  p_player_id UUID,
+  p_window_seconds INTEGER
+) RETURNS SETOF rtm_offers
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_cards INTEGER;
+  v_sale RECORD;
+  v_used INTEGER;
+BEGIN
+  SELECT a.rtm_cards_per_team INTO v_cards
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  IF COALESCE(v_cards, 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT ar.team_id, ar.winning_bid_amount, p.previous_team_id
+  INTO v_sale
+  FROM auction_results ar
+  JOIN players p ON p.id = ar.player_id
+  JOIN teams t ON t.id = p.previous_team_id AND t.auction_id = p_auction_id
+  WHERE ar.auction_id = p_auction_id AND ar.player_id = p_player_id;
+
+  IF NOT FOUND OR v_sale.previous_team_id = v_sale.team_id THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_used
+  FROM rtm_offers o
+  WHERE o.auction_id = p_auction_id AND o.team_id = v_sale.previous_team_id AND o.status = 'CLAIMED';
+
+  IF v_used >= v_cards THEN
+    RETURN;
+  END IF;
+
+  -- A redo re-sells the player; the earlier window no longer applies
+  UPDATE rtm_offers
+  SET status = 'VOID', resolved_at = NOW()
+  WHERE auction_id = p_auction_id AND player_id = p_player_id AND status = 'OPEN';
+
+  RETURN QUERY
+  INSERT INTO rtm_offers (auction_id, player_id, team_id, winning_team_id, price, expires_at)
+  VALUES (p_auction_id, p_player_id, v_sale.previous_team_id, v_sale.team_id, v_sale.winning_bid_amount,
+          NOW() + make_interval(secs => p_window_seconds))
+  RETURNING *;
+END;
+$$;
+
+-- 5. Claim or decline an offer. The result moves to the RTM team at the same price, so the
+-- tier and role max triggers on auction_results still apply.
+-- Returns the offer's new status: CLAIMED, DECLINED, or EXPIRED if the window had closed.
+CREATE OR REPLACE FUNCTION claim_rtm(
+  p_offer_id UUID,
+  p_team_id UUID,
+  p_claim BOOLEAN,
+  p_user_id UUID
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer RECORD;
+  v_cards INTEGER;
+  v_used INTEGER;
+BEGIN
+  SELECT o.* INTO v_offer
+  FROM rtm_offers o
+  WHERE o.id = p_offer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RTM offer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_offer.team_id != p_team_id THEN
+    RAISE EXCEPTION 'This RTM offer belongs to another team';
+  END IF;
+
+  IF v_offer.status != 'OPEN' THEN
+    RAISE EXCEPTION 'This RTM offer is no longer open';
+  END IF;
+
+  IF v_offer.expires_at < NOW() THEN
+    UPDATE rtm_offers SET status = 'EXPIRED', resolved_at = NOW() WHERE id = p_offer_id;
+    RETURN 'EXPIRED';
+  END IF;
+
+  IF NOT p_claim THEN
+    UPDATE rtm_offers SET status = 'DECLINED', resolved_at = NOW() WHERE id = p_offer_id;
+    RETURN 'DECLINED';
+  END IF;
+
+  SELECT a.rtm_cards_per_team INTO v_cards
+  FROM auctions a
+  WHERE a.id = v_offer.auction_id;
+
+  SELECT COUNT(*) INTO v_used
+  FROM rtm_offers o
+  WHERE o.auction_id = v_offer.auction_id AND o.team_id = p_team_id AND o.status = 'CLAIMED';
+
+  IF v_used >= COALESCE(v_cards, 0) THEN
+    RAISE EXCEPTION 'No RTM cards left';
+  END IF;
+
+  UPDATE auction_results
+  SET team_id = v_offer.team_id, assigned_at = NOW()
+  WHERE auction_id = v_offer.auction_id
+    AND player_id = v_offer.player_id
+    AND team_id = v_offer.winning_team_id
+    AND winning_bid_amount = v_offer.price;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The sale has changed since the RTM offer was made';
+  END IF;
+
+  UPDATE rtm_offers SET status = 'CLAIMED', resolved_at = NOW() WHERE id = p_offer_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (v_offer.auction_id, p_user_id, 'RTM_CLAIMED', jsonb_build_object(
+    'offerId', v_offer.id,
+    'playerId', v_offer.player_id,
+    'teamId', v_offer.team_id,
+    'fromTeamId', v_offer.winning_team_id,
+    'price', v_offer.price
+  ));
+
+  RETURN 'CLAIMED';
+END;
+$$;
+
+-- Definer functions are executable by PUBLIC by default; this one skips RLS and trusts
+-- p_team_id and p_user_id, so only the server may call it
+REVOKE EXECUTE ON FUNCTION claim_rtm(UUID, UUID, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_rtm(UUID, UUID, BOOLEAN, UUID) TO service_role;
+
+-- 6. Undoing a sale deletes its result: void the offer so a claimed card is handed back
+CREATE OR REPLACE FUNCTION void_rtm_offers_on_result_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE rtm_offers
+  SET status = 'VOID', resolved_at = NOW()
+  WHERE auction_id = OLD.auction_id
+    AND player_id = OLD.player_id
+    AND status IN ('OPEN', 'CLAIMED');
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS auction_results_void_rtm ON auction_results;
+CREATE TRIGGER auction_results_void_rtm
+  AFTER DELETE ON auction_results
+  FOR EACH ROW EXECUTE FUNCTION void_rtm_offers_on_result_delete();
@@ -0,0 +1,170 @@
+-- Migration: Pre-auction player retentions
+-- While an auction is in DRAFT or LOBBY, a team can keep players from its roster at a fixed
+-- price. A retention is an auction_results row with source = 'RETAINED', so team_budgets,
+-- squad counts and the tier/role max triggers treat it like any other signing. Limits per
+-- team: max_retentions_per_team players (0 = retentions off) and, optionally,
+-- max_retention_spend in total. See lib/retention.ts.
+
+-- 1. Where each result came from
+ALTER TABLE auction_results ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'AUCTION'
+  CHECK (source IN ('AUCTION', 'RETAINED'));
+
+-- 2. Retention limits
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS max_retentions_per_team INTEGER NOT NULL DEFAULT 0
+  CHECK (max_retentions_per_team >= 0);
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS max_retention_spend INTEGER
+  CHECK (max_retention_spend >= 0);
+
+-- 3. Retain a player for a team. Runs as definer so captains can retain for their own team;
+-- it does no caller check of its own, so only the service role may call it, once the route
+-- has checked team access.
+CREATE OR REPLACE FUNCTION retain_player(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_price INTEGER
+) RETURNS SETOF auction_results
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_player RECORD;
+  v_count INTEGER;
+  v_spend INTEGER;
+  v_remaining INTEGER;
+BEGIN
+  -- Lock the auction so two retentions for the same team can't both pass the limits
+  SELECT a.id, a.status, a.max_retentions_per_team, a.max_retention_spend
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status NOT IN ('DRAFT', 'LOBBY') THEN
+    RAISE EXCEPTION 'Players can only be retained before the auction starts';
+  END IF;
+
+  IF v_auction.max_retentions_per_team = 0 THEN
+    RAISE EXCEPTION 'Retentions are not enabled for this auction';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM teams t WHERE t.id = p_team_id AND t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'Team does not belong to this auction';
+  END IF;
+
+  SELECT p.id, p.name, t.base_price
+  INTO v_player
+  FROM players p
+  LEFT JOIN tiers t ON t.id = p.tier_id
+  WHERE p.id = p_player_id AND p.auction_id = p_auction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player not found in this auction' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p_player_id) THEN
+    RAISE EXCEPTION '% is a captain and already on a team', v_player.name;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p_player_id) THEN
+    RAISE EXCEPTION '% is already on a team', v_player.name;
+  END IF;
+
+  IF p_price < COALESCE(v_player.base_price, 1) THEN
+    RAISE EXCEPTION 'Retention price must be at least % (the tier base price)', COALESCE(v_player.base_price, 1);
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(ar.winning_bid_amount), 0)
+  INTO v_count, v_spend
+  FROM auction_results ar
+  WHERE ar.auction_id = p_auction_id AND ar.team_id = p_team_id AND ar.source = 'RETAINED';
+
+  IF v_count >= v_auction.max_retentions_per_team THEN
+    RAISE EXCEPTION 'Team already has % retained player(s) — the retention limit', v_count;
+  END IF;
+
+  IF v_auction.max_retention_spend IS NOT NULL AND v_spend + p_price > v_auction.max_retention_spend THEN
+    RAISE EXCEPTION 'Retentions would cost % — the retention budget is %', v_spend + p_price, v_auction.max_retention_spend;
+  END IF;
+
+  SELECT tb.budget_remaining INTO v_remaining
+  FROM team_budgets tb
+  WHERE tb.team_id = p_team_id;
+
+  IF p_price > COALESCE(v_remaining, 0) THEN
+    RAISE EXCEPTION 'Insufficient budget';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at, source)
+  VALUES (p_auction_id, p_player_id, p_team_id, p_price, NOW(), 'RETAINED')
+  RETURNING *;
+END;
+$$;
+
+-- 4. Release a retained player back into the pool (returns the team it was released from)
+CREATE OR REPLACE FUNCTION release_retention(
+  p_auction_id UUID,
+  p_player_id UUID
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_team_id UUID;
+BEGIN
+  SELECT a.status INTO v_status
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_status NOT IN ('DRAFT', 'LOBBY') THEN
+    RAISE EXCEPTION 'Retentions can only be changed before the auction starts';
+  END IF;
+
+  DELETE FROM auction_results ar
+  WHERE ar.auction_id = p_auction_id AND ar.player_id = p_player_id AND ar.source = 'RETAINED'
+  RETURNING ar.team_id INTO v_team_id;
+
+  IF v_team_id IS NULL THEN
+    RAISE EXCEPTION 'Player is not retained' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_team_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION retain_player(UUID, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_retention(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION retain_player(UUID, UUID, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_retention(UUID, UUID) TO service_role;
+
+-- 5. Once retained, a player can't be sold over the top of it (e.g. if they end up in the queue)
+CREATE OR REPLACE FUNCTION protect_retained_results()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF OLD.source = 'RETAINED' THEN
+    RAISE EXCEPTION 'Player was retained before the auction and can''t be sold';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS auction_results_protect_retained ON auction_results;
+CREATE TRIGGER auction_results_protect_retained
+  BEFORE UPDATE ON auction_results
+  FOR EACH ROW EXECUTE FUNCTION protect_retained_results();
@@ -0,0 +1,371 @@
+-- Migration: Accelerated round for unsold players
+-- Once the main queue runs out, the auctioneer can open an accelerated round. While it is
+-- PICKING, captains choose which players from queue_state.unsoldPlayers they want back. START
+-- replaces the queue with just the picked players (in their unsold order), optionally at a
+-- reduced base price, and opens the first round. CLOSE ends the round once that queue has run
+-- out, or cancels it while captains are still picking. See lib/accelerated-round.ts.
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.accelerated_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'PICKING' CHECK (status IN ('PICKING', 'RUNNING', 'CLOSED')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ
+);
+
+-- One accelerated round in progress per auction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accelerated_rounds_active
+  ON public.accelerated_rounds (auction_id) WHERE status IN ('PICKING', 'RUNNING');
+
+-- Which unsold players each team wants back
+CREATE TABLE IF NOT EXISTS public.accelerated_picks (
+  accelerated_round_id UUID NOT NULL REFERENCES public.accelerated_rounds(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (accelerated_round_id, team_id, player_id)
+);
+
+-- The players that went into the round, with their reduced base price (NULL = tier base price)
+CREATE TABLE IF NOT EXISTS public.accelerated_round_players (
+  accelerated_round_id UUID NOT NULL REFERENCES public.accelerated_rounds(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  base_price INTEGER CHECK (base_price > 0),
+  PRIMARY KEY (accelerated_round_id, player_id)
+);
+
+-- 2. RLS: anyone who can see the auction can read; owners manage. Captains pick through
+-- set_accelerated_picks.
+ALTER TABLE public.accelerated_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accelerated_picks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.accelerated_round_players ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Accelerated rounds are visible with the auction" ON public.accelerated_rounds;
+CREATE POLICY "Accelerated rounds are visible with the auction" ON public.accelerated_rounds
+FOR SELECT USING (public.is_auction_visible(auction_id));
+
+DROP POLICY IF EXISTS "Auction owners manage accelerated rounds" ON public.accelerated_rounds;
+CREATE POLICY "Auction owners manage accelerated rounds" ON public.accelerated_rounds
+FOR ALL USING (public.is_auction_owner(auction_id));
+
+DROP POLICY IF EXISTS "Accelerated picks are visible with the auction" ON public.accelerated_picks;
+CREATE POLICY "Accelerated picks are visible with the auction" ON public.accelerated_picks
+FOR SELECT USING (EXISTS (
+  SELECT 1 FROM public.accelerated_rounds r
+  WHERE r.id = accelerated_round_id AND public.is_auction_visible(r.auction_id)
+));
+
+DROP POLICY IF EXISTS "Accelerated round players are visible with the auction" ON public.accelerated_round_players;
+CREATE POLICY "Accelerated round players are visible with the auction" ON public.accelerated_round_players
+FOR SELECT USING (EXISTS (
+  SELECT 1 FROM public.accelerated_rounds r
+  WHERE r.id = accelerated_round_id AND public.is_auction_visible(r.auction_id)
+));
+
+-- 3. Open an accelerated round once the main queue has run out
+CREATE OR REPLACE FUNCTION open_accelerated_round(p_auction_id UUID)
+RETURNS SETOF accelerated_rounds
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+BEGIN
+  SELECT a.id, a.status, a.queue_state
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0)
+     < jsonb_array_length(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)) THEN
+    RAISE EXCEPTION 'Finish the current queue before starting an accelerated round';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(v_auction.queue_state->'unsoldPlayers', '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'There are no unsold players to bring back';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM accelerated_rounds r WHERE r.auction_id = p_auction_id AND r.status = 'PICKING') THEN
+    RAISE EXCEPTION 'Captains are already picking players for an accelerated round';
+  END IF;
+
+  -- The previous accelerated round's queue has run out (checked above), so it is over
+  UPDATE accelerated_rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE auction_id = p_auction_id AND status = 'RUNNING';
+
+  RETURN QUERY
+  INSERT INTO accelerated_rounds (auction_id)
+  VALUES (p_auction_id)
+  RETURNING *;
+END;
+$$;
+
+-- 4. Replace a team's picks. Runs as definer so captains can pick; only the service role may
+-- call it, once the route has checked team access.
+CREATE OR REPLACE FUNCTION set_accelerated_picks(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_ids UUID[]
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_round_id UUID;
+  v_unsold JSONB;
+  v_invalid TEXT;
+BEGIN
+  SELECT r.id INTO v_round_id
+  FROM accelerated_rounds r
+  WHERE r.auction_id = p_auction_id AND r.status = 'PICKING'
+  FOR UPDATE;
+
+  IF v_round_id IS NULL THEN
+    RAISE EXCEPTION 'Picks are closed — there is no accelerated round open for picking';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM teams t WHERE t.id = p_team_id AND t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'Team does not belong to this auction';
+  END IF;
+
+  SELECT COALESCE(a.queue_state->'unsoldPlayers', '[]'::jsonb) INTO v_unsold
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  SELECT COALESCE(p.name, pid::TEXT) INTO v_invalid
+  FROM unnest(COALESCE(p_player_ids, '{}')) AS pid
+  LEFT JOIN players p ON p.id = pid
+  WHERE NOT v_unsold ? pid::TEXT
+     OR EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = pid)
+  LIMIT 1;
+
+  IF v_invalid IS NOT NULL THEN
+    RAISE EXCEPTION '% is not an unsold player', v_invalid;
+  END IF;
+
+  DELETE FROM accelerated_picks
+  WHERE accelerated_round_id = v_round_id AND team_id = p_team_id;
+
+  INSERT INTO accelerated_picks (accelerated_round_id, team_id, player_id)
+  SELECT DISTINCT v_round_id, p_team_id, pid
+  FROM unnest(COALESCE(p_player_ids, '{}')) AS pid;
+
+  RETURN (SELECT COUNT(*) FROM accelerated_picks WHERE accelerated_round_id = v_round_id AND team_id = p_team_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_accelerated_picks(UUID, UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_accelerated_picks(UUID, UUID, UUID[]) TO service_role;
+
+-- 5. Start: the picked players become the new queue and the first round opens.
+-- p_base_prices maps player id → reduced base price ({} = everyone at their tier base price).
+-- Replacing queue_state outside the event log resets the undo/redo stacks, as a restart does.
+CREATE OR REPLACE FUNCTION start_accelerated_round(
+  p_auction_id UUID,
+  p_base_prices JSONB DEFAULT '{}'::jsonb,
+  p_expected_version INTEGER DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_round_id UUID;
+  v_unsold TEXT[];
+  v_queue TEXT[];
+  v_player RECORD;
+  v_price INTEGER;
+  v_base_price INTEGER;
+  v_opened_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version != v_auction.queue_version THEN
+    RAISE EXCEPTION 'Auction state changed since it was loaded — refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  SELECT r.id INTO v_round_id
+  FROM accelerated_rounds r
+  WHERE r.auction_id = p_auction_id AND r.status = 'PICKING'
+  FOR UPDATE;
+
+  IF v_round_id IS NULL THEN
+    RAISE EXCEPTION 'There is no accelerated round waiting to start';
+  END IF;
+
+  v_unsold := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'unsoldPlayers', '[]'::jsonb)));
+
+  -- Picked players, in the order they went unsold
+  v_queue := ARRAY(
+    SELECT u.pid
+    FROM unnest(v_unsold) WITH ORDINALITY AS u(pid, ord)
+    WHERE EXISTS (
+      SELECT 1 FROM accelerated_picks ap
+      WHERE ap.accelerated_round_id = v_round_id AND ap.player_id::TEXT = u.pid
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM auction_results ar
+      WHERE ar.auction_id = p_auction_id AND ar.player_id::TEXT = u.pid
+    )
+    ORDER BY u.ord
+  );
+
+  IF cardinality(v_queue) = 0 THEN
+    RAISE EXCEPTION 'No captain has picked an unsold player yet';
+  END IF;
+
+  FOR v_player IN
+    SELECT p.id, p.name, t.base_price AS tier_price
+    FROM players p
+    LEFT JOIN tiers t ON t.id = p.tier_id
+    WHERE p.auction_id = p_auction_id AND p.id::TEXT = ANY(v_queue)
+  LOOP
+    v_price := NULLIF(p_base_prices->>(v_player.id::TEXT), '')::INTEGER;
+
+    IF v_price IS NOT NULL AND (v_price < 1 OR (v_player.tier_price IS NOT NULL AND v_price > v_player.tier_price)) THEN
+      RAISE EXCEPTION 'Reduced base price for % must be between 1 and %', v_player.name, COALESCE(v_player.tier_price, v_price);
+    END IF;
+
+    INSERT INTO accelerated_round_players (accelerated_round_id, player_id, base_price)
+    VALUES (v_round_id, v_player.id, v_price);
+  END LOOP;
+
+  UPDATE accelerated_rounds
+  SET status = 'RUNNING', started_at = NOW()
+  WHERE id = v_round_id;
+
+  UPDATE rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE auction_id = p_auction_id AND status = 'OPEN';
+
+  -- First round; accelerated_rounds_base_price swaps in the reduced base price
+  SELECT p.id, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.auction_id = p_auction_id AND p.id::TEXT = v_queue[1];
+
+  v_base_price := NULL;
+  IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+    SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+  END IF;
+
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                      base_price, current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+          v_base_price, v_base_price, NULL, 0)
+  RETURNING id INTO v_opened_round_id;
+
+  v_queue_state := jsonb_build_object(
+    'auctionQueue', to_jsonb(v_queue),
+    'auctionIndex', 0,
+    'auctionStarted', TRUE,
+    'unsoldPlayers', to_jsonb(ARRAY(SELECT u FROM unnest(v_unsold) AS u WHERE u != ALL(v_queue))),
+    'deferredPlayers', '[]'::jsonb,
+    'auctionHistory', COALESCE(v_auction.queue_state->'auctionHistory', '[]'::jsonb)
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_opened_round_id;
+END;
+$$;
+
+-- 6. Close: cancel while picking, or end a running round once its queue has run out
+CREATE OR REPLACE FUNCTION close_accelerated_round(p_auction_id UUID)
+RETURNS SETOF accelerated_rounds
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_round RECORD;
+BEGIN
+  SELECT a.id, a.queue_state
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT r.id, r.status INTO v_round
+  FROM accelerated_rounds r
+  WHERE r.auction_id = p_auction_id AND r.status IN ('PICKING', 'RUNNING');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no accelerated round in progress' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_round.status = 'RUNNING'
+     AND COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0)
+       < jsonb_array_length(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)) THEN
+    RAISE EXCEPTION 'The accelerated round still has players in the queue';
+  END IF;
+
+  RETURN QUERY
+  UPDATE accelerated_rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE id = v_round.id
+  RETURNING *;
+END;
+$$;
+
+-- 7. Rounds opened for a player in a running accelerated round start at the reduced base price,
+-- whichever path opens them (start_accelerated_round, apply_auction_action, POST /round)
+CREATE OR REPLACE FUNCTION apply_accelerated_base_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_price INTEGER;
+BEGIN
+  SELECT arp.base_price INTO v_price
+  FROM accelerated_round_players arp
+  JOIN accelerated_rounds r ON r.id = arp.accelerated_round_id
+  WHERE r.auction_id = NEW.auction_id
+    AND r.status = 'RUNNING'
+    AND arp.player_id = NEW.player_id;
+
+  IF v_price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Open outcry rounds start with the base price as the standing bid
+  IF NEW.current_bid_amount IS NOT NULL AND NEW.current_bid_team_id IS NULL THEN
+    NEW.current_bid_amount := v_price;
+  END IF;
+  NEW.base_price := v_price;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rounds_accelerated_base_price ON rounds;
+CREATE TRIGGER rounds_accelerated_base_price
+  BEFORE INSERT ON rounds
+  FOR EACH ROW EXECUTE FUNCTION apply_accelerated_base_price();
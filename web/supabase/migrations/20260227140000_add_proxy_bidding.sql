@@ -0,0 +1,250 @@
+-- Migration: Captain wishlists and proxy bidding for open outcry
+-- A captain can put players on their team's wishlist with a max price. When one of those
+-- players is on the block, the server raises on the team's behalf through raise_paddle, one
+-- step at a time, up to that max and within the team's bid limit. bids.is_proxy marks those
+-- raises so the feeds can label them. See lib/proxy-bidder.ts.
+
+-- 1. Wishlist: one max price per team per player
+CREATE TABLE IF NOT EXISTS public.wishlist_entries (
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  max_price INTEGER NOT NULL CHECK (max_price > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (team_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_entries_player
+  ON public.wishlist_entries (auction_id, player_id);
+
+-- 2. RLS: a wishlist is only visible to the people who can bid for the team. Writes go
+-- through set_wishlist_entry (service role only); the proxy bidder reads with the service role.
+ALTER TABLE public.wishlist_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team managers can view their wishlist" ON public.wishlist_entries;
+CREATE POLICY "Team managers can view their wishlist" ON public.wishlist_entries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = wishlist_entries.team_id
+      AND (
+        t.captain_user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.auction_participations ap
+          WHERE ap.team_id = t.id
+          AND ap.user_id = auth.uid()
+          AND ap.role = ANY (ARRAY['OWNER'::participant_role, 'MODERATOR'::participant_role, 'CAPTAIN'::participant_role])
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.auction_participations ap
+          WHERE ap.auction_id = t.auction_id
+          AND ap.user_id = auth.uid()
+          AND ap.role = ANY (ARRAY['OWNER'::participant_role, 'MODERATOR'::participant_role])
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.auctions a
+          WHERE a.id = t.auction_id
+          AND a.owner_id = auth.uid()
+        )
+      )
+    )
+  );
+
+-- 3. Flag proxy bids
+ALTER TABLE bids ADD COLUMN IF NOT EXISTS is_proxy BOOLEAN NOT NULL DEFAULT false;
+
+-- 4. Set (or, with a NULL max price, clear) a wishlist entry. Runs as definer so captains can
+-- edit their own team's wishlist; only the service role may call it, once the route has
+-- checked team access.
+CREATE OR REPLACE FUNCTION set_wishlist_entry(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_max_price INTEGER
+) RETURNS SETOF wishlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_player RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM teams t WHERE t.id = p_team_id AND t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'Team does not belong to this auction';
+  END IF;
+
+  IF p_max_price IS NULL THEN
+    RETURN QUERY
+    DELETE FROM wishlist_entries w
+    WHERE w.team_id = p_team_id AND w.player_id = p_player_id
+    RETURNING *;
+    RETURN;
+  END IF;
+
+  SELECT p.id, p.name, t.base_price
+  INTO v_player
+  FROM players p
+  LEFT JOIN tiers t ON t.id = p.tier_id
+  WHERE p.id = p_player_id AND p.auction_id = p_auction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player not found in this auction' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p_player_id)
+     OR EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p_player_id) THEN
+    RAISE EXCEPTION '% is already on a team', v_player.name;
+  END IF;
+
+  IF p_max_price < COALESCE(v_player.base_price, 1) THEN
+    RAISE EXCEPTION 'Max price must be at least % (the tier base price)', COALESCE(v_player.base_price, 1);
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO wishlist_entries (auction_id, team_id, player_id, max_price)
+  VALUES (p_auction_id, p_team_id, p_player_id, p_max_price)
+  ON CONFLICT (team_id, player_id)
+  DO UPDATE SET max_price = EXCLUDED.max_price, updated_at = NOW()
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_wishlist_entry(UUID, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_wishlist_entry(UUID, UUID, UUID, INTEGER) TO service_role;
+
+-- 5. raise_paddle with p_is_proxy. Same checks as before; the flag only lands on the bid row.
+--    The signature changes, so drop the old one rather than leave an ambiguous overload behind.
+DROP FUNCTION IF EXISTS raise_paddle(UUID, UUID, UUID, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION raise_paddle(
+  p_round_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auction_id UUID,
+  p_timer_seconds INTEGER DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_is_proxy BOOLEAN DEFAULT false
+) RETURNS TABLE(new_amount INTEGER, new_sequence INTEGER, bid_id UUID, is_jump BOOLEAN)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_round RECORD;
+  v_config JSONB;
+  v_rules JSONB;
+  v_current_amount INTEGER;
+  v_base_price INTEGER;
+  v_min_amount INTEGER;
+  v_new_amount INTEGER;
+  v_new_sequence INTEGER;
+  v_bid_id UUID;
+  v_step INTEGER;
+  v_next INTEGER;
+  v_steps INTEGER := 0;
+BEGIN
+  -- Lock round row to prevent concurrent updates
+  SELECT r.id, r.current_bid_amount, r.base_price, r.bid_count, r.current_bid_team_id, r.status, r.closed_at,
+         r.tier_id, r.outcry_rules
+  INTO v_round
+  FROM rounds r
+  WHERE r.id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status != 'OPEN' THEN
+    RAISE EXCEPTION 'Round is not open for bidding';
+  END IF;
+
+  -- Cannot raise if your team already holds the highest bid
+  IF v_round.current_bid_team_id = p_team_id THEN
+    RAISE EXCEPTION 'Your team already holds the highest bid';
+  END IF;
+
+  -- Get auction outcry config
+  SELECT a.outcry_config
+  INTO v_config
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  IF v_round.closed_at IS NOT NULL AND v_round.closed_at <= NOW()
+     AND COALESCE(v_config->>'expiry_policy', 'SELL_ONLY') != 'MANUAL' THEN
+    RAISE EXCEPTION 'Bidding time has expired for this round';
+  END IF;
+
+  v_current_amount := COALESCE(v_round.current_bid_amount, v_round.base_price);
+  v_base_price := COALESCE(v_round.base_price, 0);
+
+  -- Rules in effect: round override, then tier override, then the auction default
+  v_rules := CASE
+    WHEN jsonb_typeof(v_round.outcry_rules) = 'array' AND jsonb_array_length(v_round.outcry_rules) > 0
+      THEN v_round.outcry_rules
+    WHEN jsonb_typeof(v_config->'tier_rules'->(v_round.tier_id::TEXT)) = 'array'
+         AND jsonb_array_length(v_config->'tier_rules'->(v_round.tier_id::TEXT)) > 0
+      THEN v_config->'tier_rules'->(v_round.tier_id::TEXT)
+    ELSE v_config->'rules'
+  END;
+
+  -- For the very first bid (bid_count = 0), the next step IS the base price (no increment)
+  IF v_round.bid_count = 0 THEN
+    v_min_amount := v_base_price;
+  ELSE
+    v_min_amount := v_current_amount + outcry_increment(v_rules, v_current_amount, v_base_price);
+  END IF;
+
+  IF p_amount IS NULL OR p_amount = v_min_amount THEN
+    v_new_amount := v_min_amount;
+  ELSE
+    IF p_amount < v_min_amount THEN
+      RAISE EXCEPTION 'Bid must be at least %', v_min_amount;
+    END IF;
+
+    IF (v_config->>'max_jump') IS NOT NULL
+       AND p_amount - v_min_amount > (v_config->>'max_jump')::INTEGER THEN
+      RAISE EXCEPTION 'Jump bids are capped at % above the next bid (max %)',
+        (v_config->>'max_jump')::INTEGER, v_min_amount + (v_config->>'max_jump')::INTEGER;
+    END IF;
+
+    -- Walk the ladder up from the next step; the amount has to land on a step exactly
+    v_step := v_min_amount;
+    LOOP
+      v_next := v_step + outcry_increment(v_rules, v_step, v_base_price);
+      EXIT WHEN v_next > p_amount OR v_next <= v_step;
+      v_step := v_next;
+      v_steps := v_steps + 1;
+      IF v_steps >= 1000 THEN
+        RAISE EXCEPTION 'Jump bid is too far above the current bid';
+      END IF;
+    END LOOP;
+
+    IF v_step != p_amount THEN
+      RAISE EXCEPTION '% is not a valid bid step — try % or %', p_amount, v_step, v_next;
+    END IF;
+
+    v_new_amount := p_amount;
+  END IF;
+
+  v_new_sequence := COALESCE(v_round.bid_count, 0) + 1;
+
+  -- Insert new bid
+  INSERT INTO bids (round_id, team_id, player_id, amount, submitted_at, sequence_number, is_jump, is_proxy)
+  VALUES (p_round_id, p_team_id, p_player_id, v_new_amount, NOW(), v_new_sequence, v_new_amount > v_min_amount, p_is_proxy)
+  RETURNING id INTO v_bid_id;
+
+  -- Update round state
+  UPDATE rounds
+  SET
+    current_bid_amount = v_new_amount,
+    current_bid_team_id = p_team_id,
+    bid_count = v_new_sequence,
+    closed_at = CASE
+      WHEN p_timer_seconds IS NOT NULL
+      THEN NOW() + (p_timer_seconds || ' seconds')::INTERVAL
+      ELSE closed_at
+    END
+  WHERE id = p_round_id;
+
+  RETURN QUERY SELECT v_new_amount, v_new_sequence, v_bid_id, v_new_amount > v_min_amount;
+END;
+$$;
@@ -0,0 +1,256 @@
+-- Migration: Nomination queue mode
+-- Instead of a pre-shuffled queue, teams take turns nominating the next player from the
+-- remaining pool, in a fixed or snake order, with an opening bid. The queue starts empty;
+-- each nomination appends the player to queue_state.auctionQueue and opens its round, so
+-- SOLD/UNSOLD/undo work exactly as in a shuffled queue. A team's turn starts when the
+-- previous round closes; once timer_seconds have passed anyone may trigger a random pick
+-- for that team (the auction owner can at any time). Teams with a full squad are skipped.
+-- See lib/nomination.ts.
+
+-- 1. Nomination settings and whose turn it is (one row per auction in nomination mode)
+CREATE TABLE IF NOT EXISTS public.auction_nominations (
+  auction_id UUID PRIMARY KEY REFERENCES public.auctions(id) ON DELETE CASCADE,
+  order_type TEXT NOT NULL DEFAULT 'SNAKE' CHECK (order_type IN ('SNAKE', 'FIXED')),
+  team_order UUID[] NOT NULL,
+  turn INTEGER NOT NULL DEFAULT 0 CHECK (turn >= 0),
+  timer_seconds INTEGER CHECK (timer_seconds > 0), -- NULL = no nomination timer
+  turn_started_at TIMESTAMPTZ,                     -- NULL while a nominated player is up
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. RLS: anyone who can see the auction can read; owners manage. Captains nominate
+-- through nominate_player.
+ALTER TABLE public.auction_nominations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Nominations are visible with the auction" ON public.auction_nominations;
+CREATE POLICY "Nominations are visible with the auction" ON public.auction_nominations
+FOR SELECT USING (public.is_auction_visible(auction_id));
+
+DROP POLICY IF EXISTS "Auction owners manage nominations" ON public.auction_nominations;
+CREATE POLICY "Auction owners manage nominations" ON public.auction_nominations
+FOR ALL USING (public.is_auction_owner(auction_id));
+
+-- 3. Team on the clock for a turn number, before skipping full squads. Mirrors
+-- getTurnTeamId() in lib/nomination.ts: SNAKE reverses direction every pass.
+CREATE OR REPLACE FUNCTION nomination_turn_team(
+  p_team_order UUID[],
+  p_order_type TEXT,
+  p_turn INTEGER
+) RETURNS UUID
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_count INTEGER := cardinality(p_team_order);
+  v_pass INTEGER;
+  v_pos INTEGER;
+BEGIN
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_pass := p_turn / v_count;
+  v_pos := p_turn % v_count;
+
+  IF p_order_type = 'SNAKE' AND v_pass % 2 = 1 THEN
+    v_pos := v_count - 1 - v_pos;
+  END IF;
+
+  RETURN p_team_order[v_pos + 1];
+END;
+$$;
+
+-- 4. Switch an auction into nomination mode (or reset its order) — owner only via RLS
+CREATE OR REPLACE FUNCTION start_nomination(
+  p_auction_id UUID,
+  p_order_type TEXT,
+  p_team_order UUID[],
+  p_timer_seconds INTEGER DEFAULT NULL
+) RETURNS SETOF auction_nominations
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF cardinality(p_team_order) = 0 THEN
+    RAISE EXCEPTION 'Nomination needs at least one team';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_team_order) AS o(team_id)
+    WHERE NOT EXISTS (SELECT 1 FROM teams t WHERE t.id = o.team_id AND t.auction_id = p_auction_id)
+  ) THEN
+    RAISE EXCEPTION 'Team does not belong to this auction';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO auction_nominations (auction_id, order_type, team_order, turn, timer_seconds, turn_started_at)
+  VALUES (p_auction_id, p_order_type, p_team_order, 0, p_timer_seconds, NOW())
+  ON CONFLICT (auction_id) DO UPDATE
+    SET order_type = EXCLUDED.order_type,
+        team_order = EXCLUDED.team_order,
+        turn = 0,
+        timer_seconds = EXCLUDED.timer_seconds,
+        turn_started_at = NOW()
+  RETURNING *;
+END;
+$$;
+
+-- 5. Nominate the next player. p_random = the timer fallback: pick at random from the pool
+-- for the team on the clock (p_team_id and p_player_id are ignored). Runs as definer so
+-- captains can open the round. Only the service role may call it: p_team_id is taken on
+-- trust, so the route checks team access (or round control for p_random) first.
+CREATE OR REPLACE FUNCTION nominate_player(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_random BOOLEAN DEFAULT FALSE
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID, nominated_player_id UUID, nominating_team_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_nomination RECORD;
+  v_queue TEXT[];
+  v_deferred TEXT[];
+  v_index INTEGER;
+  v_team_id UUID;
+  v_turn INTEGER;
+  v_i INTEGER;
+  v_player RECORD;
+  v_base_price INTEGER;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.squad_size
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  SELECT n.* INTO v_nomination
+  FROM auction_nominations n
+  WHERE n.auction_id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This auction is not in nomination mode';
+  END IF;
+
+  v_queue := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)));
+  v_deferred := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'deferredPlayers', '[]'::jsonb)));
+  v_index := COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0);
+
+  IF v_index < cardinality(v_queue)
+     OR EXISTS (SELECT 1 FROM rounds r WHERE r.auction_id = p_auction_id AND r.status = 'OPEN') THEN
+    RAISE EXCEPTION 'A player is already up — wait for the round to close';
+  END IF;
+
+  -- Team on the clock: walk forward from the current turn past teams with a full squad
+  FOR v_i IN 0 .. cardinality(v_nomination.team_order) - 1 LOOP
+    v_team_id := nomination_turn_team(v_nomination.team_order, v_nomination.order_type, v_nomination.turn + v_i);
+    IF (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11) THEN
+      v_turn := v_nomination.turn + v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_turn IS NULL THEN
+    RAISE EXCEPTION 'Every squad is full';
+  END IF;
+
+  IF p_random THEN
+    IF NOT public.is_auction_owner(p_auction_id) AND (
+      v_nomination.timer_seconds IS NULL
+      OR v_nomination.turn_started_at IS NULL
+      OR v_nomination.turn_started_at + make_interval(secs => v_nomination.timer_seconds) > NOW()
+    ) THEN
+      RAISE EXCEPTION 'The nomination timer has not run out yet';
+    END IF;
+  ELSIF p_team_id IS DISTINCT FROM v_team_id THEN
+    RAISE EXCEPTION 'It is not your turn to nominate';
+  END IF;
+
+  -- Pool: not on a team, not a captain, never put up (the queue keeps everyone nominated so far)
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.auction_id = p_auction_id
+    AND (p_random OR p.id = p_player_id)
+    AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id)
+    AND p.id::TEXT != ALL(v_queue)
+    AND p.id::TEXT != ALL(v_deferred)
+  ORDER BY CASE WHEN p_random THEN random() ELSE 0 END
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    IF p_random THEN
+      RAISE EXCEPTION 'There are no players left to nominate';
+    END IF;
+    RAISE EXCEPTION 'That player is not available to nominate';
+  END IF;
+
+  v_base_price := NULL;
+  IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+    SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+  END IF;
+
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                      base_price, current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+          v_base_price, v_base_price, NULL, 0)
+  RETURNING id INTO v_round_id;
+
+  v_queue_state := jsonb_set(
+    COALESCE(v_auction.queue_state, '{}'::jsonb) || jsonb_build_object('auctionStarted', TRUE),
+    '{auctionQueue}',
+    to_jsonb(v_queue || v_player.id::TEXT)
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  UPDATE auction_nominations
+  SET turn = v_turn + 1, turn_started_at = NULL
+  WHERE auction_id = p_auction_id;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id, v_player.id, v_team_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION nominate_player(UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION nominate_player(UUID, UUID, UUID, BOOLEAN) TO service_role;
+
+-- 6. The next team's clock starts when a round closes, and stops when one opens
+CREATE OR REPLACE FUNCTION track_nomination_turn()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE auction_nominations
+  SET turn_started_at = CASE WHEN NEW.status = 'OPEN' THEN NULL ELSE NOW() END
+  WHERE auction_id = NEW.auction_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rounds_track_nomination_turn ON rounds;
+CREATE TRIGGER rounds_track_nomination_turn
+  AFTER INSERT OR UPDATE OF status ON rounds
+  FOR EACH ROW
+  WHEN (NEW.status IN ('OPEN', 'CLOSED'))
+  EXECUTE FUNCTION track_nomination_turn();
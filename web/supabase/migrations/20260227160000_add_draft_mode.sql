@@ -0,0 +1,345 @@
+-- Migration: Draft mode (no money)
+-- bidding_type 'DRAFT': teams take turns picking players outright, in a snake or linear order,
+-- with a timer per pick. A pick is recorded like a sale — a CLOSED round for the player and an
+-- auction_results row at 0 — so squads, the live view and the tier/role max triggers all work
+-- unchanged. When a team's clock runs out, the server picks for it from the captain's ranked list
+-- (draft_rankings), falling back to the best player left. make_draft_pick checks tier minimums
+-- (mirroring lib/draft.ts). auctions.draft_config = { "order_type": "SNAKE" | "LINEAR", "pick_seconds": 60 | null }.
+
+-- 1. Bidding type and config
+ALTER TYPE bidding_type ADD VALUE IF NOT EXISTS 'DRAFT';
+
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS draft_config JSONB;
+
+-- 2. Pick order and whose turn it is (one row per drafting auction)
+CREATE TABLE IF NOT EXISTS public.auction_drafts (
+  auction_id UUID PRIMARY KEY REFERENCES public.auctions(id) ON DELETE CASCADE,
+  order_type TEXT NOT NULL DEFAULT 'SNAKE' CHECK (order_type IN ('SNAKE', 'LINEAR')),
+  team_order UUID[] NOT NULL,
+  pick INTEGER NOT NULL DEFAULT 0 CHECK (pick >= 0), -- picks made so far, skipped turns included
+  pick_seconds INTEGER CHECK (pick_seconds > 0),     -- NULL = no pick timer
+  pick_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'DONE')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.auction_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drafts are visible with the auction" ON public.auction_drafts;
+CREATE POLICY "Drafts are visible with the auction" ON public.auction_drafts
+FOR SELECT USING (public.is_auction_visible(auction_id));
+
+DROP POLICY IF EXISTS "Auction owners manage drafts" ON public.auction_drafts;
+CREATE POLICY "Auction owners manage drafts" ON public.auction_drafts
+FOR ALL USING (public.is_auction_owner(auction_id));
+
+-- 3. Each captain's ranked list, used for auto-picks
+CREATE TABLE IF NOT EXISTS public.draft_rankings (
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.players(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL CHECK (rank > 0),
+  PRIMARY KEY (team_id, player_id)
+);
+
+ALTER TABLE public.draft_rankings ENABLE ROW LEVEL SECURITY;
+
+-- Only the people who pick for the team see its list. Writes go through set_draft_rankings;
+-- auto-picks read with the service role.
+DROP POLICY IF EXISTS "Team managers can view their draft rankings" ON public.draft_rankings;
+CREATE POLICY "Team managers can view their draft rankings" ON public.draft_rankings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.teams t
+      WHERE t.id = draft_rankings.team_id
+      AND (
+        t.captain_user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.auction_participations ap
+          WHERE ap.team_id = t.id
+          AND ap.user_id = auth.uid()
+          AND ap.role = ANY (ARRAY['OWNER'::participant_role, 'MODERATOR'::participant_role, 'CAPTAIN'::participant_role])
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.auction_participations ap
+          WHERE ap.auction_id = t.auction_id
+          AND ap.user_id = auth.uid()
+          AND ap.role = ANY (ARRAY['OWNER'::participant_role, 'MODERATOR'::participant_role])
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.auctions a
+          WHERE a.id = t.auction_id
+          AND a.owner_id = auth.uid()
+        )
+      )
+    )
+  );
+
+-- 4. Replace a team's ranked list (first = most wanted). Runs as definer so captains can edit
+-- their own list. Only the service role may call it; the route checks team access first.
+CREATE OR REPLACE FUNCTION set_draft_rankings(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_ids UUID[]
+) RETURNS SETOF draft_rankings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM teams t WHERE t.id = p_team_id AND t.auction_id = p_auction_id) THEN
+    RAISE EXCEPTION 'Team does not belong to this auction';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_player_ids) AS r(player_id)
+    WHERE NOT EXISTS (SELECT 1 FROM players p WHERE p.id = r.player_id AND p.auction_id = p_auction_id)
+  ) THEN
+    RAISE EXCEPTION 'Player not found in this auction' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM draft_rankings dr WHERE dr.team_id = p_team_id;
+
+  RETURN QUERY
+  INSERT INTO draft_rankings (auction_id, team_id, player_id, rank)
+  SELECT p_auction_id, p_team_id, r.player_id, MIN(r.ord)::INTEGER
+  FROM unnest(p_player_ids) WITH ORDINALITY AS r(player_id, ord)
+  GROUP BY r.player_id
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_draft_rankings(UUID, UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_draft_rankings(UUID, UUID, UUID[]) TO service_role;
+
+-- 5. Start the draft — owner only via RLS. Order and timer come from auctions.draft_config.
+CREATE OR REPLACE FUNCTION start_draft(
+  p_auction_id UUID,
+  p_team_order UUID[]
+) RETURNS SETOF auction_drafts
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_config JSONB;
+BEGIN
+  SELECT a.draft_config INTO v_config
+  FROM auctions a
+  WHERE a.id = p_auction_id AND a.bidding_type::TEXT = 'DRAFT';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This auction is not a draft';
+  END IF;
+
+  IF cardinality(p_team_order) = 0 THEN
+    RAISE EXCEPTION 'A draft needs at least one team';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_team_order) AS o(team_id)
+    WHERE NOT EXISTS (SELECT 1 FROM teams t WHERE t.id = o.team_id AND t.auction_id = p_auction_id)
+  ) THEN
+    RAISE EXCEPTION 'Team does not belong to this auction';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO auction_drafts (auction_id, order_type, team_order, pick, pick_seconds, pick_started_at, status)
+  VALUES (
+    p_auction_id,
+    COALESCE(v_config->>'order_type', 'SNAKE'),
+    p_team_order,
+    0,
+    (v_config->>'pick_seconds')::INTEGER,
+    NOW(),
+    'ACTIVE'
+  )
+  ON CONFLICT (auction_id) DO UPDATE
+    SET order_type = EXCLUDED.order_type,
+        team_order = EXCLUDED.team_order,
+        pick = 0,
+        pick_seconds = EXCLUDED.pick_seconds,
+        pick_started_at = NOW(),
+        status = 'ACTIVE'
+  RETURNING *;
+END;
+$$;
+
+-- 6. Make a pick for the team on the clock. p_auto = the timer fallback: the route has already
+-- chosen the player from the team's ranked list, so p_team_id is ignored, and it is only allowed
+-- once the clock has run out (the auction owner can auto-pick at any time). Runs as definer so
+-- captains can record the pick. Only the service role may call it: the route checks team access
+-- (or round control for p_auto) first. Tier maximums are left to the auction_results triggers;
+-- tier minimums are checked here, so not even an auto-pick can break them.
+CREATE OR REPLACE FUNCTION make_draft_pick(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto BOOLEAN DEFAULT FALSE
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, round_id UUID, pick_number INTEGER, picking_team_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_draft RECORD;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_turn INTEGER;
+  v_i INTEGER;
+  v_player RECORD;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_done BOOLEAN;
+  v_needed INTEGER;
+  v_outstanding TEXT;
+  v_open_slots INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.squad_size
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  SELECT d.* INTO v_draft
+  FROM auction_drafts d
+  WHERE d.auction_id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_auction.bidding_type::TEXT != 'DRAFT' THEN
+    RAISE EXCEPTION 'This auction is not a draft';
+  END IF;
+
+  IF v_draft.status = 'DONE' THEN
+    RAISE EXCEPTION 'The draft is over';
+  END IF;
+
+  -- Team on the clock: walk forward from the current pick past teams with a full squad
+  FOR v_i IN 0 .. cardinality(v_draft.team_order) - 1 LOOP
+    v_team_id := nomination_turn_team(v_draft.team_order, v_draft.order_type, v_draft.pick + v_i);
+    IF (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11) THEN
+      v_turn := v_draft.pick + v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_turn IS NULL THEN
+    RAISE EXCEPTION 'Every squad is full';
+  END IF;
+
+  IF p_auto THEN
+    IF NOT public.is_auction_owner(p_auction_id) AND (
+      v_draft.pick_seconds IS NULL
+      OR v_draft.pick_started_at + make_interval(secs => v_draft.pick_seconds) > NOW()
+    ) THEN
+      RAISE EXCEPTION 'The pick timer has not run out yet';
+    END IF;
+  ELSIF p_team_id IS DISTINCT FROM v_team_id THEN
+    RAISE EXCEPTION 'It is not your pick';
+  END IF;
+
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.id = p_player_id
+    AND p.auction_id = p_auction_id
+    AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That player is not available';
+  END IF;
+
+  -- Every slot in a draft is filled by picking, so a pick can't leave fewer open slots than
+  -- the tier minimums the team still has to meet. Mirrors getTierMinimumError() in lib/draft.ts.
+  SELECT SUM(o.needed)::INTEGER, string_agg(o.needed || ' more ' || o.name, ', ' ORDER BY o.sort_order)
+  INTO v_needed, v_outstanding
+  FROM (
+    SELECT ti.name, ti.sort_order,
+      GREATEST(0, COALESCE(ti.min_per_team, 0) - (
+        SELECT COUNT(*) FROM auction_results ar
+        JOIN players p ON p.id = ar.player_id
+        WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id AND p.tier_id = ti.id
+      ) - CASE WHEN ti.id = v_player.tier_id THEN 1 ELSE 0 END) AS needed
+    FROM tiers ti
+    WHERE ti.auction_id = p_auction_id
+  ) o
+  WHERE o.needed > 0;
+
+  v_open_slots := COALESCE(v_auction.squad_size, 11) - (
+    SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+  ) - (
+    SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+  );
+
+  IF COALESCE(v_needed, 0) > v_open_slots - 1 THEN
+    RAISE EXCEPTION 'Your remaining picks have to meet the tier minimums: %', v_outstanding;
+  END IF;
+
+  SELECT t.name INTO v_team_name FROM teams t WHERE t.id = v_team_id;
+
+  -- The pick as a closed round, won outright at 0
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at, closed_at,
+                      current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'CLOSED', NOW(), NOW(),
+          0, v_team_id, 0)
+  RETURNING id INTO v_round_id;
+
+  -- Tier and role maximums are enforced by the auction_results triggers
+  INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+  VALUES (p_auction_id, v_player.id, v_team_id, 0, NOW());
+
+  v_queue_state := COALESCE(v_auction.queue_state, '{}'::jsonb);
+  v_queue_state := v_queue_state || jsonb_build_object(
+    'auctionQueue', COALESCE(v_queue_state->'auctionQueue', '[]'::jsonb) || to_jsonb(v_player.id::TEXT),
+    'auctionIndex', jsonb_array_length(COALESCE(v_queue_state->'auctionQueue', '[]'::jsonb)) + 1,
+    'auctionStarted', TRUE,
+    'auctionHistory', COALESCE(v_queue_state->'auctionHistory', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player.id, 'player', v_player.name,
+      'teamId', v_team_id, 'team', v_team_name,
+      'price', 0, 'action', 'DRAFTED'
+    ))
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  -- Over once nobody is left to pick or every squad is full
+  v_done := NOT EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.auction_id = p_auction_id
+      AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+      AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id)
+  ) OR NOT EXISTS (
+    SELECT 1 FROM unnest(v_draft.team_order) AS o(team_id)
+    WHERE (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = o.team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = o.team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11)
+  );
+
+  UPDATE auction_drafts
+  SET pick = v_turn + 1,
+      pick_started_at = NOW(),
+      status = CASE WHEN v_done THEN 'DONE' ELSE 'ACTIVE' END
+  WHERE auction_id = p_auction_id;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id, v_turn + 1, v_team_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION make_draft_pick(UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION make_draft_pick(UUID, UUID, UUID, BOOLEAN) TO service_role;
@@ -0,0 +1,8 @@
+-- Migration: Server-side seeded queue shuffle
+-- The player order is drawn on the server from a recorded seed instead of Math.random() in the
+-- auctioneer's browser. The record is public (same visibility as the auction) so anyone can
+-- rebuild the order through GET /api/auctions/:id/shuffle/verify.
+
+-- { "version": 1, "seed": "...", "mode": "random" | "tier-ordered" | "custom-mix",
+--   "buckets": [[player ids, sorted], ...], "queue": [player ids], "createdAt": "..." }
+ALTER TABLE auctions ADD COLUMN IF NOT EXISTS queue_shuffle JSONB;
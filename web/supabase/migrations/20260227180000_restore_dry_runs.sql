@@ -0,0 +1,37 @@
+-- Migration: Bring back dry_runs for the creation wizard's simulator
+-- 20260223010000 dropped the table because nothing wrote to it. POST /api/dry-runs now plays
+-- the draft setup out with bot captains (lib/dry-run.ts) and stores each run here, so the
+-- table comes back with the columns it had in 0001_initial_schema.sql.
+
+-- config_snapshot: DryRunConfig, including the seed, so the run can be replayed
+-- result_snapshot: DryRunResult; balance_score copies its balanceScore (0–100)
+-- recommendations: DryRunRecommendation[]
+CREATE TABLE IF NOT EXISTS public.dry_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  config_snapshot JSONB NOT NULL,
+  result_snapshot JSONB,
+  is_saved BOOLEAN NOT NULL DEFAULT FALSE,
+  balance_score REAL,
+  recommendations JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_dry_runs_owner
+  ON public.dry_runs (owner_id, created_at DESC);
+
+-- RLS: a dry run is private to whoever ran it
+ALTER TABLE public.dry_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own dry runs" ON public.dry_runs;
+CREATE POLICY "Users can view own dry runs" ON public.dry_runs
+  FOR SELECT USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create own dry runs" ON public.dry_runs;
+CREATE POLICY "Users can create own dry runs" ON public.dry_runs
+  FOR INSERT WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own dry runs" ON public.dry_runs;
+CREATE POLICY "Users can delete own dry runs" ON public.dry_runs
+  FOR DELETE USING (owner_id = auth.uid());
@@ -0,0 +1,41 @@
+-- Migration: Bot captains for practice and test auctions
+-- The owner can put a bot in charge of any team in a LOBBY or LIVE auction. While a round is
+-- open the server bids for bot teams through the same paths as people: validateAndSubmitBid
+-- for sealed rounds, raise_paddle for open outcry. Each bot follows a strategy from
+-- lib/bot-strategy.ts. See lib/bot-captain.ts.
+
+CREATE TABLE IF NOT EXISTS public.bot_captains (
+  team_id UUID PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  strategy TEXT NOT NULL DEFAULT 'VALUE' CHECK (strategy IN ('VALUE', 'ROLE_NEED', 'AGGRESSIVE')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bot_captains_auction
+  ON public.bot_captains (auction_id);
+
+-- RLS: anyone can see which teams are bots (the live view labels them); only the auction
+-- owner can add, change or remove one. The bot runner reads with the service role.
+ALTER TABLE public.bot_captains ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read bot captains" ON public.bot_captains;
+CREATE POLICY "Anyone can read bot captains" ON public.bot_captains
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Auction owners can add bot captains" ON public.bot_captains;
+CREATE POLICY "Auction owners can add bot captains" ON public.bot_captains
+  FOR INSERT WITH CHECK (
+    auction_id IN (SELECT id FROM public.auctions WHERE owner_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Auction owners can update bot captains" ON public.bot_captains;
+CREATE POLICY "Auction owners can update bot captains" ON public.bot_captains
+  FOR UPDATE USING (
+    auction_id IN (SELECT id FROM public.auctions WHERE owner_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Auction owners can remove bot captains" ON public.bot_captains;
+CREATE POLICY "Auction owners can remove bot captains" ON public.bot_captains
+  FOR DELETE USING (
+    auction_id IN (SELECT id FROM public.auctions WHERE owner_id = auth.uid())
+  );
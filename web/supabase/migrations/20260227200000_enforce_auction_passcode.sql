@@ -0,0 +1,104 @@
+-- Migration: Passcode-protected join for private auctions
+-- auctions.passcode has been in the schema since 0001 but nothing checked it. A private
+-- auction with a passcode now takes it on join: join_auction_with_passcode checks it,
+-- counts failed attempts per user and adds the participation. The passcode itself is only
+-- readable by the owner (through the auctions owner policy); everyone else goes through
+-- these functions. See lib/auction-passcode.ts.
+
+-- 1. Failed attempts, for rate limiting. Only the functions below read or write it.
+CREATE TABLE IF NOT EXISTS public.auction_passcode_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auction_passcode_attempts_user
+  ON public.auction_passcode_attempts (auction_id, user_id, attempted_at);
+
+ALTER TABLE public.auction_passcode_attempts ENABLE ROW LEVEL SECURITY;
+
+-- 2. Whether joining needs a passcode, without revealing anything else about the auction
+CREATE OR REPLACE FUNCTION auction_passcode_required(p_auction_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auctions
+    WHERE id = p_auction_id
+    AND visibility = 'PRIVATE'
+    AND COALESCE(TRIM(passcode), '') <> ''
+  );
+$$;
+
+-- 3. Check the passcode and join. Five wrong passcodes in fifteen minutes lock the user out
+-- of this auction until the oldest of them ages out; a right one clears the count.
+-- Passcodes compare trimmed and case-insensitively, matching normalizePasscode.
+-- Always joins the signed-in user (auth.uid()) as a VIEWER: a passcode only lets someone in
+-- to watch. Captains get their team through a team invite or from the auctioneer.
+DROP FUNCTION IF EXISTS join_auction_with_passcode(UUID, TEXT, participant_role, UUID);
+
+CREATE OR REPLACE FUNCTION join_auction_with_passcode(
+  p_auction_id UUID,
+  p_passcode TEXT
+) RETURNS TABLE(status TEXT, attempts_left INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_passcode TEXT;
+  v_failures INTEGER;
+  v_oldest TIMESTAMPTZ;
+  v_max_attempts CONSTANT INTEGER := 5;
+  v_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT a.passcode INTO v_passcode
+  FROM auctions a
+  WHERE a.id = p_auction_id AND a.visibility = 'PRIVATE';
+
+  IF NOT FOUND OR COALESCE(TRIM(v_passcode), '') = '' THEN
+    RETURN QUERY SELECT 'NOT_REQUIRED'::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*), MIN(pa.attempted_at) INTO v_failures, v_oldest
+  FROM auction_passcode_attempts pa
+  WHERE pa.auction_id = p_auction_id
+  AND pa.user_id = v_user_id
+  AND pa.attempted_at > NOW() - v_window;
+
+  IF v_failures >= v_max_attempts THEN
+    RETURN QUERY SELECT
+      'RATE_LIMITED'::TEXT,
+      0,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + v_window - NOW()))))::INTEGER;
+    RETURN;
+  END IF;
+
+  IF UPPER(TRIM(COALESCE(p_passcode, ''))) <> UPPER(TRIM(v_passcode)) THEN
+    INSERT INTO auction_passcode_attempts (auction_id, user_id) VALUES (p_auction_id, v_user_id);
+    RETURN QUERY SELECT 'WRONG_PASSCODE'::TEXT, v_max_attempts - v_failures - 1, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  DELETE FROM auction_passcode_attempts pa
+  WHERE pa.auction_id = p_auction_id AND pa.user_id = v_user_id;
+
+  INSERT INTO auction_participations (auction_id, user_id, role, team_id)
+  VALUES (p_auction_id, v_user_id, 'VIEWER', NULL)
+  ON CONFLICT (auction_id, user_id) DO NOTHING;
+
+  RETURN QUERY SELECT 'JOINED'::TEXT, NULL::INTEGER, NULL::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION join_auction_with_passcode(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION join_auction_with_passcode(UUID, TEXT) TO authenticated;
@@ -0,0 +1,30 @@
+-- Migration: Signed, expiring invite links for one team
+-- The owner mints an invite for a team as captain or viewer. The link carries a signed token
+-- (lib/invite-token.ts) naming the invite; this row is what the server checks for expiry and
+-- revocation when someone redeems it. Redeeming creates or links the user, adds them to the
+-- team through auction_participations and counts the use. Redemption runs with the service
+-- role because the recipient usually has no access to the auction yet.
+
+CREATE TABLE IF NOT EXISTS public.auction_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  role participant_role NOT NULL CHECK (role IN ('CAPTAIN', 'VIEWER')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  last_redeemed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_auction_invites_team
+  ON public.auction_invites (auction_id, team_id);
+
+-- Only the owner sees and manages invites
+ALTER TABLE public.auction_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Auction owners can manage invites" ON public.auction_invites;
+CREATE POLICY "Auction owners can manage invites" ON public.auction_invites
+  FOR ALL USING (public.is_auction_owner(auction_id))
+  WITH CHECK (public.is_auction_owner(auction_id));
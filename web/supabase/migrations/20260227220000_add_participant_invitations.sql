@@ -0,0 +1,105 @@
+-- Migration: Pending invitations for people who aren't users yet
+-- Importing a participant list used to stop at people who already had an account. Unknown
+-- emails now get a participant_invitations row and a queued email (email_outbox, sent by
+-- lib/email-outbox.ts). When someone signs up and their email is confirmed, every pending
+-- invitation for that email becomes an auction_participations row.
+
+-- 1. Invitations, one per email per auction
+CREATE TABLE IF NOT EXISTS public.participant_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  auction_id UUID NOT NULL REFERENCES public.auctions(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role participant_role NOT NULL CHECK (role IN ('CAPTAIN', 'MODERATOR', 'VIEWER')),
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'ACCEPTED', 'CANCELLED')),
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ,
+  accepted_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  UNIQUE (auction_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_participant_invitations_email
+  ON public.participant_invitations (LOWER(email)) WHERE status = 'PENDING';
+
+ALTER TABLE public.participant_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Auction owners can manage invitations" ON public.participant_invitations;
+CREATE POLICY "Auction owners can manage invitations" ON public.participant_invitations
+  FOR ALL USING (public.is_auction_owner(auction_id))
+  WITH CHECK (public.is_auction_owner(auction_id));
+
+-- 2. Outgoing email. Written and read with the service role only.
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL,
+  to_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  html_body TEXT,
+  status TEXT NOT NULL DEFAULT 'QUEUED' CHECK (status IN ('QUEUED', 'SENT', 'FAILED')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_queued
+  ON public.email_outbox (created_at) WHERE status = 'QUEUED';
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- 3. Turn a user's pending invitations into participations. Someone already in an auction
+-- keeps their existing participation. p_email is taken on trust, so only the confirmation
+-- trigger below (with the confirmed auth.users email) and the service role may call it.
+CREATE OR REPLACE FUNCTION public.accept_participant_invitations(p_user_id UUID, p_email TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_accepted INTEGER;
+BEGIN
+  INSERT INTO auction_participations (auction_id, user_id, role, team_id)
+  SELECT pi.auction_id, p_user_id, pi.role, pi.team_id
+  FROM participant_invitations pi
+  WHERE LOWER(pi.email) = LOWER(p_email) AND pi.status = 'PENDING'
+  ON CONFLICT (auction_id, user_id) DO NOTHING;
+
+  UPDATE participant_invitations
+  SET status = 'ACCEPTED', accepted_at = NOW(), accepted_user_id = p_user_id
+  WHERE LOWER(email) = LOWER(p_email) AND status = 'PENDING';
+
+  GET DIAGNOSTICS v_accepted = ROW_COUNT;
+  RETURN v_accepted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_participant_invitations(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_participant_invitations(UUID, TEXT) TO service_role;
+
+-- 4. Accept on a confirmed email only, so nobody can claim an invitation by signing up with
+-- an address they don't own. Auto-confirmed and OAuth sign-ups are confirmed on insert.
+-- The trigger name sorts after on_auth_user_created, so public.users already has the row.
+CREATE OR REPLACE FUNCTION public.handle_user_email_confirmed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.email_confirmed_at IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.email_confirmed_at IS NULL) THEN
+    PERFORM public.accept_participant_invitations(NEW.id, NEW.email);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER INSERT OR UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  EXECUTE PROCEDURE public.handle_user_email_confirmed();
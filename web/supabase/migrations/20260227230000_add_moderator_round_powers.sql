@@ -0,0 +1,342 @@
+-- Migration: Moderators run rounds
+-- MODERATOR participants can open and close rounds and mark players SOLD/UNSOLD, but not change
+-- the auction's setup or delete it (see lib/auction-permissions.ts). The API checks the role and
+-- runs a moderator's round actions with the service role, since the table policies stay owner-only.
+-- The owner-only shortcuts inside nominate_player (random pick before the timer runs out) and
+-- make_draft_pick (auto pick before the clock runs out) now also accept moderators and the
+-- service role. Both stay executable by the service role only.
+
+-- 1. Owner, OWNER/MODERATOR participant, or the server acting for one
+CREATE OR REPLACE FUNCTION public.is_auction_moderator(p_auction_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_auction_owner(p_auction_id)
+    OR auth.role() = 'service_role'
+    OR EXISTS (
+      SELECT 1 FROM public.auction_participations
+      WHERE auction_id = p_auction_id
+        AND user_id = auth.uid()
+        AND role IN ('OWNER', 'MODERATOR')
+    );
+$$;
+
+-- 2. nominate_player: moderators can force a random nomination
+CREATE OR REPLACE FUNCTION nominate_player(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_random BOOLEAN DEFAULT FALSE
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID, nominated_player_id UUID, nominating_team_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_nomination RECORD;
+  v_queue TEXT[];
+  v_deferred TEXT[];
+  v_index INTEGER;
+  v_team_id UUID;
+  v_turn INTEGER;
+  v_i INTEGER;
+  v_player RECORD;
+  v_base_price INTEGER;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.squad_size
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  SELECT n.* INTO v_nomination
+  FROM auction_nominations n
+  WHERE n.auction_id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This auction is not in nomination mode';
+  END IF;
+
+  v_queue := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)));
+  v_deferred := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'deferredPlayers', '[]'::jsonb)));
+  v_index := COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0);
+
+  IF v_index < cardinality(v_queue)
+     OR EXISTS (SELECT 1 FROM rounds r WHERE r.auction_id = p_auction_id AND r.status = 'OPEN') THEN
+    RAISE EXCEPTION 'A player is already up — wait for the round to close';
+  END IF;
+
+  -- Team on the clock: walk forward from the current turn past teams with a full squad
+  FOR v_i IN 0 .. cardinality(v_nomination.team_order) - 1 LOOP
+    v_team_id := nomination_turn_team(v_nomination.team_order, v_nomination.order_type, v_nomination.turn + v_i);
+    IF (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11) THEN
+      v_turn := v_nomination.turn + v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_turn IS NULL THEN
+    RAISE EXCEPTION 'Every squad is full';
+  END IF;
+
+  IF p_random THEN
+    IF NOT public.is_auction_moderator(p_auction_id) AND (
+      v_nomination.timer_seconds IS NULL
+      OR v_nomination.turn_started_at IS NULL
+      OR v_nomination.turn_started_at + make_interval(secs => v_nomination.timer_seconds) > NOW()
+    ) THEN
+      RAISE EXCEPTION 'The nomination timer has not run out yet';
+    END IF;
+  ELSIF p_team_id IS DISTINCT FROM v_team_id THEN
+    RAISE EXCEPTION 'It is not your turn to nominate';
+  END IF;
+
+  -- Pool: not on a team, not a captain, never put up (the queue keeps everyone nominated so far)
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.auction_id = p_auction_id
+    AND (p_random OR p.id = p_player_id)
+    AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id)
+    AND p.id::TEXT != ALL(v_queue)
+    AND p.id::TEXT != ALL(v_deferred)
+  ORDER BY CASE WHEN p_random THEN random() ELSE 0 END
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    IF p_random THEN
+      RAISE EXCEPTION 'There are no players left to nominate';
+    END IF;
+    RAISE EXCEPTION 'That player is not available to nominate';
+  END IF;
+
+  v_base_price := NULL;
+  IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+    SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+  END IF;
+
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                      base_price, current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+          v_base_price, v_base_price, NULL, 0)
+  RETURNING id INTO v_round_id;
+
+  v_queue_state := jsonb_set(
+    COALESCE(v_auction.queue_state, '{}'::jsonb) || jsonb_build_object('auctionStarted', TRUE),
+    '{auctionQueue}',
+    to_jsonb(v_queue || v_player.id::TEXT)
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  UPDATE auction_nominations
+  SET turn = v_turn + 1, turn_started_at = NULL
+  WHERE auction_id = p_auction_id;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id, v_player.id, v_team_id;
+END;
+$$;
+
+-- Still service-role only, as in 20260227150000 (the route checks the caller first)
+REVOKE EXECUTE ON FUNCTION nominate_player(UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION nominate_player(UUID, UUID, UUID, BOOLEAN) TO service_role;
+
+-- 3. make_draft_pick: moderators can pick for the team on the clock
+CREATE OR REPLACE FUNCTION make_draft_pick(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auto BOOLEAN DEFAULT FALSE
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, round_id UUID, pick_number INTEGER, picking_team_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_draft RECORD;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_turn INTEGER;
+  v_i INTEGER;
+  v_player RECORD;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_done BOOLEAN;
+  v_needed INTEGER;
+  v_outstanding TEXT;
+  v_open_slots INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.squad_size
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  SELECT d.* INTO v_draft
+  FROM auction_drafts d
+  WHERE d.auction_id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_auction.bidding_type::TEXT != 'DRAFT' THEN
+    RAISE EXCEPTION 'This auction is not a draft';
+  END IF;
+
+  IF v_draft.status = 'DONE' THEN
+    RAISE EXCEPTION 'The draft is over';
+  END IF;
+
+  -- Team on the clock: walk forward from the current pick past teams with a full squad
+  FOR v_i IN 0 .. cardinality(v_draft.team_order) - 1 LOOP
+    v_team_id := nomination_turn_team(v_draft.team_order, v_draft.order_type, v_draft.pick + v_i);
+    IF (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11) THEN
+      v_turn := v_draft.pick + v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_turn IS NULL THEN
+    RAISE EXCEPTION 'Every squad is full';
+  END IF;
+
+  IF p_auto THEN
+    IF NOT public.is_auction_moderator(p_auction_id) AND (
+      v_draft.pick_seconds IS NULL
+      OR v_draft.pick_started_at + make_interval(secs => v_draft.pick_seconds) > NOW()
+    ) THEN
+      RAISE EXCEPTION 'The pick timer has not run out yet';
+    END IF;
+  ELSIF p_team_id IS DISTINCT FROM v_team_id THEN
+    RAISE EXCEPTION 'It is not your pick';
+  END IF;
+
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.id = p_player_id
+    AND p.auction_id = p_auction_id
+    AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That player is not available';
+  END IF;
+
+  -- Every slot in a draft is filled by picking, so a pick can't leave fewer open slots than
+  -- the tier minimums the team still has to meet. Mirrors getTierMinimumError() in lib/draft.ts.
+  SELECT SUM(o.needed)::INTEGER, string_agg(o.needed || ' more ' || o.name, ', ' ORDER BY o.sort_order)
+  INTO v_needed, v_outstanding
+  FROM (
+    SELECT ti.name, ti.sort_order,
+      GREATEST(0, COALESCE(ti.min_per_team, 0) - (
+        SELECT COUNT(*) FROM auction_results ar
+        JOIN players p ON p.id = ar.player_id
+        WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id AND p.tier_id = ti.id
+      ) - CASE WHEN ti.id = v_player.tier_id THEN 1 ELSE 0 END) AS needed
+    FROM tiers ti
+    WHERE ti.auction_id = p_auction_id
+  ) o
+  WHERE o.needed > 0;
+
+  v_open_slots := COALESCE(v_auction.squad_size, 11) - (
+    SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+  ) - (
+    SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+  );
+
+  IF COALESCE(v_needed, 0) > v_open_slots - 1 THEN
+    RAISE EXCEPTION 'Your remaining picks have to meet the tier minimums: %', v_outstanding;
+  END IF;
+
+  SELECT t.name INTO v_team_name FROM teams t WHERE t.id = v_team_id;
+
+  -- The pick as a closed round, won outright at 0
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at, closed_at,
+                      current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'CLOSED', NOW(), NOW(),
+          0, v_team_id, 0)
+  RETURNING id INTO v_round_id;
+
+  -- Tier and role maximums are enforced by the auction_results triggers
+  INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+  VALUES (p_auction_id, v_player.id, v_team_id, 0, NOW());
+
+  v_queue_state := COALESCE(v_auction.queue_state, '{}'::jsonb);
+  v_queue_state := v_queue_state || jsonb_build_object(
+    'auctionQueue', COALESCE(v_queue_state->'auctionQueue', '[]'::jsonb) || to_jsonb(v_player.id::TEXT),
+    'auctionIndex', jsonb_array_length(COALESCE(v_queue_state->'auctionQueue', '[]'::jsonb)) + 1,
+    'auctionStarted', TRUE,
+    'auctionHistory', COALESCE(v_queue_state->'auctionHistory', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player.id, 'player', v_player.name,
+      'teamId', v_team_id, 'team', v_team_name,
+      'price', 0, 'action', 'DRAFTED'
+    ))
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  -- Over once nobody is left to pick or every squad is full
+  v_done := NOT EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.auction_id = p_auction_id
+      AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+      AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id)
+  ) OR NOT EXISTS (
+    SELECT 1 FROM unnest(v_draft.team_order) AS o(team_id)
+    WHERE (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = o.team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = o.team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11)
+  );
+
+  UPDATE auction_drafts
+  SET pick = v_turn + 1,
+      pick_started_at = NOW(),
+      status = CASE WHEN v_done THEN 'DONE' ELSE 'ACTIVE' END
+  WHERE auction_id = p_auction_id;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id, v_turn + 1, v_team_id;
+END;
+$$;
+
+-- Still service-role only, as in 20260227160000 (the route checks the caller first)
+REVOKE EXECUTE ON FUNCTION make_draft_pick(UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION make_draft_pick(UUID, UUID, UUID, BOOLEAN) TO service_role;
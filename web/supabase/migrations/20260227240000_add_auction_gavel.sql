@@ -0,0 +1,19 @@
+-- Migration: Auctioneer gavel
+-- Only one browser should drive /auction/[id] at a time. auction_gavels records which user and
+-- which browser session (a per-tab ID the auctioneer page sends as x-gavel-session) holds the
+-- gavel; round routes turn away any other session. The holder's page sends a heartbeat, and a
+-- gavel without one for a while goes to the next owner or moderator who acts. A handover offers
+-- the gavel to one user, who takes it by claiming. See lib/auction-gavel.ts.
+
+CREATE TABLE IF NOT EXISTS public.auction_gavels (
+  auction_id UUID PRIMARY KEY REFERENCES public.auctions(id) ON DELETE CASCADE,
+  holder_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  offered_to_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  offered_at TIMESTAMPTZ
+);
+
+-- Written and read with the service role only: session IDs must not leak to other clients
+ALTER TABLE public.auction_gavels ENABLE ROW LEVEL SECURITY;
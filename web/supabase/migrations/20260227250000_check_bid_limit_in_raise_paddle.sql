@@ -0,0 +1,221 @@
+-- Migration: Bid limit inside raise_paddle
+-- The raise route checked the team's bid limit (budget less what it must hold back to fill its
+-- squad at base price, see lib/budget-utils.ts) before calling raise_paddle, outside the round
+-- lock, and proxy raises relied on the same kind of check. team_bid_limit() is that calculation
+-- in SQL, and raise_paddle now applies it to the amount it is about to write.
+
+-- 1. Same rule as calculateBidLimit/loadBidLimit
+CREATE OR REPLACE FUNCTION team_bid_limit(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_for_tier_id UUID DEFAULT NULL
+) RETURNS TABLE(remaining INTEGER, reserve INTEGER, max_bid INTEGER)
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_auction RECORD;
+  v_remaining INTEGER;
+  v_team_count INTEGER;
+  v_auctionable INTEGER;
+  v_acquired INTEGER;
+  v_squad_size INTEGER;
+  v_slots_after INTEGER;
+  v_tier_slots INTEGER;
+  v_tier_reserve INTEGER;
+  v_cheapest INTEGER;
+  v_reserve INTEGER;
+BEGIN
+  SELECT a.budget_per_team, a.squad_size INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  SELECT tb.budget_remaining INTO v_remaining
+  FROM team_budgets tb
+  WHERE tb.team_id = p_team_id;
+  v_remaining := COALESCE(v_remaining, v_auction.budget_per_team, 0);
+
+  SELECT COUNT(*) INTO v_team_count FROM teams t WHERE t.auction_id = p_auction_id;
+
+  -- Captains aren't auctioned
+  SELECT COUNT(*) INTO v_auctionable
+  FROM players p
+  WHERE p.auction_id = p_auction_id
+    AND NOT EXISTS (
+      SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id
+    );
+
+  SELECT COUNT(*) INTO v_acquired
+  FROM auction_results ar
+  WHERE ar.auction_id = p_auction_id AND ar.team_id = p_team_id;
+
+  v_squad_size := LEAST(COALESCE(v_auction.squad_size, 0), v_auctionable / GREATEST(1, v_team_count));
+  v_slots_after := GREATEST(0, GREATEST(0, v_squad_size - v_acquired) - 1);
+
+  -- Slots still owed to tier minimums (buying from a tier counts towards it)
+  SELECT
+    COALESCE(SUM(needed), 0)::INTEGER,
+    COALESCE(SUM(needed * base_price), 0)::INTEGER,
+    COALESCE(MIN(base_price), 0)::INTEGER
+  INTO v_tier_slots, v_tier_reserve, v_cheapest
+  FROM (
+    SELECT
+      ti.base_price,
+      GREATEST(0, COALESCE(ti.min_per_team, 0)
+        - (SELECT COUNT(*) FROM auction_results ar
+           JOIN players p ON p.id = ar.player_id
+           WHERE ar.auction_id = p_auction_id AND ar.team_id = p_team_id AND p.tier_id = ti.id)
+        - CASE WHEN ti.id = p_for_tier_id THEN 1 ELSE 0 END) AS needed
+    FROM tiers ti
+    WHERE ti.auction_id = p_auction_id
+  ) tier_needs;
+
+  v_reserve := CASE
+    WHEN v_slots_after > 0 THEN v_tier_reserve + GREATEST(0, v_slots_after - v_tier_slots) * v_cheapest
+    ELSE 0
+  END;
+
+  RETURN QUERY SELECT v_remaining, v_reserve, GREATEST(0, v_remaining - v_reserve);
+END;
+$$;
+
+-- 2. raise_paddle as in 20260227140000, plus the bid limit check before the bid is written
+CREATE OR REPLACE FUNCTION raise_paddle(
+  p_round_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_auction_id UUID,
+  p_timer_seconds INTEGER DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_is_proxy BOOLEAN DEFAULT false
+) RETURNS TABLE(new_amount INTEGER, new_sequence INTEGER, bid_id UUID, is_jump BOOLEAN)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_round RECORD;
+  v_config JSONB;
+  v_rules JSONB;
+  v_current_amount INTEGER;
+  v_base_price INTEGER;
+  v_min_amount INTEGER;
+  v_new_amount INTEGER;
+  v_new_sequence INTEGER;
+  v_bid_id UUID;
+  v_step INTEGER;
+  v_next INTEGER;
+  v_steps INTEGER := 0;
+  v_limit RECORD;
+BEGIN
+  -- Lock round row to prevent concurrent updates
+  SELECT r.id, r.current_bid_amount, r.base_price, r.bid_count, r.current_bid_team_id, r.status, r.closed_at,
+         r.tier_id, r.outcry_rules
+  INTO v_round
+  FROM rounds r
+  WHERE r.id = p_round_id
+  FOR UPDATE;
+
+  IF v_round IS NULL THEN
+    RAISE EXCEPTION 'Round not found';
+  END IF;
+
+  IF v_round.status != 'OPEN' THEN
+    RAISE EXCEPTION 'Round is not open for bidding';
+  END IF;
+
+  -- Cannot raise if your team already holds the highest bid
+  IF v_round.current_bid_team_id = p_team_id THEN
+    RAISE EXCEPTION 'Your team already holds the highest bid';
+  END IF;
+
+  -- Get auction outcry config
+  SELECT a.outcry_config
+  INTO v_config
+  FROM auctions a
+  WHERE a.id = p_auction_id;
+
+  IF v_round.closed_at IS NOT NULL AND v_round.closed_at <= NOW()
+     AND COALESCE(v_config->>'expiry_policy', 'SELL_ONLY') != 'MANUAL' THEN
+    RAISE EXCEPTION 'Bidding time has expired for this round';
+  END IF;
+
+  v_current_amount := COALESCE(v_round.current_bid_amount, v_round.base_price);
+  v_base_price := COALESCE(v_round.base_price, 0);
+
+  -- Rules in effect: round override, then tier override, then the auction default
+  v_rules := CASE
+    WHEN jsonb_typeof(v_round.outcry_rules) = 'array' AND jsonb_array_length(v_round.outcry_rules) > 0
+      THEN v_round.outcry_rules
+    WHEN jsonb_typeof(v_config->'tier_rules'->(v_round.tier_id::TEXT)) = 'array'
+         AND jsonb_array_length(v_config->'tier_rules'->(v_round.tier_id::TEXT)) > 0
+      THEN v_config->'tier_rules'->(v_round.tier_id::TEXT)
+    ELSE v_config->'rules'
+  END;
+
+  -- For the very first bid (bid_count = 0), the next step IS the base price (no increment)
+  IF v_round.bid_count = 0 THEN
+    v_min_amount := v_base_price;
+  ELSE
+    v_min_amount := v_current_amount + outcry_increment(v_rules, v_current_amount, v_base_price);
+  END IF;
+
+  IF p_amount IS NULL OR p_amount = v_min_amount THEN
+    v_new_amount := v_min_amount;
+  ELSE
+    IF p_amount < v_min_amount THEN
+      RAISE EXCEPTION 'Bid must be at least %', v_min_amount;
+    END IF;
+
+    IF (v_config->>'max_jump') IS NOT NULL
+       AND p_amount - v_min_amount > (v_config->>'max_jump')::INTEGER THEN
+      RAISE EXCEPTION 'Jump bids are capped at % above the next bid (max %)',
+        (v_config->>'max_jump')::INTEGER, v_min_amount + (v_config->>'max_jump')::INTEGER;
+    END IF;
+
+    -- Walk the ladder up from the next step; the amount has to land on a step exactly
+    v_step := v_min_amount;
+    LOOP
+      v_next := v_step + outcry_increment(v_rules, v_step, v_base_price);
+      EXIT WHEN v_next > p_amount OR v_next <= v_step;
+      v_step := v_next;
+      v_steps := v_steps + 1;
+      IF v_steps >= 1000 THEN
+        RAISE EXCEPTION 'Jump bid is too far above the current bid';
+      END IF;
+    END LOOP;
+
+    IF v_step != p_amount THEN
+      RAISE EXCEPTION '% is not a valid bid step — try % or %', p_amount, v_step, v_next;
+    END IF;
+
+    v_new_amount := p_amount;
+  END IF;
+
+  -- Budget under the round lock, so neither concurrent raises nor proxy raises overspend
+  SELECT * INTO v_limit FROM team_bid_limit(p_auction_id, p_team_id, v_round.tier_id);
+  IF v_new_amount > v_limit.max_bid THEN
+    IF v_limit.reserve > 0 THEN
+      RAISE EXCEPTION 'You can bid up to % — % is held back to complete your squad', v_limit.max_bid, v_limit.reserve;
+    END IF;
+    RAISE EXCEPTION 'Insufficient budget';
+  END IF;
+
+  v_new_sequence := COALESCE(v_round.bid_count, 0) + 1;
+
+  -- Insert new bid
+  INSERT INTO bids (round_id, team_id, player_id, amount, submitted_at, sequence_number, is_jump, is_proxy)
+  VALUES (p_round_id, p_team_id, p_player_id, v_new_amount, NOW(), v_new_sequence, v_new_amount > v_min_amount, p_is_proxy)
+  RETURNING id INTO v_bid_id;
+
+  -- Update round state
+  UPDATE rounds
+  SET
+    current_bid_amount = v_new_amount,
+    current_bid_team_id = p_team_id,
+    bid_count = v_new_sequence,
+    closed_at = CASE
+      WHEN p_timer_seconds IS NOT NULL
+      THEN NOW() + (p_timer_seconds || ' seconds')::INTERVAL
+      ELSE closed_at
+    END
+  WHERE id = p_round_id;
+
+  RETURN QUERY SELECT v_new_amount, v_new_sequence, v_bid_id, v_new_amount > v_min_amount;
+END;
+$$;
@@ -0,0 +1,797 @@
+-- Migration: Nominations, draft picks and accelerated starts join the event log
+-- nominate_player, make_draft_pick and start_accelerated_round all write queue_state without
+-- an event, so the queue_version chain in auction_event_stacks broke after every one of them
+-- and the undo/redo stacks reset. They now append an event like SOLD/UNSOLD/DEFER do, with a
+-- before-snapshot that UNDO restores. They can be undone but not redone: a reverted NOMINATE,
+-- PICK or ACCELERATE leaves the stacks instead of going onto the redo stack, since the turn
+-- (or the captains' picks) has moved on. claim_rtm only moves an auction_results row and leaves
+-- queue_state alone; undoing the sale voids the claim (void_rtm_offers_on_result_delete).
+--
+-- details layout (on top of 20260227030000):
+--   NOMINATE:   { seq, beforeVersion, afterVersion, playerId, playerName, teamId, teamName,
+--                 price: 0, redoOf: null, random, before: { queueState, openRoundIds, nomination: { turn } },
+--                 openedRoundId }
+--   PICK:       { seq, beforeVersion, afterVersion, playerId, playerName, teamId, teamName,
+--                 price: 0, redoOf: null, auto, before: { queueState, openRoundIds, draft: { pick, status } },
+--                 roundId }
+--   ACCELERATE: { seq, beforeVersion, afterVersion, playerId, playerName (first player up),
+--                 price: 0, redoOf: null, acceleratedRoundId, before: { queueState, openRoundIds },
+--                 openedRoundId }
+
+-- 1. Stacks: NOMINATE/PICK/ACCELERATE are forward events that an UNDO drops instead of
+-- moving to the redo stack. Mirrored in src/lib/auction-events.ts.
+CREATE OR REPLACE FUNCTION auction_event_stacks(p_auction_id UUID, p_current_version INTEGER)
+RETURNS TABLE(done UUID[], redo UUID[])
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_event RECORD;
+  v_done UUID[] := '{}';
+  v_redo UUID[] := '{}';
+  v_final UUID[] := '{}';
+  v_last_version INTEGER;
+  v_id UUID;
+BEGIN
+  FOR v_event IN
+    SELECT l.id, l.action, l.details
+    FROM audit_logs l
+    WHERE l.auction_id = p_auction_id
+      AND l.action IN ('SOLD', 'UNSOLD', 'DEFER', 'NOMINATE', 'PICK', 'ACCELERATE', 'UNDO')
+      AND l.details ? 'seq'
+    ORDER BY (l.details->>'seq')::INTEGER
+  LOOP
+    IF v_last_version IS NOT NULL
+       AND (v_event.details->>'beforeVersion')::INTEGER IS DISTINCT FROM v_last_version THEN
+      v_done := '{}';
+      v_redo := '{}';
+    END IF;
+
+    IF v_event.action = 'UNDO' THEN
+      FOR v_id IN SELECT (jsonb_array_elements_text(v_event.details->'reverted'))::UUID LOOP
+        v_done := array_remove(v_done, v_id);
+        IF NOT v_id = ANY(v_final) THEN
+          v_redo := v_redo || v_id;
+        END IF;
+      END LOOP;
+    ELSE
+      IF v_event.details->>'redoOf' IS NOT NULL THEN
+        v_redo := array_remove(v_redo, (v_event.details->>'redoOf')::UUID);
+      ELSE
+        v_redo := '{}';
+      END IF;
+      v_done := v_done || v_event.id;
+
+      IF v_event.action IN ('NOMINATE', 'PICK', 'ACCELERATE') THEN
+        v_final := v_final || v_event.id;
+      END IF;
+    END IF;
+
+    v_last_version := (v_event.details->>'afterVersion')::INTEGER;
+  END LOOP;
+
+  IF v_last_version IS DISTINCT FROM p_current_version THEN
+    v_done := '{}';
+    v_redo := '{}';
+  END IF;
+
+  RETURN QUERY SELECT v_done, v_redo;
+END;
+$$;
+
+-- 2. apply_auction_action: UNDO also reverts nominations, picks and accelerated starts
+CREATE OR REPLACE FUNCTION apply_auction_action(
+  p_auction_id UUID,
+  p_action TEXT,
+  p_user_id UUID,
+  p_team_id UUID DEFAULT NULL,
+  p_amount INTEGER DEFAULT NULL,
+  p_expected_version INTEGER DEFAULT NULL,
+  p_target_event_id UUID DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_done UUID[];
+  v_redo UUID[];
+  v_pos INTEGER;
+  v_event RECORD;
+  v_reverted UUID[] := '{}';
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_round_id UUID;
+  v_seq INTEGER;
+  i INTEGER;
+BEGIN
+  IF p_action NOT IN ('SOLD', 'UNSOLD', 'DEFER', 'UNDO', 'REDO') THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  -- Lock auction row so concurrent actions on the same auction serialize
+  SELECT a.id, a.status, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version != v_auction.queue_version THEN
+    RAISE EXCEPTION 'Auction state changed since it was loaded — refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF p_action IN ('SOLD', 'UNSOLD', 'DEFER') THEN
+    RETURN QUERY SELECT * FROM auction_action_forward(p_auction_id, p_action, p_team_id, p_amount, p_user_id);
+    RETURN;
+  END IF;
+
+  SELECT s.done, s.redo INTO v_done, v_redo
+  FROM auction_event_stacks(p_auction_id, v_auction.queue_version) s;
+
+  IF p_action = 'REDO' THEN
+    IF cardinality(v_redo) = 0 THEN
+      RAISE EXCEPTION 'Nothing to redo';
+    END IF;
+
+    SELECT l.id, l.action, l.details INTO v_event
+    FROM audit_logs l
+    WHERE l.id = v_redo[cardinality(v_redo)];
+
+    IF v_auction.queue_state->'auctionQueue'->>((v_auction.queue_state->>'auctionIndex')::INTEGER)
+       IS DISTINCT FROM v_event.details->>'playerId' THEN
+      RAISE EXCEPTION 'Cannot redo: % is no longer on the block', v_event.details->>'playerName';
+    END IF;
+
+    RETURN QUERY SELECT * FROM auction_action_forward(
+      p_auction_id, v_event.action,
+      (v_event.details->>'teamId')::UUID, (v_event.details->>'price')::INTEGER,
+      p_user_id, v_event.id
+    );
+    RETURN;
+  END IF;
+
+  -- UNDO
+  IF cardinality(v_done) = 0 THEN
+    RAISE EXCEPTION 'Nothing to undo';
+  END IF;
+
+  v_pos := array_position(v_done, COALESCE(p_target_event_id, v_done[cardinality(v_done)]));
+  IF v_pos IS NULL THEN
+    RAISE EXCEPTION 'That action has already been undone or can no longer be reverted';
+  END IF;
+
+  -- Revert newest first; intermediate round open/close toggles cancel out
+  FOR i IN REVERSE cardinality(v_done)..v_pos LOOP
+    SELECT l.id, l.action, l.details INTO v_event
+    FROM audit_logs l
+    WHERE l.id = v_done[i];
+
+    IF v_event.action = 'SOLD' THEN
+      DELETE FROM auction_results ar
+      WHERE ar.auction_id = p_auction_id
+        AND ar.player_id = (v_event.details->>'playerId')::UUID;
+
+      IF jsonb_typeof(v_event.details->'before'->'result') = 'object' THEN
+        INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+        VALUES (p_auction_id, (v_event.details->>'playerId')::UUID,
+                (v_event.details->'before'->'result'->>'teamId')::UUID,
+                (v_event.details->'before'->'result'->>'amount')::INTEGER, NOW());
+      END IF;
+
+      UPDATE bids
+      SET is_winning_bid = FALSE
+      WHERE id IN (
+        SELECT (jsonb_array_elements_text(COALESCE(v_event.details->'winningBidIds', '[]'::jsonb)))::UUID
+      );
+    ELSIF v_event.action = 'NOMINATE' THEN
+      -- Closing the nominated round below restarts the turn timer (track_nomination_turn)
+      UPDATE auction_nominations
+      SET turn = (v_event.details->'before'->'nomination'->>'turn')::INTEGER
+      WHERE auction_id = p_auction_id;
+    ELSIF v_event.action = 'PICK' THEN
+      DELETE FROM auction_results ar
+      WHERE ar.auction_id = p_auction_id
+        AND ar.player_id = (v_event.details->>'playerId')::UUID;
+
+      DELETE FROM rounds r
+      WHERE r.id = (v_event.details->>'roundId')::UUID;
+
+      -- The team gets a fresh clock rather than whatever was left of the old one
+      UPDATE auction_drafts
+      SET pick = (v_event.details->'before'->'draft'->>'pick')::INTEGER,
+          status = v_event.details->'before'->'draft'->>'status',
+          pick_started_at = NOW()
+      WHERE auction_id = p_auction_id;
+    ELSIF v_event.action = 'ACCELERATE' THEN
+      -- Only one accelerated round can be in progress; cancel any opened since
+      UPDATE accelerated_rounds
+      SET status = 'CLOSED', closed_at = NOW()
+      WHERE auction_id = p_auction_id
+        AND status = 'PICKING'
+        AND id != (v_event.details->>'acceleratedRoundId')::UUID;
+
+      DELETE FROM accelerated_round_players
+      WHERE accelerated_round_id = (v_event.details->>'acceleratedRoundId')::UUID;
+
+      -- Back to picking, with the captains' picks untouched
+      UPDATE accelerated_rounds
+      SET status = 'PICKING', started_at = NULL, closed_at = NULL
+      WHERE id = (v_event.details->>'acceleratedRoundId')::UUID;
+    END IF;
+
+    UPDATE rounds
+    SET status = 'CLOSED', closed_at = NOW()
+    WHERE id = (v_event.details->>'openedRoundId')::UUID AND status = 'OPEN';
+
+    -- Reopen with bid state intact; closed_at doubles as the outcry timer, so clear it
+    UPDATE rounds
+    SET status = 'OPEN', closed_at = NULL
+    WHERE id IN (
+      SELECT (jsonb_array_elements_text(COALESCE(v_event.details->'before'->'openRoundIds', '[]'::jsonb)))::UUID
+    );
+
+    v_reverted := v_reverted || v_event.id;
+    v_queue_state := v_event.details->'before'->'queueState';
+  END LOOP;
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  SELECT COALESCE(MAX((l.details->>'seq')::INTEGER), 0) + 1 INTO v_seq
+  FROM audit_logs l
+  WHERE l.auction_id = p_auction_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (p_auction_id, p_user_id, 'UNDO', jsonb_build_object(
+    'seq', v_seq,
+    'beforeVersion', v_auction.queue_version,
+    'afterVersion', v_version,
+    'reverted', to_jsonb(v_reverted)
+  ));
+
+  SELECT r.id INTO v_round_id
+  FROM rounds r
+  WHERE r.auction_id = p_auction_id AND r.status = 'OPEN'
+  ORDER BY r.opened_at DESC
+  LIMIT 1;
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id;
+END;
+$$;
+
+-- 3. nominate_player: logged as NOMINATE; p_user_id is who nominated (or forced the random pick)
+DROP FUNCTION IF EXISTS nominate_player(UUID, UUID, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION nominate_player(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_user_id UUID,
+  p_random BOOLEAN DEFAULT FALSE
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID, nominated_player_id UUID, nominating_team_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_nomination RECORD;
+  v_queue TEXT[];
+  v_deferred TEXT[];
+  v_index INTEGER;
+  v_team_id UUID;
+  v_turn INTEGER;
+  v_i INTEGER;
+  v_player RECORD;
+  v_base_price INTEGER;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_seq INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version, a.squad_size
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  SELECT n.* INTO v_nomination
+  FROM auction_nominations n
+  WHERE n.auction_id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This auction is not in nomination mode';
+  END IF;
+
+  v_queue := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'auctionQueue', '[]'::jsonb)));
+  v_deferred := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'deferredPlayers', '[]'::jsonb)));
+  v_index := COALESCE((v_auction.queue_state->>'auctionIndex')::INTEGER, 0);
+
+  IF v_index < cardinality(v_queue)
+     OR EXISTS (SELECT 1 FROM rounds r WHERE r.auction_id = p_auction_id AND r.status = 'OPEN') THEN
+    RAISE EXCEPTION 'A player is already up — wait for the round to close';
+  END IF;
+
+  -- Team on the clock: walk forward from the current turn past teams with a full squad
+  FOR v_i IN 0 .. cardinality(v_nomination.team_order) - 1 LOOP
+    v_team_id := nomination_turn_team(v_nomination.team_order, v_nomination.order_type, v_nomination.turn + v_i);
+    IF (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11) THEN
+      v_turn := v_nomination.turn + v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_turn IS NULL THEN
+    RAISE EXCEPTION 'Every squad is full';
+  END IF;
+
+  IF p_random THEN
+    IF NOT public.is_auction_moderator(p_auction_id) AND (
+      v_nomination.timer_seconds IS NULL
+      OR v_nomination.turn_started_at IS NULL
+      OR v_nomination.turn_started_at + make_interval(secs => v_nomination.timer_seconds) > NOW()
+    ) THEN
+      RAISE EXCEPTION 'The nomination timer has not run out yet';
+    END IF;
+  ELSIF p_team_id IS DISTINCT FROM v_team_id THEN
+    RAISE EXCEPTION 'It is not your turn to nominate';
+  END IF;
+
+  -- Pool: not on a team, not a captain, never put up (the queue keeps everyone nominated so far)
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.auction_id = p_auction_id
+    AND (p_random OR p.id = p_player_id)
+    AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id)
+    AND p.id::TEXT != ALL(v_queue)
+    AND p.id::TEXT != ALL(v_deferred)
+  ORDER BY CASE WHEN p_random THEN random() ELSE 0 END
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    IF p_random THEN
+      RAISE EXCEPTION 'There are no players left to nominate';
+    END IF;
+    RAISE EXCEPTION 'That player is not available to nominate';
+  END IF;
+
+  v_base_price := NULL;
+  IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+    SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+  END IF;
+
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                      base_price, current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+          v_base_price, v_base_price, NULL, 0)
+  RETURNING id INTO v_round_id;
+
+  v_queue_state := jsonb_set(
+    COALESCE(v_auction.queue_state, '{}'::jsonb) || jsonb_build_object('auctionStarted', TRUE),
+    '{auctionQueue}',
+    to_jsonb(v_queue || v_player.id::TEXT)
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  UPDATE auction_nominations
+  SET turn = v_turn + 1, turn_started_at = NULL
+  WHERE auction_id = p_auction_id;
+
+  SELECT COALESCE(MAX((l.details->>'seq')::INTEGER), 0) + 1 INTO v_seq
+  FROM audit_logs l
+  WHERE l.auction_id = p_auction_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (p_auction_id, p_user_id, 'NOMINATE', jsonb_build_object(
+    'seq', v_seq,
+    'beforeVersion', v_auction.queue_version,
+    'afterVersion', v_version,
+    'playerId', v_player.id,
+    'playerName', v_player.name,
+    'teamId', v_team_id,
+    'teamName', (SELECT t.name FROM teams t WHERE t.id = v_team_id),
+    'price', 0,
+    'redoOf', NULL,
+    'random', p_random,
+    'before', jsonb_build_object(
+      'queueState', v_auction.queue_state,
+      'openRoundIds', '[]'::jsonb,
+      'nomination', jsonb_build_object('turn', v_nomination.turn)
+    ),
+    'openedRoundId', v_round_id
+  ));
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id, v_player.id, v_team_id;
+END;
+$$;
+
+-- Still service-role only, as in 20260227230000 (the route checks the caller first)
+REVOKE EXECUTE ON FUNCTION nominate_player(UUID, UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION nominate_player(UUID, UUID, UUID, UUID, BOOLEAN) TO service_role;
+
+-- 4. make_draft_pick: logged as PICK; p_user_id is who picked (or forced the auto pick)
+DROP FUNCTION IF EXISTS make_draft_pick(UUID, UUID, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION make_draft_pick(
+  p_auction_id UUID,
+  p_team_id UUID,
+  p_player_id UUID,
+  p_user_id UUID,
+  p_auto BOOLEAN DEFAULT FALSE
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, round_id UUID, pick_number INTEGER, picking_team_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auction RECORD;
+  v_draft RECORD;
+  v_team_id UUID;
+  v_team_name TEXT;
+  v_turn INTEGER;
+  v_i INTEGER;
+  v_player RECORD;
+  v_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_done BOOLEAN;
+  v_needed INTEGER;
+  v_outstanding TEXT;
+  v_open_slots INTEGER;
+  v_seq INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version, a.squad_size
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  SELECT d.* INTO v_draft
+  FROM auction_drafts d
+  WHERE d.auction_id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_auction.bidding_type::TEXT != 'DRAFT' THEN
+    RAISE EXCEPTION 'This auction is not a draft';
+  END IF;
+
+  IF v_draft.status = 'DONE' THEN
+    RAISE EXCEPTION 'The draft is over';
+  END IF;
+
+  -- Team on the clock: walk forward from the current pick past teams with a full squad
+  FOR v_i IN 0 .. cardinality(v_draft.team_order) - 1 LOOP
+    v_team_id := nomination_turn_team(v_draft.team_order, v_draft.order_type, v_draft.pick + v_i);
+    IF (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11) THEN
+      v_turn := v_draft.pick + v_i;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_turn IS NULL THEN
+    RAISE EXCEPTION 'Every squad is full';
+  END IF;
+
+  IF p_auto THEN
+    IF NOT public.is_auction_moderator(p_auction_id) AND (
+      v_draft.pick_seconds IS NULL
+      OR v_draft.pick_started_at + make_interval(secs => v_draft.pick_seconds) > NOW()
+    ) THEN
+      RAISE EXCEPTION 'The pick timer has not run out yet';
+    END IF;
+  ELSIF p_team_id IS DISTINCT FROM v_team_id THEN
+    RAISE EXCEPTION 'It is not your pick';
+  END IF;
+
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.id = p_player_id
+    AND p.auction_id = p_auction_id
+    AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+    AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That player is not available';
+  END IF;
+
+  -- Every slot in a draft is filled by picking, so a pick can't leave fewer open slots than
+  -- the tier minimums the team still has to meet. Mirrors getTierMinimumError() in lib/draft.ts.
+  SELECT SUM(o.needed)::INTEGER, string_agg(o.needed || ' more ' || o.name, ', ' ORDER BY o.sort_order)
+  INTO v_needed, v_outstanding
+  FROM (
+    SELECT ti.name, ti.sort_order,
+      GREATEST(0, COALESCE(ti.min_per_team, 0) - (
+        SELECT COUNT(*) FROM auction_results ar
+        JOIN players p ON p.id = ar.player_id
+        WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id AND p.tier_id = ti.id
+      ) - CASE WHEN ti.id = v_player.tier_id THEN 1 ELSE 0 END) AS needed
+    FROM tiers ti
+    WHERE ti.auction_id = p_auction_id
+  ) o
+  WHERE o.needed > 0;
+
+  v_open_slots := COALESCE(v_auction.squad_size, 11) - (
+    SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = v_team_id
+  ) - (
+    SELECT COUNT(*) FROM teams t WHERE t.id = v_team_id AND t.captain_player_id IS NOT NULL
+  );
+
+  IF COALESCE(v_needed, 0) > v_open_slots - 1 THEN
+    RAISE EXCEPTION 'Your remaining picks have to meet the tier minimums: %', v_outstanding;
+  END IF;
+
+  SELECT t.name INTO v_team_name FROM teams t WHERE t.id = v_team_id;
+
+  -- The pick as a closed round, won outright at 0
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at, closed_at,
+                      current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'CLOSED', NOW(), NOW(),
+          0, v_team_id, 0)
+  RETURNING id INTO v_round_id;
+
+  -- Tier and role maximums are enforced by the auction_results triggers
+  INSERT INTO auction_results (auction_id, player_id, team_id, winning_bid_amount, assigned_at)
+  VALUES (p_auction_id, v_player.id, v_team_id, 0, NOW());
+
+  v_queue_state := COALESCE(v_auction.queue_state, '{}'::jsonb);
+  v_queue_state := v_queue_state || jsonb_build_object(
+    'auctionQueue', COALESCE(v_queue_state->'auctionQueue', '[]'::jsonb) || to_jsonb(v_player.id::TEXT),
+    'auctionIndex', jsonb_array_length(COALESCE(v_queue_state->'auctionQueue', '[]'::jsonb)) + 1,
+    'auctionStarted', TRUE,
+    'auctionHistory', COALESCE(v_queue_state->'auctionHistory', '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'playerId', v_player.id, 'player', v_player.name,
+      'teamId', v_team_id, 'team', v_team_name,
+      'price', 0, 'action', 'DRAFTED'
+    ))
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  -- Over once nobody is left to pick or every squad is full
+  v_done := NOT EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.auction_id = p_auction_id
+      AND NOT EXISTS (SELECT 1 FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.player_id = p.id)
+      AND NOT EXISTS (SELECT 1 FROM teams t WHERE t.auction_id = p_auction_id AND t.captain_player_id = p.id)
+  ) OR NOT EXISTS (
+    SELECT 1 FROM unnest(v_draft.team_order) AS o(team_id)
+    WHERE (
+      SELECT COUNT(*) FROM auction_results ar WHERE ar.auction_id = p_auction_id AND ar.team_id = o.team_id
+    ) + (
+      SELECT COUNT(*) FROM teams t WHERE t.id = o.team_id AND t.captain_player_id IS NOT NULL
+    ) < COALESCE(v_auction.squad_size, 11)
+  );
+
+  UPDATE auction_drafts
+  SET pick = v_turn + 1,
+      pick_started_at = NOW(),
+      status = CASE WHEN v_done THEN 'DONE' ELSE 'ACTIVE' END
+  WHERE auction_id = p_auction_id;
+
+  SELECT COALESCE(MAX((l.details->>'seq')::INTEGER), 0) + 1 INTO v_seq
+  FROM audit_logs l
+  WHERE l.auction_id = p_auction_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (p_auction_id, p_user_id, 'PICK', jsonb_build_object(
+    'seq', v_seq,
+    'beforeVersion', v_auction.queue_version,
+    'afterVersion', v_version,
+    'playerId', v_player.id,
+    'playerName', v_player.name,
+    'teamId', v_team_id,
+    'teamName', v_team_name,
+    'price', 0,
+    'redoOf', NULL,
+    'auto', p_auto,
+    'before', jsonb_build_object(
+      'queueState', v_auction.queue_state,
+      'openRoundIds', '[]'::jsonb,
+      'draft', jsonb_build_object('pick', v_draft.pick, 'status', v_draft.status)
+    ),
+    'roundId', v_round_id
+  ));
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_round_id, v_turn + 1, v_team_id;
+END;
+$$;
+
+-- Still service-role only, as in 20260227230000 (the route checks the caller first)
+REVOKE EXECUTE ON FUNCTION make_draft_pick(UUID, UUID, UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION make_draft_pick(UUID, UUID, UUID, UUID, BOOLEAN) TO service_role;
+
+-- 5. start_accelerated_round: logged as ACCELERATE, so it no longer resets the undo/redo stacks
+DROP FUNCTION IF EXISTS start_accelerated_round(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION start_accelerated_round(
+  p_auction_id UUID,
+  p_user_id UUID,
+  p_base_prices JSONB DEFAULT '{}'::jsonb,
+  p_expected_version INTEGER DEFAULT NULL
+) RETURNS TABLE(new_queue_state JSONB, new_version INTEGER, opened_round_id UUID)
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_auction RECORD;
+  v_round_id UUID;
+  v_unsold TEXT[];
+  v_queue TEXT[];
+  v_player RECORD;
+  v_price INTEGER;
+  v_base_price INTEGER;
+  v_open_round_ids UUID[];
+  v_opened_round_id UUID;
+  v_queue_state JSONB;
+  v_version INTEGER;
+  v_seq INTEGER;
+BEGIN
+  SELECT a.id, a.status, a.bidding_type, a.queue_state, a.queue_version
+  INTO v_auction
+  FROM auctions a
+  WHERE a.id = p_auction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auction not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_auction.status != 'LIVE' THEN
+    RAISE EXCEPTION 'Auction is not live';
+  END IF;
+
+  IF p_expected_version IS NOT NULL AND p_expected_version != v_auction.queue_version THEN
+    RAISE EXCEPTION 'Auction state changed since it was loaded — refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  SELECT r.id INTO v_round_id
+  FROM accelerated_rounds r
+  WHERE r.auction_id = p_auction_id AND r.status = 'PICKING'
+  FOR UPDATE;
+
+  IF v_round_id IS NULL THEN
+    RAISE EXCEPTION 'There is no accelerated round waiting to start';
+  END IF;
+
+  v_unsold := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_auction.queue_state->'unsoldPlayers', '[]'::jsonb)));
+
+  -- Picked players, in the order they went unsold
+  v_queue := ARRAY(
+    SELECT u.pid
+    FROM unnest(v_unsold) WITH ORDINALITY AS u(pid, ord)
+    WHERE EXISTS (
+      SELECT 1 FROM accelerated_picks ap
+      WHERE ap.accelerated_round_id = v_round_id AND ap.player_id::TEXT = u.pid
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM auction_results ar
+      WHERE ar.auction_id = p_auction_id AND ar.player_id::TEXT = u.pid
+    )
+    ORDER BY u.ord
+  );
+
+  IF cardinality(v_queue) = 0 THEN
+    RAISE EXCEPTION 'No captain has picked an unsold player yet';
+  END IF;
+
+  FOR v_player IN
+    SELECT p.id, p.name, t.base_price AS tier_price
+    FROM players p
+    LEFT JOIN tiers t ON t.id = p.tier_id
+    WHERE p.auction_id = p_auction_id AND p.id::TEXT = ANY(v_queue)
+  LOOP
+    v_price := NULLIF(p_base_prices->>(v_player.id::TEXT), '')::INTEGER;
+
+    IF v_price IS NOT NULL AND (v_price < 1 OR (v_player.tier_price IS NOT NULL AND v_price > v_player.tier_price)) THEN
+      RAISE EXCEPTION 'Reduced base price for % must be between 1 and %', v_player.name, COALESCE(v_player.tier_price, v_price);
+    END IF;
+
+    INSERT INTO accelerated_round_players (accelerated_round_id, player_id, base_price)
+    VALUES (v_round_id, v_player.id, v_price);
+  END LOOP;
+
+  UPDATE accelerated_rounds
+  SET status = 'RUNNING', started_at = NOW()
+  WHERE id = v_round_id;
+
+  v_open_round_ids := ARRAY(
+    SELECT r.id FROM rounds r WHERE r.auction_id = p_auction_id AND r.status = 'OPEN'
+  );
+
+  UPDATE rounds
+  SET status = 'CLOSED', closed_at = NOW()
+  WHERE id = ANY(v_open_round_ids);
+
+  -- First round; accelerated_rounds_base_price swaps in the reduced base price
+  SELECT p.id, p.name, p.tier_id INTO v_player
+  FROM players p
+  WHERE p.auction_id = p_auction_id AND p.id::TEXT = v_queue[1];
+
+  v_base_price := NULL;
+  IF v_auction.bidding_type = 'OPEN_OUTCRY' AND v_player.tier_id IS NOT NULL THEN
+    SELECT t.base_price INTO v_base_price FROM tiers t WHERE t.id = v_player.tier_id;
+  END IF;
+
+  INSERT INTO rounds (auction_id, player_id, tier_id, status, opened_at,
+                      base_price, current_bid_amount, current_bid_team_id, bid_count)
+  VALUES (p_auction_id, v_player.id, v_player.tier_id, 'OPEN', NOW(),
+          v_base_price, v_base_price, NULL, 0)
+  RETURNING id INTO v_opened_round_id;
+
+  v_queue_state := jsonb_build_object(
+    'auctionQueue', to_jsonb(v_queue),
+    'auctionIndex', 0,
+    'auctionStarted', TRUE,
+    'unsoldPlayers', to_jsonb(ARRAY(SELECT u FROM unnest(v_unsold) AS u WHERE u != ALL(v_queue))),
+    'deferredPlayers', '[]'::jsonb,
+    'auctionHistory', COALESCE(v_auction.queue_state->'auctionHistory', '[]'::jsonb)
+  );
+
+  UPDATE auctions
+  SET queue_state = v_queue_state
+  WHERE id = p_auction_id
+  RETURNING queue_version INTO v_version;
+
+  SELECT COALESCE(MAX((l.details->>'seq')::INTEGER), 0) + 1 INTO v_seq
+  FROM audit_logs l
+  WHERE l.auction_id = p_auction_id;
+
+  INSERT INTO audit_logs (auction_id, user_id, action, details)
+  VALUES (p_auction_id, p_user_id, 'ACCELERATE', jsonb_build_object(
+    'seq', v_seq,
+    'beforeVersion', v_auction.queue_version,
+    'afterVersion', v_version,
+    'playerId', v_player.id,
+    'playerName', v_player.name,
+    'price', 0,
+    'redoOf', NULL,
+    'acceleratedRoundId', v_round_id,
+    'before', jsonb_build_object(
+      'queueState', v_auction.queue_state,
+      'openRoundIds', to_jsonb(v_open_round_ids)
+    ),
+    'openedRoundId', v_opened_round_id
+  ));
+
+  RETURN QUERY SELECT v_queue_state, v_version, v_opened_round_id;
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Migration: The queue shuffle can only be drawn once
+-- POST /api/auctions/:id/shuffle could be re-rolled any number of times before the auction went
+-- LIVE, so an auctioneer could keep drawing until the order suited them. The first draw now
+-- stands: the route refuses a second one, and this trigger stops the record being rewritten
+-- through any other path. PUT /api/auctions/:id/state starts the auction from the recorded
+-- queue rather than the page's copy.
+
+CREATE OR REPLACE FUNCTION lock_queue_shuffle() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF OLD.queue_shuffle IS NOT NULL AND NEW.queue_shuffle IS DISTINCT FROM OLD.queue_shuffle THEN
+    RAISE EXCEPTION 'The player queue has already been drawn';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS auctions_lock_queue_shuffle ON auctions;
+CREATE TRIGGER auctions_lock_queue_shuffle
+  BEFORE UPDATE OF queue_shuffle ON auctions
+  FOR EACH ROW EXECUTE FUNCTION lock_queue_shuffle();